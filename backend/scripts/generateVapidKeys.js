@@ -0,0 +1,7 @@
+// Print a VAPID key pair for web push, ready to paste into .env.
+// Usage: node scripts/generateVapidKeys.js
+import { generateVapidKeys } from "../src/utils/webPush.js";
+
+const { publicKey, privateKey } = generateVapidKeys();
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
@@ -0,0 +1,22 @@
+// Catch outgoing email locally instead of sending it; each message is saved as a .eml file.
+// Usage: node scripts/mailSink.js [port]   (then run the API with SMTP_LOCAL_SINK=true, or SMTP_HOST=localhost SMTP_PORT=<port>)
+import fs from "fs";
+import path from "path";
+import { createSmtpSink } from "../src/utils/email/smtpSink.js";
+
+const port = Number(process.argv[2]) || 1025;
+const outDir = process.env.MAIL_SINK_DIR || path.join(process.cwd(), 'storage', 'mail');
+fs.mkdirSync(outDir, { recursive: true });
+
+const server = createSmtpSink({
+  port,
+  onMessage: ({ from, to, raw }) => {
+    const subject = /^Subject: (.*)$/m.exec(raw)?.[1] || '(no subject)';
+    const file = path.join(outDir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${to[0]}.eml`);
+    fs.writeFileSync(file, raw);
+    console.log(`📧 ${from} → ${to.join(', ')}: ${subject}`);
+    console.log(`   saved ${file}`);
+  }
+});
+
+server.on('listening', () => console.log(`📭 Mail sink listening on smtp://localhost:${port}, saving to ${outDir}`));
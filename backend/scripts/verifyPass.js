@@ -0,0 +1,23 @@
+// Verify a downloaded ticket pass bundle offline.
+// Usage: node scripts/verifyPass.js ticket.pkpass [trusted-cert.pem]
+import fs from "fs";
+import { verifyPassBundle } from "../src/utils/walletPass.js";
+
+const [bundlePath, certPath] = process.argv.slice(2);
+if (!bundlePath) {
+  console.error('Usage: node scripts/verifyPass.js <bundle.pkpass> [trusted-cert.pem]');
+  process.exit(1);
+}
+
+const result = verifyPassBundle(
+  fs.readFileSync(bundlePath),
+  certPath ? fs.readFileSync(certPath, 'utf8') : undefined
+);
+
+if (result.valid) {
+  console.log(`✅ Valid pass ${result.pass?.serialNumber} signed by ${result.signer}`);
+} else {
+  console.error('❌ Invalid pass:');
+  result.errors.forEach(error => console.error(`  • ${error}`));
+  process.exit(1);
+}
@@ -12,6 +12,10 @@ import { Server as SocketIOServer } from "socket.io";
 import { connectDB } from "./src/config/db.js";
 import { notFound, errorHandler } from "./src/middleware/errorHandler.js";
 import { socketAuth, handleConnection } from "./src/socket/socketHandlers.js";
+import { startHoldSweeper } from "./src/utils/holds.js";
+import { registerDeliveryChannel } from "./src/utils/notify.js";
+import { deliverPush } from "./src/utils/webPush.js";
+import { deliverEmail, startEmailOutbox } from "./src/utils/email/index.js";
 
 import authRoutes from "./src/routes/authRoutes.js";
 import eventRoutes from "./src/routes/eventRoutes.js";
@@ -22,6 +26,16 @@ import uploadRoutes from "./src/routes/uploadRoutes.js";
 import analyticsRoutes from "./src/routes/analyticsRoutes.js";
 import paymentReceiptRoutes from "./src/routes/paymentReceiptRoutes.js";
 import ticketRoutes from "./src/routes/ticketRoutes.js";
+import waitlistRoutes from "./src/routes/waitlistRoutes.js";
+import checkInRoutes from "./src/routes/checkInRoutes.js";
+import paymentRoutes from "./src/routes/paymentRoutes.js";
+import exchangeRateRoutes from "./src/routes/exchangeRateRoutes.js";
+import payoutRoutes from "./src/routes/payoutRoutes.js";
+import invoiceRoutes from "./src/routes/invoiceRoutes.js";
+import mockGatewayRoutes from "./src/routes/mockGatewayRoutes.js";
+import { mockGatewayEnabled } from "./src/utils/payments/index.js";
+import mockPushRoutes from "./src/routes/mockPushRoutes.js";
+import { mockPushEnabled } from "./src/utils/mockPushService.js";
 
 dotenv.config();
 const app = express();
@@ -30,6 +44,8 @@ const httpServer = createServer(app);
 // Core middleware
 app.use(helmet());
 app.use(cors());
+// Payment webhooks are verified against the exact bytes received, so keep them raw
+app.use("/api/payments/webhook", express.raw({ type: "*/*", limit: "1mb" }));
 app.use(express.json({ limit: "2mb" }));
 app.use(express.urlencoded({ extended: true }));
 app.use(morgan("dev"));
@@ -60,6 +76,28 @@ app.use("/api/upload", uploadRoutes);
 app.use("/api/analytics", analyticsRoutes);
 app.use("/api/payment-receipts", paymentReceiptRoutes);
 app.use("/api/tickets", ticketRoutes);
+app.use("/api/waitlist", waitlistRoutes);
+app.use("/api/checkins", checkInRoutes);
+app.use("/api/payments", paymentRoutes);
+app.use("/api/exchange-rates", exchangeRateRoutes);
+app.use("/api/payouts", payoutRoutes);
+app.use("/api/invoices", invoiceRoutes);
+
+// Local stand-in for the payment gateway (development and tests only)
+if (mockGatewayEnabled()) {
+  app.use("/api/mock-gateway", mockGatewayRoutes);
+  console.log('🧪 Mock payment gateway mounted at /api/mock-gateway');
+}
+
+// Local stand-in for a browser push service (development and tests only)
+if (mockPushEnabled()) {
+  app.use("/api/mock-push", mockPushRoutes);
+  console.log('🧪 Mock push service mounted at /api/mock-push');
+}
+
+// Notification channels delivered outside the app
+registerDeliveryChannel('push', deliverPush);
+registerDeliveryChannel('email', deliverEmail);
 
 // Socket.IO setup
 const io = new SocketIOServer(httpServer, {
@@ -89,6 +127,11 @@ const PORT = process.env.PORT || 5000;
 const URI = process.env.MONGODB_URI || process.env.MONGO_URI || "mongodb://localhost:27017/event_platform";
 
 connectDB(URI).then(()=>{
+  // Expire unpaid booking holds in the background
+  startHoldSweeper();
+  // Send queued transactional email, retrying failures
+  startEmailOutbox();
+
   httpServer.listen(PORT, ()=> {
     const backendUrl = process.env.BACKEND_URL || `http://localhost:${PORT}`;
     console.log(`✅ API running at ${backendUrl}`);
@@ -1,24 +1,185 @@
+import mongoose from "mongoose";
 import User from "../models/User.js";
 import Event from "../models/Event.js";
 import Booking from "../models/Booking.js";
+import CheckIn from "../models/CheckIn.js";
+import { canAccessEvent, accessibleEventIds } from "../utils/eventAccess.js";
+import { SUPPORTED_CURRENCIES, getLatestRates, convertAmount, sumInCurrency } from "../utils/currency.js";
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+// Bookings whose money counts as revenue
+const REVENUE_STATUSES = ['confirmed','checked-in'];
+
+// ?currency= wins, then the caller's display preference; null for an unsupported code
+async function reportingCurrency(req) {
+  const requested = String(req.query.currency || '').toUpperCase();
+  if (requested) return SUPPORTED_CURRENCIES.includes(requested) ? requested : null;
+  const user = await User.findById(req.user.id).select('preferredCurrency');
+  return user?.preferredCurrency || 'USD';
+}
 
 export async function dashboard(req,res,next){
   try{
-    const [users, events, bookings] = await Promise.all([
+    const currency = await reportingCurrency(req);
+    if (!currency) return res.status(400).json({ message: "Unsupported reporting currency" });
+
+    const [users, events, bookings, collected, snapshot] = await Promise.all([
       User.countDocuments(),
       Event.countDocuments(),
       Booking.countDocuments(),
+      // Bookings from before per-booking currencies fall back to their event's
+      Booking.aggregate([
+        { $match: { status: { $in: REVENUE_STATUSES } } },
+        { $lookup: { from: "events", localField: "event", foreignField: "_id", as: "eventDoc" } },
+        { $group: {
+          _id: { $ifNull: ["$currency", { $ifNull: [{ $first: "$eventDoc.currency" }, "USD"] }] },
+          amount: { $sum: { $ifNull: ["$totalAmount", 0] } }
+        } }
+      ]),
+      getLatestRates()
     ]);
-    res.json({ users, events, bookings });
+    const revenue = sumInCurrency(collected.map(row => ({ currency: row._id, amount: row.amount })), currency, snapshot);
+    res.json({ users, events, bookings, revenue: { ...revenue, ratesAsOf: snapshot?.effectiveAt || null } });
   }catch(e){ next(e); }
 }
 
 export async function eventAnalytics(req,res,next){
   try{
     const { eventId } = req.params;
+    if (!mongoose.isValidObjectId(eventId)) return res.status(404).json({ message: "Event not found" });
     const totalBookings = await Booking.countDocuments({ event: eventId });
-    const checkedIn = await Booking.countDocuments({ event: eventId, status: "checked-in" });
-    res.json({ totalBookings, checkedIn });
+    // Attendance comes from the CheckIn ledger, covering ticket scans and booking check-ins alike
+    const [attendance] = await CheckIn.aggregate([
+      { $match: { event: new mongoose.Types.ObjectId(eventId), undoneAt: null } },
+      { $group: { _id: null, admitted: { $sum: "$count" }, bookings: { $addToSet: "$booking" } } }
+    ]);
+    res.json({
+      totalBookings,
+      checkedIn: attendance?.bookings.length || 0,
+      admittedGuests: attendance?.admitted || 0
+    });
+  }catch(e){ next(e); }
+}
+
+// Host revenue for one event with fees and taxes split out of ticket sales
+export async function eventRevenue(req,res,next){
+  try{
+    if (!mongoose.isValidObjectId(req.params.eventId)) return res.status(404).json({ message: "Event not found" });
+    const event = await Event.findById(req.params.eventId).select('owner currency');
+    if (!event) return res.status(404).json({ message: "Event not found" });
+    if (!await canAccessEvent(event, req.user.id, 'view_revenue')) return res.status(403).json({ message: "Forbidden" });
+    const currency = await reportingCurrency(req);
+    if (!currency) return res.status(400).json({ message: "Unsupported reporting currency" });
+
+    const match = { event: event._id, status: { $in: REVENUE_STATUSES } };
+    const [[totals], charges] = await Promise.all([
+      Booking.aggregate([
+        { $match: match },
+        { $group: {
+          _id: null,
+          bookings: { $sum: 1 },
+          grossSales: { $sum: { $ifNull: ["$subtotal", { $ifNull: ["$totalAmount", 0] }] } },
+          discounts: { $sum: { $ifNull: ["$discount.amount", 0] } },
+          collected: { $sum: { $ifNull: ["$totalAmount", 0] } }
+        } }
+      ]),
+      Booking.aggregate([
+        { $match: match },
+        { $unwind: "$charges" },
+        { $group: {
+          _id: { name: "$charges.name", kind: "$charges.kind", inclusive: "$charges.inclusive" },
+          amount: { $sum: "$charges.amount" }
+        } },
+        { $sort: { "_id.kind": 1, "_id.name": 1 } }
+      ])
+    ]);
+
+    const lineItems = charges.map(charge => ({ ...charge._id, amount: roundMoney(charge.amount) }));
+    const sumKind = (kind) => roundMoney(lineItems.filter(item => item.kind === kind).reduce((sum, item) => sum + item.amount, 0));
+    const fees = sumKind('fee');
+    const taxes = sumKind('tax');
+    const collected = roundMoney(totals?.collected || 0);
+    res.json({
+      currency: eventCurrency,
+      bookings: totals?.bookings || 0,
+      grossSales: roundMoney(totals?.grossSales || 0),
+      discounts: roundMoney(totals?.discounts || 0),
+      charges: lineItems,
+      fees,
+      taxes,
+      collected,
+      // What the host keeps once fees and taxes are passed on
+      netTicketRevenue,
+      // Null when the latest rates don't cover both currencies
+      reporting: convert(collected) === null ? null : {
+        currency,
+        collected: convert(collected),
+        netTicketRevenue: convert(netTicketRevenue),
+        ratesAsOf: snapshot?.effectiveAt || null
+      }
+    });
+  }catch(e){ next(e); }
+}
+
+// Revenue across every event the caller can see revenue for, in one reporting currency
+export async function hostRevenue(req,res,next){
+  try{
+    const currency = await reportingCurrency(req);
+    if (!currency) return res.status(400).json({ message: "Unsupported reporting currency" });
+
+    const eventIds = await accessibleEventIds(req.user.id, 'view_revenue');
+    const [events, rows, snapshot] = await Promise.all([
+      Event.find({ _id: { $in: eventIds } }).select('title date currency'),
+      Booking.aggregate([
+        { $match: { event: { $in: eventIds }, status: { $in: REVENUE_STATUSES } } },
+        { $group: {
+          _id: "$event",
+          currency: { $first: "$currency" },
+          bookings: { $sum: 1 },
+          collected: { $sum: { $ifNull: ["$totalAmount", 0] } },
+          charges: { $sum: { $sum: "$charges.amount" } }
+        } }
+      ]),
+      getLatestRates()
+    ]);
+
+    const eventsById = new Map(events.map(event => [String(event._id), event]));
+    const perEvent = rows
+      .filter(row => eventsById.has(String(row._id)))
+      .map(row => {
+        const event = eventsById.get(String(row._id));
+        const eventCurrency = row.currency || event.currency || 'USD';
+        const collected = roundMoney(row.collected);
+        const netTicketRevenue = roundMoney(row.collected - row.charges);
+        const convertedCollected = convertAmount(collected, eventCurrency, currency, snapshot);
+        return {
+          eventId: event._id,
+          title: event.title,
+          date: event.date,
+          currency: eventCurrency,
+          bookings: row.bookings,
+          collected,
+          netTicketRevenue,
+          converted: convertedCollected === null ? null : {
+            collected: convertedCollected,
+            netTicketRevenue: convertAmount(netTicketRevenue, eventCurrency, currency, snapshot)
+          }
+        };
+      })
+      .sort((a, b) => new Date(b.date) - new Date(a.date));
+
+    const collected = sumInCurrency(perEvent.map(row => ({ currency: row.currency, amount: row.collected })), currency, snapshot);
+    const net = sumInCurrency(perEvent.map(row => ({ currency: row.currency, amount: row.netTicketRevenue })), currency, snapshot);
+    res.json({
+      currency,
+      ratesAsOf: snapshot?.effectiveAt || null,
+      collected: collected.total,
+      netTicketRevenue: net.total,
+      // Left out of the totals above because the latest rates don't cover them
+      unconverted: collected.unconverted,
+      events: perEvent
+    });
   }catch(e){ next(e); }
 }
 
@@ -1,7 +1,18 @@
 import { body, validationResult } from "express-validator";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
+import crypto from "crypto";
 import User from "../models/User.js";
+import { SUPPORTED_CURRENCIES } from "../utils/currency.js";
+import {
+  consumeOtp,
+  findUserByVerificationToken,
+  markEmailVerified,
+  sendLoginCode,
+  sendVerificationEmail
+} from "../utils/emailVerification.js";
+import { emailConfigured, enqueueEmail } from "../utils/email/index.js";
+import { disconnectUserSockets } from "../socket/socketHandlers.js";
 
 export const validateRegister = [
   body("name").isString().isLength({ min: 2 }),
@@ -45,8 +56,51 @@ export const validateUpdateProfile = [
     if (value === "" || value === null || value === undefined) return true;
     return typeof value === 'string' && value.length <= 500;
   }),
+  body("preferredCurrency").optional({ values: 'null' }).isIn(SUPPORTED_CURRENCIES).withMessage("Unsupported currency"),
 ];
 
+export const validateEmailOnly = [
+  body("email").isEmail().withMessage("A valid email is required"),
+];
+
+export const validateEmailCode = [
+  body("email").isEmail().withMessage("A valid email is required"),
+  body("code").isString().matches(/^\d{6}$/).withMessage("Enter the 6-digit code from the email"),
+];
+
+export const validateUpdatePassword = [
+  body("currentPassword").isString().withMessage("Current password is required"),
+  body("newPassword").isString().isLength({ min: 6 }).withMessage("Password must be at least 6 characters"),
+];
+
+export const validateResetPassword = [
+  body("token").isString().isLength({ min: 1, max: 200 }).withMessage("Reset link is invalid"),
+  body("password").isString().isLength({ min: 6 }).withMessage("Password must be at least 6 characters"),
+];
+
+const normalizeEmail = (email) => String(email).trim().toLowerCase();
+
+// Answer for the endpoints that only work by sending an email, when SMTP isn't set up
+const EMAIL_UNAVAILABLE = { message: "Email isn't available on this server right now, so we can't send that. Please try again later." };
+
+// Same cost as the User model's pre-save hook, for updates that bypass save()
+const hashPassword = async (password) => bcrypt.hash(password, await bcrypt.genSalt(12));
+
+// The token and user payload every sign-in path responds with
+function session(user){
+  const token = jwt.sign({ id: user._id, role: user.role, tv: user.tokenVersion || 0 }, process.env.JWT_SECRET, { expiresIn: "7d" });
+  return { token, user: { id: user._id, name: user.name, email: user.email, role: user.role, isEmailVerified: user.isEmailVerified } };
+}
+
+// Code throttling errors carry retryAfter, which the error handler would drop
+function sendCodeError(res, error){
+  if (error.status === 429 && error.retryAfter) {
+    res.set('Retry-After', String(error.retryAfter));
+    return res.status(429).json({ message: error.message, retryAfter: error.retryAfter });
+  }
+  throw error;
+}
+
 
 export async function register(req,res,next){
   try{
@@ -56,8 +110,13 @@ export async function register(req,res,next){
     const exists = await User.findOne({ email });
     if (exists) return res.status(409).json({ message: "Email already in use" });
     const user = await User.create({ name, email, password });
-    const token = jwt.sign({ id: user._id, role: user.role }, process.env.JWT_SECRET, { expiresIn: "7d" });
-    res.status(201).json({ token, user: { id: user._id, name, email, role: user.role } });
+    try {
+      await sendVerificationEmail(user);
+    } catch (error) {
+      // The account exists either way; the user can ask for another email
+      console.error('❌ Failed to send verification email:', error.message);
+    }
+    res.status(201).json(session(user));
   }catch(e){ next(e); }
 }
 
@@ -81,8 +140,77 @@ export async function login(req,res,next){
     if (user.isBanned) return res.status(403).json({ message: "Account banned" });
     const ok = await bcrypt.compare(password, user.password);
     if (!ok) return res.status(401).json({ message: "Invalid credentials" });
-    const token = jwt.sign({ id: user._id, role: user.role }, process.env.JWT_SECRET, { expiresIn: "7d" });
-    res.json({ token, user: { id: user._id, name: user.name, email: user.email, role: user.role } });
+    res.json(session(user));
+  }catch(e){ next(e); }
+}
+
+// Following the link from the verification email
+export async function verifyEmailToken(req,res,next){
+  try{
+    const user = await findUserByVerificationToken(req.params.token);
+    if (!user) return res.status(400).json({ message: "This verification link is invalid or has expired" });
+    const verified = await markEmailVerified(user._id);
+    res.json({ message: "Email verified", ...session(verified) });
+  }catch(e){ next(e); }
+}
+
+// Typing the code from the verification email instead
+export async function verifyEmailCode(req,res,next){
+  try{
+    firstValidationError(req);
+    const email = normalizeEmail(req.body.email);
+    const userId = await consumeOtp({ email, purpose: 'verify_email', code: req.body.code });
+    const verified = await markEmailVerified(userId);
+    if (!verified) return res.status(400).json({ message: "This code is invalid or has expired. Request a new one." });
+    res.json({ message: "Email verified", ...session(verified) });
+  }catch(e){ next(e); }
+}
+
+export async function resendVerification(req,res,next){
+  try{
+    firstValidationError(req);
+    if (!emailConfigured()) return res.status(503).json(EMAIL_UNAVAILABLE);
+    const user = await User.findOne({ email: normalizeEmail(req.body.email) });
+    // Same answer whether or not the address has an unverified account
+    if (user && !user.isEmailVerified && !user.isBanned) {
+      try {
+        await sendVerificationEmail(user);
+      } catch (error) {
+        return sendCodeError(res, error);
+      }
+    }
+    res.json({ message: "If that address needs verifying, a new email is on its way" });
+  }catch(e){ next(e); }
+}
+
+// Passwordless sign-in: email a one-time code...
+export async function requestLoginCode(req,res,next){
+  try{
+    firstValidationError(req);
+    if (!emailConfigured()) return res.status(503).json(EMAIL_UNAVAILABLE);
+    const user = await User.findOne({ email: normalizeEmail(req.body.email) });
+    if (user && !user.isBanned) {
+      try {
+        await sendLoginCode(user);
+      } catch (error) {
+        return sendCodeError(res, error);
+      }
+    }
+    res.json({ message: "If an account exists for that address, a sign-in code is on its way" });
+  }catch(e){ next(e); }
+}
+
+// ...and exchange it for a session. Receiving the code also proves the address.
+export async function verifyLoginCode(req,res,next){
+  try{
+    firstValidationError(req);
+    const email = normalizeEmail(req.body.email);
+    const userId = await consumeOtp({ email, purpose: 'login', code: req.body.code });
+    const user = await User.findById(userId);
+    if (!user || user.email !== email) return res.status(400).json({ message: "This code is invalid or has expired. Request a new one." });
+    if (user.isBanned) return res.status(403).json({ message: "Account banned" });
+    const verified = user.isEmailVerified ? user : await markEmailVerified(user._id);
+    res.json(session(verified));
   }catch(e){ next(e); }
 }
 
@@ -97,7 +225,7 @@ export async function updateProfile(req,res,next){
   try{
     firstValidationError(req);
     const updates = {};
-    ["name","avatar","displayPicture","displayPicturePublicId","homeAddress","companyAddress","bio","companyDescription","hostingCountries","pastEvents","partners"].forEach(k=>{ if (k in req.body) updates[k] = req.body[k]; });
+    ["name","avatar","displayPicture","displayPicturePublicId","homeAddress","companyAddress","bio","companyDescription","hostingCountries","pastEvents","partners","preferredCurrency"].forEach(k=>{ if (k in req.body) updates[k] = req.body[k]; });
     const user = await User.findByIdAndUpdate(req.user.id, updates, { new: true }).select("-password");
     res.json(user);
   }catch(e){ next(e); }
@@ -105,13 +233,68 @@ export async function updateProfile(req,res,next){
 
 export async function updatePassword(req,res,next){
   try{
+    firstValidationError(req);
     const { currentPassword, newPassword } = req.body;
-    const user = await User.findById(req.user.id);
-    if (!user) return res.status(404).json({ message: "User not found" });
-    const ok = await bcrypt.compare(currentPassword, user.password);
+    const current = await User.findById(req.user.id).select('+password');
+    if (!current) return res.status(404).json({ message: "User not found" });
+    const ok = await bcrypt.compare(currentPassword, current.password);
     if (!ok) return res.status(400).json({ message: "Current password incorrect" });
-    user.password = await bcrypt.hash(newPassword, 10);
-    await user.save();
-    res.json({ message: "Password updated" });
+
+    // Signs out every other session; this one carries on with the fresh token below
+    const user = await User.findByIdAndUpdate(
+      current._id,
+      { $set: { password: await hashPassword(newPassword) }, $inc: { tokenVersion: 1 } },
+      { new: true }
+    );
+    disconnectUserSockets(global.io, user._id);
+    res.json({ message: "Password updated", ...session(user) });
+  }catch(e){ next(e); }
+}
+
+export async function forgotPassword(req,res,next){
+  try{
+    firstValidationError(req);
+    if (!emailConfigured()) return res.status(503).json(EMAIL_UNAVAILABLE);
+    const user = await User.findOne({ email: normalizeEmail(req.body.email) });
+    // Same answer whether or not the address has an account
+    if (user && !user.isBanned) {
+      const resetToken = user.generatePasswordResetToken();
+      await user.save();
+      await enqueueEmail({
+        to: user.email,
+        user: user._id,
+        template: 'passwordReset',
+        data: {
+          name: user.name,
+          resetUrl: `${process.env.CLIENT_URL || 'https://ishow-ng.web.app'}/reset-password?token=${resetToken}`,
+          expiresInMinutes: 10
+        }
+      });
+    }
+    res.json({ message: "If an account exists for that address, a reset link is on its way" });
+  }catch(e){ next(e); }
+}
+
+export async function resetPassword(req,res,next){
+  try{
+    firstValidationError(req);
+    const hashed = crypto.createHash('sha256').update(req.body.token).digest('hex');
+    const password = await hashPassword(req.body.password);
+    // Consume the token, set the password and sign out every session in one write,
+    // so the link works once and a failure leaves everything as it was
+    const user = await User.findOneAndUpdate(
+      { passwordResetToken: hashed, passwordResetExpires: { $gt: new Date() } },
+      {
+        $unset: { passwordResetToken: 1, passwordResetExpires: 1 },
+        $inc: { tokenVersion: 1 },
+        // Only the inbox owner could have followed the link
+        $set: { password, isEmailVerified: true }
+      },
+      { new: true }
+    );
+    if (!user) return res.status(400).json({ message: "This reset link is invalid or has expired. Request a new one." });
+
+    disconnectUserSockets(global.io, user._id);
+    res.json({ message: "Password updated. Sign in with your new password." });
   }catch(e){ next(e); }
 }
@@ -0,0 +1,272 @@
+import { body, param, validationResult } from "express-validator";
+import mongoose from "mongoose";
+import BankStatement from "../models/BankStatement.js";
+import PaymentReceipt from "../models/PaymentReceipt.js";
+import User from "../models/User.js";
+import { canAccessEvent, accessibleEventIds } from "../utils/eventAccess.js";
+import { parseStatement, proposeMatches, statementCoverage } from "../utils/bankStatement.js";
+import { applyReceiptConfirmation, applyReceiptRejection } from "../utils/receiptDecisions.js";
+import { isHostVerified } from "../utils/emailVerification.js";
+
+export const validateStatementImport = [
+  body("content").isString().isLength({ min: 1, max: 1500000 }).withMessage("Statement file content is required"),
+  body("filename").optional().isString().isLength({ max: 200 }),
+  body("format").optional().isIn(['csv', 'ofx']),
+  body("dateFormat").optional().isIn(['auto', 'dmy', 'mdy']),
+  body("eventId").optional().isMongoId()
+];
+
+export const validateStatementDecisions = [
+  param("statementId").isMongoId(),
+  body("decisions").isArray({ min: 1, max: 200 }).withMessage("At least one decision is required"),
+  body("decisions.*.receiptId").isMongoId(),
+  body("decisions.*.action").isIn(['confirm', 'reject']),
+  body("decisions.*.lineId").optional().isString().isLength({ max: 100 }),
+  body("decisions.*.note").optional().isString().isLength({ max: 500 })
+];
+
+const summarize = (statement) => ({
+  _id: statement._id,
+  filename: statement.filename,
+  format: statement.format,
+  event: statement.event,
+  accountId: statement.accountId,
+  currency: statement.currency,
+  coverage: statement.coverage,
+  lineCount: statement.lines.length,
+  creditCount: statement.lines.filter(l => l.amount > 0).length,
+  matchedCount: statement.lines.filter(l => l.receipt).length,
+  createdAt: statement.createdAt
+});
+
+// Pending receipts the uploader can verify, matched against the statement's unused credits
+async function buildProposals(statement, userId) {
+  const eventIds = (await accessibleEventIds(userId, 'confirm_receipts'))
+    .filter(id => !statement.event || String(id) === String(statement.event));
+
+  const query = { event: { $in: eventIds }, status: 'pending' };
+  if (statement.currency) query.currency = statement.currency.toUpperCase();
+
+  const receipts = await PaymentReceipt.find(query)
+    .populate('user', 'name email')
+    .populate('event', 'title date')
+    .select('user event amount expectedAmount amountMismatch currency paymentMethod transactionReference createdAt')
+    .lean();
+
+  // A bank line can only ever justify one receipt, even across overlapping statements
+  const usedLineIds = new Set(await PaymentReceipt.distinct('statementMatch.lineId', {
+    'statementMatch.lineId': { $in: statement.lines.map(l => l.lineId) }
+  }));
+  statement.lines.filter(l => l.receipt).forEach(l => usedLineIds.add(l.lineId));
+
+  const { proposals, unresolved } = proposeMatches(statement.lines, receipts, { usedLineIds });
+  const receiptById = new Map(receipts.map(r => [String(r._id), r]));
+  const lineById = new Map(statement.lines.map(l => [l.lineId, l]));
+
+  return {
+    proposals: proposals.map(p => ({
+      ...p,
+      receipt: receiptById.get(p.receiptId),
+      line: p.lineId ? lineById.get(p.lineId) : undefined
+    })),
+    unresolved: unresolved.map(id => receiptById.get(id))
+  };
+}
+
+// Upload a CSV or OFX bank export and get proposed confirmations/rejections back
+export async function importStatement(req, res, next) {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ message: "Validation failed", errors: errors.array() });
+    }
+
+    const { content, filename, format, dateFormat, eventId } = req.body;
+
+    if (eventId && !await canAccessEvent(eventId, req.user.id, 'confirm_receipts')) {
+      return res.status(403).json({ message: "You can only verify payments for events you manage" });
+    }
+
+    let parsed;
+    try {
+      parsed = parseStatement(content, { format, dateFormat, filename });
+    } catch (parseError) {
+      return res.status(400).json({ message: parseError.message });
+    }
+    if (parsed.lines.length === 0) {
+      return res.status(400).json({ message: "No transactions found in this statement" });
+    }
+
+    // Keep the first copy of any line repeated within the file
+    const seen = new Set();
+    const lines = parsed.lines.filter(l => !seen.has(l.lineId) && seen.add(l.lineId));
+
+    const statement = await BankStatement.create({
+      uploadedBy: req.user.id,
+      event: eventId,
+      filename,
+      format: parsed.format,
+      accountId: parsed.accountId,
+      currency: parsed.currency,
+      coverage: statementCoverage(lines),
+      lines
+    });
+
+    console.log(`🏦 Bank statement imported by ${req.user.id}: ${lines.length} lines`);
+
+    res.status(201).json({
+      statement: summarize(statement),
+      lines: statement.lines,
+      ...await buildProposals(statement, req.user.id)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Statements the current user has imported
+export async function listStatements(req, res, next) {
+  try {
+    const statements = await BankStatement.find({ uploadedBy: req.user.id })
+      .sort({ createdAt: -1 })
+      .limit(50);
+    res.json({ statements: statements.map(summarize) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// A statement with fresh proposals against whatever is still pending
+export async function getStatement(req, res, next) {
+  try {
+    if (!mongoose.isValidObjectId(req.params.statementId)) {
+      return res.status(404).json({ message: "Bank statement not found" });
+    }
+    const statement = await BankStatement.findOne({ _id: req.params.statementId, uploadedBy: req.user.id });
+    if (!statement) {
+      return res.status(404).json({ message: "Bank statement not found" });
+    }
+
+    res.json({
+      statement: summarize(statement),
+      lines: statement.lines,
+      ...await buildProposals(statement, req.user.id)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Apply the confirmations/rejections the host accepted; each is checked again before it is applied
+export async function applyStatementDecisions(req, res, next) {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ message: "Validation failed", errors: errors.array() });
+    }
+
+    const statement = await BankStatement.findOne({ _id: req.params.statementId, uploadedBy: req.user.id });
+    if (!statement) {
+      return res.status(404).json({ message: "Bank statement not found" });
+    }
+
+    const user = await User.findById(req.user.id).select('name email phone');
+    const verifier = { id: req.user.id, name: user?.name, email: user?.email, phone: user?.phone };
+
+    const confirmed = [];
+    const rejected = [];
+    const skipped = [];
+    const usedInBatch = new Set();
+
+    for (const { receiptId, action, lineId, note } of req.body.decisions) {
+      const receipt = await PaymentReceipt.findById(receiptId)
+        .populate('user', 'name email')
+        .populate('event', 'title date time location owner')
+        .populate('booking');
+
+      if (!receipt) {
+        skipped.push({ receiptId, reason: 'not_found' });
+        continue;
+      }
+      if (receipt.status !== 'pending') {
+        skipped.push({ receiptId, reason: `already_${receipt.status}` });
+        continue;
+      }
+      if (!await canAccessEvent(receipt.event, req.user.id, 'confirm_receipts')) {
+        skipped.push({ receiptId, reason: 'forbidden' });
+        continue;
+      }
+
+      const line = lineId ? statement.lines.find(l => l.lineId === lineId) : undefined;
+
+      if (action === 'reject') {
+        try {
+          await applyReceiptRejection(receipt, verifier, {
+            verificationNotes: note || 'No matching payment was found on our bank statement'
+          });
+        } catch (error) {
+          if (!error.reason) throw error;
+          skipped.push({ receiptId, reason: error.reason });
+          continue;
+        }
+        if (line && !line.receipt) line.receipt = receipt._id;
+        rejected.push(receiptId);
+        continue;
+      }
+
+      if (!await isHostVerified(receipt.event.owner)) {
+        skipped.push({ receiptId, reason: 'host_not_verified' });
+        continue;
+      }
+      if (!line || line.amount <= 0) {
+        skipped.push({ receiptId, reason: 'line_not_found' });
+        continue;
+      }
+      if (Math.abs(line.amount - receipt.amount) >= 0.005) {
+        skipped.push({ receiptId, reason: 'amount_mismatch' });
+        continue;
+      }
+      if (line.receipt || usedInBatch.has(lineId) || await PaymentReceipt.exists({ 'statementMatch.lineId': lineId })) {
+        skipped.push({ receiptId, reason: 'line_already_used' });
+        continue;
+      }
+
+      const postedOn = new Date(line.postedAt).toLocaleDateString();
+      try {
+        await applyReceiptConfirmation(receipt, verifier, {
+          verificationNotes: note || `Matched to bank statement credit of ${line.amount.toFixed(2)} on ${postedOn}`,
+          statementMatch: {
+            statement: statement._id,
+            lineId: line.lineId,
+            postedAt: line.postedAt,
+            amount: line.amount,
+            reference: line.reference,
+            description: line.description,
+            score: proposeMatches([line], [receipt]).proposals[0]?.score,
+            matchedAt: new Date()
+          }
+        });
+      } catch (error) {
+        if (!error.reason) throw error;
+        skipped.push({ receiptId, reason: error.reason });
+        continue;
+      }
+      usedInBatch.add(lineId);
+      line.receipt = receipt._id;
+      confirmed.push(receiptId);
+    }
+
+    await statement.save();
+
+    console.log(`🏦 Statement ${statement._id} applied: ${confirmed.length} confirmed, ${rejected.length} rejected, ${skipped.length} skipped`);
+
+    res.json({
+      message: `${confirmed.length} confirmed, ${rejected.length} rejected`,
+      confirmed,
+      rejected,
+      skipped
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,16 +1,85 @@
 import { body, validationResult } from "express-validator";
 import Booking from "../models/Booking.js";
+import User from "../models/User.js";
 import Event from "../models/Event.js";
+import Ticket from "../models/Ticket.js";
+import PaymentReceipt from "../models/PaymentReceipt.js";
+import Payment from "../models/Payment.js";
+import RefundRequest from "../models/RefundRequest.js";
+import { notifyUser } from "../utils/notify.js";
+import { reserveInventory, releaseInventory, getAvailability, TICKET_TIERS } from "../utils/inventory.js";
+import { requiresHold, computeHoldExpiry } from "../utils/holds.js";
+import {
+  acceptWaitlistOffer, claimWaitlistOffer, offerCoversBooking, releaseOfferSeats, restoreWaitlistOffer, triggerWaitlistOffers
+} from "../utils/waitlist.js";
+import { canAccessEvent } from "../utils/eventAccess.js";
+import { admitBooking } from "../utils/checkIn.js";
+import { getPaymentProvider } from "../utils/payments/index.js";
+import { refundOnlinePayment } from "../utils/onlinePayments.js";
+import { priceBooking, parseCart } from "../utils/pricing.js";
+import { formatMoney } from "../utils/currency.js";
+import { accrue, recordReceiptRefund } from "../utils/payouts.js";
+import { resolvePromoCode, redeemPromoCode, releasePromoCode } from "../utils/promoCodes.js";
 
 export const validateBooking = [
   body("eventId").isString(),
   body("seats").optional().isInt({ min: 1 }).toInt(),
   body("tickets").optional().isArray(),
+  body("tickets.*.type").optional().isIn(TICKET_TIERS),
+  body("tickets.*.quantity").optional().isInt({ min: 0 }).toInt(),
   body("paymentMethod").optional().isString(),
   body("attendeeInfo").optional().isObject(),
+  body("attendees").optional().isArray({ max: 100 }),
+  body("attendees.*.name").optional().isString().isLength({ max: 100 }),
+  body("attendees.*.email").optional({ values: 'falsy' }).isEmail(),
   body("notes").optional().isString(),
+  body("promoCode").optional({ values: 'falsy' }).isString().trim().isLength({ max: 40 }),
 ];
 
+export const validateQuote = [
+  body("eventId").isMongoId(),
+  body("seats").optional().isInt({ min: 1 }).toInt(),
+  body("tickets").optional().isArray(),
+  body("tickets.*.type").optional().isIn(TICKET_TIERS),
+  body("tickets.*.quantity").optional().isInt({ min: 0 }).toInt(),
+  body("promoCode").optional({ values: 'falsy' }).isString().trim().isLength({ max: 40 }),
+];
+
+// Price a cart for this user; promo code problems come back as errors with a status
+async function priceCart(event, ticketBreakdown, totalSeats, { userId, promoCode }) {
+  const promo = promoCode
+    ? await resolvePromoCode(event._id, promoCode, { userId, ticketBreakdown })
+    : null;
+  return { promo, pricing: priceBooking(event, { ticketBreakdown, seats: totalSeats }, { promo }) };
+}
+
+// What the cart would cost right now; createBooking charges exactly this
+export async function quoteBooking(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const event = await Event.findById(req.body.eventId).select('price currency ticketPricing charges status');
+    if (!event || event.status === 'cancelled') return res.status(404).json({ message: "Event not found" });
+
+    const { ticketBreakdown, totalSeats } = parseCart(req.body);
+    if (totalSeats <= 0) return res.status(400).json({ message: "Must book at least one ticket" });
+
+    try {
+      const { promo, pricing } = await priceCart(event, ticketBreakdown, totalSeats, { userId: req.user.id, promoCode: req.body.promoCode });
+      res.json({
+        eventId: event._id,
+        seats: totalSeats,
+        ...pricing,
+        ...(promo && { promo: { code: promo.code, description: promo.description } })
+      });
+    } catch (promoError) {
+      if (!promoError.status) throw promoError;
+      return res.status(promoError.status).json({ message: promoError.message, promoCode: req.body.promoCode });
+    }
+  }catch(e){ next(e); }
+}
+
 export async function createBooking(req,res,next){
   try{
     const errors = validationResult(req);
@@ -22,7 +91,9 @@ export async function createBooking(req,res,next){
       tickets,
       paymentMethod = 'online',
       attendeeInfo,
-      notes = ''
+      attendees,
+      notes = '',
+      promoCode
     } = req.body;
 
     const event = await Event.findById(eventId);
@@ -35,28 +106,58 @@ export async function createBooking(req,res,next){
     }
 
     // Handle both old format (seats) and new format (tickets array)
-    let totalSeats = 1;
-    let ticketBreakdown = [];
-
-    if (tickets && Array.isArray(tickets)) {
-      // New format with ticket breakdown
-      totalSeats = tickets.reduce((sum, ticket) => sum + (ticket.quantity || 0), 0);
-      ticketBreakdown = tickets.filter(ticket => ticket.quantity > 0);
-    } else if (seats) {
-      // Old format with just seat count
-      totalSeats = seats;
-    }
+    const { ticketBreakdown: cartLines, totalSeats } = parseCart({ tickets, seats });
 
     if (totalSeats <= 0) {
       return res.status(400).json({ message: "Must book at least one ticket" });
     }
 
-    // Check if event has enough capacity
-    const currentBookedSlots = event.bookedSlots || 0;
-    const totalSlots = event.totalSlots || 0;
+    // Price on the server (early-bird prices, promo code, fees and taxes), never from the client's figures
+    let promo, pricing;
+    try {
+      ({ promo, pricing } = await priceCart(event, cartLines, totalSeats, { userId: req.user.id, promoCode }));
+    } catch (promoError) {
+      if (!promoError.status) throw promoError;
+      return res.status(promoError.status).json({ message: promoError.message, promoCode });
+    }
+    const ticketBreakdown = cartLines.map((ticket, index) => ({
+      type: ticket.type,
+      quantity: ticket.quantity,
+      price: pricing.lines[index].unitPrice
+    }));
+    // A code that covers the whole booking leaves nothing to pay or hold seats for
+    const nothingOwed = !!promo && pricing.total === 0;
+
+    // Seats offered to people on the waitlist are already reserved. The user's own offer
+    // becomes this booking's seats when it matches, or is given up for the new selection.
+    const offer = await claimWaitlistOffer(event._id, req.user.id);
+    const usesOfferSeats = !!offer && offerCoversBooking(offer, totalSeats, ticketBreakdown);
+    if (offer && !usesOfferSeats) await releaseOfferSeats(offer);
+
+    if (promo) {
+      try {
+        await redeemPromoCode(promo, { userId: req.user.id });
+      } catch (promoError) {
+        await restoreWaitlistOffer(offer, usesOfferSeats);
+        if (!promoError.status) throw promoError;
+        return res.status(promoError.status).json({ message: promoError.message });
+      }
+    }
 
-    if (currentBookedSlots + totalSeats > totalSlots) {
-      return res.status(400).json({ message: "Not enough tickets available" });
+    // Reserve capacity atomically (event-wide and per tier) before creating the booking
+    if (!usesOfferSeats) {
+      try {
+        await reserveInventory(event._id, totalSeats, ticketBreakdown);
+      } catch (reservationError) {
+        await releasePromoCode({ promoCode: promo?._id, user: req.user.id });
+        await restoreWaitlistOffer(offer, false);
+        if (!reservationError.status) throw reservationError;
+        return res.status(reservationError.status).json({
+          message: reservationError.message,
+          ...(reservationError.availability && { availability: reservationError.availability }),
+          waitlistAvailable: true
+        });
+      }
     }
 
     // Create booking with enhanced data
@@ -66,22 +167,44 @@ export async function createBooking(req,res,next){
       seats: totalSeats,
       paymentMethod,
       notes,
-      status: paymentMethod === 'pay-at-event' ? 'confirmed' : 'pending',
+      status: paymentMethod === 'pay-at-event' || nothingOwed ? 'confirmed' : 'pending',
+      ...(nothingOwed && { paymentStatus: 'confirmed', paymentConfirmedAt: new Date() }),
+      ...(requiresHold(paymentMethod) && !nothingOwed && { holdExpiresAt: computeHoldExpiry(event) }),
       ...(ticketBreakdown.length > 0 && { ticketBreakdown }),
-      ...(attendeeInfo && { attendeeInfo })
+      subtotal: pricing.subtotal,
+      totalAmount: pricing.total,
+      currency: pricing.currency,
+      ...(promo && { promoCode: promo._id, discount: { code: promo.code, amount: pricing.discount } }),
+      ...(pricing.charges.length > 0 && { charges: pricing.charges.map(({ name, kind, inclusive, amount }) => ({ name, kind, inclusive, amount })) }),
+      ...(attendeeInfo && { attendeeInfo }),
+      ...(Array.isArray(attendees) && { attendees: attendees.slice(0, totalSeats) })
     };
 
-    const booking = await Booking.create(bookingData);
+    let booking;
+    try {
+      booking = await Booking.create(bookingData);
+    } catch (createError) {
+      // Give the reserved seats and promo use back if the booking could not be stored
+      if (!usesOfferSeats) await releaseInventory(event._id, totalSeats, ticketBreakdown);
+      await releasePromoCode({ promoCode: promo?._id, user: req.user.id });
+      await restoreWaitlistOffer(offer, usesOfferSeats);
+      throw createError;
+    }
 
-    // Update event's booked slots
-    await Event.findByIdAndUpdate(eventId, {
-      $inc: { bookedSlots: totalSeats }
-    });
+    await acceptWaitlistOffer(event._id, req.user.id, booking._id, offer);
 
     res.status(201).json(booking);
   }catch(e){ next(e); }
 }
 
+export async function eventAvailability(req,res,next){
+  try{
+    const event = await Event.findById(req.params.eventId).select('ticketPricing totalSlots bookedSlots status');
+    if (!event) return res.status(404).json({ message: "Event not found" });
+    res.json(getAvailability(event));
+  }catch(e){ next(e); }
+}
+
 export async function myBookings(req,res,next){
   try{
     const bookings = await Booking.find({ user: req.user.id }).populate("event").sort({ createdAt: -1 });
@@ -94,17 +217,288 @@ export async function eventBookings(req,res,next){
     const { eventId } = req.params;
     const event = await Event.findById(eventId);
     if (!event) return res.status(404).json({ message: "Event not found" });
-    if (String(event.owner) !== req.user.id) return res.status(403).json({ message: "Forbidden" });
+    if (!await canAccessEvent(event, req.user.id, 'view_bookings')) return res.status(403).json({ message: "Forbidden" });
     const bookings = await Booking.find({ event: eventId }).populate("user","name email");
     res.json(bookings);
   }catch(e){ next(e); }
 }
 
+export const validateCheckinBooking = [
+  body("gate").optional().isString().trim().isLength({ max: 50 }),
+  body("deviceId").optional().isString().isLength({ max: 100 }),
+];
+
+// Admit everyone on a booking through the same CheckIn ledger as ticket scans
 export async function checkinBooking(req,res,next){
   try{
-    const { id } = req.params;
-    const booking = await Booking.findByIdAndUpdate(id, { status: "checked-in" }, { new: true });
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const booking = await Booking.findById(req.params.id).populate("event", "owner");
     if (!booking) return res.status(404).json({ message: "Booking not found" });
-    res.json(booking);
+
+    const access = booking.event && await canAccessEvent(booking.event, req.user.id, 'check_in');
+    if (!access) return res.status(403).json({ message: "Forbidden" });
+
+    if (['cancelled','expired'].includes(booking.status)) {
+      return res.status(400).json({ message: `Cannot check in a ${booking.status} booking` });
+    }
+
+    const checkIns = await admitBooking(booking, {
+      userId: req.user.id,
+      deviceId: req.body.deviceId,
+      gate: req.body.gate || access.staff?.gate
+    });
+    if (checkIns.length === 0) return res.status(400).json({ message: "Everyone on this booking has already checked in" });
+
+    const updated = await Booking.findById(booking._id);
+    res.json({ booking: updated, checkIns });
+  }catch(e){ next(e); }
+}
+
+export const validateCancelBooking = [
+  body("reason").optional().isString().isLength({ max: 500 }),
+];
+
+export async function cancelBooking(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const { reason = '' } = req.body;
+    const booking = await Booking.findById(req.params.id).populate("event");
+    if (!booking) return res.status(404).json({ message: "Booking not found" });
+
+    const event = booking.event;
+    // Looked up separately: the attendee's account may have been deleted since they booked
+    const attendeeId = booking.user;
+    const attendee = await User.findById(attendeeId).select('name');
+    const isAttendee = String(attendeeId) === req.user.id;
+    const isHost = !!event && String(event.owner) === req.user.id;
+    if (!isAttendee && !isHost) return res.status(403).json({ message: "Forbidden" });
+
+    if (booking.status === 'cancelled') return res.status(400).json({ message: "Booking is already cancelled" });
+    if (booking.status === 'expired') return res.status(400).json({ message: "Booking hold has already expired" });
+    if (booking.status === 'checked-in') return res.status(400).json({ message: "Cannot cancel a booking that has already checked in" });
+
+    // Hosts may always cancel; attendees are bound by the event's cancellation policy
+    const policy = event?.cancellationPolicy || {};
+    if (!isHost && event) {
+      if (policy.allowCancellation === false) {
+        return res.status(400).json({ message: "This event does not allow cancellations" });
+      }
+      const deadlineHours = policy.deadlineHours ?? 24;
+      const deadline = new Date(event.date).getTime() - deadlineHours * 60 * 60 * 1000;
+      if (Date.now() > deadline) {
+        return res.status(400).json({
+          message: `Cancellations close ${deadlineHours} hours before the event`,
+          deadline: new Date(deadline)
+        });
+      }
+    }
+
+    // Flip the status conditionally so concurrent requests release capacity only once
+    const cancelled = await Booking.findOneAndUpdate(
+      { _id: booking._id, status: { $nin: ['cancelled','checked-in','expired'] } },
+      {
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        cancelledBy: req.user.id,
+        cancellationReason: reason
+      },
+      { new: true }
+    );
+    if (!cancelled) return res.status(409).json({ message: "Booking was already cancelled" });
+
+    // A receipt still waiting for review can't be confirmed once the seats are released
+    await PaymentReceipt.updateMany(
+      { booking: booking._id, status: 'pending' },
+      {
+        $set: {
+          status: 'rejected',
+          verifiedAt: new Date(),
+          verifiedBy: req.user.id,
+          verificationNotes: 'Booking was cancelled before this receipt was reviewed'
+        }
+      }
+    );
+
+    if (event) {
+      await releaseInventory(event._id, booking.seats, booking.ticketBreakdown);
+      triggerWaitlistOffers(event._id);
+    }
+    await releasePromoCode(cancelled);
+
+    await Ticket.updateMany({ booking: booking._id, status: 'active' }, { status: 'cancelled' });
+
+    // Confirmed payments become a refund request for the host to process
+    let refundRequest = null;
+    const receipt = await PaymentReceipt.findOne({ booking: booking._id, status: 'confirmed' });
+    if (receipt) {
+      const refundPercentage = isHost ? 100 : (policy.refundPercentage ?? 100);
+      // The amount on the receipt is what the attendee typed; never refund more than the booking was meant to cost
+      const paidAmount = Math.min(receipt.amount, receipt.expectedAmount ?? booking.totalAmount ?? receipt.amount);
+      refundRequest = await RefundRequest.create({
+        user: attendeeId,
+        event: receipt.event,
+        eventCreator: receipt.eventCreator,
+        booking: booking._id,
+        paymentReceipt: receipt._id,
+        paidAmount,
+        amount: Math.round(paidAmount * refundPercentage) / 100,
+        currency: receipt.currency,
+        reason
+      });
+    }
+
+    // Online payments: drop an unfinished checkout, release an uncaptured authorization,
+    // and route captured money through the same refund request flow
+    const payment = receipt ? null : await Payment.findOne({
+      booking: booking._id,
+      status: { $in: ['requires_payment', 'authorized', 'succeeded'] }
+    }).sort({ createdAt: -1 });
+    if (payment?.status === 'requires_payment') {
+      await Payment.updateOne({ _id: payment._id, status: 'requires_payment' }, { status: 'cancelled' });
+      getPaymentProvider(payment.provider)?.cancel(payment.intentId)
+        .catch(error => console.error(`❌ Failed to cancel checkout ${payment.intentId}:`, error.message));
+    } else if (payment?.status === 'authorized') {
+      try {
+        await refundOnlinePayment(payment, { reason: 'Booking cancelled' });
+      } catch (releaseError) {
+        console.error(`❌ Failed to release authorization ${payment.intentId}:`, releaseError.message);
+      }
+    } else if (payment?.status === 'succeeded') {
+      const paidAmount = payment.amountCaptured - payment.amountRefunded;
+      const refundPercentage = isHost ? 100 : (policy.refundPercentage ?? 100);
+      refundRequest = await RefundRequest.create({
+        user: attendeeId,
+        event: payment.event,
+        eventCreator: payment.eventCreator,
+        booking: booking._id,
+        payment: payment._id,
+        paidAmount,
+        amount: Math.round(paidAmount * refundPercentage) / 100,
+        currency: payment.currency,
+        reason
+      });
+    }
+
+    const eventTitle = event?.title || 'the event';
+    const data = {
+      bookingId: booking._id,
+      eventId: event?._id,
+      eventTitle,
+      seats: booking.seats,
+      cancelledBy: isHost ? 'host' : 'attendee',
+      reason,
+      ...(refundRequest && { refundRequestId: refundRequest._id, refundAmount: refundRequest.amount })
+    };
+
+    try {
+      if (attendee) await notifyUser(attendeeId, {
+        type: 'booking_cancelled',
+        title: 'Booking Cancelled',
+        message: isHost
+          ? `Your booking for "${eventTitle}" has been cancelled by the organizer.${reason ? ` ${reason}` : ''}`
+          : `Your booking for "${eventTitle}" has been cancelled.${refundRequest ? ` A refund of ${formatMoney(refundRequest.amount, refundRequest.currency)} has been requested.` : ''}`,
+        data
+      });
+      if (event) {
+        await notifyUser(event.owner, {
+          type: 'booking_cancelled',
+          title: 'Booking Cancelled',
+          message: `${attendee?.name || 'An attendee'}'s booking of ${booking.seats} seat${booking.seats > 1 ? 's' : ''} for "${eventTitle}" has been cancelled.${refundRequest ? ' A refund request is awaiting your review.' : ''}`,
+          data
+        });
+      }
+    } catch (notificationError) {
+      console.error('❌ Failed to send cancellation notifications:', notificationError);
+      // Don't fail the cancellation if notifications fail
+    }
+
+    res.json({ booking: cancelled, refundRequest });
+  }catch(e){ next(e); }
+}
+
+export async function listRefundRequests(req,res,next){
+  try{
+    const { status } = req.query;
+    const query = { $or: [{ user: req.user.id }, { eventCreator: req.user.id }] };
+    if (status) query.status = status;
+
+    const refunds = await RefundRequest.find(query)
+      .populate('user', 'name email')
+      .populate('event', 'title date')
+      .populate('paymentReceipt', 'amount currency paymentMethod transactionReference')
+      .populate('payment', 'amount currency provider status amountRefunded')
+      .sort({ createdAt: -1 });
+    res.json(refunds);
+  }catch(e){ next(e); }
+}
+
+export const validateRefundUpdate = [
+  body("status").isIn(['approved','rejected','refunded']),
+  body("notes").optional().isString().isLength({ max: 500 }),
+];
+
+export async function updateRefundRequest(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const { status, notes } = req.body;
+    const refund = await RefundRequest.findById(req.params.refundId).populate('event', 'title');
+    if (!refund) return res.status(404).json({ message: "Refund request not found" });
+    if (String(refund.eventCreator) !== req.user.id) {
+      return res.status(403).json({ message: "You can only process refunds for your own events" });
+    }
+    if (['rejected','refunded'].includes(refund.status)) {
+      return res.status(400).json({ message: `Refund request is already ${refund.status}` });
+    }
+
+    // Online payments are refunded through the provider before the request is marked refunded
+    if (status === 'refunded' && refund.payment) {
+      const payment = await Payment.findById(refund.payment);
+      if (payment?.status === 'succeeded' && refund.amount > 0) {
+        await refundOnlinePayment(payment, { amount: refund.amount, reason: refund.reason || 'Booking cancelled' });
+      }
+    }
+
+    refund.status = status;
+    refund.processedAt = new Date();
+    refund.processedBy = req.user.id;
+    refund.processingNotes = notes;
+    await refund.save();
+
+    if (status === 'refunded') {
+      await Booking.findByIdAndUpdate(refund.booking, { paymentStatus: 'refunded' });
+      // Online refunds reach the ledger from the provider; receipt refunds were paid by the host
+      await accrue(recordReceiptRefund(refund));
+    }
+
+    const titles = {
+      approved: 'Refund Approved',
+      rejected: 'Refund Rejected',
+      refunded: 'Refund Sent'
+    };
+    try {
+      await notifyUser(refund.user, {
+        type: 'refund_processed',
+        title: titles[status],
+        message: `Your refund of ${formatMoney(refund.amount, refund.currency)} for "${refund.event?.title}" was ${status}.${notes ? ` ${notes}` : ''}`,
+        data: {
+          refundRequestId: refund._id,
+          bookingId: refund.booking,
+          eventId: refund.event?._id,
+          eventTitle: refund.event?.title,
+          amount: refund.amount,
+          status
+        }
+      });
+    } catch (notificationError) {
+      console.error('❌ Failed to send refund notification:', notificationError);
+    }
+
+    res.json(refund);
   }catch(e){ next(e); }
 }
@@ -0,0 +1,68 @@
+import { body, query, validationResult } from "express-validator";
+import mongoose from "mongoose";
+import Event from "../models/Event.js";
+import CheckIn from "../models/CheckIn.js";
+import { canAccessEvent } from "../utils/eventAccess.js";
+import { undoCheckIn as undoLedgerEntry } from "../utils/checkIn.js";
+
+export const validateListCheckIns = [
+  query("gate").optional().isString().isLength({ max: 50 }),
+  query("includeUndone").optional().isBoolean().toBoolean(),
+  query("limit").optional().isInt({ min: 1, max: 500 }).toInt(),
+];
+
+// The attendance ledger for an event, newest first
+export async function listEventCheckIns(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    if (!mongoose.isValidObjectId(req.params.eventId)) return res.status(404).json({ message: "Event not found" });
+    const event = await Event.findById(req.params.eventId).select('owner');
+    if (!event) return res.status(404).json({ message: "Event not found" });
+    if (!await canAccessEvent(event, req.user.id, 'check_in')) return res.status(403).json({ message: "Forbidden" });
+
+    const filter = { event: event._id };
+    if (!req.query.includeUndone) filter.undoneAt = null;
+    if (req.query.gate) filter.gate = req.query.gate;
+
+    const checkIns = await CheckIn.find(filter)
+      .populate('ticket', 'ticketId ticketType quantity admittedCount status attendeeName')
+      .populate({ path: 'booking', select: 'user attendeeInfo', populate: { path: 'user', select: 'name' } })
+      .populate('scannedBy', 'name')
+      .populate('undoneBy', 'name')
+      .sort({ admittedAt: -1 })
+      .limit(req.query.limit || 100);
+
+    res.json(checkIns);
+  }catch(e){ next(e); }
+}
+
+export const validateUndoCheckIn = [
+  body("reason").optional().isString().trim().isLength({ max: 200 }),
+];
+
+// Reverse a mistaken admission; scanners may only undo their own
+export async function undoCheckIn(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ message: "Check-in not found" });
+    const checkIn = await CheckIn.findById(req.params.id);
+    if (!checkIn) return res.status(404).json({ message: "Check-in not found" });
+
+    const access = await canAccessEvent(checkIn.event, req.user.id, 'check_in');
+    if (!access) return res.status(403).json({ message: "Forbidden" });
+    if (access.role === 'scanner' && String(checkIn.scannedBy) !== String(req.user.id)) {
+      return res.status(403).json({ message: "Scanners can only undo their own admissions" });
+    }
+    if (checkIn.undoneAt) return res.status(400).json({ message: "This admission was already undone" });
+
+    const undone = await undoLedgerEntry(checkIn._id, { userId: req.user.id, reason: req.body.reason });
+    if (!undone) return res.status(400).json({ message: "This admission was already undone" });
+
+    console.log(`↩️ Check-in ${undone._id} undone by ${req.user.id}`);
+    res.json({ message: `Admission of ${undone.count} undone`, checkIn: undone });
+  }catch(e){ next(e); }
+}
@@ -3,14 +3,31 @@ import Event from "../models/Event.js";
 import Comment from "../models/Comment.js";
 import Booking from "../models/Booking.js";
 import User from "../models/User.js";
-import Notification from "../models/Notification.js";
-import { sendNotificationToUsers } from "../socket/socketHandlers.js";
+import { notifyUsers } from "../utils/notify.js";
+import { TICKET_TIERS } from "../utils/inventory.js";
+import { triggerWaitlistOffers } from "../utils/waitlist.js";
+import { SUPPORTED_CURRENCIES } from "../utils/currency.js";
+import { isHostVerified, UNVERIFIED_HOST } from "../utils/emailVerification.js";
+
+// Fees and taxes; shared by create and update
+const validateCharges = [
+  body("charges").optional().isArray({ max: 10 }),
+  body("charges.*.name").isString().trim().isLength({ min: 1, max: 60 }),
+  body("charges.*.kind").optional().isIn(['fee','tax']),
+  body("charges.*.calculation").optional().isIn(['percentage','flat']),
+  body("charges.*.amount").isFloat({ min: 0 }).toFloat(),
+  body("charges.*.inclusive").optional().isBoolean(),
+  body("charges.*.ticketTypes").optional().isArray(),
+  body("charges.*.ticketTypes.*").isIn(TICKET_TIERS),
+];
 
 export const validateEvent = [
   body("title").isString().isLength({ min: 3 }),
   body("date").isISO8601().toDate(),
   body("location").isString().isLength({ min: 2 }),
   body("capacity").optional().isInt({ min: 0 }).toInt(),
+  body("currency").optional().isIn(SUPPORTED_CURRENCIES),
+  ...validateCharges,
 ];
 
 export const validateEventUpdate = [
@@ -19,26 +36,138 @@ export const validateEventUpdate = [
   body("date").optional().isISO8601().toDate(),
   body("time").optional().isString().isLength({ min: 1, max: 20 }),
   body("location").optional().isString().isLength({ min: 2, max: 300 }),
+  body("country").optional().isString().isLength({ max: 100 }),
   body("capacity").optional().isInt({ min: 0 }).toInt(),
   body("totalSlots").optional().isInt({ min: 0 }).toInt(),
   body("bookedSlots").optional().isInt({ min: 0 }).toInt(),
-  body("currency").optional().isIn(['USD','EUR','GBP','CAD','AUD','JPY','KRW','BRL','MXN','INR','CNY','NGN','ZAR','KES','GHS']),
+  body("currency").optional().isIn(SUPPORTED_CURRENCIES),
   body("price").optional().isFloat({ min: 0 }).toFloat(),
   body("ticketPricing").optional().isObject(),
+  body("ticketPricing.*.earlyBirdPrice").optional({ values: 'null' }).isFloat({ min: 0 }).toFloat(),
+  body("ticketPricing.*.earlyBirdUntil").optional({ values: 'null' }).isISO8601().toDate(),
   body("paymentMethods").optional().isArray({ max: 20 }),
   body("paymentMethods.*.type").optional().isIn(['bank_transfer','cashapp','paypal','bitcoin','pay_at_event']),
   body("paymentMethods.*.isActive").optional().isBoolean(),
+  body("holdWindowMinutes").optional().isInt({ min: 5, max: 7 * 24 * 60 }).toInt(),
+  body("cancellationPolicy").optional().isObject(),
+  body("cancellationPolicy.allowCancellation").optional().isBoolean(),
+  body("cancellationPolicy.deadlineHours").optional().isInt({ min: 0 }).toInt(),
+  body("cancellationPolicy.refundPercentage").optional().isFloat({ min: 0, max: 100 }).toFloat(),
+  ...validateCharges,
 ];
 
 
+function escapeRegex(value){
+  return String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Events matching a search term: full-text hits (whole and stemmed words) plus
+ * substring matches on title, description, location, country and creator name,
+ * so partial words like "conc" still find "concert". $text can't sit in an $or
+ * with unindexed clauses, so its hits are resolved to ids first.
+ */
+async function buildSearchClause(search){
+  const pattern = new RegExp(escapeRegex(search), 'i');
+  const [textMatches, creators] = await Promise.all([
+    Event.find({ $text: { $search: search } }).distinct('_id'),
+    User.find({ name: pattern }).distinct('_id')
+  ]);
+  return {
+    $or: [
+      { _id: { $in: textMatches } },
+      { title: pattern },
+      { description: pattern },
+      { location: pattern },
+      { country: pattern },
+      { owner: { $in: creators } }
+    ]
+  };
+}
+
+// Build a Mongo filter from the query params sent by eventsAPI.getEvents
+async function buildEventFilter(query){
+  const { search, status, minPrice, maxPrice, country, location, startDate, endDate } = query;
+  const filter = {};
+  const clauses = [];
+
+  if (search && String(search).trim()) {
+    clauses.push(await buildSearchClause(String(search).trim()));
+  }
+
+  if (status) {
+    filter.status = { $in: String(status).split(',').map(s => s.trim()).filter(Boolean) };
+  }
+
+  if (country) {
+    filter.country = new RegExp(escapeRegex(String(country).trim()), 'i');
+  }
+
+  if (location) {
+    filter.location = new RegExp(escapeRegex(String(location).trim()), 'i');
+  }
+
+  if (startDate || endDate) {
+    filter.date = {};
+    if (startDate && !isNaN(Date.parse(startDate))) filter.date.$gte = new Date(startDate);
+    if (endDate && !isNaN(Date.parse(endDate))) filter.date.$lte = new Date(endDate);
+    if (Object.keys(filter.date).length === 0) delete filter.date;
+  }
+
+  // An event matches the price range when its base price or any of its ticket tiers does
+  const min = minPrice !== undefined && minPrice !== '' ? Number(minPrice) : undefined;
+  const max = maxPrice !== undefined && maxPrice !== '' ? Number(maxPrice) : undefined;
+  const range = {};
+  if (Number.isFinite(min)) range.$gte = min;
+  if (Number.isFinite(max)) range.$lte = max;
+  if (Object.keys(range).length > 0) {
+    clauses.push({
+      $or: [
+        { price: range },
+        ...TICKET_TIERS.map(tier => ({ [`ticketPricing.${tier}.price`]: range }))
+      ]
+    });
+  }
+
+  if (clauses.length > 0) filter.$and = clauses;
+  return filter;
+}
+
 export async function listEvents(req,res,next){
   try{
+    const filter = await buildEventFilter(req.query);
+
     // Include all events (including cancelled) but sort them appropriately
-    const events = await Event.find({}).populate("owner","name email avatar displayPicture").sort({
-      status: 1, // Show active events first
-      date: 1
+    const sort = { status: 1, date: 1 };
+
+    // Without page/limit the full list is returned as a plain array (legacy clients)
+    if (req.query.page === undefined && req.query.limit === undefined) {
+      const events = await Event.find(filter).populate("owner","name email avatar displayPicture").sort(sort);
+      return res.json(events);
+    }
+
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 12, 1), 100);
+    const skip = (page - 1) * limit;
+
+    const [events, total] = await Promise.all([
+      Event.find(filter)
+        .populate("owner","name email avatar displayPicture")
+        .sort(sort)
+        .skip(skip)
+        .limit(limit),
+      Event.countDocuments(filter)
+    ]);
+
+    res.json({
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
     });
-    res.json(events);
   }catch(e){ next(e); }
 }
 
@@ -55,10 +184,28 @@ export async function createEvent(req,res,next){
     const errors = validationResult(req);
     if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
 
+    // Unverified hosts can still prepare drafts
+    const publishing = (req.body.status || 'published') === 'published';
+    if (publishing && !await isHostVerified(req.user.id)) return res.status(403).json(UNVERIFIED_HOST);
+
     // Only accept Cloudinary URLs provided in body.images
     const images = Array.isArray(req.body.images) ? req.body.images : [];
 
-    const event = await Event.create({ ...req.body, images, owner: req.user.id });
+    // Booking counters always start at zero regardless of what the client sends
+    const ticketPricing = req.body.ticketPricing && typeof req.body.ticketPricing === 'object'
+      ? Object.fromEntries(Object.entries(req.body.ticketPricing).map(([tier, settings]) => {
+          const { booked, ...rest } = settings || {};
+          return [tier, rest];
+        }))
+      : undefined;
+
+    const event = await Event.create({
+      ...req.body,
+      images,
+      ...(ticketPricing && { ticketPricing }),
+      bookedSlots: 0,
+      owner: req.user.id
+    });
     res.status(201).json(event);
   }catch(e){ next(e); }
 }
@@ -66,12 +213,39 @@ export async function createEvent(req,res,next){
 export async function updateEvent(req,res,next){
   try{
     const allowed = [
-      "title","description","date","time","location","capacity","totalSlots","bookedSlots",
-      "currency","price","ticketPricing","paymentMethods","status"
+      "title","description","date","time","location","country","capacity","totalSlots",
+      "currency","price","ticketPricing","charges","paymentMethods","status","holdWindowMinutes","cancellationPolicy"
     ];
     const updates = allowed.reduce((acc,k)=>{ if (k in req.body) acc[k]=req.body[k]; return acc; },{});
+
+    // Charges go straight into bookings' totals, so bad ones are rejected rather than stored
+    const chargeErrors = validationResult(req).array().filter(err => String(err.path).startsWith('charges'));
+    if (chargeErrors.length > 0) return res.status(400).json({ errors: chargeErrors });
+
+    // Re-saving an already published event is fine; publishing a new one needs a verified host
+    if (updates.status === 'published' && !await isHostVerified(req.user.id)
+      && await Event.exists({ _id: req.params.id, owner: req.user.id, status: { $ne: 'published' } })) {
+      return res.status(403).json(UNVERIFIED_HOST);
+    }
+
+    // Update tier settings field by field so the per-tier booked counters survive the edit
+    if (updates.ticketPricing && typeof updates.ticketPricing === 'object') {
+      for (const tier of TICKET_TIERS) {
+        const settings = updates.ticketPricing[tier];
+        if (!settings) continue;
+        ["price","slots","includes","earlyBirdPrice","earlyBirdUntil"].forEach(field => {
+          if (field in settings) updates[`ticketPricing.${tier}.${field}`] = settings[field];
+        });
+      }
+      delete updates.ticketPricing;
+    }
     const event = await Event.findOneAndUpdate({ _id: req.params.id, owner: req.user.id }, updates, { new: true });
     if (!event) return res.status(404).json({ message: "Not found or not owner" });
+
+    // Raising capacity may free seats for people on the waitlist
+    const capacityChanged = "totalSlots" in updates || TICKET_TIERS.some(tier => `ticketPricing.${tier}.slots` in updates);
+    if (capacityChanged) triggerWaitlistOffers(event._id);
+
     res.json(event);
   }catch(e){ next(e); }
 }
@@ -114,6 +288,9 @@ export async function updateStatus(req,res,next){
 
     const event = await Event.findOne({ _id: req.params.id, owner: req.user.id });
     if (!event) return res.status(404).json({ message: "Not found or not owner" });
+    if (status === 'published' && event.status !== 'published' && !await isHostVerified(req.user.id)) {
+      return res.status(403).json(UNVERIFIED_HOST);
+    }
 
     // Store original values if postponing for the first time
     if (status === 'postponed' && event.status !== 'postponed') {
@@ -198,9 +375,7 @@ export async function updateStatus(req,res,next){
             notificationMessage = `The event "${event.title}" has been cancelled. ${reason}`;
           }
 
-          // Create notifications for each booked user
-          const notifications = bookedUsers.map(user => ({
-            user: user._id,
+          await notifyUsers(bookedUsers.map(user => user._id), {
             type: status === 'postponed' ? 'event_postponed' : 'event_cancelled',
             title: notificationTitle,
             message: notificationMessage,
@@ -215,39 +390,8 @@ export async function updateStatus(req,res,next){
               originalDate: event.statusDetails?.originalDate || event.date,
               originalTime: event.statusDetails?.originalTime || event.time,
               originalLocation: event.statusDetails?.originalLocation || event.location
-            },
-            read: false
-          }));
-
-          // Save all notifications
-          const savedNotifications = await Notification.insertMany(notifications);
-
-          // Send real-time notifications via Socket.io
-          if (global.io && savedNotifications.length > 0) {
-            const userIds = bookedUsers.map(user => user._id.toString());
-            const notificationData = {
-              type: status === 'postponed' ? 'event_postponed' : 'event_cancelled',
-              title: notificationTitle,
-              message: notificationMessage,
-              data: {
-                eventId: event._id,
-                eventTitle: event.title,
-                updateType: status,
-                reason: reason,
-                ...(status === 'postponed' && newDate && { newDate }),
-                ...(status === 'postponed' && newTime && { newTime }),
-                ...(status === 'postponed' && newLocation && { newLocation }),
-                originalDate: event.statusDetails?.originalDate || event.date,
-                originalTime: event.statusDetails?.originalTime || event.time,
-                originalLocation: event.statusDetails?.originalLocation || event.location
-              },
-              read: false,
-              createdAt: new Date()
-            };
-
-            const sentCount = sendNotificationToUsers(global.io, userIds, notificationData);
-            console.log(`🔔 Real-time notifications sent to ${sentCount}/${userIds.length} connected users`);
-          }
+            }
+          });
 
           console.log(`✅ Sent ${status} notifications to ${bookedUsers.length} users for event: ${event.title}`);
         }
@@ -302,9 +446,7 @@ export async function sendEventNotification(req,res,next){
       return res.json({ message: "No attendees to notify", notificationsSent: 0 });
     }
 
-    // Create notifications for each booked user
-    const notifications = bookedUsers.map(user => ({
-      user: user._id,
+    await notifyUsers(bookedUsers.map(user => user._id), {
       type: 'event_update',
       title: type === 'postponed' ? 'Event Postponed' : 'Event Cancelled',
       message: message,
@@ -314,34 +456,8 @@ export async function sendEventNotification(req,res,next){
         updateType: type,
         ...(newDate && { newDate }),
         ...(newTime && { newTime })
-      },
-      read: false
-    }));
-
-    // Save all notifications
-    const savedNotifications = await Notification.insertMany(notifications);
-
-    // Send real-time notifications via Socket.io
-    if (global.io && savedNotifications.length > 0) {
-      const userIds = bookedUsers.map(user => user._id.toString());
-      const notificationData = {
-        type: 'event_update',
-        title: type === 'postponed' ? 'Event Postponed' : 'Event Cancelled',
-        message: message,
-        data: {
-          eventId,
-          eventTitle,
-          updateType: type,
-          ...(newDate && { newDate }),
-          ...(newTime && { newTime })
-        },
-        read: false,
-        createdAt: new Date()
-      };
-
-      const sentCount = sendNotificationToUsers(global.io, userIds, notificationData);
-      console.log(`🔔 Real-time notifications sent to ${sentCount}/${userIds.length} connected users`);
-    }
+      }
+    });
 
     res.json({
       message: "Notifications sent successfully",
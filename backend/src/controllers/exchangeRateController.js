@@ -0,0 +1,55 @@
+import { body, validationResult } from "express-validator";
+import ExchangeRate from "../models/ExchangeRate.js";
+import { SUPPORTED_CURRENCIES, getLatestRates, parseRatesCsv } from "../utils/currency.js";
+
+export const validateUploadRates = [
+  body("base").isString().trim().toUpperCase().isIn(SUPPORTED_CURRENCIES),
+  body("rates").optional().isObject(),
+  body("csv").optional().isString().isLength({ max: 100000 }),
+  body("effectiveAt").optional({ values: 'null' }).isISO8601().toDate(),
+  body("source").optional().isString().isLength({ max: 200 }),
+];
+
+// Rates may come as { rates: { EUR: 0.92 } } or as an uploaded "currency,rate" CSV
+export async function uploadRates(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const { base, csv, effectiveAt, source } = req.body;
+    const submitted = csv ? parseRatesCsv(csv) : (req.body.rates || {});
+    const rates = Object.fromEntries(Object.entries(submitted)
+      .map(([code, rate]) => [code.toUpperCase(), Number(rate)])
+      .filter(([code, rate]) => code !== base && Number.isFinite(rate) && rate > 0));
+    if (Object.keys(rates).length === 0) return res.status(400).json({ message: "No valid rates found" });
+
+    const snapshot = await ExchangeRate.create({
+      base,
+      rates,
+      ...(effectiveAt && { effectiveAt }),
+      source,
+      uploadedBy: req.user.id
+    });
+    console.log(`💱 Exchange rates uploaded: ${Object.keys(rates).length} against ${base}`);
+    res.status(201).json(snapshot);
+  }catch(e){ next(e); }
+}
+
+export async function listRates(req,res,next){
+  try{
+    const snapshots = await ExchangeRate.find()
+      .populate('uploadedBy', 'name email')
+      .sort({ effectiveAt: -1 })
+      .limit(50);
+    res.json({ snapshots });
+  }catch(e){ next(e); }
+}
+
+// The table clients use to show prices in a display currency
+export async function latestRates(req,res,next){
+  try{
+    const snapshot = await getLatestRates();
+    if (!snapshot) return res.status(404).json({ message: "No exchange rates uploaded yet" });
+    res.json({ base: snapshot.base, rates: snapshot.rates, effectiveAt: snapshot.effectiveAt });
+  }catch(e){ next(e); }
+}
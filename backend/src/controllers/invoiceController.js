@@ -0,0 +1,63 @@
+import mongoose from "mongoose";
+import Invoice from "../models/Invoice.js";
+import Booking from "../models/Booking.js";
+import PaymentReceipt from "../models/PaymentReceipt.js";
+import Payment from "../models/Payment.js";
+import { issueInvoice, generateInvoicePDF } from "../utils/invoices.js";
+
+// The attendee it was issued to, the host who issued it, and admins
+const canReadInvoice = (invoice, user) =>
+  String(invoice.user) === user.id || String(invoice.host) === user.id || user.role === 'admin';
+
+function sendInvoicePDF(res, invoice) {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${invoice.number}.pdf"`);
+  res.send(generateInvoicePDF(invoice));
+}
+
+export async function myInvoices(req,res,next){
+  try{
+    const invoices = await Invoice.find({ user: req.user.id })
+      .select('number booking event eventTitle total amountPaid currency paidAt createdAt')
+      .sort({ createdAt: -1 });
+    res.json({ invoices });
+  }catch(e){ next(e); }
+}
+
+export async function downloadInvoice(req,res,next){
+  try{
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ message: "Invoice not found" });
+    const invoice = await Invoice.findById(req.params.id);
+    if (!invoice) return res.status(404).json({ message: "Invoice not found" });
+    if (!canReadInvoice(invoice, req.user)) {
+      return res.status(403).json({ message: "You can only download your own invoices" });
+    }
+    sendInvoicePDF(res, invoice);
+  }catch(e){ next(e); }
+}
+
+// Paid bookings from before invoicing existed get their invoice issued on first download
+export async function downloadBookingInvoice(req,res,next){
+  try{
+    if (!mongoose.isValidObjectId(req.params.bookingId)) return res.status(404).json({ message: "Booking not found" });
+
+    let invoice = await Invoice.findOne({ booking: req.params.bookingId });
+    if (!invoice) {
+      const booking = await Booking.findById(req.params.bookingId).populate('event', 'owner');
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      if (String(booking.user) !== req.user.id && String(booking.event?.owner) !== req.user.id && req.user.role !== 'admin') {
+        return res.status(403).json({ message: "You can only download invoices for your own bookings" });
+      }
+      if (booking.paymentStatus !== 'confirmed') {
+        return res.status(400).json({ message: "An invoice is issued once the booking's payment is confirmed" });
+      }
+      const paymentReceipt = await PaymentReceipt.findOne({ booking: booking._id, status: 'confirmed' });
+      const payment = paymentReceipt ? null : await Payment.findOne({ booking: booking._id, status: { $in: ['succeeded', 'refunded'] } });
+      invoice = await issueInvoice(booking, { paymentReceipt, payment });
+    }
+    if (!canReadInvoice(invoice, req.user)) {
+      return res.status(403).json({ message: "You can only download invoices for your own bookings" });
+    }
+    sendInvoicePDF(res, invoice);
+  }catch(e){ next(e); }
+}
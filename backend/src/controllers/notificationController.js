@@ -1,5 +1,9 @@
-import Notification from "../models/Notification.js";
+import { body, validationResult } from "express-validator";
+import Notification, { NOTIFICATION_TYPES } from "../models/Notification.js";
 import User from "../models/User.js";
+import PushSubscription from "../models/PushSubscription.js";
+import { NOTIFICATION_CHANNELS, channelsFor } from "../utils/notify.js";
+import { getVapidIdentity } from "../utils/webPush.js";
 
 export async function listNotifications(req,res,next){
   try{
@@ -121,49 +125,134 @@ export async function clearNotifications(req,res,next){
   }catch(e){ next(e); }
 }
 
+// Every type with its resolved channels, so clients can render the full matrix
+function settingsResponse(preferences) {
+  const quietHours = preferences?.quietHours;
+  return {
+    channels: NOTIFICATION_CHANNELS,
+    types: Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, channelsFor(preferences, type)])),
+    quietHours: {
+      enabled: quietHours?.enabled ?? false,
+      start: quietHours?.start || '22:00',
+      end: quietHours?.end || '07:00',
+      timezone: quietHours?.timezone || 'UTC'
+    }
+  };
+}
+
 export async function getSettings(req,res,next){
   try{
-    const user = req.user;
-    // In a real app, stored on User model
-    res.json({ email: true, push: true });
+    const user = await User.findById(req.user.id).select('notificationPreferences');
+    if (!user) return res.status(404).json({ message: "User not found" });
+    res.json(settingsResponse(user.notificationPreferences));
   }catch(e){ next(e); }
 }
 
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const validateSettings = [
+  body("types").optional().isObject()
+    .custom(types => Object.keys(types).every(type => NOTIFICATION_TYPES.includes(type)))
+    .withMessage("Unknown notification type"),
+  body("types.*").optional().isObject(),
+  body("types.*.*").optional().isBoolean(),
+  body("quietHours").optional().isObject(),
+  body("quietHours.enabled").optional().isBoolean(),
+  body("quietHours.start").optional().matches(HH_MM),
+  body("quietHours.end").optional().matches(HH_MM),
+  body("quietHours.timezone").optional().isString().custom(timezone => {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  }).withMessage("Unknown timezone"),
+];
+
+// Partial updates: only the types and quiet-hour fields sent are changed
 export async function updateSettings(req,res,next){
   try{
-    // Here you would persist on User.notificationSettings
-    res.json({ ...req.body });
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const user = await User.findById(req.user.id).select('notificationPreferences');
+    if (!user) return res.status(404).json({ message: "User not found" });
+
+    const { types = {}, quietHours = {} } = req.body;
+    const update = {};
+    for (const [type, channels] of Object.entries(types)) {
+      const current = channelsFor(user.notificationPreferences, type);
+      for (const channel of NOTIFICATION_CHANNELS) {
+        if (typeof channels[channel] === 'boolean') current[channel] = channels[channel];
+      }
+      update[`notificationPreferences.types.${type}`] = current;
+    }
+    for (const field of ['enabled', 'start', 'end', 'timezone']) {
+      if (quietHours[field] !== undefined) update[`notificationPreferences.quietHours.${field}`] = quietHours[field];
+    }
+
+    const updated = await User.findByIdAndUpdate(req.user.id, { $set: update }, { new: true, runValidators: true })
+      .select('notificationPreferences');
+    res.json(settingsResponse(updated.notificationPreferences));
+  }catch(e){ next(e); }
+}
+
+// The application server key browsers need to subscribe
+export async function getPushPublicKey(req,res,next){
+  try{
+    const identity = getVapidIdentity();
+    if (!identity) return res.status(503).json({ message: "Push notifications are not configured on this server" });
+    res.json({ publicKey: identity.publicKey });
   }catch(e){ next(e); }
 }
 
-// Subscribe to push notifications
+const base64UrlLength = (value) => /^[\w-]+=*$/.test(value) ? Buffer.from(value, 'base64url').length : -1;
+
+export const validatePushSubscription = [
+  body("subscription").isObject().withMessage("Subscription data required"),
+  body("subscription.endpoint").isURL({
+    require_protocol: true,
+    // Real push services are HTTPS; plain HTTP is only for the local mock push service
+    protocols: process.env.NODE_ENV === 'production' ? ['https'] : ['https', 'http'],
+    require_tld: process.env.NODE_ENV === 'production'
+  }).withMessage("Subscription endpoint must be a push service URL"),
+  body("subscription.keys.p256dh").custom(key => base64UrlLength(key) === 65)
+    .withMessage("p256dh must be a base64url P-256 public key"),
+  body("subscription.keys.auth").custom(key => base64UrlLength(key) === 16)
+    .withMessage("auth must be a base64url 16-byte secret"),
+  body("subscription.expirationTime").optional({ values: "null" }).isInt({ min: 0 }),
+];
+
+// Save this device's push subscription; re-subscribing the same endpoint just refreshes it
 export async function subscribeToPush(req,res,next){
   try{
-    const { subscription } = req.body;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
 
-    if (!subscription) {
-      return res.status(400).json({ message: "Subscription data required" });
-    }
-
-    // Store subscription in user model (you might want to create a separate PushSubscription model)
-    await User.findByIdAndUpdate(req.user.id, {
-      $set: { pushSubscription: subscription }
-    });
+    const { endpoint, keys, expirationTime } = req.body.subscription;
+    await PushSubscription.findOneAndUpdate(
+      { endpoint },
+      {
+        $set: {
+          user: req.user.id,
+          keys: { p256dh: keys.p256dh, auth: keys.auth },
+          expiresAt: expirationTime ? new Date(expirationTime) : null,
+          userAgent: req.get('user-agent')
+        }
+      },
+      { upsert: true, runValidators: true }
+    );
 
     console.log(`🔔 Push subscription saved for user: ${req.user.name}`);
     res.json({ message: "Push subscription saved successfully" });
   }catch(e){ next(e); }
 }
 
-// Unsubscribe from push notifications
+// Remove one device's subscription, or every device's when no endpoint is given
 export async function unsubscribeFromPush(req,res,next){
   try{
-    // Remove subscription from user model
-    await User.findByIdAndUpdate(req.user.id, {
-      $unset: { pushSubscription: 1 }
-    });
+    const endpoint = req.body?.subscription?.endpoint;
+    const filter = endpoint ? { user: req.user.id, endpoint } : { user: req.user.id };
+    const result = await PushSubscription.deleteMany(filter);
 
-    console.log(`🔔 Push subscription removed for user: ${req.user.name}`);
+    console.log(`🔔 Removed ${result.deletedCount} push subscription(s) for user: ${req.user.name}`);
     res.json({ message: "Push subscription removed successfully" });
   }catch(e){ next(e); }
 }
@@ -0,0 +1,180 @@
+import { body, validationResult } from "express-validator";
+import mongoose from "mongoose";
+import Booking from "../models/Booking.js";
+import Payment from "../models/Payment.js";
+import { canAccessEvent } from "../utils/eventAccess.js";
+import { paymentBlockedByHost } from "../utils/emailVerification.js";
+import { ONLINE_PAYMENT_METHODS } from "../utils/holds.js";
+import { activeProviderName, captureMethod, getPaymentProvider, paymentsEnabled } from "../utils/payments/index.js";
+import {
+  startCheckout,
+  handleGatewayEvent,
+  syncPaymentFromProvider,
+  captureOnlinePayment,
+  refundOnlinePayment
+} from "../utils/onlinePayments.js";
+
+// Whether the booking page should offer online payment
+export async function getPaymentConfig(req,res,next){
+  try{
+    res.json({
+      enabled: paymentsEnabled(),
+      provider: paymentsEnabled() ? activeProviderName() : null,
+      captureMethod: captureMethod()
+    });
+  }catch(e){ next(e); }
+}
+
+export const validateCreateIntent = [
+  body("bookingId").isMongoId(),
+];
+
+// Start (or resume) checkout for the attendee's pending online booking
+export async function createPaymentIntent(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const booking = await Booking.findById(req.body.bookingId).populate('event', 'title owner price currency ticketPricing');
+    if (!booking) return res.status(404).json({ message: "Booking not found" });
+    if (String(booking.user) !== req.user.id) return res.status(403).json({ message: "Forbidden" });
+    if (!ONLINE_PAYMENT_METHODS.includes(booking.paymentMethod)) {
+      return res.status(400).json({ message: "This booking is not paid online" });
+    }
+    if (booking.status !== 'pending' || booking.paymentStatus !== 'pending') {
+      return res.status(400).json({ message: `Cannot pay for a ${booking.status} booking` });
+    }
+    if (booking.holdExpiresAt && booking.holdExpiresAt <= new Date()) {
+      return res.status(410).json({ message: "This booking's hold has expired. Please book again." });
+    }
+    const blocked = await paymentBlockedByHost(booking.event.owner, req.user.id);
+    if (blocked) return res.status(403).json(blocked);
+
+    const payment = await startCheckout(booking, booking.event);
+    res.status(201).json({
+      paymentId: payment._id,
+      status: payment.status,
+      checkoutUrl: payment.checkoutUrl,
+      amount: payment.amount,
+      currency: payment.currency
+    });
+  }catch(e){ next(e); }
+}
+
+// Latest payment for a booking; `sync=true` asks the provider first in case the webhook is late
+export async function getBookingPayment(req,res,next){
+  try{
+    if (!mongoose.isValidObjectId(req.params.bookingId)) return res.status(404).json({ message: "Booking not found" });
+    const booking = await Booking.findById(req.params.bookingId).select('user event status paymentStatus holdExpiresAt');
+    if (!booking) return res.status(404).json({ message: "Booking not found" });
+
+    const isAttendee = String(booking.user) === req.user.id;
+    if (!isAttendee && !await canAccessEvent(booking.event, req.user.id, 'view_revenue')) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    let payment = await Payment.findOne({ booking: booking._id }).sort({ createdAt: -1 }).select('-processedEvents');
+    if (!payment) return res.status(404).json({ message: "No online payment for this booking" });
+
+    if (req.query.sync === 'true') {
+      payment = await syncPaymentFromProvider(payment);
+      const refreshed = await Booking.findById(booking._id).select('status paymentStatus holdExpiresAt');
+      return res.json({ payment, booking: refreshed });
+    }
+    res.json({ payment, booking });
+  }catch(e){ next(e); }
+}
+
+// Provider webhooks; mounted with a raw body parser so the signature covers the exact bytes
+export async function handlePaymentWebhook(req,res,next){
+  try{
+    const provider = getPaymentProvider(req.params.provider);
+    if (!provider) return res.status(404).json({ message: "Unknown payment provider" });
+
+    let event;
+    try {
+      event = provider.parseWebhook(req.body, req.headers);
+    } catch (verifyError) {
+      console.warn(`⚠️ Rejected ${req.params.provider} webhook: ${verifyError.message}`);
+      return res.status(400).json({ message: verifyError.message });
+    }
+
+    const known = await handleGatewayEvent(provider.name, event);
+    res.json({ received: true, ...(!known && { ignored: true }) });
+  }catch(e){ next(e); }
+}
+
+// Online payments for an event, for the host's revenue view
+export async function listEventPayments(req,res,next){
+  try{
+    if (!mongoose.isValidObjectId(req.params.eventId)) return res.status(404).json({ message: "Event not found" });
+    if (!await canAccessEvent(req.params.eventId, req.user.id, 'view_revenue')) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const filter = { event: req.params.eventId };
+    if (req.query.status) filter.status = req.query.status;
+
+    const payments = await Payment.find(filter)
+      .select('-processedEvents')
+      .populate('user', 'name email')
+      .populate('booking', 'seats ticketBreakdown status')
+      .sort({ createdAt: -1 })
+      .limit(200);
+    res.json({ payments });
+  }catch(e){ next(e); }
+}
+
+export const validateCapture = [
+  body("amount").optional().isFloat({ gt: 0 }).toFloat(),
+];
+
+export const validateRefund = [
+  body("amount").optional().isFloat({ gt: 0 }).toFloat(),
+  body("reason").optional().isString().isLength({ max: 200 }),
+];
+
+async function loadManagedPayment(req, res) {
+  if (!mongoose.isValidObjectId(req.params.paymentId)) {
+    res.status(404).json({ message: "Payment not found" });
+    return null;
+  }
+  const payment = await Payment.findById(req.params.paymentId);
+  if (!payment) {
+    res.status(404).json({ message: "Payment not found" });
+    return null;
+  }
+  if (!await canAccessEvent(payment.event, req.user.id, 'confirm_receipts')) {
+    res.status(403).json({ message: "You can only manage payments for events you manage" });
+    return null;
+  }
+  return payment;
+}
+
+// Capture an authorized payment (manual capture mode)
+export async function capturePayment(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const payment = await loadManagedPayment(req, res);
+    if (!payment) return;
+
+    const captured = await captureOnlinePayment(payment, { amount: req.body.amount });
+    res.json({ message: "Payment captured", payment: captured });
+  }catch(e){ next(e); }
+}
+
+// Refund all or part of a payment through the provider
+export async function refundPayment(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const payment = await loadManagedPayment(req, res);
+    if (!payment) return;
+
+    const refunded = await refundOnlinePayment(payment, { amount: req.body.amount, reason: req.body.reason });
+    res.json({ message: "Refund issued", payment: refunded });
+  }catch(e){ next(e); }
+}
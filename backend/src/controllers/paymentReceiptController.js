@@ -5,13 +5,12 @@ import PaymentReceipt from "../models/PaymentReceipt.js";
 import Event from "../models/Event.js";
 import Booking from "../models/Booking.js";
 import User from "../models/User.js";
-import Notification from "../models/Notification.js";
-import Ticket from "../models/Ticket.js";
-import { sendNotificationToUser } from "../socket/socketHandlers.js";
-import {
-  generateQRCodeData,
-  generateQRCodeImage
-} from "../utils/ticketGenerator.js";
+import { notifyUser } from "../utils/notify.js";
+import { applyReceiptConfirmation, applyReceiptRejection } from "../utils/receiptDecisions.js";
+import { canAccessEvent, accessibleEventIds } from "../utils/eventAccess.js";
+import { paymentBlockedByHost } from "../utils/emailVerification.js";
+import { computeBookingTotal } from "../utils/pricing.js";
+import { formatMoney } from "../utils/currency.js";
 
 // Validation middleware
 export const validateReceiptUpload = [
@@ -52,11 +51,28 @@ export async function uploadPaymentReceipt(req, res, next) {
       return res.status(400).json({ message: "Event ID does not match booking" });
     }
 
-    // Check if receipt already exists for this booking
-    const existingReceipt = await PaymentReceipt.findOne({ booking: bookingId });
+    if (booking.status === 'cancelled') {
+      return res.status(400).json({ message: "Cannot upload a receipt for a cancelled booking" });
+    }
+
+    const blocked = await paymentBlockedByHost(booking.event.owner, req.user.id);
+    if (blocked) return res.status(403).json(blocked);
+
+    // A rejected receipt can be replaced; one awaiting review or already confirmed can't
+    const existingReceipt = await PaymentReceipt.findOne({ booking: bookingId, status: { $in: ['pending', 'confirmed'] } });
     if (existingReceipt) {
       return res.status(400).json({ message: "Payment receipt already uploaded for this booking" });
     }
+    const holdLapsed = booking.status === 'expired' || (booking.holdExpiresAt && booking.holdExpiresAt <= new Date());
+    if (holdLapsed) {
+      return res.status(410).json({ message: "This booking's hold has expired. Please book again." });
+    }
+
+    // Compare against what the booking was priced at, not what the attendee typed
+    const expectedAmount = typeof booking.totalAmount === 'number'
+      ? booking.totalAmount
+      : computeBookingTotal(booking.event, booking);
+    const amountMismatch = Math.abs(Number(amount) - expectedAmount) >= 0.005;
 
     // Create payment receipt
     const receipt = await PaymentReceipt.create({
@@ -67,30 +83,50 @@ export async function uploadPaymentReceipt(req, res, next) {
       receiptImage,
       receiptImagePublicId,
       amount,
+      currency: booking.currency || booking.event.currency || 'USD',
+      expectedAmount,
+      amountMismatch,
       paymentMethod: paymentMethod || 'bank_transfer',
       transactionReference,
       notes,
       status: 'pending'
     });
 
+    // Only now claim the hold, so a failed upload leaves it for the sweeper; a submitted
+    // receipt keeps the seats until the host reviews it
+    const held = await Booking.findOneAndUpdate(
+      {
+        _id: bookingId,
+        status: { $nin: ['expired', 'cancelled'] },
+        $or: [{ holdExpiresAt: { $exists: false } }, { holdExpiresAt: { $gt: new Date() } }]
+      },
+      { $unset: { holdExpiresAt: 1 } }
+    );
+    if (!held) {
+      await PaymentReceipt.deleteOne({ _id: receipt._id });
+      return res.status(410).json({ message: "This booking's hold has expired. Please book again." });
+    }
+
     // Populate the receipt with user and event details
     const populatedReceipt = await PaymentReceipt.findById(receipt._id)
       .populate('user', 'name email displayPicture avatar')
       .populate('event', 'title date time location price')
       .populate('eventCreator', 'name email');
 
-    // Create notification for event creator with detailed user information
-    const notification = await Notification.create({
-      user: booking.event.owner,
+    // Tell the event creator, with the attendee's details
+    await notifyUser(booking.event.owner, {
       type: 'payment_receipt',
       title: 'New Payment Receipt Submitted',
-      message: `${req.user.name} (${req.user.email}) has uploaded a payment receipt for "${booking.event.title}"\n\nPayment Details:\n• Amount: $${amount}\n• Method: ${paymentMethod || 'Bank Transfer'}\n• Transaction Ref: ${transactionReference || 'Not provided'}\n${notes ? `• Notes: ${notes}` : ''}`,
+      summary: `${req.user.name} has uploaded a payment receipt for "${booking.event.title}"`,
+      message: `${req.user.name} (${req.user.email}) has uploaded a payment receipt for "${booking.event.title}"\n\nPayment Details:\n• Amount: ${formatMoney(amount, receipt.currency)}${amountMismatch ? ` (booking total is ${formatMoney(expectedAmount, receipt.currency)})` : ''}\n• Method: ${paymentMethod || 'Bank Transfer'}\n• Transaction Ref: ${transactionReference || 'Not provided'}\n${notes ? `• Notes: ${notes}` : ''}`,
       data: {
         receiptId: receipt._id,
         eventId,
         eventTitle: booking.event.title,
         bookingId,
         amount,
+        expectedAmount,
+        amountMismatch,
         paymentMethod: paymentMethod || 'bank_transfer',
         transactionReference,
         notes,
@@ -99,23 +135,9 @@ export async function uploadPaymentReceipt(req, res, next) {
         userPhone: req.user.phone || 'Not provided',
         userAvatar: req.user.displayPicture || req.user.avatar,
         submittedAt: new Date().toISOString()
-      },
-      read: false
+      }
     });
 
-    // Send real-time notification to event creator
-    if (global.io) {
-      sendNotificationToUser(global.io, booking.event.owner.toString(), {
-        id: notification._id,
-        type: 'payment_receipt',
-        title: 'New Payment Receipt Submitted',
-        message: `${req.user.name} has uploaded a payment receipt for "${booking.event.title}"`,
-        data: notification.data,
-        read: false,
-        createdAt: notification.createdAt
-      });
-    }
-
     res.status(201).json({
       message: "Payment receipt uploaded successfully",
       receipt: populatedReceipt
@@ -125,7 +147,7 @@ export async function uploadPaymentReceipt(req, res, next) {
   }
 }
 
-// Get payment receipts for event creator
+// Get payment receipts for event creator (and finance staff)
 export async function getPaymentReceipts(req, res, next) {
   try {
     const { status, eventId } = req.query;
@@ -134,9 +156,10 @@ export async function getPaymentReceipts(req, res, next) {
     const skip = (page - 1) * limit;
 
     // Build query
-    const query = { eventCreator: req.user.id };
+    const eventIds = await accessibleEventIds(req.user.id, 'confirm_receipts');
+    const query = { event: { $in: eventIds } };
     if (status) query.status = status;
-    if (eventId) query.event = eventId;
+    if (eventId) query.event = { $in: eventIds.filter(id => String(id) === String(eventId)) };
 
     // Get receipts with pagination
     const receipts = await PaymentReceipt.find(query)
@@ -163,7 +186,7 @@ export async function getPaymentReceipts(req, res, next) {
   }
 }
 
-// Get single payment receipt by ID (authorized: event creator or receipt owner)
+// Get single payment receipt by ID (authorized: event creator, finance staff or receipt owner)
 export async function getPaymentReceiptById(req, res, next) {
   try {
     const { receiptId } = req.params;
@@ -176,11 +199,11 @@ export async function getPaymentReceiptById(req, res, next) {
       return res.status(404).json({ message: 'Payment receipt not found' });
     }
 
-    // Authorization: only event creator or receipt owner can fetch
-    const isEventCreator = String(receipt.eventCreator) === String(req.user.id);
-    const isReceiptOwner = String(receipt.user) === String(req.user.id);
+    // Authorization: only the event team or receipt owner can fetch
+    const isReceiptOwner = String(receipt.user?._id || receipt.user) === String(req.user.id);
+    const isEventTeam = !isReceiptOwner && !!await canAccessEvent(receipt.event, req.user.id, 'confirm_receipts');
 
-    if (!isEventCreator && !isReceiptOwner) {
+    if (!isEventTeam && !isReceiptOwner) {
       return res.status(403).json({ message: 'You are not authorized to view this payment receipt' });
     }
 
@@ -194,209 +217,44 @@ export async function getPaymentReceiptById(req, res, next) {
 export async function confirmPaymentReceipt(req, res, next) {
   try {
     const { receiptId } = req.params;
-    const { verificationNotes } = req.body;
+    const { verificationNotes, acceptAmountMismatch } = req.body;
 
     // Find the receipt
     const receipt = await PaymentReceipt.findById(receiptId)
       .populate('user', 'name email')
-      .populate('event', 'title date time location status')
+      .populate('event', 'title date time location status owner')
       .populate('booking');
 
     if (!receipt) {
       return res.status(404).json({ message: "Payment receipt not found" });
     }
 
-    // Verify the user is the event creator
-    if (String(receipt.eventCreator) !== String(req.user.id)) {
-      return res.status(403).json({ message: "You can only confirm receipts for your own events" });
+    // Verify the user is the event creator or finance staff
+    if (!await canAccessEvent(receipt.event, req.user.id, 'confirm_receipts')) {
+      return res.status(403).json({ message: "You can only confirm receipts for events you manage" });
     }
 
-    // Update receipt status
-    receipt.status = 'confirmed';
-    receipt.verifiedAt = new Date();
-    receipt.verifiedBy = req.user.id;
-    receipt.verificationNotes = verificationNotes;
-    await receipt.save();
-
-    // Update booking payment status
-    const booking = receipt.booking;
-    booking.paymentStatus = 'confirmed';
-    booking.paymentConfirmedAt = new Date();
-    await booking.save();
-
-    // Create notification for user
-    const notification = await Notification.create({
-      user: receipt.user._id,
-      type: 'payment_confirmed',
-      title: '✅ Payment Confirmed',
-      message: `Great news! Your payment for "${receipt.event.title}" has been confirmed by the event organizer.\n\nPayment Details:\n• Amount: $${receipt.amount}\n• Method: ${receipt.paymentMethod}\n• Confirmed by: ${req.user.name}\n• Event Date: ${new Date(receipt.event.date).toLocaleDateString()}\n\nYour booking is now confirmed. See you at the event!`,
-      data: {
-        receiptId: receipt._id,
-        eventId: receipt.event._id,
-        eventTitle: receipt.event.title,
-        eventDate: receipt.event.date,
-        eventTime: receipt.event.time,
-        eventLocation: receipt.event.location,
-        amount: receipt.amount,
-        paymentMethod: receipt.paymentMethod,
-        confirmedBy: req.user.name,
-        confirmedAt: new Date().toISOString(),
-        verificationNotes
-      },
-      read: false
-    });
-
-    // Send real-time notification to user
-    if (global.io) {
-      sendNotificationToUser(global.io, receipt.user._id.toString(), {
-        id: notification._id,
-        type: 'payment_confirmed',
-        title: '✅ Payment Confirmed',
-        message: `Your payment for "${receipt.event.title}" has been confirmed!`,
-        data: notification.data,
-        read: false,
-        createdAt: notification.createdAt
-      });
+    if (receipt.status !== 'pending') {
+      return res.status(409).json({ message: `This receipt has already been ${receipt.status}` });
     }
 
-    // Automatically generate ticket after payment confirmation
-    try {
-      // Check if ticket already exists
-      const existingTicket = await Ticket.findOne({ paymentReceipt: receipt._id });
-
-      if (!existingTicket) {
-        // Generate unique ticket ID
-        const ticketId = Ticket.generateTicketId();
-
-        // Determine ticket type and quantity from booking
-        let ticketType = 'regular';
-        let quantity = receipt.booking.seats || 1;
-
-        if (receipt.booking.ticketBreakdown && receipt.booking.ticketBreakdown.length > 0) {
-          ticketType = receipt.booking.ticketBreakdown[0].type;
-          quantity = receipt.booking.ticketBreakdown[0].quantity;
+    const blocked = await paymentBlockedByHost(receipt.event.owner, req.user.id);
+    if (blocked) return res.status(403).json(blocked);
+
+    // The host has to say they are happy with a receipt that doesn't match the booking total
+    if (receipt.amountMismatch && acceptAmountMismatch !== true) {
+      return res.status(409).json({
+        message: `This receipt is for ${formatMoney(receipt.amount, receipt.currency)} but the booking total is ${formatMoney(receipt.expectedAmount, receipt.currency)}`,
+        amountMismatch: {
+          expected: receipt.expectedAmount,
+          received: receipt.amount,
+          currency: receipt.currency
         }
-
-        // Set ticket validity (valid until 24 hours after event)
-        const validFrom = new Date();
-
-        // Debug event data
-        console.log('🔍 Event data for ticket generation:', {
-          eventId: receipt.event._id,
-          eventTitle: receipt.event.title,
-          eventDate: receipt.event.date,
-          eventDateType: typeof receipt.event.date,
-          fullEvent: receipt.event
-        });
-
-        // Handle event date with fallback
-        let eventDate;
-        if (receipt.event.date) {
-          eventDate = new Date(receipt.event.date);
-        } else {
-          // Fallback: use current date + 30 days if no event date
-          console.log('⚠️ No event date found, using fallback');
-          eventDate = new Date();
-          eventDate.setDate(eventDate.getDate() + 30);
-        }
-
-        // Ensure event date is valid
-        if (isNaN(eventDate.getTime())) {
-          console.error('❌ Invalid event date:', receipt.event.date);
-          console.error('❌ Event object:', receipt.event);
-          // Use fallback date
-          eventDate = new Date();
-          eventDate.setDate(eventDate.getDate() + 30);
-          console.log('🔧 Using fallback date:', eventDate);
-        }
-
-        const validUntil = new Date(eventDate);
-        validUntil.setHours(validUntil.getHours() + 24);
-
-        // Generate QR code data first
-        const tempTicketData = {
-          ticketId,
-          event: receipt.event._id,
-          user: receipt.user._id,
-          booking: receipt.booking._id,
-          paymentReceipt: receipt._id,
-          ticketType,
-          quantity,
-          validFrom,
-          validUntil,
-          generatedAt: validFrom // Use validFrom as generatedAt
-        };
-
-        const qrData = generateQRCodeData(tempTicketData, receipt.event, receipt.user, receipt.booking);
-
-        // Create ticket record with QR code data
-        const ticket = new Ticket({
-          ticketId,
-          user: receipt.user,
-          event: receipt.event._id,
-          booking: receipt.booking._id,
-          paymentReceipt: receipt._id,
-          ticketType,
-          quantity,
-          validFrom,
-          validUntil,
-          qrCodeData: JSON.stringify(qrData),
-          verificationHash: qrData.hash
-        });
-
-        // Save ticket with enhanced logging
-        console.log('💾 Attempting to save ticket to database:', {
-          ticketId: ticket.ticketId,
-          userId: ticket.user,
-          eventId: ticket.event,
-          paymentReceiptId: ticket.paymentReceipt
-        });
-
-        const savedTicket = await ticket.save();
-        console.log('✅ Ticket saved successfully to database:', {
-          ticketId: savedTicket.ticketId,
-          mongoId: savedTicket._id,
-          createdAt: savedTicket.createdAt
-        });
-
-        // Create ticket notification
-        const ticketNotification = await Notification.create({
-          user: receipt.user._id,
-          type: 'ticket_generated',
-          title: '🎫 Your Event Ticket is Ready!',
-          message: `Your ticket for "${receipt.event.title}" has been generated and is ready for download.\n\nTicket Details:\n• Ticket ID: ${ticketId}\n• Event Date: ${new Date(receipt.event.date).toLocaleDateString()}\n• Ticket Type: ${ticketType.toUpperCase()}\n• Quantity: ${quantity}\n\nPlease download and save your ticket. Present the QR code at the venue for entry.`,
-          data: {
-            ticketId,
-            eventId: receipt.event._id,
-            eventTitle: receipt.event.title,
-            eventDate: receipt.event.date,
-            ticketType,
-            quantity,
-            downloadUrl: `/api/tickets/${ticket._id}/download`
-          },
-          read: false
-        });
-
-        // Send real-time ticket notification
-        if (global.io) {
-          sendNotificationToUser(global.io, receipt.user._id.toString(), {
-            id: ticketNotification._id,
-            type: 'ticket_generated',
-            title: '🎫 Your Event Ticket is Ready!',
-            message: `Your ticket for "${receipt.event.title}" is ready for download!`,
-            data: ticketNotification.data,
-            read: false,
-            createdAt: ticketNotification.createdAt
-          });
-        }
-
-        console.log(`✅ Ticket generated automatically for payment receipt: ${receipt._id}`);
-      }
-    } catch (ticketError) {
-      console.error('❌ Failed to generate ticket automatically:', ticketError);
-      // Don't fail the payment confirmation if ticket generation fails
+      });
     }
 
+    await applyReceiptConfirmation(receipt, req.user, { verificationNotes });
+
     res.json({
       message: "Payment receipt confirmed successfully",
       receipt
@@ -421,55 +279,16 @@ export async function rejectPaymentReceipt(req, res, next) {
       return res.status(404).json({ message: "Payment receipt not found" });
     }
 
-    // Verify the user is the event creator
-    if (String(receipt.eventCreator) !== String(req.user.id)) {
-      return res.status(403).json({ message: "You can only reject receipts for your own events" });
+    // Verify the user is the event creator or finance staff
+    if (!await canAccessEvent(receipt.event, req.user.id, 'confirm_receipts')) {
+      return res.status(403).json({ message: "You can only reject receipts for events you manage" });
     }
-
-    // Update receipt status
-    receipt.status = 'rejected';
-    receipt.verifiedAt = new Date();
-    receipt.verifiedBy = req.user.id;
-    receipt.verificationNotes = verificationNotes || 'Receipt rejected by event organizer';
-    await receipt.save();
-
-    // Create notification for user
-    const notification = await Notification.create({
-      user: receipt.user._id,
-      type: 'payment_rejected',
-      title: '❌ Payment Receipt Rejected',
-      message: `Your payment receipt for "${receipt.event.title}" has been rejected by the event organizer.\n\nRejection Details:\n• Reason: ${verificationNotes || 'No specific reason provided'}\n• Rejected by: ${req.user.name}\n• Original Amount: $${receipt.amount}\n\nPlease review the rejection reason and resubmit a corrected payment receipt, or contact the event organizer directly for assistance.`,
-      data: {
-        receiptId: receipt._id,
-        eventId: receipt.event._id,
-        eventTitle: receipt.event.title,
-        eventDate: receipt.event.date,
-        eventTime: receipt.event.time,
-        eventLocation: receipt.event.location,
-        amount: receipt.amount,
-        paymentMethod: receipt.paymentMethod,
-        rejectionReason: verificationNotes || 'No specific reason provided',
-        rejectedBy: req.user.name,
-        rejectedAt: new Date().toISOString(),
-        organizerEmail: req.user.email,
-        organizerPhone: req.user.phone
-      },
-      read: false
-    });
-
-    // Send real-time notification to user
-    if (global.io) {
-      sendNotificationToUser(global.io, receipt.user._id.toString(), {
-        id: notification._id,
-        type: 'payment_rejected',
-        title: '❌ Payment Receipt Rejected',
-        message: `Your payment receipt for "${receipt.event.title}" has been rejected.`,
-        data: notification.data,
-        read: false,
-        createdAt: notification.createdAt
-      });
+    if (receipt.status !== 'pending') {
+      return res.status(409).json({ message: `This receipt has already been ${receipt.status}` });
     }
 
+    await applyReceiptRejection(receipt, req.user, { verificationNotes });
+
     res.json({
       message: "Payment receipt rejected",
       receipt
@@ -512,7 +331,7 @@ export async function getPaymentReceiptImage(req, res, next) {
 
     // Check if user is authorized to view this receipt
     // Either the event creator or the user who submitted the receipt
-    const isEventCreator = String(receipt.event.owner) === String(req.user.id);
+    const isEventCreator = !!await canAccessEvent(receipt.event, req.user.id, 'confirm_receipts');
     const isReceiptOwner = String(receipt.user) === String(req.user.id);
 
     console.log(`🔐 Authorization check - User: ${req.user.id}, Event Owner: ${receipt.event.owner}, Receipt Owner: ${receipt.user}`);
@@ -0,0 +1,178 @@
+import mongoose from "mongoose";
+import { body, query, validationResult } from "express-validator";
+import HostLedgerEntry from "../models/HostLedgerEntry.js";
+import SettlementPeriod from "../models/SettlementPeriod.js";
+import User from "../models/User.js";
+import {
+  PLATFORM_FEE_PERCENT,
+  syncHostLedger,
+  summarizeEntries,
+  closeSettlementPeriod,
+  markSettlementPaid
+} from "../utils/payouts.js";
+import { statementCsv, statementPdf } from "../utils/settlementStatement.js";
+
+// Hosts see their own ledger; admins may look at any host's with ?host=
+function ledgerHost(req) {
+  if (req.user.role === 'admin' && mongoose.isValidObjectId(req.query.host)) return req.query.host;
+  return req.user.id;
+}
+
+// Balances per currency, the open period, monthly revenue and recent activity
+export async function payoutSummary(req,res,next){
+  try{
+    const hostId = ledgerHost(req);
+    await syncHostLedger(hostId);
+    const host = new mongoose.Types.ObjectId(String(hostId));
+
+    const entries = await HostLedgerEntry.find({ host }).select('type amount payable currency collectedBy settlement');
+    const currencies = [...new Set(entries.map(entry => entry.currency))].sort();
+    const awaiting = await SettlementPeriod.find({ host, status: 'closed' }).select('currency payable');
+
+    const balances = currencies.map(currency => {
+      const inCurrency = entries.filter(entry => entry.currency === currency);
+      const { totals, balance } = summarizeEntries(inCurrency);
+      const open = summarizeEntries(inCurrency.filter(entry => !entry.settlement));
+      return {
+        currency,
+        totals,
+        balance,
+        bookings: inCurrency.filter(entry => entry.type === 'payment').length,
+        openPeriod: { ...open.totals, payable: open.payable, entries: inCurrency.filter(entry => !entry.settlement).length },
+        awaitingPayout: Math.round(awaiting
+          .filter(settlement => settlement.currency === currency)
+          .reduce((sum, settlement) => sum + settlement.payable, 0) * 100) / 100
+      };
+    });
+
+    const since = new Date();
+    since.setMonth(since.getMonth() - 11, 1);
+    since.setHours(0, 0, 0, 0);
+    const monthly = await HostLedgerEntry.aggregate([
+      { $match: { host, type: { $ne: 'payout' }, occurredAt: { $gte: since } } },
+      { $group: {
+        _id: { month: { $dateToString: { format: "%Y-%m", date: "$occurredAt" } }, currency: "$currency" },
+        netRevenue: { $sum: "$amount" },
+        payments: { $sum: { $cond: [{ $eq: ["$type", "payment"] }, "$amount", 0] } }
+      } },
+      { $sort: { "_id.month": 1 } }
+    ]);
+
+    const recent = await HostLedgerEntry.find({ host })
+      .populate('event', 'title')
+      .sort({ occurredAt: -1 })
+      .limit(10);
+
+    res.json({
+      platformFeePercent: PLATFORM_FEE_PERCENT,
+      balances,
+      monthly: monthly.map(row => ({
+        month: row._id.month,
+        currency: row._id.currency,
+        netRevenue: Math.round(row.netRevenue * 100) / 100,
+        payments: Math.round(row.payments * 100) / 100
+      })),
+      recent
+    });
+  }catch(e){ next(e); }
+}
+
+export async function listLedgerEntries(req,res,next){
+  try{
+    const filter = { host: ledgerHost(req) };
+    if (req.query.currency) filter.currency = String(req.query.currency).toUpperCase();
+    if (req.query.settlement === 'open') filter.settlement = null;
+    else if (mongoose.isValidObjectId(req.query.settlement)) filter.settlement = req.query.settlement;
+
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 200);
+    const [entries, total] = await Promise.all([
+      HostLedgerEntry.find(filter)
+        .populate('event', 'title')
+        .sort({ occurredAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      HostLedgerEntry.countDocuments(filter)
+    ]);
+    res.json({ entries, pagination: { page, limit, total, pages: Math.ceil(total / limit) } });
+  }catch(e){ next(e); }
+}
+
+// Admins without ?host= get every host's settlements, to work through payouts
+export async function listSettlements(req,res,next){
+  try{
+    const filter = req.user.role === 'admin' && !req.query.host ? {} : { host: ledgerHost(req) };
+    if (['closed', 'paid'].includes(req.query.status)) filter.status = req.query.status;
+    const settlements = await SettlementPeriod.find(filter)
+      .populate('host', 'name email')
+      .sort({ periodEnd: -1, number: -1 })
+      .limit(100);
+    res.json({ settlements });
+  }catch(e){ next(e); }
+}
+
+export const validateCloseSettlement = [
+  body("periodEnd").optional({ values: 'null' }).isISO8601().toDate()
+    .custom(value => value <= new Date()).withMessage("A period can't end in the future"),
+];
+
+export async function closeSettlement(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const settlements = await closeSettlementPeriod(ledgerHost(req), req.body.periodEnd || new Date());
+    res.status(201).json({ settlements });
+  }catch(e){
+    if (e.code === 11000) return res.status(409).json({ message: "A settlement is already being closed" });
+    next(e);
+  }
+}
+
+export const validateStatement = [
+  query("format").optional().isIn(['csv', 'pdf']),
+];
+
+export async function downloadStatement(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ message: "Settlement not found" });
+
+    const settlement = await SettlementPeriod.findById(req.params.id);
+    if (!settlement) return res.status(404).json({ message: "Settlement not found" });
+    if (String(settlement.host) !== req.user.id && req.user.role !== 'admin') {
+      return res.status(403).json({ message: "You can only download your own statements" });
+    }
+
+    const entries = await HostLedgerEntry.find({ settlement: settlement._id })
+      .populate('event', 'title')
+      .sort({ occurredAt: 1 });
+    const filename = `statement-${settlement.number}-${settlement.currency}`;
+
+    if (req.query.format === 'pdf') {
+      const host = await User.findById(settlement.host).select('name');
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+      return res.send(statementPdf(settlement, entries, host));
+    }
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send(statementCsv(settlement, entries));
+  }catch(e){ next(e); }
+}
+
+export const validateMarkPaid = [
+  body("reference").optional().isString().trim().isLength({ max: 200 }),
+];
+
+export async function markPaid(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ message: "Settlement not found" });
+
+    const settlement = await markSettlementPaid(req.params.id, req.user, { reference: req.body.reference });
+    res.json(settlement);
+  }catch(e){ next(e); }
+}
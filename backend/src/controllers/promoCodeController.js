@@ -0,0 +1,124 @@
+import { body, validationResult } from "express-validator";
+import mongoose from "mongoose";
+import Booking from "../models/Booking.js";
+import PromoCode from "../models/PromoCode.js";
+import { canAccessEvent } from "../utils/eventAccess.js";
+import { TICKET_TIERS } from "../utils/inventory.js";
+
+const promoFields = ["code","description","discountType","amount","ticketTypes","maxUses","perUserLimit","validFrom","validUntil","isActive"];
+
+export const validateCreatePromoCode = [
+  body("code").isString().trim().matches(/^[A-Za-z0-9_-]{3,40}$/).withMessage("Use 3-40 letters, numbers, dashes or underscores"),
+  body("description").optional().isString().isLength({ max: 200 }),
+  body("discountType").isIn(['percentage','fixed']),
+  body("amount").isFloat({ gt: 0 }).toFloat(),
+  body("ticketTypes").optional().isArray(),
+  body("ticketTypes.*").isIn(TICKET_TIERS),
+  body("maxUses").optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
+  body("perUserLimit").optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
+  body("validFrom").optional({ values: 'null' }).isISO8601().toDate(),
+  body("validUntil").optional({ values: 'null' }).isISO8601().toDate(),
+  body("isActive").optional().isBoolean(),
+];
+
+export const validateUpdatePromoCode = [
+  body("code").optional().isString().trim().matches(/^[A-Za-z0-9_-]{3,40}$/).withMessage("Use 3-40 letters, numbers, dashes or underscores"),
+  body("description").optional().isString().isLength({ max: 200 }),
+  body("discountType").optional().isIn(['percentage','fixed']),
+  body("amount").optional().isFloat({ gt: 0 }).toFloat(),
+  body("ticketTypes").optional().isArray(),
+  body("ticketTypes.*").isIn(TICKET_TIERS),
+  body("maxUses").optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
+  body("perUserLimit").optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
+  body("validFrom").optional({ values: 'null' }).isISO8601().toDate(),
+  body("validUntil").optional({ values: 'null' }).isISO8601().toDate(),
+  body("isActive").optional().isBoolean(),
+];
+
+// Rules that span fields, checked against the code as it will be after the change
+function promoRuleError(promo) {
+  if (promo.discountType === 'percentage' && promo.amount > 100) return "A percentage discount can't exceed 100";
+  if (promo.validFrom && promo.validUntil && promo.validFrom >= promo.validUntil) return "The code must start before it expires";
+  return null;
+}
+
+export async function listPromoCodes(req,res,next){
+  try{
+    const access = await canAccessEvent(req.params.id, req.user.id, 'manage_promos');
+    if (!access) return res.status(403).json({ message: "Forbidden" });
+
+    const promoCodes = await PromoCode.find({ event: access.event._id }).sort({ createdAt: -1 });
+    res.json({ promoCodes });
+  }catch(e){ next(e); }
+}
+
+export async function createPromoCode(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const access = await canAccessEvent(req.params.id, req.user.id, 'manage_promos');
+    if (!access) return res.status(403).json({ message: "Forbidden" });
+
+    const data = promoFields.reduce((acc,k)=>{ if (req.body[k] !== undefined && req.body[k] !== null) acc[k]=req.body[k]; return acc; },{});
+    const ruleError = promoRuleError(data);
+    if (ruleError) return res.status(400).json({ message: ruleError });
+
+    const existing = await PromoCode.exists({ event: access.event._id, code: data.code.toUpperCase() });
+    if (existing) return res.status(409).json({ message: "This event already has a promo code with that name" });
+
+    const promo = await PromoCode.create({ ...data, event: access.event._id, createdBy: req.user.id });
+    console.log(`🏷️ Promo code ${promo.code} created for event ${access.event._id}`);
+    res.status(201).json(promo);
+  }catch(e){ next(e); }
+}
+
+export async function updatePromoCode(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const access = await canAccessEvent(req.params.id, req.user.id, 'manage_promos');
+    if (!access) return res.status(403).json({ message: "Forbidden" });
+    if (!mongoose.isValidObjectId(req.params.promoId)) return res.status(404).json({ message: "Promo code not found" });
+
+    const promo = await PromoCode.findOne({ _id: req.params.promoId, event: access.event._id });
+    if (!promo) return res.status(404).json({ message: "Promo code not found" });
+
+    // Null clears a limit or date
+    promoFields.forEach(field => {
+      if (!(field in req.body)) return;
+      promo.set(field, req.body[field] === null ? undefined : req.body[field]);
+    });
+    const ruleError = promoRuleError(promo);
+    if (ruleError) return res.status(400).json({ message: ruleError });
+
+    try {
+      await promo.save();
+    } catch (saveError) {
+      if (saveError.code === 11000) return res.status(409).json({ message: "This event already has a promo code with that name" });
+      throw saveError;
+    }
+    res.json(promo);
+  }catch(e){ next(e); }
+}
+
+// Codes that bookings already used are switched off rather than deleted
+export async function deletePromoCode(req,res,next){
+  try{
+    const access = await canAccessEvent(req.params.id, req.user.id, 'manage_promos');
+    if (!access) return res.status(403).json({ message: "Forbidden" });
+    if (!mongoose.isValidObjectId(req.params.promoId)) return res.status(404).json({ message: "Promo code not found" });
+
+    const promo = await PromoCode.findOne({ _id: req.params.promoId, event: access.event._id });
+    if (!promo) return res.status(404).json({ message: "Promo code not found" });
+
+    if (await Booking.exists({ promoCode: promo._id })) {
+      promo.isActive = false;
+      await promo.save();
+      return res.json({ message: "Promo code deactivated", promoCode: promo });
+    }
+    await promo.deleteOne();
+    res.json({ message: "Promo code deleted" });
+  }catch(e){ next(e); }
+}
@@ -0,0 +1,136 @@
+import { body, validationResult } from "express-validator";
+import Event from "../models/Event.js";
+import EventStaff from "../models/EventStaff.js";
+import User from "../models/User.js";
+import { STAFF_ROLES, ROLE_PERMISSIONS, canAccessEvent } from "../utils/eventAccess.js";
+import { notifyUser } from "../utils/notify.js";
+
+const roleNames = { 'co-host': 'co-host', scanner: 'door scanner', finance: 'finance' };
+
+export const validateInviteStaff = [
+  body("email").isEmail().normalizeEmail(),
+  body("role").isIn(STAFF_ROLES),
+  body("gate").optional({ values: 'falsy' }).isString().trim().isLength({ max: 50 }),
+];
+
+export const validateUpdateStaff = [
+  body("role").optional().isIn(STAFF_ROLES),
+  body("gate").optional({ values: 'null' }).isString().trim().isLength({ max: 50 }),
+];
+
+export async function listStaff(req,res,next){
+  try{
+    const access = await canAccessEvent(req.params.id, req.user.id, 'view_staff');
+    if (!access) return res.status(403).json({ message: "Forbidden" });
+
+    const staff = await EventStaff.find({ event: access.event._id, status: { $in: ['invited', 'active', 'declined'] } })
+      .populate('user', 'name email displayPicture')
+      .sort({ createdAt: 1 });
+    res.json({ staff, permissions: ROLE_PERMISSIONS });
+  }catch(e){ next(e); }
+}
+
+// Owner invites an existing user by email; re-inviting revives a removed or declined entry
+export async function inviteStaff(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const event = await Event.findOne({ _id: req.params.id, owner: req.user.id }).select('title owner');
+    if (!event) return res.status(404).json({ message: "Event not found" });
+
+    const user = await User.findOne({ email: req.body.email }).select('name email');
+    if (!user) return res.status(404).json({ message: "No user with that email. They need an account before joining your team." });
+    if (String(user._id) === String(event.owner)) return res.status(400).json({ message: "You already own this event" });
+
+    const existing = await EventStaff.findOne({ event: event._id, user: user._id });
+    if (existing && ['invited', 'active'].includes(existing.status)) {
+      return res.status(409).json({ message: "This user is already on the event team" });
+    }
+
+    const staff = await EventStaff.findOneAndUpdate(
+      { event: event._id, user: user._id },
+      {
+        role: req.body.role,
+        gate: req.body.gate || undefined,
+        status: 'invited',
+        invitedBy: req.user.id,
+        respondedAt: null
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    ).populate('user', 'name email displayPicture');
+
+    notifyUser(user._id, {
+      type: 'staff_invite',
+      title: 'Event Team Invitation',
+      message: `You have been invited to work "${event.title}" as ${roleNames[staff.role]}${staff.gate ? ` at ${staff.gate}` : ''}.`,
+      data: { eventId: event._id, staffId: staff._id, role: staff.role, gate: staff.gate }
+    }).catch(err => console.error('⚠️ Failed to send staff invitation:', err.message));
+
+    console.log(`👥 ${user.email} invited as ${staff.role} for event ${event._id}`);
+    res.status(201).json(staff);
+  }catch(e){ next(e); }
+}
+
+export async function updateStaff(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const event = await Event.findOne({ _id: req.params.id, owner: req.user.id }).select('_id');
+    if (!event) return res.status(404).json({ message: "Event not found" });
+
+    const updates = {};
+    if (req.body.role) updates.role = req.body.role;
+    if (req.body.gate !== undefined) updates.gate = req.body.gate || null;
+
+    const staff = await EventStaff.findOneAndUpdate(
+      { _id: req.params.staffId, event: event._id, status: { $in: ['invited', 'active'] } },
+      updates,
+      { new: true }
+    ).populate('user', 'name email displayPicture');
+    if (!staff) return res.status(404).json({ message: "Staff member not found" });
+    res.json(staff);
+  }catch(e){ next(e); }
+}
+
+export async function removeStaff(req,res,next){
+  try{
+    const event = await Event.findOne({ _id: req.params.id, owner: req.user.id }).select('_id');
+    if (!event) return res.status(404).json({ message: "Event not found" });
+
+    const staff = await EventStaff.findOneAndUpdate(
+      { _id: req.params.staffId, event: event._id, status: { $ne: 'removed' } },
+      { status: 'removed' },
+      { new: true }
+    );
+    if (!staff) return res.status(404).json({ message: "Staff member not found" });
+    res.json({ message: "Staff member removed" });
+  }catch(e){ next(e); }
+}
+
+// Invitations and active roles for the current user, for the Dashboard
+export async function myStaffRoles(req,res,next){
+  try{
+    const roles = await EventStaff.find({ user: req.user.id, status: { $in: ['invited', 'active'] } })
+      .populate('event', 'title date time location images status')
+      .sort({ createdAt: -1 });
+    res.json(roles.filter(r => r.event).map(r => ({
+      ...r.toObject(),
+      permissions: ROLE_PERMISSIONS[r.role]
+    })));
+  }catch(e){ next(e); }
+}
+
+export async function respondToInvite(req,res,next){
+  try{
+    const accept = req.path.endsWith('/accept');
+    const staff = await EventStaff.findOneAndUpdate(
+      { _id: req.params.staffId, user: req.user.id, status: 'invited' },
+      { status: accept ? 'active' : 'declined', respondedAt: new Date() },
+      { new: true }
+    ).populate('event', 'title date time location images status');
+    if (!staff) return res.status(404).json({ message: "Invitation not found" });
+    res.json({ ...staff.toObject(), permissions: ROLE_PERMISSIONS[staff.role] });
+  }catch(e){ next(e); }
+}
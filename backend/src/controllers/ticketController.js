@@ -1,16 +1,57 @@
+import { body, validationResult } from "express-validator";
 import Ticket from "../models/Ticket.js";
 import Event from "../models/Event.js";
 import User from "../models/User.js";
 import Booking from "../models/Booking.js";
 import PaymentReceipt from "../models/PaymentReceipt.js";
-import Notification from "../models/Notification.js";
+import crypto from "crypto";
+import path from "path";
+import fs from "fs/promises";
 import { 
-  generateQRCodeData, 
   generateQRCodeImage, 
   generateTicketHTML,
+  generateTicketPDF,
   verifyTicketHash 
 } from "../utils/ticketGenerator.js";
-import { sendNotificationToUser } from "../socket/socketHandlers.js";
+import { issueTicketsForReceipt } from "../utils/ticketIssuance.js";
+import { buildPassBundle } from "../utils/walletPass.js";
+import { isTicketToken, verifyTicketToken, getPublishedKeys } from "../utils/ticketTokens.js";
+import { admitTicket, describeAdmissions, syncOfflineAdmissions, getGateThroughput } from "../utils/checkIn.js";
+import { accessibleEventIds, canAccessEvent } from "../utils/eventAccess.js";
+
+// Rendered PDFs are cached outside the public uploads folder; only the owner can fetch them
+const TICKET_STORAGE_DIR = process.env.TICKET_STORAGE_DIR || path.join(process.cwd(), 'storage', 'tickets');
+
+const pdfCachePath = (ticket) => path.join(TICKET_STORAGE_DIR, `${ticket.ticketId}.pdf`);
+
+async function getTicketPdf(ticket) {
+  if (ticket.pdfUrl) {
+    try {
+      return await fs.readFile(pdfCachePath(ticket));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  const qrCodeImage = await generateQRCodeImage(ticket.qrCodeData);
+  const pdf = generateTicketPDF(ticket, ticket.event, ticket.user, qrCodeImage, ticket.booking);
+
+  await fs.mkdir(TICKET_STORAGE_DIR, { recursive: true });
+  await fs.writeFile(pdfCachePath(ticket), pdf);
+  ticket.pdfUrl = `/api/tickets/${ticket._id}/download`;
+  await ticket.save();
+
+  return pdf;
+}
+
+// Drop the cached PDF when details printed on it change
+async function clearTicketPdf(ticket) {
+  await fs.rm(pdfCachePath(ticket), { force: true });
+  if (ticket.pdfUrl) {
+    ticket.pdfUrl = undefined;
+    await ticket.save();
+  }
+}
 
 // Generate ticket after payment confirmation
 export async function generateTicket(req, res, next) {
@@ -21,7 +62,7 @@ export async function generateTicket(req, res, next) {
     const paymentReceipt = await PaymentReceipt.findById(paymentReceiptId)
       .populate('user', 'name email phone displayPicture')
       .populate('event', 'title date time location owner')
-      .populate('booking', 'ticketBreakdown seats paymentMethod');
+      .populate('booking', 'ticketBreakdown seats paymentMethod attendees');
 
     if (!paymentReceipt) {
       return res.status(404).json({ message: "Payment receipt not found" });
@@ -31,114 +72,28 @@ export async function generateTicket(req, res, next) {
       return res.status(400).json({ message: "Payment must be confirmed before generating ticket" });
     }
 
-    // Check if ticket already exists
-    const existingTicket = await Ticket.findOne({ paymentReceipt: paymentReceiptId });
-    if (existingTicket) {
+    // Issue one ticket per seat; seats that already have a ticket are left alone
+    const { tickets, created } = await issueTicketsForReceipt(paymentReceipt);
+    if (created.length === 0) {
       return res.status(400).json({ 
         message: "Ticket already generated for this payment",
-        ticket: existingTicket 
-      });
-    }
-
-    // Generate unique ticket ID
-    const ticketId = Ticket.generateTicketId();
-
-    // Determine ticket type and quantity from booking
-    const booking = paymentReceipt.booking;
-    let ticketType = 'regular';
-    let quantity = booking.seats || 1;
-
-    if (booking.ticketBreakdown && booking.ticketBreakdown.length > 0) {
-      // Use the first ticket type from breakdown (could be enhanced for multiple types)
-      ticketType = booking.ticketBreakdown[0].type;
-      quantity = booking.ticketBreakdown[0].quantity;
-    }
-
-    // Set ticket validity (valid until 24 hours after event)
-    const validFrom = new Date();
-    const validUntil = new Date(paymentReceipt.event.date);
-    validUntil.setHours(validUntil.getHours() + 24);
-
-    // Create ticket record
-    const ticket = new Ticket({
-      ticketId,
-      event: paymentReceipt.event._id,
-      user: paymentReceipt.user._id,
-      booking: paymentReceipt.booking._id,
-      paymentReceipt: paymentReceipt._id,
-      ticketType,
-      quantity,
-      validFrom,
-      validUntil,
-      qrCodeData: '', // Will be set after QR generation
-      verificationHash: '' // Will be set after QR generation
-    });
-
-    // Generate QR code data
-    const qrData = generateQRCodeData(ticket, paymentReceipt.event, paymentReceipt.user, booking);
-    
-    // Generate QR code image
-    const qrCodeImage = await generateQRCodeImage(qrData);
-
-    // Update ticket with QR data
-    ticket.qrCodeData = JSON.stringify(qrData);
-    ticket.verificationHash = qrData.hash;
-
-    // Save ticket
-    await ticket.save();
-
-    // Generate ticket HTML (for future PDF generation)
-    const ticketHTML = generateTicketHTML(
-      ticket, 
-      paymentReceipt.event, 
-      paymentReceipt.user, 
-      booking, 
-      qrCodeImage
-    );
-
-    // Create notification for user about ticket availability
-    const notification = await Notification.create({
-      user: paymentReceipt.user._id,
-      type: 'ticket_generated',
-      title: '🎫 Your Event Ticket is Ready!',
-      message: `Your ticket for "${paymentReceipt.event.title}" has been generated and is ready for download.\n\nTicket Details:\n• Ticket ID: ${ticketId}\n• Event Date: ${new Date(paymentReceipt.event.date).toLocaleDateString()}\n• Ticket Type: ${ticketType.toUpperCase()}\n• Quantity: ${quantity}\n\nPlease download and save your ticket. Present the QR code at the venue for entry.`,
-      data: {
-        ticketId,
-        eventId: paymentReceipt.event._id,
-        eventTitle: paymentReceipt.event.title,
-        eventDate: paymentReceipt.event.date,
-        ticketType,
-        quantity,
-        downloadUrl: `/api/tickets/${ticket._id}/download`
-      },
-      read: false
-    });
-
-    // Send real-time notification
-    if (global.io) {
-      sendNotificationToUser(global.io, paymentReceipt.user._id.toString(), {
-        id: notification._id,
-        type: 'ticket_generated',
-        title: '🎫 Your Event Ticket is Ready!',
-        message: `Your ticket for "${paymentReceipt.event.title}" is ready for download!`,
-        data: notification.data,
-        read: false,
-        createdAt: notification.createdAt
+        ticket: tickets[0],
+        tickets
       });
     }
 
     res.status(201).json({
-      message: "Ticket generated successfully",
-      ticket: {
+      message: `${created.length} ticket${created.length > 1 ? 's' : ''} generated successfully`,
+      tickets: created.map(ticket => ({
         id: ticket._id,
         ticketId: ticket.ticketId,
         eventTitle: paymentReceipt.event.title,
-        ticketType,
-        quantity,
+        ticketType: ticket.ticketType,
+        quantity: ticket.quantity,
+        attendeeName: ticket.attendeeName,
         validUntil: ticket.validUntil,
         downloadUrl: `/api/tickets/${ticket._id}/download`
-      },
-      qrCodeImage // Include QR code for immediate display
+      }))
     });
 
   } catch (error) {
@@ -155,8 +110,8 @@ export async function getUserTickets(req, res, next) {
 
     const tickets = await Ticket.find({ user: userId })
       .populate('event', 'title date time location status')
-      .populate('booking', 'paymentMethod')
-      .sort({ createdAt: -1 });
+      .populate('booking', 'paymentMethod seats ticketBreakdown status paymentStatus createdAt')
+      .sort({ createdAt: -1, seatIndex: 1 });
 
     console.log(`🎫 Found ${tickets.length} tickets for user ${userId}`);
 
@@ -184,12 +139,18 @@ export async function getUserTickets(req, res, next) {
         id: ticket._id,
         ticketId: ticket.ticketId,
         event: ticket.event,
+        booking: ticket.booking,
         ticketType: ticket.ticketType,
         quantity: ticket.quantity,
+        seatIndex: ticket.seatIndex,
+        qrToken: ticket.qrCodeData,
+        attendeeName: ticket.attendeeName,
+        attendeeEmail: ticket.attendeeEmail,
         status: ticket.status,
         validUntil: ticket.validUntil,
         isValid: ticket.isValid,
         downloadCount: ticket.downloadCount,
+        pdfUrl: ticket.pdfUrl,
         createdAt: ticket.createdAt,
         downloadUrl: `/api/tickets/${ticket._id}/download`
       }))
@@ -201,7 +162,7 @@ export async function getUserTickets(req, res, next) {
   }
 }
 
-// Download ticket (HTML format for now, can be extended to PDF)
+// Download ticket as a PDF (cached after the first render); ?format=html keeps the legacy page
 export async function downloadTicket(req, res, next) {
   try {
     const ticketId = req.params.id;
@@ -210,7 +171,7 @@ export async function downloadTicket(req, res, next) {
     const ticket = await Ticket.findOne({ _id: ticketId, user: userId })
       .populate('event', 'title date time location')
       .populate('user', 'name email')
-      .populate('booking', 'paymentMethod');
+      .populate('booking', 'paymentMethod subtotal discount charges totalAmount currency');
 
     if (!ticket) {
       return res.status(404).json({ message: "Ticket not found" });
@@ -220,117 +181,420 @@ export async function downloadTicket(req, res, next) {
       return res.status(400).json({ message: "Ticket is no longer valid" });
     }
 
-    // Parse QR code data
-    const qrData = JSON.parse(ticket.qrCodeData);
-    
-    // Generate QR code image
-    const qrCodeImage = await generateQRCodeImage(qrData);
+    if (req.query.format === 'html') {
+      const qrCodeImage = await generateQRCodeImage(ticket.qrCodeData);
+      const ticketHTML = generateTicketHTML(
+        ticket, 
+        ticket.event, 
+        ticket.user, 
+        ticket.booking, 
+        qrCodeImage
+      );
+
+      await ticket.recordDownload();
+      res.setHeader('Content-Type', 'text/html');
+      res.setHeader('Content-Disposition', `attachment; filename="ticket-${ticket.ticketId}.html"`);
+      return res.send(ticketHTML);
+    }
 
-    // Generate ticket HTML
-    const ticketHTML = generateTicketHTML(
-      ticket, 
-      ticket.event, 
-      ticket.user, 
-      ticket.booking, 
-      qrCodeImage
-    );
+    const pdf = await getTicketPdf(ticket);
 
     // Record download
     await ticket.recordDownload();
 
-    // Set response headers for HTML download
-    res.setHeader('Content-Type', 'text/html');
-    res.setHeader('Content-Disposition', `attachment; filename="ticket-${ticket.ticketId}.html"`);
-    
-    res.send(ticketHTML);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="ticket-${ticket.ticketId}.pdf"`);
+    res.send(pdf);
 
   } catch (error) {
     next(error);
   }
 }
 
-// Validate ticket (for event organizers)
-export async function validateTicket(req, res, next) {
+// Export a signed wallet pass bundle so the ticket works offline
+export async function downloadTicketPass(req, res, next) {
   try {
-    const { qrData } = req.body;
+    const ticket = await Ticket.findOne({ _id: req.params.id, user: req.user.id })
+      .populate('event', 'title date time location')
+      .populate('user', 'name email');
 
-    if (!qrData) {
-      return res.status(400).json({ message: "QR code data is required" });
+    if (!ticket) {
+      return res.status(404).json({ message: "Ticket not found" });
     }
 
-    let parsedData;
+    if (!ticket.isValid) {
+      return res.status(400).json({ message: "Ticket is no longer valid" });
+    }
+
+    let bundle;
     try {
-      parsedData = typeof qrData === 'string' ? JSON.parse(qrData) : qrData;
-    } catch (error) {
-      return res.status(400).json({ message: "Invalid QR code format" });
+      const qrCodeImage = await generateQRCodeImage(ticket.qrCodeData);
+      bundle = buildPassBundle(ticket, ticket.event, ticket.user, ticket.qrCodeData, [
+        { name: 'qr.png', data: Buffer.from(qrCodeImage.split(',')[1], 'base64') }
+      ]);
+    } catch (passError) {
+      if (!passError.status) throw passError;
+      return res.status(passError.status).json({ message: passError.message });
     }
 
-    // Verify hash
-    const isValidHash = verifyTicketHash(
-      { ...parsedData, hash: undefined }, 
-      parsedData.hash
+    await ticket.recordDownload();
+
+    res.setHeader('Content-Type', 'application/vnd.apple.pkpass');
+    res.setHeader('Content-Disposition', `attachment; filename="ticket-${ticket.ticketId}.pkpass"`);
+    res.send(bundle);
+
+  } catch (error) {
+    next(error);
+  }
+}
+
+export const validateAttendeeUpdate = [
+  body("name").optional({ values: 'falsy' }).isString().isLength({ max: 100 }),
+  body("email").optional({ values: 'falsy' }).isEmail(),
+];
+
+// Name the guest who will use a ticket; the QR payload does not include the name so it stays valid
+export async function updateTicketAttendee(req, res, next) {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const { name, email } = req.body;
+    const ticket = await Ticket.findOneAndUpdate(
+      { _id: req.params.id, user: req.user.id, status: 'active' },
+      { attendeeName: name || undefined, attendeeEmail: email || undefined },
+      { new: true }
     );
+    if (!ticket) return res.status(404).json({ message: "Ticket not found" });
+
+    // The attendee name is printed on the PDF
+    await clearTicketPdf(ticket);
+
+    res.json({
+      id: ticket._id,
+      ticketId: ticket.ticketId,
+      attendeeName: ticket.attendeeName,
+      attendeeEmail: ticket.attendeeEmail
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// What the door needs to know about a ticket, including how many guests it still admits
+function ticketAdmissionSummary(ticket) {
+  // Tickets used before partial admission existed carry no count of their own
+  const admittedCount = ticket.status === 'used' ? ticket.quantity : (ticket.admittedCount || 0);
+  return {
+    ticketId: ticket.ticketId,
+    eventId: ticket.event._id,
+    eventTitle: ticket.event.title,
+    attendeeName: ticket.attendeeName || ticket.user.name,
+    attendeeEmail: ticket.attendeeEmail || ticket.user.email,
+    bookedBy: ticket.user.name,
+    ticketType: ticket.ticketType,
+    quantity: ticket.quantity,
+    admittedCount,
+    remaining: Math.max(0, ticket.quantity - admittedCount),
+    status: ticket.status,
+    eventDate: ticket.event.date,
+    eventTime: ticket.event.time,
+    eventLocation: ticket.event.location
+  };
+}
+
+// Admitted vs. remaining guests across an event's tickets (for the door counter)
+export async function getCheckInStats(req, res, next) {
+  try {
+    const event = await Event.findById(req.params.eventId).select('owner title totalSlots bookedSlots');
+    if (!event) {
+      return res.status(404).json({ message: "Event not found" });
+    }
+    if (!await canAccessEvent(event, req.user.id, 'check_in')) {
+      return res.status(403).json({ message: "Only the event's check-in team can view check-in progress" });
+    }
+
+    const [stats] = await Ticket.aggregate([
+      { $match: { event: event._id, status: { $in: ['active', 'used'] } } },
+      { $group: {
+        _id: null,
+        tickets: { $sum: 1 },
+        expected: { $sum: '$quantity' },
+        admitted: { $sum: { $cond: [
+          { $eq: ['$status', 'used'] },
+          '$quantity',
+          { $ifNull: ['$admittedCount', 0] }
+        ] } }
+      } }
+    ]);
+
+    const expected = stats?.expected || 0;
+    const admitted = stats?.admitted || 0;
+    res.json({
+      eventId: event._id,
+      eventTitle: event.title,
+      tickets: stats?.tickets || 0,
+      expected,
+      admitted,
+      remaining: Math.max(0, expected - admitted)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Admissions per gate, for spotting a slow or overloaded door
+export async function getGateStats(req, res, next) {
+  try {
+    const event = await Event.findById(req.params.eventId).select('owner');
+    if (!event) {
+      return res.status(404).json({ message: "Event not found" });
+    }
+    if (!await canAccessEvent(event, req.user.id, 'check_in')) {
+      return res.status(403).json({ message: "Only the event's check-in team can view gate throughput" });
+    }
+
+    res.json({ eventId: event._id, ...await getGateThroughput(event._id) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Everything a scanner needs to validate this event's tickets without a connection
+export async function getCheckInManifest(req, res, next) {
+  try {
+    const event = await Event.findById(req.params.eventId).select('owner title date');
+    if (!event) {
+      return res.status(404).json({ message: "Event not found" });
+    }
+    if (!await canAccessEvent(event, req.user.id, 'check_in')) {
+      return res.status(403).json({ message: "Only the event's check-in team can download the check-in manifest" });
+    }
+
+    const tickets = await Ticket.find({ event: event._id })
+      .select('ticketId qrCodeData ticketType quantity admittedCount status attendeeName validFrom validUntil user')
+      .populate('user', 'name');
+
+    res.json({
+      eventId: event._id,
+      eventTitle: event.title,
+      eventDate: event.date,
+      generatedAt: new Date().toISOString(),
+      keys: await getPublishedKeys(event._id),
+      tickets: tickets.map(ticket => ({
+        ticketId: ticket.ticketId,
+        // Digest of the exact code issued, so replaced or forged codes are caught offline
+        codeHash: crypto.createHash('sha256').update(ticket.qrCodeData).digest('hex'),
+        ticketType: ticket.ticketType,
+        quantity: ticket.quantity,
+        admittedCount: ticket.status === 'used' ? ticket.quantity : (ticket.admittedCount || 0),
+        status: ticket.status,
+        attendeeName: ticket.attendeeName || ticket.user?.name,
+        validFrom: ticket.validFrom,
+        validUntil: ticket.validUntil
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export const validateSyncAdmissions = [
+  body("deviceId").isString().isLength({ min: 1, max: 100 }),
+  body("admissions").isArray({ max: 1000 }),
+  body("admissions.*.id").isString().isLength({ min: 1, max: 100 }),
+  body("admissions.*.ticketId").isString().isLength({ min: 1, max: 100 }),
+  body("admissions.*.count").optional().isInt({ min: 1 }).toInt(),
+  body("admissions.*.scannedAt").isISO8601(),
+  body("admissions.*.gate").optional().isString().isLength({ max: 50 }),
+  body("gate").optional().isString().isLength({ max: 50 }),
+];
+
+// Upload admissions recorded offline; conflicts are reported rather than rejected
+export async function syncCheckIns(req, res, next) {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
 
-    if (!isValidHash) {
+    const event = await Event.findById(req.params.eventId).select('owner');
+    if (!event) {
+      return res.status(404).json({ message: "Event not found" });
+    }
+    const access = await canAccessEvent(event, req.user.id, 'check_in');
+    if (!access) {
+      return res.status(403).json({ message: "Only the event's check-in team can sync check-ins" });
+    }
+
+    const result = await syncOfflineAdmissions(event._id, req.body.admissions, {
+      userId: req.user.id,
+      deviceId: req.body.deviceId,
+      gate: req.body.gate || access.staff?.gate
+    });
+
+    if (result.conflicts.length > 0) {
+      console.log(`⚠️ ${result.conflicts.length} check-in conflict${result.conflicts.length > 1 ? 's' : ''} synced for event ${event._id}`);
+    }
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Validate ticket (for event organizers)
+export async function validateTicket(req, res, next) {
+  try {
+    const { qrData, ticketId: manualTicketId, eventId } = req.body;
+
+    if (!qrData && !manualTicketId) {
+      return res.status(400).json({ message: "QR code data is required" });
+    }
+
+    // Why a scanned code fails (bad signature, revoked key, validity window) is only
+    // for the event's own check-in team, so scanned codes must name the event
+    if (qrData && !eventId) {
       return res.status(400).json({ 
-        message: "Invalid ticket - security verification failed",
+        message: "Choose the event you're checking in before scanning",
+        reason: 'event_required',
         valid: false 
       });
     }
 
+    // Scanners name their event, so check the caller may work its door before saying anything about a code
+    if (eventId) {
+      const scannedEvent = await Event.findById(eventId).select('owner');
+      if (!scannedEvent) {
+        return res.status(404).json({ message: "Event not found", valid: false });
+      }
+      if (!await canAccessEvent(scannedEvent, req.user.id, 'check_in')) {
+        return res.status(403).json({ 
+          message: "Only the event's check-in team can validate tickets",
+          valid: false 
+        });
+      }
+    }
+
+    let ticketIdFromCode;
+    if (!qrData) {
+      // Manual lookup at the door when a code will not scan
+      ticketIdFromCode = String(manualTicketId).trim().toUpperCase();
+    } else if (isTicketToken(qrData)) {
+      // Signed token: check the event key signature, revocation and validity window
+      try {
+        ticketIdFromCode = (await verifyTicketToken(qrData)).ticketId;
+      } catch (tokenError) {
+        if (!tokenError.code) throw tokenError;
+        return res.status(400).json({ 
+          message: tokenError.message,
+          reason: tokenError.code,
+          valid: false 
+        });
+      }
+    } else {
+      // Legacy JSON payload signed with the server HMAC, which only exists when TICKET_SECRET is set
+      if (!process.env.TICKET_SECRET) {
+        return res.status(400).json({ 
+          message: "Old-style ticket codes can't be verified on this server. Enter the ticket ID instead.",
+          reason: 'legacy_unsupported',
+          valid: false 
+        });
+      }
+      let parsedData;
+      try {
+        parsedData = typeof qrData === 'string' ? JSON.parse(qrData) : qrData;
+      } catch (error) {
+        return res.status(400).json({ message: "Invalid QR code format" });
+      }
+
+      const isValidHash = verifyTicketHash(
+        { ...parsedData, hash: undefined }, 
+        parsedData.hash
+      );
+
+      if (!isValidHash) {
+        return res.status(400).json({ 
+          message: "Invalid ticket - security verification failed",
+          valid: false 
+        });
+      }
+      ticketIdFromCode = parsedData.ticketId;
+    }
+
     // Find ticket in database
-    const ticket = await Ticket.findOne({ ticketId: parsedData.ticketId })
+    const ticket = await Ticket.findOne({ ticketId: ticketIdFromCode })
       .populate('event', 'title date time location owner')
       .populate('user', 'name email');
 
     if (!ticket) {
+      // Without an event there's nothing to authorize against, so only check-in staff learn a code is unknown
+      if (!eventId && (await accessibleEventIds(req.user.id, 'check_in')).length === 0) {
+        return res.status(403).json({ 
+          message: "Only the event's check-in team can validate tickets",
+          valid: false 
+        });
+      }
       return res.status(404).json({ 
         message: "Ticket not found in database",
         valid: false 
       });
     }
 
-    // Check if user is event organizer
-    if (String(ticket.event.owner) !== String(req.user.id)) {
+    // Owner or check-in staff only
+    if (!await canAccessEvent(ticket.event, req.user.id, 'check_in')) {
       return res.status(403).json({ 
-        message: "Only event organizers can validate tickets",
+        message: "Only the event's check-in team can validate tickets",
         valid: false 
       });
     }
 
-    // Check ticket validity
-    if (!ticket.isValid) {
+    // A re-signed ticket invalidates the code it replaced
+    if (qrData && isTicketToken(qrData) && ticket.qrCodeData !== qrData) {
       return res.status(400).json({ 
-        message: `Ticket is ${ticket.status}`,
-        valid: false,
-        status: ticket.status 
+        message: "This ticket code has been replaced. Ask the attendee to show their latest ticket.",
+        reason: 'superseded',
+        valid: false 
       });
     }
 
+    // Scanners work one event at a time
+    if (eventId && String(ticket.event._id) !== String(eventId)) {
+      return res.status(400).json({ 
+        message: `Ticket is for a different event ("${ticket.event.title}")`,
+        reason: 'wrong_event',
+        valid: false 
+      });
+    }
+
+    const summary = ticketAdmissionSummary(ticket);
+
     // Check if already used
     if (ticket.status === 'used') {
       return res.status(400).json({ 
         message: "Ticket has already been used",
+        reason: 'used',
         valid: false,
         usedAt: ticket.usedAt,
-        usedBy: ticket.usedBy 
+        admissions: await describeAdmissions(ticket._id),
+        ticket: summary
+      });
+    }
+
+    // Check ticket validity
+    if (!ticket.isValid) {
+      return res.status(400).json({ 
+        message: `Ticket is ${ticket.status === 'active' ? 'not valid at this time' : ticket.status}`,
+        reason: ticket.status === 'active' ? 'outside_validity' : ticket.status,
+        valid: false,
+        status: ticket.status,
+        ticket: summary
       });
     }
 
     res.json({
-      message: "Ticket is valid",
+      message: summary.admittedCount > 0
+        ? `Ticket is valid (${summary.remaining} of ${summary.quantity} admissions left)`
+        : "Ticket is valid",
       valid: true,
-      ticket: {
-        ticketId: ticket.ticketId,
-        eventTitle: ticket.event.title,
-        attendeeName: ticket.user.name,
-        attendeeEmail: ticket.user.email,
-        ticketType: ticket.ticketType,
-        quantity: ticket.quantity,
-        eventDate: ticket.event.date,
-        eventTime: ticket.event.time,
-        eventLocation: ticket.event.location
-      }
+      ticket: summary
     });
 
   } catch (error) {
@@ -338,10 +602,20 @@ export async function validateTicket(req, res, next) {
   }
 }
 
-// Mark ticket as used (for event organizers)
+export const validateUseTicket = [
+  body("count").optional().isInt({ min: 1 }).toInt(),
+  body("deviceId").optional().isString().isLength({ max: 100 }),
+  body("gate").optional().isString().trim().isLength({ max: 50 }),
+];
+
+// Admit some or all remaining guests on a ticket (for event organizers)
 export async function useTicket(req, res, next) {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
     const { ticketId } = req.params;
+    const count = req.body.count || 1;
 
     const ticket = await Ticket.findOne({ ticketId })
       .populate('event', 'owner title')
@@ -351,9 +625,10 @@ export async function useTicket(req, res, next) {
       return res.status(404).json({ message: "Ticket not found" });
     }
 
-    // Check if user is event organizer
-    if (String(ticket.event.owner) !== String(req.user.id)) {
-      return res.status(403).json({ message: "Only event organizers can mark tickets as used" });
+    // Owner or check-in staff only
+    const access = await canAccessEvent(ticket.event, req.user.id, 'check_in');
+    if (!access) {
+      return res.status(403).json({ message: "Only the event's check-in team can mark tickets as used" });
     }
 
     if (ticket.status === 'used') {
@@ -364,15 +639,33 @@ export async function useTicket(req, res, next) {
       return res.status(400).json({ message: "Ticket is not valid" });
     }
 
-    // Mark as used
-    await ticket.markAsUsed(req.user.id);
+    // Admit atomically so two scanners cannot over-admit the same ticket
+    const admitted = await admitTicket(ticket, count, {
+      userId: req.user.id,
+      deviceId: req.body.deviceId,
+      gate: req.body.gate || access.staff?.gate
+    });
+
+    if (!admitted) {
+      const remaining = ticket.quantity - (ticket.admittedCount || 0);
+      return res.status(400).json({ 
+        message: `Only ${remaining} admission${remaining === 1 ? '' : 's'} left on this ticket`,
+        remaining
+      });
+    }
+
+    const updated = admitted.ticket;
+    updated.user = ticket.user;
+    updated.event = ticket.event;
 
     res.json({
-      message: "Ticket marked as used successfully",
+      message: updated.status === 'used'
+        ? "Ticket marked as used successfully"
+        : `Admitted ${count}; ${updated.quantity - updated.admittedCount} remaining on this ticket`,
+      checkInId: admitted.checkIn._id,
       ticket: {
-        ticketId: ticket.ticketId,
-        attendeeName: ticket.user.name,
-        usedAt: ticket.usedAt
+        ...ticketAdmissionSummary(updated),
+        usedAt: updated.usedAt
       }
     });
 
@@ -0,0 +1,52 @@
+import { body, validationResult } from "express-validator";
+import Event from "../models/Event.js";
+import { getPublishedKeys, rotateEventKey, revokeEventKey } from "../utils/ticketTokens.js";
+
+// Public: scanners download these to verify ticket codes offline
+export async function getTicketKeys(req,res,next){
+  try{
+    const event = await Event.findById(req.params.id).select('_id');
+    if (!event) return res.status(404).json({ message: "Event not found" });
+    res.json(await getPublishedKeys(event._id));
+  }catch(e){ next(e); }
+}
+
+export async function rotateTicketKey(req,res,next){
+  try{
+    const event = await Event.findOne({ _id: req.params.id, owner: req.user.id }).select('_id');
+    if (!event) return res.status(404).json({ message: "Not found or not owner" });
+
+    const key = await rotateEventKey(event._id);
+    res.status(201).json({
+      message: "Signing key rotated. Existing tickets remain valid.",
+      kid: key.kid,
+      keys: await getPublishedKeys(event._id)
+    });
+  }catch(e){ next(e); }
+}
+
+export const validateRevokeTicketKey = [
+  body("reason").optional().isString().isLength({ max: 500 }),
+];
+
+export async function revokeTicketKey(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const event = await Event.findOne({ _id: req.params.id, owner: req.user.id }).select('_id');
+    if (!event) return res.status(404).json({ message: "Not found or not owner" });
+
+    const result = await revokeEventKey(event._id, req.params.kid, {
+      revokedBy: req.user.id,
+      reason: req.body.reason
+    });
+    if (!result) return res.status(404).json({ message: "Key not found or already revoked" });
+
+    res.json({
+      message: `Key revoked. ${result.reissued} ticket${result.reissued === 1 ? ' was' : 's were'} re-issued.`,
+      reissued: result.reissued,
+      keys: await getPublishedKeys(event._id)
+    });
+  }catch(e){ next(e); }
+}
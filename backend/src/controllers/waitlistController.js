@@ -0,0 +1,125 @@
+import { body, validationResult } from "express-validator";
+import Event from "../models/Event.js";
+import Waitlist from "../models/Waitlist.js";
+import { getAvailability } from "../utils/inventory.js";
+import { getQueuePosition, releaseOfferSeats, triggerWaitlistOffers } from "../utils/waitlist.js";
+
+const ACTIVE_STATUSES = ['waiting', 'offered'];
+
+export const validateJoinWaitlist = [
+  body("eventId").isMongoId(),
+  body("ticketType").optional().isIn(['any','vvip','vip','standard','tableFor2','tableFor5','regular']),
+  body("quantity").optional().isInt({ min: 1, max: 20 }),
+];
+
+export async function joinWaitlist(req,res,next){
+  try{
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+
+    const { eventId, ticketType = 'any', quantity = 1 } = req.body;
+
+    const event = await Event.findById(eventId).select('title owner status totalSlots bookedSlots ticketPricing');
+    if (!event) return res.status(404).json({ message: "Event not found" });
+    if (String(event.owner) === req.user.id) return res.status(400).json({ message: "Cannot join the waitlist for your own event" });
+    if (event.status === 'cancelled') return res.status(400).json({ message: "Cannot join the waitlist for a cancelled event" });
+
+    // Only sold-out events or tiers take a waitlist; otherwise the user can book directly.
+    // Seats on open offers are already reserved, so they count as taken here.
+    const availability = getAvailability(event);
+    const tier = availability.tiers.find(t => t.type === ticketType);
+    const remaining = Math.min(
+      ticketType === 'any' || !tier ? availability.remaining : tier.remaining,
+      availability.remaining
+    );
+    if (remaining >= quantity) {
+      return res.status(400).json({ message: "Tickets are still available for this event", availability });
+    }
+
+    const existing = await Waitlist.findOne({ event: event._id, user: req.user.id, status: { $in: ACTIVE_STATUSES } });
+    if (existing) return res.status(409).json({ message: "You are already on the waitlist for this event" });
+
+    const entry = await Waitlist.create({
+      event: event._id,
+      user: req.user.id,
+      ticketType,
+      quantity
+    });
+
+    res.status(201).json({ ...entry.toObject(), position: await getQueuePosition(entry) });
+  }catch(e){ next(e); }
+}
+
+export async function leaveWaitlist(req,res,next){
+  try{
+    const previous = await Waitlist.findOneAndUpdate(
+      { _id: req.params.id, user: req.user.id, status: { $in: ACTIVE_STATUSES } },
+      { status: 'left' }
+    );
+    if (!previous) return res.status(404).json({ message: "Waitlist entry not found" });
+
+    // Turning down an offer frees its reserved seats for the next in line
+    if (previous.status === 'offered') {
+      await releaseOfferSeats(previous);
+      triggerWaitlistOffers(previous.event);
+    }
+    res.json({ ...previous.toObject(), status: 'left' });
+  }catch(e){ next(e); }
+}
+
+export async function myWaitlist(req,res,next){
+  try{
+    const entries = await Waitlist.find({ user: req.user.id, status: { $in: ACTIVE_STATUSES } })
+      .populate('event', 'title date time location images')
+      .sort({ createdAt: -1 });
+
+    const withPositions = await Promise.all(entries.map(async entry => ({
+      ...entry.toObject(),
+      position: await getQueuePosition(entry)
+    })));
+    res.json(withPositions);
+  }catch(e){ next(e); }
+}
+
+export async function eventWaitlist(req,res,next){
+  try{
+    const event = await Event.findById(req.params.eventId).select('owner');
+    if (!event) return res.status(404).json({ message: "Event not found" });
+    if (String(event.owner) !== req.user.id) return res.status(403).json({ message: "Forbidden" });
+
+    const entries = await Waitlist.find({ event: event._id })
+      .populate('user', 'name email displayPicture')
+      .sort({ createdAt: 1 });
+
+    // Queue position is the order among entries still waiting
+    let position = 0;
+    res.json(entries.map(entry => ({
+      ...entry.toObject(),
+      position: entry.status === 'waiting' ? ++position : null
+    })));
+  }catch(e){ next(e); }
+}
+
+// All active waitlist entries across the host's events, for the Dashboard
+export async function hostWaitlist(req,res,next){
+  try{
+    const events = await Event.find({ owner: req.user.id }).select('_id');
+    const entries = await Waitlist.find({
+      event: { $in: events.map(e => e._id) },
+      status: { $in: ACTIVE_STATUSES }
+    })
+      .populate('user', 'name email displayPicture')
+      .populate('event', 'title date')
+      .sort({ createdAt: 1 });
+
+    const positions = {};
+    res.json(entries.map(entry => {
+      const eventKey = String(entry.event?._id);
+      if (entry.status === 'waiting') positions[eventKey] = (positions[eventKey] || 0) + 1;
+      return {
+        ...entry.toObject(),
+        position: entry.status === 'waiting' ? positions[eventKey] : null
+      };
+    }));
+  }catch(e){ next(e); }
+}
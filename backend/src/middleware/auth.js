@@ -1,6 +1,13 @@
 import jwt from "jsonwebtoken";
+import User from "../models/User.js";
 
-function authRequired(req,res,next){
+// A session token stays valid until the user's tokenVersion moves past it (e.g. a password reset)
+async function isSessionCurrent(payload){
+  const user = await User.findById(payload.id).select('tokenVersion').lean();
+  return !!user && (user.tokenVersion || 0) === (payload.tv || 0);
+}
+
+async function authRequired(req,res,next){
   const auth = req.headers.authorization || "";
   const token = auth.startsWith("Bearer ") ? auth.slice(7) : null;
 
@@ -16,15 +23,24 @@ function authRequired(req,res,next){
     return res.status(401).json({ message: "No token" });
   }
 
+  let payload;
   try{
-    const payload = jwt.verify(token, process.env.JWT_SECRET);
-    req.user = { id: payload.id, role: payload.role };
-    console.log('✅ Auth successful for user:', payload.id);
-    next();
+    payload = jwt.verify(token, process.env.JWT_SECRET);
   }catch(e){
     console.log('❌ Invalid token:', e.message);
     return res.status(401).json({ message: "Invalid token" });
   }
+
+  try{
+    if (!await isSessionCurrent(payload)) {
+      console.log('❌ Revoked session for user:', payload.id);
+      return res.status(401).json({ message: "Session expired. Please sign in again." });
+    }
+  }catch(e){ return next(e); }
+
+  req.user = { id: payload.id, role: payload.role };
+  console.log('✅ Auth successful for user:', payload.id);
+  next();
 }
 
 function requireRole(...roles){
@@ -38,5 +54,6 @@ function requireRole(...roles){
 
 export {
   authRequired,
+  isSessionCurrent,
   requireRole
 };
@@ -0,0 +1,49 @@
+import mongoose from "mongoose";
+
+const statementLineSchema = new mongoose.Schema({
+  // FITID for OFX, otherwise a hash of the line's fields
+  lineId: { type: String, required: true },
+  postedAt: { type: Date, required: true },
+  // Credits are positive, debits negative
+  amount: { type: Number, required: true },
+  description: { type: String },
+  reference: { type: String },
+  // Receipt this line was used to confirm or reject
+  receipt: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "PaymentReceipt"
+  }
+}, { _id: false });
+
+// A bank export uploaded by a host to verify pending payment receipts against
+const bankStatementSchema = new mongoose.Schema({
+  uploadedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  },
+  // Only match receipts for this event; all the uploader's events when absent
+  event: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Event"
+  },
+  filename: { type: String },
+  format: {
+    type: String,
+    enum: ['csv', 'ofx'],
+    required: true
+  },
+  accountId: { type: String },
+  currency: { type: String },
+  coverage: {
+    from: { type: Date },
+    to: { type: Date }
+  },
+  lines: [statementLineSchema]
+}, {
+  timestamps: true
+});
+
+bankStatementSchema.index({ uploadedBy: 1, createdAt: -1 });
+
+export default mongoose.model("BankStatement", bankStatementSchema);
@@ -4,7 +4,10 @@ const bookingSchema = new mongoose.Schema({
   event: { type: mongoose.Schema.Types.ObjectId, ref: "Event", required: true },
   user: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
   seats: { type: Number, default: 1, min: 1 },
-  status: { type: String, enum: ["pending","confirmed","cancelled","checked-in"], default: "pending" },
+  status: { type: String, enum: ["pending","confirmed","cancelled","checked-in","expired"], default: "pending" },
+
+  // Seats are held until this time while waiting for a payment receipt
+  holdExpiresAt: { type: Date },
 
   // Enhanced booking data
   paymentMethod: { type: String, enum: ["online", "pay-at-event", "bank_transfer", "cashapp", "paypal", "bitcoin"], default: "online" },
@@ -24,11 +27,43 @@ const bookingSchema = new mongoose.Schema({
     phone: { type: String }
   },
 
+  // Optional guest names, one per seat in ticketBreakdown order
+  attendees: [{
+    name: { type: String, trim: true },
+    email: { type: String, trim: true }
+  }],
+
   // Payment tracking (legacy support)
   ticketQuantity: { type: Number, default: 1 },
   totalAmount: { type: Number },
-  paymentStatus: { type: String, enum: ["pending", "confirmed", "rejected"], default: "pending" },
-  paymentConfirmedAt: { type: Date }
+
+  // Priced on the server at booking time (see POST /bookings/quote): early-bird prices, the promo code discount, then fees and taxes
+  subtotal: { type: Number },
+  currency: { type: String },
+  promoCode: { type: mongoose.Schema.Types.ObjectId, ref: "PromoCode" },
+  discount: {
+    code: { type: String },
+    amount: { type: Number }
+  },
+  // The event's fees and taxes as priced for this booking; inclusive ones are already inside subtotal
+  charges: [{
+    _id: false,
+    name: { type: String },
+    kind: { type: String, enum: ['fee','tax'] },
+    inclusive: { type: Boolean },
+    amount: { type: Number }
+  }],
+
+  paymentStatus: { type: String, enum: ["pending", "confirmed", "rejected", "refunded"], default: "pending" },
+  paymentConfirmedAt: { type: Date },
+
+  // Cancellation tracking
+  cancelledAt: { type: Date },
+  cancelledBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  cancellationReason: { type: String }
 },{ timestamps: true });
 
+bookingSchema.index({ status: 1, holdExpiresAt: 1 });
+bookingSchema.index({ promoCode: 1, user: 1 }, { sparse: true });
+
 export default mongoose.model("Booking", bookingSchema);
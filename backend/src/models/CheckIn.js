@@ -0,0 +1,60 @@
+import mongoose from "mongoose";
+
+// One row per admission at the door; the single source of truth for attendance
+const checkInSchema = new mongoose.Schema({
+  event: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Event", 
+    required: true 
+  },
+  booking: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Booking", 
+    required: true 
+  },
+  // Absent for bookings checked in without tickets (e.g. pay at the door)
+  ticket: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Ticket" 
+  },
+  count: { type: Number, required: true, min: 1 },
+
+  // Who, where and how
+  scannedBy: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User" 
+  },
+  gate: { type: String, trim: true },
+  deviceId: { type: String },
+  source: {
+    type: String,
+    enum: ['ticket', 'booking', 'offline'],
+    default: 'ticket'
+  },
+  clientId: { type: String }, // set by offline scanners so a replayed sync is ignored
+  admittedAt: { type: Date, default: Date.now },
+  syncedAt: { type: Date },
+
+  // Booking status before this admission flipped it to checked-in, restored on undo
+  previousBookingStatus: { type: String },
+
+  // Undo of a mistaken admission; undone rows stay for the audit trail
+  undoneAt: { type: Date },
+  undoneBy: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User" 
+  },
+  undoReason: { type: String }
+}, { 
+  timestamps: true 
+});
+
+checkInSchema.index({ event: 1, admittedAt: -1 });
+checkInSchema.index({ ticket: 1, undoneAt: 1 });
+checkInSchema.index({ booking: 1, undoneAt: 1 });
+checkInSchema.index(
+  { clientId: 1 },
+  { unique: true, partialFilterExpression: { clientId: { $type: 'string' } } }
+);
+
+export default mongoose.model("CheckIn", checkInSchema);
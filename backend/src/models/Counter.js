@@ -0,0 +1,18 @@
+import mongoose from "mongoose";
+
+// Named sequences (e.g. invoice numbers), bumped atomically with $inc
+const counterSchema = new mongoose.Schema({
+  _id: { type: String },
+  seq: { type: Number, default: 0 }
+});
+
+counterSchema.statics.next = async function(name) {
+  const counter = await this.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+  return counter.seq;
+};
+
+export default mongoose.model("Counter", counterSchema);
@@ -0,0 +1,33 @@
+import mongoose from "mongoose";
+
+// The current one-time code for an email address and purpose. Resending replaces the
+// code on the same document, which also carries the resend counters for throttling.
+const emailOtpSchema = new mongoose.Schema({
+  email: { type: String, required: true, trim: true, lowercase: true },
+  purpose: {
+    type: String,
+    enum: ['verify_email', 'login'],
+    required: true
+  },
+  user: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+
+  // sha256 of the code; the code itself is only ever in the email
+  codeHash: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+  attempts: { type: Number, default: 0 },
+  consumedAt: { type: Date, default: null },
+
+  lastSentAt: { type: Date, required: true },
+  sendCount: { type: Number, default: 0 },
+  windowStartedAt: { type: Date, required: true },
+
+  // Kept until both the code and the resend window are over, then MongoDB removes it
+  purgeAt: { type: Date, required: true }
+}, {
+  timestamps: true
+});
+
+emailOtpSchema.index({ email: 1, purpose: 1 }, { unique: true });
+emailOtpSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model("EmailOtp", emailOtpSchema);
@@ -0,0 +1,42 @@
+import mongoose from "mongoose";
+
+// Sent messages are kept this long for support lookups, then removed
+const SENT_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+// One rendered email waiting to go out (or already gone); the outbox worker retries failures with backoff
+const emailOutboxSchema = new mongoose.Schema({
+  to: { type: String, required: true, trim: true, lowercase: true },
+  user: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  template: { type: String, required: true },
+
+  subject: { type: String, required: true },
+  text: { type: String, required: true },
+  html: { type: String, required: true },
+  attachments: [{
+    _id: false,
+    filename: { type: String, required: true },
+    contentType: { type: String, default: 'application/octet-stream' },
+    content: { type: Buffer, required: true }
+  }],
+
+  // pending: waiting for its next attempt; sending: claimed by a worker; failed: gave up
+  status: {
+    type: String,
+    enum: ['pending', 'sending', 'sent', 'failed'],
+    default: 'pending'
+  },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, default: Date.now },
+  lockedAt: { type: Date },
+  lastError: { type: String },
+
+  sentAt: { type: Date },
+  messageId: { type: String }
+}, {
+  timestamps: true
+});
+
+emailOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+emailOutboxSchema.index({ sentAt: 1 }, { expireAfterSeconds: SENT_RETENTION_SECONDS });
+
+export default mongoose.model("EmailOutbox", emailOutboxSchema);
@@ -6,20 +6,33 @@ const eventSchema = new mongoose.Schema({
   date: { type: Date, required: true },
   time: { type: String },
   location: { type: String, required: true },
+  country: { type: String, trim: true },
   images: [String],
   capacity: { type: Number, default: 0 },
   totalSlots: { type: Number, default: 0 },
   bookedSlots: { type: Number, default: 0 },
   currency: { type: String, default: 'USD' },
   price: { type: Number },
+  // `booked` is maintained by utils/inventory.js; hosts only edit price/slots/includes.
+  // `earlyBirdPrice` replaces `price` for bookings made before `earlyBirdUntil`.
   ticketPricing: {
-    vvip: { price: Number, slots: Number, includes: [String] },
-    vip: { price: Number, slots: Number, includes: [String] },
-    standard: { price: Number, slots: Number, includes: [String] },
-    tableFor2: { price: Number, slots: Number, includes: [String] },
-    tableFor5: { price: Number, slots: Number, includes: [String] },
-    regular: { price: Number, slots: Number, includes: [String] },
+    vvip: { price: Number, slots: Number, booked: Number, includes: [String], earlyBirdPrice: Number, earlyBirdUntil: Date },
+    vip: { price: Number, slots: Number, booked: Number, includes: [String], earlyBirdPrice: Number, earlyBirdUntil: Date },
+    standard: { price: Number, slots: Number, booked: Number, includes: [String], earlyBirdPrice: Number, earlyBirdUntil: Date },
+    tableFor2: { price: Number, slots: Number, booked: Number, includes: [String], earlyBirdPrice: Number, earlyBirdUntil: Date },
+    tableFor5: { price: Number, slots: Number, booked: Number, includes: [String], earlyBirdPrice: Number, earlyBirdUntil: Date },
+    regular: { price: Number, slots: Number, booked: Number, includes: [String], earlyBirdPrice: Number, earlyBirdUntil: Date },
   },
+  // Service fees and taxes, priced per booking by utils/pricing.js. `amount` is a percentage or a
+  // flat amount per ticket; inclusive charges are part of the ticket price, exclusive ones are added on top.
+  charges: [{
+    name: { type: String, required: true, trim: true },
+    kind: { type: String, enum: ['fee','tax'], default: 'fee' },
+    calculation: { type: String, enum: ['percentage','flat'], default: 'percentage' },
+    amount: { type: Number, required: true, min: 0 },
+    inclusive: { type: Boolean, default: false },
+    ticketTypes: [String], // empty applies to every tier
+  }],
   paymentMethods: [{
     id: String,
     type: { type: String, enum: ['bank_transfer','cashapp','paypal','bitcoin','pay_at_event'] },
@@ -27,6 +40,16 @@ const eventSchema = new mongoose.Schema({
     details: { type: Object },
   }],
   status: { type: String, enum: ["draft","published","cancelled","postponed"], default: "published" },
+
+  // Minutes a pending receipt-based booking keeps its seats before expiring
+  holdWindowMinutes: { type: Number, default: 60, min: 5 },
+
+  // Attendee cancellation rules set by the host
+  cancellationPolicy: {
+    allowCancellation: { type: Boolean, default: true },
+    deadlineHours: { type: Number, default: 24, min: 0 }, // hours before the event starts
+    refundPercentage: { type: Number, default: 100, min: 0, max: 100 },
+  },
   owner: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
 
   // Postponement/Cancellation details
@@ -42,4 +65,11 @@ const eventSchema = new mongoose.Schema({
   },
 },{ timestamps: true });
 
+// Full-text search for GET /api/events?search=
+eventSchema.index(
+  { title: "text", description: "text", location: "text" },
+  { weights: { title: 5, location: 2, description: 1 }, name: "event_text_search" }
+);
+eventSchema.index({ status: 1, date: 1 });
+
 export default mongoose.model("Event", eventSchema);
@@ -0,0 +1,40 @@
+import mongoose from "mongoose";
+
+const eventSigningKeySchema = new mongoose.Schema({
+  event: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Event", 
+    required: true 
+  },
+
+  // Short key id carried in every ticket token
+  kid: { 
+    type: String, 
+    required: true, 
+    unique: true 
+  },
+
+  // Ed25519 key pair; the public half is published to scanners as a JWK
+  publicKey: { type: String, required: true },
+  privateKey: { type: String, required: true, select: false },
+
+  // active: signs new tickets; retired: verifies existing tickets only; revoked: rejected everywhere
+  status: {
+    type: String,
+    enum: ['active', 'retired', 'revoked'],
+    default: 'active'
+  },
+  retiredAt: { type: Date },
+  revokedAt: { type: Date },
+  revokedBy: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User" 
+  },
+  revocationReason: { type: String, trim: true }
+}, { 
+  timestamps: true 
+});
+
+eventSigningKeySchema.index({ event: 1, status: 1 });
+
+export default mongoose.model("EventSigningKey", eventSigningKeySchema);
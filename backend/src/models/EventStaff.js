@@ -0,0 +1,43 @@
+import mongoose from "mongoose";
+
+const eventStaffSchema = new mongoose.Schema({
+  event: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Event", 
+    required: true 
+  },
+  user: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User", 
+    required: true 
+  },
+
+  // Permissions for each role live in utils/eventAccess.js
+  role: {
+    type: String,
+    enum: ['co-host', 'scanner', 'finance'],
+    required: true
+  },
+
+  // Default gate label recorded on admissions by this staff member
+  gate: { type: String, trim: true, maxlength: 50 },
+
+  // The invited user has to accept before the role takes effect
+  status: {
+    type: String,
+    enum: ['invited', 'active', 'declined', 'removed'],
+    default: 'invited'
+  },
+  invitedBy: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User" 
+  },
+  respondedAt: { type: Date }
+}, { 
+  timestamps: true 
+});
+
+eventStaffSchema.index({ event: 1, user: 1 }, { unique: true });
+eventStaffSchema.index({ user: 1, status: 1 });
+
+export default mongoose.model("EventStaff", eventStaffSchema);
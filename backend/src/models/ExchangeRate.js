@@ -0,0 +1,15 @@
+import mongoose from "mongoose";
+
+// A table of rates uploaded by an admin: 1 unit of `base` buys `rates[code]` of each currency.
+// Conversions use the newest snapshot already in effect; nothing is fetched from outside.
+const exchangeRateSchema = new mongoose.Schema({
+  base: { type: String, required: true, uppercase: true },
+  rates: { type: Map, of: Number, required: true },
+  effectiveAt: { type: Date, default: Date.now },
+  source: { type: String, trim: true },
+  uploadedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" }
+},{ timestamps: true });
+
+exchangeRateSchema.index({ effectiveAt: -1 });
+
+export default mongoose.model("ExchangeRate", exchangeRateSchema);
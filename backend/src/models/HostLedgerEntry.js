@@ -0,0 +1,37 @@
+import mongoose from "mongoose";
+
+// One movement of money on a host's account. `amount` is its effect on the host's
+// revenue; `payable` is its effect on what the platform owes the host, which stays 0
+// for money the host collected directly (bank transfer and cash receipts).
+const hostLedgerEntrySchema = new mongoose.Schema({
+  host: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+  event: { type: mongoose.Schema.Types.ObjectId, ref: "Event" },
+  booking: { type: mongoose.Schema.Types.ObjectId, ref: "Booking" },
+
+  type: {
+    type: String,
+    enum: ['payment', 'refund', 'platform_fee', 'payout'],
+    required: true
+  },
+  amount: { type: Number, required: true },
+  payable: { type: Number, required: true },
+  currency: { type: String, default: 'USD', uppercase: true },
+  collectedBy: { type: String, enum: ['platform', 'host'], default: 'platform' },
+  description: { type: String, trim: true },
+
+  // The record that caused this entry (Payment, PaymentRefund, PaymentReceipt, RefundRequest, SettlementPeriod)
+  source: {
+    kind: { type: String, required: true },
+    id: { type: String, required: true }
+  },
+  occurredAt: { type: Date, default: Date.now },
+
+  // Set once the entry is rolled into a closed settlement period
+  settlement: { type: mongoose.Schema.Types.ObjectId, ref: "SettlementPeriod", default: null }
+},{ timestamps: true });
+
+// Recording is idempotent: the same source never books the same kind of entry twice
+hostLedgerEntrySchema.index({ type: 1, 'source.kind': 1, 'source.id': 1 }, { unique: true });
+hostLedgerEntrySchema.index({ host: 1, settlement: 1, occurredAt: 1 });
+
+export default mongoose.model("HostLedgerEntry", hostLedgerEntrySchema);
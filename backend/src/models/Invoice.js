@@ -0,0 +1,58 @@
+import mongoose from "mongoose";
+
+// The paid invoice for a confirmed booking. Host and attendee details are copied in
+// at issue time so the document doesn't change if either profile is edited later.
+const invoiceSchema = new mongoose.Schema({
+  number: { type: String, required: true, unique: true },
+  sequence: { type: Number, required: true },
+
+  booking: { type: mongoose.Schema.Types.ObjectId, ref: "Booking", required: true, unique: true },
+  user: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+  event: { type: mongoose.Schema.Types.ObjectId, ref: "Event", required: true },
+  host: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+
+  issuedBy: {
+    name: { type: String },
+    email: { type: String },
+    companyAddress: { type: String }
+  },
+  billedTo: {
+    name: { type: String },
+    email: { type: String }
+  },
+  eventTitle: { type: String },
+  eventDate: { type: Date },
+
+  lines: [{
+    _id: false,
+    description: { type: String },
+    quantity: { type: Number },
+    unitPrice: { type: Number },
+    amount: { type: Number }
+  }],
+  subtotal: { type: Number, default: 0 },
+  discount: {
+    code: { type: String },
+    amount: { type: Number, default: 0 }
+  },
+  charges: [{
+    _id: false,
+    name: { type: String },
+    kind: { type: String, enum: ['fee', 'tax'] },
+    inclusive: { type: Boolean },
+    amount: { type: Number }
+  }],
+  total: { type: Number, required: true },
+  // What was actually received; a host can accept a receipt that doesn't match the total
+  amountPaid: { type: Number },
+  currency: { type: String, default: 'USD' },
+
+  paymentMethod: { type: String },
+  paidAt: { type: Date },
+  paymentReceipt: { type: mongoose.Schema.Types.ObjectId, ref: "PaymentReceipt" },
+  payment: { type: mongoose.Schema.Types.ObjectId, ref: "Payment" }
+},{ timestamps: true });
+
+invoiceSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model("Invoice", invoiceSchema);
@@ -1,19 +1,27 @@
 import mongoose from "mongoose";
 
+export const NOTIFICATION_TYPES = [
+  'payment_receipt',
+  'payment_confirmed',
+  'payment_rejected',
+  'payment_failed',
+  'event_postponed',
+  'event_cancelled',
+  'event_update',
+  'booking_confirmed',
+  'booking_cancelled',
+  'refund_processed',
+  'booking_expired',
+  'waitlist_offer',
+  'ticket_generated',
+  'staff_invite'
+];
+
 const notificationSchema = new mongoose.Schema({
   user: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
   type: {
     type: String,
-    enum: [
-      'payment_receipt',
-      'payment_confirmed',
-      'payment_rejected',
-      'event_postponed',
-      'event_cancelled',
-      'event_update',
-      'booking_confirmed',
-      'booking_cancelled'
-    ],
+    enum: NOTIFICATION_TYPES,
     required: true
   },
   title: { type: String, required: true },
@@ -0,0 +1,68 @@
+import mongoose from "mongoose";
+
+// An online payment for a booking, mirrored from the provider's payment intent
+const paymentSchema = new mongoose.Schema({
+  booking: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Booking", 
+    required: true 
+  },
+  user: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User", 
+    required: true 
+  },
+  event: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Event", 
+    required: true 
+  },
+  eventCreator: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User", 
+    required: true 
+  },
+
+  // Provider and its id for the intent
+  provider: { type: String, required: true },
+  intentId: { type: String, required: true },
+  checkoutUrl: { type: String },
+
+  // Amounts in major units (e.g. dollars)
+  amount: { type: Number, required: true },
+  currency: { type: String, default: 'USD' },
+  amountCaptured: { type: Number, default: 0 },
+  amountRefunded: { type: Number, default: 0 },
+  captureMethod: { 
+    type: String, 
+    enum: ['automatic', 'manual'], 
+    default: 'automatic' 
+  },
+
+  status: {
+    type: String,
+    enum: ['requires_payment', 'authorized', 'succeeded', 'failed', 'cancelled', 'refunded'],
+    default: 'requires_payment'
+  },
+  failureReason: { type: String },
+  authorizedAt: { type: Date },
+  succeededAt: { type: Date },
+
+  refunds: [{
+    refundId: { type: String },
+    amount: { type: Number },
+    status: { type: String, enum: ['pending', 'succeeded', 'failed'] },
+    reason: { type: String },
+    createdAt: { type: Date, default: Date.now }
+  }],
+
+  // Webhook event ids already applied, so redelivered events are ignored
+  processedEvents: [String]
+}, { 
+  timestamps: true 
+});
+
+paymentSchema.index({ provider: 1, intentId: 1 }, { unique: true });
+paymentSchema.index({ booking: 1, createdAt: -1 });
+
+export default mongoose.model("Payment", paymentSchema);
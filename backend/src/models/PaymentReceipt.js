@@ -47,6 +47,15 @@ const paymentReceiptSchema = new mongoose.Schema({
     type: String, 
     default: 'USD' 
   },
+
+  // Server-priced amount owed for the booking; a receipt for a different amount is flagged for the host
+  expectedAmount: { 
+    type: Number 
+  },
+  amountMismatch: { 
+    type: Boolean, 
+    default: false 
+  },
   paymentMethod: { 
     type: String, 
     enum: ['bank_transfer', 'mobile_money', 'cash', 'card', 'other'],
@@ -74,6 +83,18 @@ const paymentReceiptSchema = new mongoose.Schema({
   verificationNotes: { 
     type: String 
   },
+
+  // Bank statement line that justified an automated confirmation
+  statementMatch: {
+    statement: { type: mongoose.Schema.Types.ObjectId, ref: "BankStatement" },
+    lineId: { type: String },
+    postedAt: { type: Date },
+    amount: { type: Number },
+    reference: { type: String },
+    description: { type: String },
+    score: { type: Number },
+    matchedAt: { type: Date }
+  },
   
   // Additional notes from user
   notes: { 
@@ -87,5 +108,6 @@ const paymentReceiptSchema = new mongoose.Schema({
 paymentReceiptSchema.index({ eventCreator: 1, status: 1 });
 paymentReceiptSchema.index({ user: 1, event: 1 });
 paymentReceiptSchema.index({ event: 1, status: 1 });
+paymentReceiptSchema.index({ 'statementMatch.lineId': 1 }, { sparse: true });
 
 export default mongoose.model("PaymentReceipt", paymentReceiptSchema);
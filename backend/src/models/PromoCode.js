@@ -0,0 +1,61 @@
+import mongoose from "mongoose";
+
+const promoCodeSchema = new mongoose.Schema({
+  event: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Event",
+    required: true
+  },
+
+  // Stored upper-case; attendees may type it in any case
+  code: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true,
+    maxlength: 40
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+
+  // Percentage off eligible tickets, or a fixed amount off the booking (in the event currency)
+  discountType: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+
+  // Ticket tiers the code applies to; empty means every tier
+  ticketTypes: [{ type: String }],
+
+  // Limits; unset means unlimited
+  maxUses: { type: Number, min: 1 },
+  perUserLimit: { type: Number, min: 1 },
+
+  // Bookings currently holding a use; released again when a booking is cancelled or expires
+  usedCount: { type: Number, default: 0, min: 0 },
+
+  // Validity window
+  validFrom: { type: Date },
+  validUntil: { type: Date },
+  isActive: { type: Boolean, default: true },
+
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User"
+  }
+}, {
+  timestamps: true
+});
+
+promoCodeSchema.index({ event: 1, code: 1 }, { unique: true });
+
+export default mongoose.model("PromoCode", promoCodeSchema);
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+
+// How many uses of a code one user currently holds; bumped conditionally so the
+// per-user limit holds when the same user books twice at once
+const promoRedemptionSchema = new mongoose.Schema({
+  promoCode: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "PromoCode",
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  },
+  count: { type: Number, default: 0, min: 0 }
+}, {
+  timestamps: true
+});
+
+promoRedemptionSchema.index({ promoCode: 1, user: 1 }, { unique: true });
+
+export default mongoose.model("PromoRedemption", promoRedemptionSchema);
@@ -0,0 +1,36 @@
+import mongoose from "mongoose";
+
+// One browser or device a user has allowed to receive web push; a user may have several
+const pushSubscriptionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  },
+
+  // Push service URL for this device; it identifies the subscription
+  endpoint: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  // Receiver keys for payload encryption, base64url as the browser hands them over
+  keys: {
+    p256dh: { type: String, required: true },
+    auth: { type: String, required: true }
+  },
+
+  // Set when the browser says the subscription lapses; MongoDB removes it after that
+  expiresAt: { type: Date, default: null },
+
+  userAgent: { type: String },
+  lastDeliveredAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+pushSubscriptionSchema.index({ user: 1 });
+pushSubscriptionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model("PushSubscription", pushSubscriptionSchema);
@@ -0,0 +1,82 @@
+import mongoose from "mongoose";
+
+const refundRequestSchema = new mongoose.Schema({
+  // Attendee who is owed the refund
+  user: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User", 
+    required: true 
+  },
+
+  // Event and its creator (who processes the refund)
+  event: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Event", 
+    required: true 
+  },
+  eventCreator: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User", 
+    required: true 
+  },
+
+  // Cancelled booking and the confirmed receipt or online payment being refunded
+  booking: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Booking", 
+    required: true 
+  },
+  paymentReceipt: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "PaymentReceipt" 
+  },
+  payment: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Payment" 
+  },
+
+  // Refund amounts
+  paidAmount: { 
+    type: Number, 
+    required: true 
+  },
+  amount: { 
+    type: Number, 
+    required: true 
+  },
+  currency: { 
+    type: String, 
+    default: 'USD' 
+  },
+  reason: { 
+    type: String 
+  },
+
+  // Status tracking
+  status: { 
+    type: String, 
+    enum: ['pending', 'approved', 'rejected', 'refunded'],
+    default: 'pending'
+  },
+
+  // Processing details
+  processedAt: { 
+    type: Date 
+  },
+  processedBy: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User" 
+  },
+  processingNotes: { 
+    type: String 
+  }
+}, { 
+  timestamps: true 
+});
+
+// One refund request per booking
+refundRequestSchema.index({ booking: 1 }, { unique: true });
+refundRequestSchema.index({ eventCreator: 1, status: 1 });
+refundRequestSchema.index({ user: 1 });
+
+export default mongoose.model("RefundRequest", refundRequestSchema);
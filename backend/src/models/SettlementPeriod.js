@@ -0,0 +1,39 @@
+import mongoose from "mongoose";
+
+// A closed stretch of a host's ledger in one currency. The balance carries over from
+// the previous period, so closingBalance is what the platform owes the host (negative
+// when the host owes platform fees on money they collected themselves).
+const settlementPeriodSchema = new mongoose.Schema({
+  host: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+  number: { type: Number, required: true },
+  currency: { type: String, default: 'USD', uppercase: true },
+  periodStart: { type: Date, required: true },
+  periodEnd: { type: Date, required: true },
+
+  totals: {
+    payments: { type: Number, default: 0 },
+    refunds: { type: Number, default: 0 },
+    platformFees: { type: Number, default: 0 },
+    payouts: { type: Number, default: 0 },
+    netRevenue: { type: Number, default: 0 },
+    collectedByHost: { type: Number, default: 0 }
+  },
+  entryCount: { type: Number, default: 0 },
+
+  // Payable activity in this period, and the running balance around it
+  payable: { type: Number, default: 0 },
+  openingBalance: { type: Number, default: 0 },
+  closingBalance: { type: Number, default: 0 },
+
+  status: { type: String, enum: ['closed', 'paid'], default: 'closed' },
+  paidAt: { type: Date },
+  paidBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  payoutReference: { type: String, trim: true }
+},{ timestamps: true });
+
+// Statement numbers run per host across currencies
+settlementPeriodSchema.index({ host: 1, number: 1 }, { unique: true });
+settlementPeriodSchema.index({ host: 1, currency: 1, periodEnd: -1 });
+settlementPeriodSchema.index({ status: 1, periodEnd: -1 });
+
+export default mongoose.model("SettlementPeriod", settlementPeriodSchema);
@@ -25,10 +25,14 @@ const ticketSchema = new mongoose.Schema({
     ref: "Booking", 
     required: true 
   },
+  // How the booking was paid: an uploaded receipt or an online payment
   paymentReceipt: { 
     type: mongoose.Schema.Types.ObjectId, 
-    ref: "PaymentReceipt", 
-    required: true 
+    ref: "PaymentReceipt" 
+  },
+  payment: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Payment" 
   },
 
   // Ticket details
@@ -42,6 +46,12 @@ const ticketSchema = new mongoose.Schema({
     required: true, 
     min: 1 
   },
+  // Position of this admission within the booking (one ticket per seat)
+  seatIndex: { type: Number },
+  attendeeName: { type: String, trim: true },
+  attendeeEmail: { type: String, trim: true, lowercase: true },
+  // Guests admitted so far (see the CheckIn ledger); the ticket becomes 'used' once this reaches quantity
+  admittedCount: { type: Number, default: 0, min: 0 },
   seatNumber: { type: String }, // Optional seat assignment
   section: { type: String }, // Optional section assignment
 
@@ -49,7 +59,8 @@ const ticketSchema = new mongoose.Schema({
   qrCodeData: { 
     type: String, 
     required: true 
-  },
+  }, // Signed IS1 token (legacy tickets hold the HMAC-signed JSON)
+  signingKeyId: { type: String }, // kid of the event key that signed qrCodeData
   verificationHash: { 
     type: String, 
     required: true 
@@ -62,12 +73,13 @@ const ticketSchema = new mongoose.Schema({
     default: 'active'
   },
   
-  // Usage tracking
+  // Usage tracking. Who admitted each guest, and at which gate, is in the CheckIn
+  // ledger; usedBy is only set on tickets admitted before the ledger existed.
   usedAt: { type: Date },
   usedBy: { 
     type: mongoose.Schema.Types.ObjectId, 
     ref: "User" 
-  }, // Event organizer who scanned the ticket
+  },
   
   // Validity
   validFrom: { type: Date, required: true },
@@ -87,7 +99,12 @@ const ticketSchema = new mongoose.Schema({
 ticketSchema.index({ event: 1, user: 1 });
 // ticketSchema.index({ ticketId: 1 }); // Removed to avoid duplicate index warning
 ticketSchema.index({ status: 1 });
+ticketSchema.index({ event: 1, signingKeyId: 1 });
 ticketSchema.index({ validUntil: 1 });
+ticketSchema.index(
+  { booking: 1, seatIndex: 1 },
+  { unique: true, partialFilterExpression: { seatIndex: { $exists: true } } }
+);
 
 // Virtual for checking if ticket is valid
 ticketSchema.virtual('isValid').get(function() {
@@ -97,14 +114,6 @@ ticketSchema.virtual('isValid').get(function() {
          this.validUntil >= now;
 });
 
-// Method to mark ticket as used
-ticketSchema.methods.markAsUsed = function(scannedBy) {
-  this.status = 'used';
-  this.usedAt = new Date();
-  this.usedBy = scannedBy;
-  return this.save();
-};
-
 // Method to increment download count
 ticketSchema.methods.recordDownload = function() {
   this.downloadCount += 1;
@@ -2,6 +2,7 @@ import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
+import { SUPPORTED_CURRENCIES } from '../utils/currency.js';
 
 const userSchema = new mongoose.Schema({
   name: {
@@ -62,6 +63,33 @@ const userSchema = new mongoose.Schema({
     description: String,
     website: String
   }],
+
+  // Currency prices are shown in (converted with the latest uploaded rates); unset shows each event's own
+  preferredCurrency: {
+    type: String,
+    enum: [...SUPPORTED_CURRENCIES, null],
+    default: null
+  },
+
+  // Channels per notification type (types without an entry use every channel) and
+  // the daily window in which push notifications stay silent
+  notificationPreferences: {
+    types: {
+      type: Map,
+      of: new mongoose.Schema({
+        inApp: { type: Boolean, default: true },
+        push: { type: Boolean, default: true },
+        email: { type: Boolean, default: true }
+      }, { _id: false }),
+      default: {}
+    },
+    quietHours: {
+      enabled: { type: Boolean, default: false },
+      start: { type: String, default: '22:00', match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM'] },
+      end: { type: String, default: '07:00', match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM'] },
+      timezone: { type: String, default: 'UTC' }
+    }
+  },
   
   // User statistics
   successfulEvents: {
@@ -150,6 +178,11 @@ const userSchema = new mongoose.Schema({
   // Password reset
   passwordResetToken: String,
   passwordResetExpires: Date,
+  // Part of every session token; bumping it signs the user out everywhere
+  tokenVersion: {
+    type: Number,
+    default: 0
+  },
   
   // Last login tracking
   lastLogin: Date,
@@ -0,0 +1,51 @@
+import mongoose from "mongoose";
+
+const waitlistSchema = new mongoose.Schema({
+  event: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Event", 
+    required: true 
+  },
+  user: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "User", 
+    required: true 
+  },
+
+  // Tier the user is waiting for; 'any' means any tier with enough seats
+  ticketType: { 
+    type: String, 
+    enum: ['any', 'vvip', 'vip', 'standard', 'tableFor2', 'tableFor5', 'regular'],
+    default: 'any'
+  },
+  quantity: { 
+    type: Number, 
+    default: 1, 
+    min: 1 
+  },
+
+  // Queue state
+  status: {
+    type: String,
+    enum: ['waiting', 'offered', 'accepted', 'expired', 'left'],
+    default: 'waiting'
+  },
+
+  // Time-limited offer sent when capacity is released
+  offeredAt: { type: Date },
+  offerExpiresAt: { type: Date },
+  offeredTicketType: { type: String },
+  acceptedBooking: { 
+    type: mongoose.Schema.Types.ObjectId, 
+    ref: "Booking" 
+  }
+}, { 
+  timestamps: true 
+});
+
+// Queue order within an event is by join time
+waitlistSchema.index({ event: 1, status: 1, createdAt: 1 });
+waitlistSchema.index({ user: 1, status: 1 });
+waitlistSchema.index({ status: 1, offerExpiresAt: 1 });
+
+export default mongoose.model("Waitlist", waitlistSchema);
@@ -1,11 +1,14 @@
 import { Router } from "express";
 import { authRequired, requireRole } from "../middleware/auth.js";
-import { dashboard, eventAnalytics, platformAnalytics } from "../controllers/analyticsController.js";
+import { dashboard, eventAnalytics, eventRevenue, hostRevenue, platformAnalytics } from "../controllers/analyticsController.js";
 
 const router = Router();
 
 router.get("/dashboard", authRequired, requireRole("admin"), dashboard);
 router.get("/events/:eventId", authRequired, requireRole("admin"), eventAnalytics);
+// Hosts and finance staff see their own event's revenue
+router.get("/events/:eventId/revenue", authRequired, eventRevenue);
+router.get("/revenue", authRequired, hostRevenue);
 router.get("/platform", authRequired, requireRole("admin"), platformAnalytics);
 
 export default router;
@@ -1,13 +1,46 @@
 import { Router } from "express";
+import rateLimit from "express-rate-limit";
 import { authRequired } from "../middleware/auth.js";
-import { validateRegister, validateLogin, validateUpdateProfile, register, login, me, updateProfile, updatePassword } from "../controllers/authController.js";
+import {
+  validateRegister, validateLogin, validateUpdateProfile, validateEmailOnly, validateEmailCode, validateResetPassword, validateUpdatePassword,
+  register, login, me, updateProfile, updatePassword,
+  verifyEmailToken, verifyEmailCode, resendVerification, requestLoginCode, verifyLoginCode,
+  forgotPassword, resetPassword
+} from "../controllers/authController.js";
 
 const router = Router();
 
+// Per-IP cap on sending and guessing codes, on top of the per-address limits
+const codeLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  message: { message: "Too many attempts. Please try again later." }
+});
+
+// Password resets: a few per IP, and fewer per address so one inbox can't be flooded
+const resetIpLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: { message: "Too many password reset attempts. Please try again later." }
+});
+const resetEmailLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 3,
+  keyGenerator: (req) => `reset:${String(req.body?.email || '').trim().toLowerCase()}`,
+  message: { message: "Too many reset emails for this address. Please try again later." }
+});
+
 router.post("/register", validateRegister, register);
 router.post("/login", validateLogin, login);
+router.get("/verify-email/:token", verifyEmailToken);
+router.post("/verify-email", codeLimiter, validateEmailCode, verifyEmailCode);
+router.post("/resend-verification", codeLimiter, validateEmailOnly, resendVerification);
+router.post("/otp/request", codeLimiter, validateEmailOnly, requestLoginCode);
+router.post("/otp/verify", codeLimiter, validateEmailCode, verifyLoginCode);
+router.post("/forgot-password", resetIpLimiter, validateEmailOnly, resetEmailLimiter, forgotPassword);
+router.post("/reset-password", resetIpLimiter, validateResetPassword, resetPassword);
 router.get("/me", authRequired, me);
 router.put("/profile", authRequired, validateUpdateProfile, updateProfile);
-router.put("/password", authRequired, updatePassword);
+router.put("/password", authRequired, validateUpdatePassword, updatePassword);
 
 export default router;
@@ -1,12 +1,19 @@
 import { Router } from "express";
 import { authRequired } from "../middleware/auth.js";
-import { validateBooking, createBooking, myBookings, eventBookings, checkinBooking } from "../controllers/bookingController.js";
+import { validateBooking, createBooking, validateQuote, quoteBooking, eventAvailability, myBookings, eventBookings, validateCheckinBooking, checkinBooking, validateCancelBooking, cancelBooking, listRefundRequests, validateRefundUpdate, updateRefundRequest } from "../controllers/bookingController.js";
 
 const router = Router();
 
 router.post("/", authRequired, validateBooking, createBooking);
+router.post("/quote", authRequired, validateQuote, quoteBooking);
 router.get("/me", authRequired, myBookings);
+router.get("/availability/:eventId", eventAvailability);
 router.get("/event/:eventId", authRequired, eventBookings);
-router.patch("/:id/checkin", authRequired, checkinBooking);
+router.patch("/:id/checkin", authRequired, validateCheckinBooking, checkinBooking);
+router.patch("/:id/cancel", authRequired, validateCancelBooking, cancelBooking);
+
+// Refund requests raised by cancellations of paid bookings
+router.get("/refunds", authRequired, listRefundRequests);
+router.patch("/refunds/:refundId", authRequired, validateRefundUpdate, updateRefundRequest);
 
 export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth.js";
+import { validateListCheckIns, listEventCheckIns, validateUndoCheckIn, undoCheckIn } from "../controllers/checkInController.js";
+
+const router = Router();
+
+router.get("/event/:eventId", authRequired, validateListCheckIns, listEventCheckIns);
+router.post("/:id/undo", authRequired, validateUndoCheckIn, undoCheckIn);
+
+export default router;
@@ -1,11 +1,17 @@
 import { Router } from "express";
 import { authRequired } from "../middleware/auth.js";
 import { validateEvent, validateEventUpdate, listEvents, getEvent, createEvent, updateEvent, deleteEvent, updateStatus, myEvents, addEventComment, sendEventNotification } from "../controllers/eventController.js";
+import { validateInviteStaff, validateUpdateStaff, listStaff, inviteStaff, updateStaff, removeStaff, myStaffRoles, respondToInvite } from "../controllers/staffController.js";
+import { getTicketKeys, rotateTicketKey, validateRevokeTicketKey, revokeTicketKey } from "../controllers/ticketKeyController.js";
+import { validateCreatePromoCode, validateUpdatePromoCode, listPromoCodes, createPromoCode, updatePromoCode, deletePromoCode } from "../controllers/promoCodeController.js";
 
 const router = Router();
 
 router.get("/", listEvents);
 router.get("/host/my-events", authRequired, myEvents);
+router.get("/staff/me", authRequired, myStaffRoles);
+router.post("/staff/:staffId/accept", authRequired, respondToInvite);
+router.post("/staff/:staffId/decline", authRequired, respondToInvite);
 router.get("/:id", getEvent);
 
 // Only accept Cloudinary URLs via req.body.images; no direct file uploads here
@@ -16,4 +22,21 @@ router.patch("/:id/status", authRequired, updateStatus);
 router.post("/:id/notify", authRequired, sendEventNotification);
 router.post("/:id/comments", authRequired, addEventComment);
 
+// Ticket signing keys for offline QR verification
+router.get("/:id/ticket-keys", getTicketKeys);
+router.post("/:id/ticket-keys/rotate", authRequired, rotateTicketKey);
+router.post("/:id/ticket-keys/:kid/revoke", authRequired, validateRevokeTicketKey, revokeTicketKey);
+
+// Event team: co-hosts, door scanners and finance
+router.get("/:id/staff", authRequired, listStaff);
+router.post("/:id/staff", authRequired, validateInviteStaff, inviteStaff);
+router.patch("/:id/staff/:staffId", authRequired, validateUpdateStaff, updateStaff);
+router.delete("/:id/staff/:staffId", authRequired, removeStaff);
+
+// Promo codes; attendees apply them through POST /bookings/quote
+router.get("/:id/promo-codes", authRequired, listPromoCodes);
+router.post("/:id/promo-codes", authRequired, validateCreatePromoCode, createPromoCode);
+router.patch("/:id/promo-codes/:promoId", authRequired, validateUpdatePromoCode, updatePromoCode);
+router.delete("/:id/promo-codes/:promoId", authRequired, deletePromoCode);
+
 export default router;
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { authRequired, requireRole } from "../middleware/auth.js";
+import { validateUploadRates, uploadRates, listRates, latestRates } from "../controllers/exchangeRateController.js";
+
+const router = Router();
+
+router.get("/latest", latestRates);
+router.get("/", authRequired, requireRole("admin"), listRates);
+router.post("/", authRequired, requireRole("admin"), validateUploadRates, uploadRates);
+
+export default router;
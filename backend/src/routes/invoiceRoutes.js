@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth.js";
+import { myInvoices, downloadInvoice, downloadBookingInvoice } from "../controllers/invoiceController.js";
+
+const router = Router();
+
+router.get("/me", authRequired, myInvoices);
+router.get("/booking/:bookingId/download", authRequired, downloadBookingInvoice);
+router.get("/:id/download", authRequired, downloadInvoice);
+
+export default router;
@@ -0,0 +1,97 @@
+import { Router } from "express";
+import {
+  createIntent,
+  getIntent,
+  settleIntent,
+  captureIntent,
+  cancelIntent,
+  createRefund
+} from "../utils/payments/mockGateway.js";
+import { formatMoney, fromMinorUnits } from "../utils/currency.js";
+
+// The mock payment gateway: the provider REST API under /v1 plus a hosted checkout page
+const router = Router();
+
+const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, ch => ({
+  '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+}[ch]));
+
+const page = (title, body) => `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>
+  body { font-family: system-ui, sans-serif; background: #f4f4f5; display: flex; justify-content: center; padding: 48px 16px; }
+  main { background: #fff; border-radius: 12px; padding: 32px; max-width: 380px; width: 100%; box-shadow: 0 4px 24px rgba(0,0,0,.08); }
+  .amount { font-size: 32px; font-weight: 700; margin: 8px 0 24px; }
+  button { width: 100%; padding: 12px; border: 0; border-radius: 8px; font-size: 16px; cursor: pointer; margin-top: 8px; }
+  .pay { background: #16a34a; color: #fff; } .decline { background: #e4e4e7; }
+  small { color: #71717a; }
+</style></head><body><main>${body}</main></body></html>`;
+
+// Unhandled async errors become gateway-style JSON errors
+const handle = (fn) => async (req, res) => {
+  try {
+    await fn(req, res);
+  } catch (error) {
+    res.status(error.status || 500).json({ error: { message: error.message } });
+  }
+};
+
+const requireSecret = (req, res, next) => {
+  const expected = process.env.PAYMENT_SECRET_KEY;
+  if (!expected || req.headers.authorization !== `Bearer ${expected}`) {
+    return res.status(401).json({ error: { message: 'Invalid API key' } });
+  }
+  next();
+};
+
+const checkoutBase = (req) => `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+router.post("/v1/payment_intents", requireSecret, handle(async (req, res) => {
+  res.json(createIntent(req.body, checkoutBase(req)));
+}));
+router.get("/v1/payment_intents/:id", requireSecret, handle(async (req, res) => {
+  res.json(getIntent(req.params.id));
+}));
+router.post("/v1/payment_intents/:id/capture", requireSecret, handle(async (req, res) => {
+  res.json(await captureIntent(req.params.id, req.body.amount_to_capture));
+}));
+router.post("/v1/payment_intents/:id/cancel", requireSecret, handle(async (req, res) => {
+  res.json(await cancelIntent(req.params.id));
+}));
+router.post("/v1/refunds", requireSecret, handle(async (req, res) => {
+  res.json(await createRefund(req.body));
+}));
+
+// Test driver: settle an intent without going through the checkout page
+router.post("/v1/payment_intents/:id/simulate", requireSecret, handle(async (req, res) => {
+  res.json(await settleIntent(req.params.id, req.body.outcome === 'fail' ? 'fail' : 'succeed'));
+}));
+
+router.get("/checkout/:id", handle(async (req, res) => {
+  const intent = getIntent(req.params.id);
+  const amount = formatMoney(fromMinorUnits(intent.amount, intent.currency), intent.currency);
+  if (intent.status !== 'requires_payment_method') {
+    return res.send(page('Checkout', `<h2>This checkout is ${escapeHtml(intent.status.replace(/_/g, ' '))}</h2>
+      ${intent.return_url ? `<p><a href="${escapeHtml(intent.return_url)}">Return to the merchant</a></p>` : ''}`));
+  }
+  res.send(page('Mock checkout', `<small>Mock payment gateway · test mode</small>
+    <div class="amount">${escapeHtml(amount)}</div>
+    <p>${escapeHtml(intent.reference || intent.id)}</p>
+    <form method="post">
+      <button class="pay" name="outcome" value="succeed">Pay ${escapeHtml(amount)}</button>
+      <button class="decline" name="outcome" value="fail">Decline payment</button>
+    </form>`));
+}));
+
+router.post("/checkout/:id", handle(async (req, res) => {
+  const intent = await settleIntent(req.params.id, req.body.outcome === 'fail' ? 'fail' : 'succeed');
+  const succeeded = intent.status !== 'payment_failed';
+  // A meta refresh rather than a redirect: CSP form-action would block a cross-origin redirect
+  res.send(page('Checkout complete', `
+    ${intent.return_url ? `<meta http-equiv="refresh" content="1;url=${escapeHtml(intent.return_url)}">` : ''}
+    <h2>${succeeded ? 'Payment approved' : 'Payment declined'}</h2>
+    ${intent.return_url ? `<p><a href="${escapeHtml(intent.return_url)}">Return to the merchant</a></p>` : ''}`));
+}));
+
+export default router;
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import {
+  createMockSubscription,
+  receivePush,
+  listMockMessages,
+  expireMockSubscription
+} from "../utils/mockPushService.js";
+
+// The mock push service: the push endpoint itself plus test drivers to inspect and expire subscriptions
+const router = Router();
+
+// Unhandled async errors become plain JSON errors with the push service's status
+const handle = (fn) => async (req, res) => {
+  try {
+    await fn(req, res);
+  } catch (error) {
+    res.status(error.status || 500).json({ error: { message: error.message } });
+  }
+};
+
+// body-parser refuses Content-Encoding it can't inflate, so the encrypted body is read by hand
+const readBody = (req, res, next) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size <= 8192) chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (size > 8192) return res.status(413).json({ error: { message: 'Push message is too large' } });
+    req.body = Buffer.concat(chunks);
+    next();
+  });
+  req.on('error', next);
+};
+
+const serviceBase = (req) => `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+router.post("/subscriptions", handle(async (req, res) => {
+  res.status(201).json(createMockSubscription(serviceBase(req), { expirationTime: req.body?.expirationTime ?? null }));
+}));
+router.get("/subscriptions/:id/messages", handle(async (req, res) => {
+  res.json({ messages: listMockMessages(req.params.id) });
+}));
+router.post("/subscriptions/:id/expire", handle(async (req, res) => {
+  res.json(expireMockSubscription(req.params.id));
+}));
+
+router.post("/push/:id", readBody, handle(async (req, res) => {
+  receivePush(req.params.id, req.headers, req.body);
+  res.status(201).end();
+}));
+
+export default router;
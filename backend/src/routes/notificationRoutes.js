@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { authRequired } from "../middleware/auth.js";
-import { listNotifications, markRead, markAllRead, deleteNotification, clearNotifications, getSettings, updateSettings, cleanupNotifications, subscribeToPush, unsubscribeFromPush } from "../controllers/notificationController.js";
+import { listNotifications, markRead, markAllRead, deleteNotification, clearNotifications, getSettings, validateSettings, updateSettings, cleanupNotifications, getPushPublicKey, validatePushSubscription, subscribeToPush, unsubscribeFromPush } from "../controllers/notificationController.js";
 
 
 const router = Router();
@@ -12,10 +12,11 @@ router.delete("/:id", authRequired, deleteNotification);
 router.delete("/", authRequired, clearNotifications);
 router.post("/cleanup", authRequired, cleanupNotifications);
 router.get("/settings", authRequired, getSettings);
-router.put("/settings", authRequired, updateSettings);
+router.put("/settings", authRequired, validateSettings, updateSettings);
 
 // Push notification endpoints
-router.post("/subscribe", authRequired, subscribeToPush);
+router.get("/push/key", getPushPublicKey);
+router.post("/subscribe", authRequired, validatePushSubscription, subscribeToPush);
 router.post("/unsubscribe", authRequired, unsubscribeFromPush);
 
 
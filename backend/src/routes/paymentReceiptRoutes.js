@@ -10,6 +10,14 @@ import {
   getPaymentReceiptImage,
   getPaymentReceiptById
 } from "../controllers/paymentReceiptController.js";
+import {
+  validateStatementImport,
+  validateStatementDecisions,
+  importStatement,
+  listStatements,
+  getStatement,
+  applyStatementDecisions
+} from "../controllers/bankStatementController.js";
 
 const router = express.Router();
 
@@ -22,6 +30,12 @@ router.get("/", authRequired, getPaymentReceipts);
 // Get user's own payment receipts
 router.get("/my-receipts", authRequired, getUserPaymentReceipts);
 
+// Bank statement import and auto-matching (for event creators and finance staff)
+router.post("/statements", authRequired, validateStatementImport, importStatement);
+router.get("/statements", authRequired, listStatements);
+router.get("/statements/:statementId", authRequired, getStatement);
+router.post("/statements/:statementId/apply", authRequired, validateStatementDecisions, applyStatementDecisions);
+
 // Get payment receipt image (for event creators and receipt owners)
 router.get("/:receiptId/image", authRequired, getPaymentReceiptImage);
 
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth.js";
+import {
+  getPaymentConfig,
+  validateCreateIntent,
+  createPaymentIntent,
+  getBookingPayment,
+  handlePaymentWebhook,
+  listEventPayments,
+  validateCapture,
+  capturePayment,
+  validateRefund,
+  refundPayment
+} from "../controllers/paymentController.js";
+
+const router = Router();
+
+router.get("/config", getPaymentConfig);
+router.post("/intents", authRequired, validateCreateIntent, createPaymentIntent);
+router.get("/booking/:bookingId", authRequired, getBookingPayment);
+router.get("/event/:eventId", authRequired, listEventPayments);
+
+// Called by the provider, authenticated by its signature rather than a user token
+router.post("/webhook/:provider", handlePaymentWebhook);
+
+router.post("/:paymentId/capture", authRequired, validateCapture, capturePayment);
+router.post("/:paymentId/refund", authRequired, validateRefund, refundPayment);
+
+export default router;
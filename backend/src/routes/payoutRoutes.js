@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { authRequired, requireRole } from "../middleware/auth.js";
+import {
+  payoutSummary,
+  listLedgerEntries,
+  listSettlements,
+  validateCloseSettlement,
+  closeSettlement,
+  validateStatement,
+  downloadStatement,
+  validateMarkPaid,
+  markPaid
+} from "../controllers/payoutController.js";
+
+const router = Router();
+
+router.get("/summary", authRequired, payoutSummary);
+router.get("/ledger", authRequired, listLedgerEntries);
+router.get("/settlements", authRequired, listSettlements);
+router.post("/settlements", authRequired, validateCloseSettlement, closeSettlement);
+router.get("/settlements/:id/statement", authRequired, validateStatement, downloadStatement);
+// Payouts are sent outside the app; admins record them here
+router.post("/settlements/:id/paid", authRequired, requireRole("admin"), validateMarkPaid, markPaid);
+
+export default router;
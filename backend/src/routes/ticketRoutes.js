@@ -4,8 +4,17 @@ import {
   generateTicket, 
   getUserTickets, 
   downloadTicket, 
+  downloadTicketPass,
   validateTicket, 
-  useTicket 
+  useTicket,
+  validateUseTicket,
+  getCheckInStats,
+  getGateStats,
+  getCheckInManifest,
+  validateSyncAdmissions,
+  syncCheckIns,
+  validateAttendeeUpdate,
+  updateTicketAttendee
 } from "../controllers/ticketController.js";
 
 const router = Router();
@@ -19,11 +28,27 @@ router.get("/my-tickets", authRequired, getUserTickets);
 // Download ticket
 router.get("/:id/download", authRequired, downloadTicket);
 
+// Download signed wallet pass bundle
+router.get("/:id/pass", authRequired, downloadTicketPass);
+
+// Name the guest using a ticket
+router.patch("/:id/attendee", authRequired, validateAttendeeUpdate, updateTicketAttendee);
+
 // Validate ticket (for event organizers)
 router.post("/validate", authRequired, validateTicket);
 
 // Mark ticket as used (for event organizers)
-router.patch("/:ticketId/use", authRequired, useTicket);
+router.patch("/:ticketId/use", authRequired, validateUseTicket, useTicket);
+
+// Admitted/remaining counter for the door
+router.get("/event/:eventId/stats", authRequired, getCheckInStats);
+
+// Per-gate throughput
+router.get("/event/:eventId/gates", authRequired, getGateStats);
+
+// Offline check-in: download the manifest, upload admissions once back online
+router.get("/event/:eventId/manifest", authRequired, getCheckInManifest);
+router.post("/event/:eventId/sync", authRequired, validateSyncAdmissions, syncCheckIns);
 
 // Test endpoint to create a sample ticket
 router.post('/create-test-ticket', authRequired, async (req, res) => {
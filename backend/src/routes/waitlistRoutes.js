@@ -0,0 +1,13 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth.js";
+import { validateJoinWaitlist, joinWaitlist, leaveWaitlist, myWaitlist, eventWaitlist, hostWaitlist } from "../controllers/waitlistController.js";
+
+const router = Router();
+
+router.post("/", authRequired, validateJoinWaitlist, joinWaitlist);
+router.get("/me", authRequired, myWaitlist);
+router.get("/host", authRequired, hostWaitlist);
+router.get("/event/:eventId", authRequired, eventWaitlist);
+router.delete("/:id", authRequired, leaveWaitlist);
+
+export default router;
@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
+import { isSessionCurrent } from '../middleware/auth.js';
 
 // Store connected users and their socket IDs
 const connectedUsers = new Map();
@@ -19,6 +20,9 @@ export const socketAuth = async (socket, next) => {
     if (!user) {
       return next(new Error('Authentication error: User not found'));
     }
+    if (!await isSessionCurrent(decoded)) {
+      return next(new Error('Authentication error: Session expired'));
+    }
 
     socket.userId = user._id.toString();
     socket.user = user;
@@ -66,6 +70,13 @@ export const handleConnection = (io) => {
   };
 };
 
+// Drop a user's live sockets once their sessions are revoked; they must reconnect with a current token
+export const disconnectUserSockets = (io, userId) => {
+  if (!io) return;
+  io.in(`user_${userId}`).disconnectSockets(true);
+  console.log(`🔌 Disconnected sockets for user ${userId} after session revocation`);
+};
+
 // Utility function to send notification to specific user
 export const sendNotificationToUser = (io, userId, notification) => {
   try {
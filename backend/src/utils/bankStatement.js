@@ -0,0 +1,283 @@
+import crypto from "crypto";
+
+/**
+ * Parse a bank statement export into transaction lines:
+ * { lineId, postedAt, amount, description, reference }. Credits are positive.
+ * CSV columns are found by header name; OFX/QFX uses the STMTTRN blocks.
+ */
+export function parseStatement(content, { format, dateFormat = 'auto', filename = '' } = {}) {
+  const detected = format || (/<OFX>|OFXHEADER/i.test(content) || /\.(ofx|qfx)$/i.test(filename) ? 'ofx' : 'csv');
+  const parsed = detected === 'ofx' ? parseOfx(content) : parseCsv(content, dateFormat);
+  return { format: detected, ...parsed };
+}
+
+// Stable id for a line so re-importing the same export cannot justify two confirmations
+const lineIdFor = (line) => crypto
+  .createHash('sha1')
+  .update([line.postedAt?.toISOString().slice(0, 10), line.amount.toFixed(2), line.description, line.reference].join('|'))
+  .digest('hex')
+  .slice(0, 20);
+
+function parseAmount(raw) {
+  if (raw === undefined || raw === null) return NaN;
+  let text = String(raw).trim();
+  if (!text) return NaN;
+  const negative = /^\(.*\)$/.test(text) || /-/.test(text) || /\bDR\b/i.test(text);
+  text = text.replace(/[^\d.,]/g, '');
+  if (text.includes(',') && text.includes('.')) {
+    // Whichever separator comes last is the decimal point
+    text = text.lastIndexOf(',') > text.lastIndexOf('.')
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (/,\d{1,2}$/.test(text)) {
+    text = text.replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  const value = parseFloat(text);
+  return negative ? -value : value;
+}
+
+function parseDate(raw, dateFormat) {
+  const text = String(raw || '').trim();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) return new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3]));
+
+  const parts = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (parts) {
+    const year = parts[3].length === 2 ? 2000 + +parts[3] : +parts[3];
+    const [day, month] = dateFormat === 'mdy' ? [+parts[2], +parts[1]] : [+parts[1], +parts[2]];
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  const fallback = new Date(text);
+  return isNaN(fallback) ? null : fallback;
+}
+
+// Split one CSV record, honouring quotes; `delimiter` is , ; or tab
+function splitCsvLine(line, delimiter) {
+  const cells = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+const COLUMN_PATTERNS = {
+  date: /^(transaction |posting |posted |booking |value )?date|^posted$/i,
+  amount: /^(transaction )?amount/i,
+  credit: /credit|paid in|deposit|money in/i,
+  debit: /debit|paid out|withdrawal|money out/i,
+  reference: /reference|^ref\b|transaction id|fitid/i,
+  description: /description|narrative|details|memo|payee|name|particulars/i
+};
+
+function parseCsv(content, dateFormat) {
+  const rows = content.replace(/^﻿/, '').split(/\r?\n/).filter(line => line.trim());
+  if (rows.length < 2) return { lines: [] };
+
+  const delimiter = [',', ';', '\t'].sort((a, b) => rows[0].split(b).length - rows[0].split(a).length)[0];
+  const header = splitCsvLine(rows[0], delimiter).map(h => h.toLowerCase());
+  const column = {};
+  for (const [key, pattern] of Object.entries(COLUMN_PATTERNS)) {
+    column[key] = header.findIndex((h, i) => pattern.test(h) && !Object.values(column).includes(i));
+  }
+  if (column.date < 0 || (column.amount < 0 && column.credit < 0)) {
+    throw Object.assign(new Error("Could not find date and amount columns in the CSV header"), { status: 400 });
+  }
+
+  const records = rows.slice(1).map(row => splitCsvLine(row, delimiter));
+
+  // Resolve dd/mm vs mm/dd from any unambiguous row
+  let resolvedFormat = dateFormat;
+  if (dateFormat === 'auto') {
+    resolvedFormat = 'dmy';
+    for (const record of records) {
+      const parts = String(record[column.date] || '').match(/^(\d{1,2})[-/.](\d{1,2})[-/.]/);
+      if (parts && +parts[1] > 12) { resolvedFormat = 'dmy'; break; }
+      if (parts && +parts[2] > 12) { resolvedFormat = 'mdy'; break; }
+    }
+  }
+
+  const lines = [];
+  for (const record of records) {
+    const postedAt = parseDate(record[column.date], resolvedFormat);
+    let amount = column.amount >= 0 ? parseAmount(record[column.amount]) : NaN;
+    if (isNaN(amount)) {
+      const credit = column.credit >= 0 ? parseAmount(record[column.credit]) : NaN;
+      const debit = column.debit >= 0 ? parseAmount(record[column.debit]) : NaN;
+      amount = !isNaN(credit) && credit !== 0 ? Math.abs(credit) : !isNaN(debit) ? -Math.abs(debit) : NaN;
+    }
+    if (!postedAt || isNaN(amount)) continue;
+
+    const line = {
+      postedAt,
+      amount: Math.round(amount * 100) / 100,
+      description: column.description >= 0 ? record[column.description] || '' : '',
+      reference: column.reference >= 0 ? record[column.reference] || '' : ''
+    };
+    lines.push({ lineId: lineIdFor(line), ...line });
+  }
+
+  return { lines };
+}
+
+const ofxValue = (block, tag) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+// OFX dates look like 20250314120000.000[-5:EST]
+const parseOfxDate = (raw) => {
+  const match = raw.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : null;
+};
+
+function parseOfx(content) {
+  const blocks = content.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+  const lines = [];
+  for (const block of blocks) {
+    const postedAt = parseOfxDate(ofxValue(block, 'DTPOSTED'));
+    const amount = parseAmount(ofxValue(block, 'TRNAMT'));
+    if (!postedAt || isNaN(amount)) continue;
+
+    const line = {
+      postedAt,
+      amount: Math.round(amount * 100) / 100,
+      description: [ofxValue(block, 'NAME'), ofxValue(block, 'MEMO')].filter(Boolean).join(' '),
+      reference: ofxValue(block, 'REFNUM') || ofxValue(block, 'CHECKNUM')
+    };
+    const fitId = ofxValue(block, 'FITID');
+    lines.push({ lineId: fitId ? `fit-${fitId}` : lineIdFor(line), ...line });
+  }
+
+  return {
+    lines,
+    currency: ofxValue(content, 'CURDEF') || undefined,
+    accountId: ofxValue(content, 'ACCTID') || undefined
+  };
+}
+
+// Days either side of the receipt upload in which the bank credit may be posted
+export const MATCH_WINDOW_DAYS = parseInt(process.env.STATEMENT_MATCH_WINDOW_DAYS) || 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const normalizeRef = (value) => String(value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Propose a decision for each pending receipt against the statement's credit lines.
+ * - confirm: a credit of the same amount carrying the receipt's transaction
+ *   reference, or posted within the date window. Each line backs one receipt.
+ * - reject: the reference shows up with a different amount, or the statement
+ *   covers the whole window and nothing matched.
+ * Receipts whose window the statement doesn't cover are left unresolved.
+ */
+export function proposeMatches(lines, receipts, { usedLineIds = new Set() } = {}) {
+  const credits = lines.filter(l => l.amount > 0 && !usedLineIds.has(l.lineId));
+  const coverage = statementCoverage(lines);
+
+  const candidates = [];
+  const referenceMismatches = new Map();
+
+  for (const receipt of receipts) {
+    const ref = normalizeRef(receipt.transactionReference);
+    const uploadedAt = new Date(receipt.createdAt).getTime();
+
+    for (const line of credits) {
+      const haystack = normalizeRef(`${line.reference} ${line.description}`);
+      const refMatch = ref.length >= 4 && haystack.includes(ref);
+      const amountMatch = Math.abs(line.amount - receipt.amount) < 0.005;
+      const dayGap = Math.abs(new Date(line.postedAt).getTime() - uploadedAt) / DAY_MS;
+      const inWindow = dayGap <= MATCH_WINDOW_DAYS;
+
+      if (amountMatch && (refMatch || inWindow)) {
+        const reasons = ['Amount matches'];
+        if (refMatch) reasons.push('Transaction reference found on the statement line');
+        if (inWindow) reasons.push(`Posted ${Math.round(dayGap)} day${Math.round(dayGap) === 1 ? '' : 's'} from the receipt upload`);
+        const score = 50 + (refMatch ? 40 : 0) + (inWindow ? Math.max(0, 10 - dayGap) : 0);
+        candidates.push({ receipt, line, score: Math.round(score), reasons });
+      } else if (refMatch && !amountMatch && !referenceMismatches.has(String(receipt._id))) {
+        referenceMismatches.set(String(receipt._id), line);
+      }
+    }
+  }
+
+  // Best-scoring pairs first; each receipt and each line is used at most once
+  candidates.sort((a, b) => b.score - a.score);
+  const takenReceipts = new Set();
+  const takenLines = new Set();
+  const proposals = [];
+  for (const candidate of candidates) {
+    const receiptId = String(candidate.receipt._id);
+    if (takenReceipts.has(receiptId) || takenLines.has(candidate.line.lineId)) continue;
+    takenReceipts.add(receiptId);
+    takenLines.add(candidate.line.lineId);
+    const { receipt } = candidate;
+    proposals.push({
+      receiptId,
+      action: 'confirm',
+      lineId: candidate.line.lineId,
+      score: candidate.score,
+      reasons: receipt.amountMismatch
+        ? [...candidate.reasons, `Paid ${Number(receipt.amount).toFixed(2)} but the booking total is ${Number(receipt.expectedAmount).toFixed(2)}`]
+        : candidate.reasons,
+      ...(receipt.amountMismatch && { amountMismatch: true })
+    });
+  }
+
+  const unresolved = [];
+  for (const receipt of receipts) {
+    const receiptId = String(receipt._id);
+    if (takenReceipts.has(receiptId)) continue;
+
+    const mismatch = referenceMismatches.get(receiptId);
+    if (mismatch) {
+      proposals.push({
+        receiptId,
+        action: 'reject',
+        lineId: mismatch.lineId,
+        reasons: [`Reference found but the statement shows ${mismatch.amount.toFixed(2)} instead of ${Number(receipt.amount).toFixed(2)}`]
+      });
+      continue;
+    }
+
+    const uploadedAt = new Date(receipt.createdAt).getTime();
+    const covered = coverage &&
+      coverage.from.getTime() <= uploadedAt - MATCH_WINDOW_DAYS * DAY_MS &&
+      coverage.to.getTime() >= uploadedAt + MATCH_WINDOW_DAYS * DAY_MS;
+    if (covered) {
+      proposals.push({
+        receiptId,
+        action: 'reject',
+        reasons: [`No matching credit within ${MATCH_WINDOW_DAYS} days of the receipt upload`]
+      });
+    } else {
+      unresolved.push(receiptId);
+    }
+  }
+
+  return { proposals, unresolved };
+}
+
+export function statementCoverage(lines) {
+  if (lines.length === 0) return null;
+  const times = lines.map(l => new Date(l.postedAt).getTime());
+  return { from: new Date(Math.min(...times)), to: new Date(Math.max(...times)) };
+}
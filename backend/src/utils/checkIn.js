@@ -0,0 +1,321 @@
+import Ticket from "../models/Ticket.js";
+import Booking from "../models/Booking.js";
+import CheckIn from "../models/CheckIn.js";
+
+// Flip a booking to checked-in on its first admission; returns the status it had, if it changed
+async function markBookingCheckedIn(bookingId) {
+  const before = await Booking.findOneAndUpdate(
+    { _id: bookingId, status: { $in: ['pending', 'confirmed'] } },
+    { status: 'checked-in' }
+  ).select('status');
+  return before?.status;
+}
+
+/**
+ * Admit `count` guests on a ticket and record it in the CheckIn ledger.
+ * The ledger row is written first so an offline `clientId` is applied at most
+ * once (unique index); the ticket counter is then bumped with a conditional
+ * update so concurrent gates cannot over-admit, and the row is rolled back if
+ * that fails. Returns { ticket, checkIn }, { duplicate: true } for a replayed
+ * clientId, or null when the admission did not fit.
+ */
+export async function admitTicket(ticket, count, { userId, deviceId, gate, clientId, scannedAt, source = 'ticket' } = {}) {
+  let checkIn;
+  try {
+    checkIn = await CheckIn.create({
+      event: ticket.event?._id || ticket.event,
+      booking: ticket.booking?._id || ticket.booking,
+      ticket: ticket._id,
+      count,
+      scannedBy: userId,
+      gate: gate || undefined,
+      deviceId,
+      clientId,
+      source,
+      admittedAt: scannedAt ? new Date(scannedAt) : new Date(),
+      syncedAt: new Date()
+    });
+  } catch (error) {
+    if (error.code === 11000) return { duplicate: true };
+    throw error;
+  }
+
+  const full = { $gte: ['$admittedCount', '$quantity'] };
+
+  const updated = await Ticket.findOneAndUpdate(
+    {
+      _id: ticket._id,
+      status: 'active',
+      $expr: { $lte: [{ $add: [{ $ifNull: ['$admittedCount', 0] }, count] }, '$quantity'] }
+    },
+    [
+      { $set: { admittedCount: { $add: [{ $ifNull: ['$admittedCount', 0] }, count] } } },
+      { $set: {
+        status: { $cond: [full, 'used', '$status'] },
+        usedAt: { $cond: [full, '$$NOW', '$usedAt'] }
+      } }
+    ],
+    { new: true }
+  );
+
+  if (!updated) {
+    await CheckIn.deleteOne({ _id: checkIn._id });
+    return null;
+  }
+
+  const previousBookingStatus = await markBookingCheckedIn(checkIn.booking);
+  if (previousBookingStatus) {
+    checkIn.previousBookingStatus = previousBookingStatus;
+    await checkIn.save();
+  }
+
+  return { ticket: updated, checkIn };
+}
+
+/**
+ * Check in a whole booking: every remaining guest on its active tickets, or the
+ * booked seat count when the booking has no tickets (pay at the door).
+ * Returns the ledger rows written; an empty array means nobody was left to admit.
+ */
+export async function admitBooking(booking, { userId, deviceId, gate } = {}) {
+  const tickets = await Ticket.find({ booking: booking._id, status: 'active' });
+
+  if (tickets.length > 0) {
+    const checkIns = [];
+    for (const ticket of tickets) {
+      const remaining = ticket.quantity - (ticket.admittedCount || 0);
+      if (remaining <= 0) continue;
+      const admitted = await admitTicket(ticket, remaining, { userId, deviceId, gate, source: 'booking' });
+      if (admitted?.checkIn) checkIns.push(admitted.checkIn);
+    }
+    return checkIns;
+  }
+
+  // A booking whose tickets were all used already has nothing left to admit
+  if (await Ticket.exists({ booking: booking._id })) return [];
+
+  const previousBookingStatus = await markBookingCheckedIn(booking._id);
+  if (!previousBookingStatus) return [];
+
+  const checkIn = await CheckIn.create({
+    event: booking.event?._id || booking.event,
+    booking: booking._id,
+    count: booking.ticketQuantity || booking.seats || 1,
+    scannedBy: userId,
+    gate: gate || undefined,
+    deviceId,
+    source: 'booking',
+    syncedAt: new Date(),
+    previousBookingStatus
+  });
+  return [checkIn];
+}
+
+/**
+ * Reverse a mistaken admission. The ledger row is kept (marked undone), the
+ * ticket gets its guests back, and the booking returns to its earlier status
+ * once nothing on it is still admitted. Returns null if already undone.
+ */
+export async function undoCheckIn(checkInId, { userId, reason } = {}) {
+  const checkIn = await CheckIn.findOneAndUpdate(
+    { _id: checkInId, undoneAt: null },
+    { undoneAt: new Date(), undoneBy: userId, undoReason: reason },
+    { new: true }
+  );
+  if (!checkIn) return null;
+
+  if (checkIn.ticket) {
+    const wasUsed = { $eq: ['$status', 'used'] };
+    await Ticket.updateOne(
+      { _id: checkIn.ticket, status: { $in: ['active', 'used'] } },
+      [
+        { $set: {
+          admittedCount: { $max: [0, { $subtract: [{ $ifNull: ['$admittedCount', 0] }, checkIn.count] }] },
+          status: { $cond: [wasUsed, 'active', '$status'] },
+          usedAt: { $cond: [wasUsed, null, '$usedAt'] },
+          usedBy: { $cond: [wasUsed, null, '$usedBy'] }
+        } }
+      ]
+    );
+  }
+
+  const stillAdmitted = await CheckIn.exists({ booking: checkIn.booking, undoneAt: null });
+  if (!stillAdmitted) {
+    const flipped = await CheckIn.findOne({ booking: checkIn.booking, previousBookingStatus: { $exists: true } })
+      .sort({ admittedAt: 1 })
+      .select('previousBookingStatus');
+    await Booking.updateOne(
+      { _id: checkIn.booking, status: 'checked-in' },
+      { status: flipped?.previousBookingStatus || 'confirmed' }
+    );
+  }
+
+  return checkIn;
+}
+
+// Who admitted a ticket's guests, when and at which gate, from the CheckIn ledger
+export const describeAdmissions = async (ticketObjectId) => {
+  const checkIns = await CheckIn.find({ ticket: ticketObjectId, undoneAt: null })
+    .populate('scannedBy', 'name')
+    .sort({ admittedAt: 1 });
+  return checkIns.map(c => ({
+    count: c.count,
+    admittedAt: c.admittedAt,
+    scannedBy: c.scannedBy ? { _id: c.scannedBy._id, name: c.scannedBy.name } : null,
+    deviceId: c.deviceId,
+    gate: c.gate,
+    source: c.source
+  }));
+};
+
+/**
+ * Apply admissions recorded by an offline scanner. Each is applied in scan order;
+ * anything the server cannot honour (ticket already admitted at another gate,
+ * cancelled since the manifest was downloaded, more guests than remain) is
+ * reported as a conflict instead of failing the whole batch.
+ */
+export async function syncOfflineAdmissions(eventId, admissions, { userId, deviceId, gate }) {
+  const applied = [];
+  const duplicates = [];
+  const conflicts = [];
+  const touched = new Map();
+
+  const ordered = [...admissions].sort((a, b) => new Date(a.scannedAt) - new Date(b.scannedAt));
+
+  for (const admission of ordered) {
+    const { id, ticketId, scannedAt } = admission;
+    const count = Math.max(1, Number(admission.count) || 1);
+
+    const ticket = await Ticket.findOne({ ticketId, event: eventId });
+    if (!ticket) {
+      conflicts.push({ id, ticketId, reason: 'not_found', requested: count, applied: 0, scannedAt });
+      continue;
+    }
+    touched.set(ticketId, ticket._id);
+
+    if (await CheckIn.exists({ clientId: id })) {
+      duplicates.push(id);
+      continue;
+    }
+
+    const conflict = async (reason, appliedCount) => ({
+      id,
+      ticketId,
+      reason,
+      requested: count,
+      applied: appliedCount,
+      scannedAt,
+      previousAdmissions: await describeAdmissions(ticket._id)
+    });
+
+    if (ticket.status !== 'active' && ticket.status !== 'used') {
+      conflicts.push(await conflict(ticket.status, 0));
+      continue;
+    }
+
+    const alreadyAdmitted = ticket.status === 'used' ? ticket.quantity : (ticket.admittedCount || 0);
+    const remaining = ticket.quantity - alreadyAdmitted;
+    if (remaining <= 0) {
+      conflicts.push(await conflict('already_admitted', 0));
+      continue;
+    }
+
+    const toApply = Math.min(count, remaining);
+    const admitted = await admitTicket(ticket, toApply, {
+      userId,
+      deviceId,
+      gate: admission.gate || gate,
+      clientId: id,
+      scannedAt,
+      source: 'offline'
+    });
+
+    if (admitted?.duplicate) {
+      duplicates.push(id);
+    } else if (!admitted) {
+      // Another gate admitted in between the read and the update
+      conflicts.push(await conflict('already_admitted', 0));
+    } else if (toApply < count) {
+      conflicts.push(await conflict('over_admitted', toApply));
+    } else {
+      applied.push(id);
+    }
+  }
+
+  // Fresh state for every ticket the batch touched, so the device can reconcile its copy
+  const tickets = await Ticket.find({ _id: { $in: [...touched.values()] } })
+    .select('ticketId quantity admittedCount status');
+
+  return {
+    applied,
+    duplicates,
+    conflicts,
+    tickets: tickets.map(t => ({
+      ticketId: t.ticketId,
+      quantity: t.quantity,
+      admittedCount: t.status === 'used' ? t.quantity : (t.admittedCount || 0),
+      status: t.status
+    }))
+  };
+}
+
+const THROUGHPUT_BUCKET_MINUTES = 15;
+
+/**
+ * Admissions per gate for the door dashboard: totals, pace over the last hour,
+ * and a 15-minute histogram. Admissions without a gate label are grouped as null.
+ */
+export async function getGateThroughput(eventId) {
+  const since = new Date(Date.now() - 60 * 60 * 1000);
+  const match = { $match: { event: eventId, undoneAt: null } };
+  const gateKey = { $ifNull: ['$gate', null] };
+
+  const [gates, buckets] = await Promise.all([
+    CheckIn.aggregate([
+      match,
+      { $group: {
+        _id: gateKey,
+        admitted: { $sum: '$count' },
+        scans: { $sum: 1 },
+        lastHour: { $sum: { $cond: [{ $gte: ['$admittedAt', since] }, '$count', 0] } },
+        scanners: { $addToSet: '$scannedBy' },
+        firstAdmissionAt: { $min: '$admittedAt' },
+        lastAdmissionAt: { $max: '$admittedAt' }
+      } },
+      { $sort: { admitted: -1 } }
+    ]),
+    CheckIn.aggregate([
+      match,
+      { $group: {
+        _id: {
+          gate: gateKey,
+          start: { $dateTrunc: { date: '$admittedAt', unit: 'minute', binSize: THROUGHPUT_BUCKET_MINUTES } }
+        },
+        admitted: { $sum: '$count' }
+      } },
+      { $sort: { '_id.start': 1 } }
+    ])
+  ]);
+
+  return {
+    bucketMinutes: THROUGHPUT_BUCKET_MINUTES,
+    gates: gates.map(g => {
+      const activeMinutes = g.firstAdmissionAt && g.lastAdmissionAt
+        ? Math.max(1, (g.lastAdmissionAt - g.firstAdmissionAt) / 60000)
+        : 1;
+      return {
+        gate: g._id,
+        admitted: g.admitted,
+        scans: g.scans,
+        scanners: g.scanners.filter(Boolean).length,
+        lastHour: g.lastHour,
+        perMinute: Math.round((g.admitted / activeMinutes) * 10) / 10,
+        firstAdmissionAt: g.firstAdmissionAt,
+        lastAdmissionAt: g.lastAdmissionAt,
+        timeline: buckets
+          .filter(b => b._id.gate === g._id)
+          .map(b => ({ start: b._id.start, admitted: b.admitted }))
+      };
+    })
+  };
+}
@@ -0,0 +1,85 @@
+import ExchangeRate from "../models/ExchangeRate.js";
+
+// Currencies an event can be priced in
+export const SUPPORTED_CURRENCIES = ['USD','EUR','GBP','CAD','AUD','JPY','KRW','BRL','MXN','INR','CNY','NGN','ZAR','KES','GHS'];
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+// "$1,234.50", "¥1,235", "NGN 5,000.00": Intl knows each code's symbol and minor units.
+// currencyDisplay 'code' ("JPY 1,235") suits PDFs, whose standard fonts lack symbols like ₹ and ₩.
+export function formatMoney(amount, currency = 'USD', { currencyDisplay = 'symbol' } = {}) {
+  const code = String(currency || 'USD').toUpperCase();
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: code, currencyDisplay }).format(Number(amount) || 0);
+  } catch {
+    return `${code} ${(Number(amount) || 0).toFixed(2)}`;
+  }
+}
+
+// ISO 4217 minor units for codes that don't use two decimal places
+const MINOR_UNITS = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3
+};
+
+export const minorUnits = (currency) => MINOR_UNITS[String(currency || '').toUpperCase()] ?? 2;
+
+// Whole minor units (cents, yen, fils) as payment gateways expect them, and back
+export const toMinorUnits = (amount, currency) => Math.round(Number(amount) * 10 ** minorUnits(currency));
+export const fromMinorUnits = (minor, currency) => Math.round(Number(minor) || 0) / 10 ** minorUnits(currency);
+
+// Newest snapshot already in effect, or null when no rates have been uploaded
+export async function getLatestRates(at = new Date()) {
+  return ExchangeRate.findOne({ effectiveAt: { $lte: at } }).sort({ effectiveAt: -1 });
+}
+
+// Units of `currency` per one unit of the snapshot's base
+function rateFor(snapshot, currency) {
+  if (currency === snapshot.base) return 1;
+  const rates = snapshot.rates instanceof Map ? snapshot.rates : new Map(Object.entries(snapshot.rates || {}));
+  return rates.get(currency) || null;
+}
+
+/**
+ * Convert through the snapshot's base currency. Returns null when the snapshot
+ * has no rate for either side, so callers can report the amount as unconverted.
+ */
+export function convertAmount(amount, from, to, snapshot) {
+  const source = String(from || 'USD').toUpperCase();
+  const target = String(to || 'USD').toUpperCase();
+  if (source === target) return roundMoney(amount);
+  if (!snapshot) return null;
+  const fromRate = rateFor(snapshot, source);
+  const toRate = rateFor(snapshot, target);
+  if (!fromRate || !toRate) return null;
+  return roundMoney(amount / fromRate * toRate);
+}
+
+/**
+ * Add up amounts held in several currencies as one reporting-currency figure.
+ * `byCurrency` is [{ currency, amount }]; currencies without a rate are listed in
+ * `unconverted` and left out of the total rather than summed as if they matched.
+ */
+export function sumInCurrency(byCurrency, currency, snapshot) {
+  const target = String(currency || 'USD').toUpperCase();
+  let total = 0;
+  const unconverted = [];
+  for (const entry of byCurrency) {
+    const converted = convertAmount(entry.amount, entry.currency || 'USD', target, snapshot);
+    if (converted === null) unconverted.push({ currency: entry.currency, amount: roundMoney(entry.amount) });
+    else total += converted;
+  }
+  return { currency: target, total: roundMoney(total), unconverted };
+}
+
+// Parse "currency,rate" lines from an uploaded CSV; a header row is skipped
+export function parseRatesCsv(text) {
+  const rates = {};
+  String(text || '').split(/\r?\n/).forEach(line => {
+    const [code, value] = line.split(',').map(cell => cell?.trim());
+    const rate = Number(value);
+    if (/^[A-Za-z]{3}$/.test(code || '') && Number.isFinite(rate) && rate > 0) rates[code.toUpperCase()] = rate;
+  });
+  return rates;
+}
@@ -0,0 +1,163 @@
+import EmailOutbox from "../../models/EmailOutbox.js";
+import Ticket from "../../models/Ticket.js";
+import { generateQRCodeImage, generateTicketPDF } from "../ticketGenerator.js";
+import { renderEmail } from "./templates.js";
+import { emailConfigured, sendMail } from "./smtp.js";
+
+export { EMAIL_TEMPLATES, renderEmail } from "./templates.js";
+export { emailConfigured } from "./smtp.js";
+
+const OUTBOX_INTERVAL_MS = 15 * 1000;
+const BATCH_SIZE = 20;
+// A claim older than this belongs to a worker that died mid-send
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// Waits before attempts 2..6; after the last one the message is marked failed
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 6 * 60 * 60 * 1000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+const CLIENT_URL = () => process.env.CLIENT_URL || 'https://ishow-ng.web.app';
+
+/**
+ * Render a template and queue it in the outbox; the worker sends it within
+ * seconds. Returns the outbox entry, or null when email is not configured.
+ */
+export async function enqueueEmail({ to, user, template, data, attachments = [] }) {
+  if (!emailConfigured()) return null;
+  if (!to) throw new Error(`No recipient for ${template} email`);
+  const { subject, text, html } = renderEmail(template, data);
+  return EmailOutbox.create({ to, user, template, subject, text, html, attachments });
+}
+
+// Claim the next due message so two workers never send the same one
+const claimNext = () => EmailOutbox.findOneAndUpdate(
+  {
+    $or: [
+      { status: 'pending', nextAttemptAt: { $lte: new Date() } },
+      { status: 'sending', lockedAt: { $lt: new Date(Date.now() - STALE_LOCK_MS) } }
+    ]
+  },
+  { $set: { status: 'sending', lockedAt: new Date() }, $inc: { attempts: 1 } },
+  { sort: { nextAttemptAt: 1 }, new: true }
+);
+
+async function deliver(message) {
+  try {
+    const messageId = await sendMail(message);
+    await EmailOutbox.updateOne(
+      { _id: message._id },
+      { $set: { status: 'sent', sentAt: new Date(), messageId }, $unset: { lockedAt: 1, lastError: 1 } }
+    );
+    console.log(`📧 Sent ${message.template} email to ${message.to}`);
+  } catch (error) {
+    const giveUp = error.permanent || message.attempts >= MAX_ATTEMPTS;
+    await EmailOutbox.updateOne(
+      { _id: message._id },
+      {
+        $set: {
+          status: giveUp ? 'failed' : 'pending',
+          lastError: error.message,
+          nextAttemptAt: new Date(Date.now() + (RETRY_DELAYS_MS[message.attempts - 1] || 0))
+        },
+        $unset: { lockedAt: 1 }
+      }
+    );
+    console.error(`❌ ${message.template} email to ${message.to} failed (attempt ${message.attempts}${giveUp ? ', giving up' : ''}):`, error.message);
+  }
+}
+
+// Send up to `limit` due messages, one at a time; returns how many were attempted
+export async function processOutbox(limit = BATCH_SIZE) {
+  let attempted = 0;
+  while (attempted < limit) {
+    const message = await claimNext();
+    if (!message) break;
+    await deliver(message);
+    attempted += 1;
+  }
+  return attempted;
+}
+
+// Background outbox worker started once the database is connected
+export function startEmailOutbox(intervalMs = OUTBOX_INTERVAL_MS) {
+  if (!emailConfigured()) {
+    console.warn('⚠️ Email is not configured (SMTP_HOST or SMTP_LOCAL_SINK); transactional emails are disabled');
+    return null;
+  }
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processOutbox();
+    } catch (error) {
+      console.error('❌ Email outbox error:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+// Ticket PDFs for a ticket_generated email, one attachment per seat
+async function ticketAttachments(ticketIds = []) {
+  const tickets = await Ticket.find({ ticketId: { $in: ticketIds } })
+    .populate('event', 'title date time location')
+    .populate('user', 'name email')
+    .populate('booking', 'paymentMethod subtotal discount charges totalAmount currency')
+    .sort({ seatIndex: 1 });
+  return Promise.all(tickets.map(async ticket => ({
+    filename: `ticket-${ticket.ticketId}.pdf`,
+    contentType: 'application/pdf',
+    content: generateTicketPDF(ticket, ticket.event, ticket.user, await generateQRCodeImage(ticket.qrCodeData), ticket.booking)
+  })));
+}
+
+// Which template a notification uses, and the data it needs
+function notificationEmail(user, { type, title, message, data = {} }) {
+  const base = { name: user.name, eventTitle: data.eventTitle };
+  const ticketsUrl = `${CLIENT_URL()}/my-tickets`;
+  const updateType = type === 'event_update' ? data.updateType : type.replace(/^event_/, '');
+
+  switch (type) {
+    case 'payment_confirmed':
+      return {
+        template: 'paymentConfirmed',
+        data: { ...base, eventDate: data.eventDate, amount: data.amount, currency: data.currency, paymentMethod: data.paymentMethod, invoiceNumber: data.invoiceNumber, ticketsUrl }
+      };
+    case 'payment_rejected':
+      return {
+        template: 'paymentRejected',
+        data: { ...base, amount: data.amount, currency: data.currency, reason: data.rejectionReason, bookingUrl: ticketsUrl }
+      };
+    case 'ticket_generated':
+      return { template: 'ticketIssued', data: { ...base, eventDate: data.eventDate, quantity: data.quantity, ticketsUrl } };
+    case 'event_postponed':
+    case 'event_cancelled':
+    case 'event_update':
+      if (updateType === 'postponed') {
+        return {
+          template: 'eventPostponed',
+          data: { ...base, originalDate: data.originalDate, newDate: data.newDate, newTime: data.newTime, newLocation: data.newLocation, reason: data.reason, eventUrl: data.eventId && `${CLIENT_URL()}/events/${data.eventId}` }
+        };
+      }
+      if (updateType === 'cancelled') {
+        return { template: 'eventCancelled', data: { ...base, eventDate: data.originalDate, reason: data.reason } };
+      }
+      break;
+  }
+  return { template: 'notification', data: { name: user.name, title, message, url: `${CLIENT_URL()}/notifications` } };
+}
+
+/**
+ * Email delivery channel for the notification dispatcher. Ticket emails carry
+ * the ticket PDFs; everything else is the rendered template alone.
+ */
+export async function deliverEmail(user, notification) {
+  if (!emailConfigured() || !user.email) return;
+  const { template, data } = notificationEmail(user, notification);
+  const attachments = notification.type === 'ticket_generated'
+    ? await ticketAttachments(notification.data?.ticketIds)
+    : [];
+  await enqueueEmail({ to: user.email, user: user._id, template, data, attachments });
+}
@@ -0,0 +1,247 @@
+import crypto from "crypto";
+import net from "net";
+import os from "os";
+import tls from "tls";
+
+const COMMAND_TIMEOUT_MS = 30 * 1000;
+
+const CLIENT_URL = () => process.env.CLIENT_URL || 'https://ishow-ng.web.app';
+
+/**
+ * SMTP settings from the environment. SMTP_HOST / SMTP_PORT pick the server.
+ * SMTP_LOCAL_SINK=true (ignored in production) points it at localhost:1025
+ * instead, where MailHog (or `npm run mail:sink`) catches everything.
+ * SMTP_USER / SMTP_PASS enable AUTH, SMTP_SECURE=true uses implicit TLS
+ * (port 465) and STARTTLS is used whenever the server offers it. Null when
+ * email is not set up.
+ */
+export function getSmtpConfig() {
+  const localSink = process.env.SMTP_LOCAL_SINK === 'true' && process.env.NODE_ENV !== 'production';
+  const host = process.env.SMTP_HOST || (localSink ? 'localhost' : null);
+  if (!host) return null;
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (process.env.SMTP_HOST ? (secure ? 465 : 587) : 1025),
+    secure,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+    from: process.env.EMAIL_FROM || `iShow <no-reply@${new URL(CLIENT_URL()).hostname}>`
+  };
+}
+
+export const emailConfigured = () => !!getSmtpConfig();
+
+function smtpError(message, responseCode) {
+  const err = new Error(message);
+  err.responseCode = responseCode;
+  // 5xx replies are permanent; sending the same message again won't help
+  err.permanent = responseCode >= 500;
+  return err;
+}
+
+// Non-ASCII header values as RFC 2047 encoded words
+const encodeHeader = (value) => /^[\x20-\x7e]*$/.test(value)
+  ? value
+  : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const base64Lines = (content) => Buffer.from(content).toString('base64').replace(/.{76}(?=.)/g, '$&\r\n');
+
+const addressOf = (mailbox) => (/<([^>]+)>/.exec(mailbox)?.[1] || mailbox).trim();
+
+/**
+ * RFC 5322 message with text and HTML alternatives and optional attachments
+ * ({ filename, contentType, content }). Returns the raw message and its Message-ID.
+ */
+export function buildMessage({ from, to, subject, text, html, attachments = [] }) {
+  const boundary = () => `=_${crypto.randomBytes(12).toString('hex')}`;
+  const messageId = `<${crypto.randomUUID()}@${addressOf(from).split('@')[1] || 'localhost'}>`;
+
+  const alternative = boundary();
+  const alternativePart = [
+    `Content-Type: multipart/alternative; boundary="${alternative}"`,
+    '',
+    `--${alternative}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(text),
+    `--${alternative}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(html),
+    `--${alternative}--`
+  ].join('\r\n');
+
+  let body = alternativePart;
+  if (attachments.length > 0) {
+    const mixed = boundary();
+    body = [
+      `Content-Type: multipart/mixed; boundary="${mixed}"`,
+      '',
+      `--${mixed}`,
+      alternativePart,
+      ...attachments.flatMap(attachment => [
+        `--${mixed}`,
+        `Content-Type: ${attachment.contentType || 'application/octet-stream'}; name="${attachment.filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: attachment; filename="${attachment.filename}"`,
+        '',
+        base64Lines(attachment.content)
+      ]),
+      `--${mixed}--`
+    ].join('\r\n');
+  }
+
+  const headers = [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0'
+  ];
+  return { raw: `${headers.join('\r\n')}\r\n${body}\r\n`, messageId };
+}
+
+// Reads SMTP replies off a socket; `attach` moves it onto the TLS socket after STARTTLS
+function openSession(initialSocket) {
+  let socket;
+  let buffer = '';
+  let lines = [];
+  let failure = null;
+  const replies = [];
+  const waiting = [];
+
+  const onData = (chunk) => {
+    buffer += chunk.toString('utf8');
+    let index;
+    while ((index = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, index).replace(/\r$/, '');
+      buffer = buffer.slice(index + 1);
+      lines.push(line);
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: lines.map(l => l.slice(4)) };
+        lines = [];
+        const next = waiting.shift();
+        if (next) next.resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  };
+  const onFailure = (error) => {
+    failure = failure || error;
+    while (waiting.length > 0) waiting.shift().reject(failure);
+  };
+  const onClose = () => onFailure(new Error('SMTP connection closed unexpectedly'));
+  const onTimeout = () => {
+    onFailure(new Error('SMTP server timed out'));
+    socket.destroy();
+  };
+
+  const session = {
+    attach(next) {
+      if (socket) {
+        socket.removeListener('data', onData);
+        socket.removeListener('error', onFailure);
+        socket.removeListener('close', onClose);
+        socket.removeListener('timeout', onTimeout);
+      }
+      socket = next;
+      socket.setTimeout(COMMAND_TIMEOUT_MS);
+      socket.on('data', onData);
+      socket.on('error', onFailure);
+      socket.on('close', onClose);
+      socket.on('timeout', onTimeout);
+    },
+    get socket() {
+      return socket;
+    },
+    read() {
+      if (replies.length > 0) return Promise.resolve(replies.shift());
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    // `label` stands in for the command in errors so credentials never reach the logs
+    async command(line, expected, label = line) {
+      socket.write(`${line}\r\n`);
+      const reply = await session.read();
+      if (!expected.includes(reply.code)) {
+        throw smtpError(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+      }
+      return reply;
+    },
+    close() {
+      socket.removeListener('close', onClose);
+      socket.end();
+    }
+  };
+  session.attach(initialSocket);
+  return session;
+}
+
+function connect({ host, port, secure, rejectUnauthorized }) {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host, rejectUnauthorized }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket, { host, rejectUnauthorized }) {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host, rejectUnauthorized }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+const capabilities = (reply) => reply.lines.slice(1).map(line => line.toUpperCase());
+
+/**
+ * Deliver one message over SMTP. Resolves with the Message-ID; rejects with
+ * `err.permanent` set when the server refused it outright (5xx).
+ */
+export async function sendMail({ to, subject, text, html, attachments }, config = getSmtpConfig()) {
+  if (!config) throw new Error('Email is not configured on this server');
+  const { raw, messageId } = buildMessage({ from: config.from, to, subject, text, html, attachments });
+
+  const session = openSession(await connect(config));
+  try {
+    const greeting = await session.read();
+    if (greeting.code !== 220) throw smtpError(`SMTP greeting failed: ${greeting.code} ${greeting.lines.join(' ')}`, greeting.code);
+
+    const hello = `EHLO ${os.hostname() || 'localhost'}`;
+    let ehlo = await session.command(hello, [250], 'EHLO');
+    if (!config.secure && capabilities(ehlo).includes('STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      session.attach(await upgradeToTls(session.socket, config));
+      ehlo = await session.command(hello, [250], 'EHLO');
+    }
+
+    if (config.user) {
+      const auth = capabilities(ehlo).find(line => line.startsWith('AUTH')) || '';
+      if (auth.includes('PLAIN')) {
+        const token = Buffer.from(`\0${config.user}\0${config.pass || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN');
+      } else {
+        await session.command('AUTH LOGIN', [334]);
+        await session.command(Buffer.from(config.user).toString('base64'), [334], 'AUTH LOGIN username');
+        await session.command(Buffer.from(config.pass || '').toString('base64'), [235], 'AUTH LOGIN password');
+      }
+    }
+
+    await session.command(`MAIL FROM:<${addressOf(config.from)}>`, [250]);
+    await session.command(`RCPT TO:<${addressOf(to)}>`, [250, 251]);
+    await session.command('DATA', [354]);
+    // Dot-stuff lines that start with "." and end with the lone-dot terminator
+    await session.command(`${raw.replace(/^\./gm, '..')}.`, [250], 'DATA body');
+    await session.command('QUIT', [221]).catch(() => {});
+    return messageId;
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,107 @@
+import net from "net";
+
+/**
+ * A MailHog-style SMTP sink for development and tests: accepts every message
+ * (and any AUTH credentials) and hands it to `onMessage({ from, to, raw })`.
+ * No TLS, so point the transport at it with SMTP_HOST/SMTP_PORT and no
+ * SMTP_SECURE. Returns the listening net.Server.
+ */
+export function createSmtpSink({ port = 1025, host = '127.0.0.1', onMessage }) {
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let envelope = { from: null, to: [] };
+    let data = null;
+    let authStep = null;
+
+    const reply = (line) => socket.write(`${line}\r\n`);
+    const reset = () => {
+      envelope = { from: null, to: [] };
+      data = null;
+    };
+
+    const handleLine = (line) => {
+      if (data !== null) {
+        if (line === '.') {
+          const message = { from: envelope.from, to: envelope.to, raw: data.join('\r\n') };
+          reset();
+          Promise.resolve().then(() => onMessage?.(message))
+            .then(() => reply('250 OK: message accepted'))
+            .catch(error => reply(`451 ${error.message}`));
+          return;
+        }
+        // Undo dot-stuffing
+        data.push(line.startsWith('..') ? line.slice(1) : line);
+        return;
+      }
+      if (authStep) {
+        authStep = authStep === 'username' ? 'password' : null;
+        reply(authStep ? '334 UGFzc3dvcmQ6' : '235 Authentication succeeded');
+        return;
+      }
+
+      const [verb] = line.split(' ');
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          reply('250-localhost mail sink');
+          reply('250-AUTH PLAIN LOGIN');
+          reply('250 8BITMIME');
+          break;
+        case 'HELO':
+          reply('250 localhost mail sink');
+          break;
+        case 'AUTH':
+          if (/^AUTH LOGIN$/i.test(line)) {
+            authStep = 'username';
+            reply('334 VXNlcm5hbWU6');
+          } else {
+            reply('235 Authentication succeeded');
+          }
+          break;
+        case 'MAIL':
+          envelope.from = /<([^>]*)>/.exec(line)?.[1] ?? '';
+          reply('250 OK');
+          break;
+        case 'RCPT':
+          envelope.to.push(/<([^>]*)>/.exec(line)?.[1] ?? '');
+          reply('250 OK');
+          break;
+        case 'DATA':
+          if (!envelope.from || envelope.to.length === 0) {
+            reply('503 Need MAIL and RCPT first');
+            break;
+          }
+          data = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'RSET':
+          reset();
+          reply('250 OK');
+          break;
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    };
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        handleLine(line);
+      }
+    });
+    socket.on('error', () => {});
+    reply('220 localhost mail sink ready');
+  });
+
+  server.listen(port, host);
+  return server;
+}
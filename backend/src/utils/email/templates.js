@@ -0,0 +1,258 @@
+import { formatMoney } from "../currency.js";
+
+const CLIENT_URL = () => process.env.CLIENT_URL || 'https://ishow-ng.web.app';
+
+const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, ch => ({
+  '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+}[ch]));
+
+const longDate = (value) => value
+  ? new Date(value).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+  : 'Date TBA';
+
+const greeting = (name) => `Hi ${name || 'there'},`;
+
+/**
+ * Shared HTML shell: the brand header band, a white card for `content` and a
+ * footer. Tables and inline styles only, since mail clients ignore most CSS.
+ */
+function layout(title, content) {
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:Helvetica,Arial,sans-serif;color:#27272a;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f5;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="560" cellpadding="0" cellspacing="0" style="max-width:560px;width:100%;background:#ffffff;border-radius:12px;overflow:hidden;">
+<tr><td style="background:#00593f;padding:20px 28px;color:#ffffff;font-size:20px;font-weight:bold;">iShow</td></tr>
+<tr><td style="padding:28px;font-size:15px;line-height:1.6;">${content}</td></tr>
+<tr><td style="padding:16px 28px;background:#fafafa;color:#71717a;font-size:12px;">
+You're receiving this because you have an iShow account. Manage which emails you get in your
+<a href="${escapeHtml(`${CLIENT_URL()}/notifications`)}" style="color:#00593f;">notification preferences</a>.
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body></html>`;
+}
+
+const paragraph = (text) => `<p style="margin:0 0 16px;">${escapeHtml(text)}</p>`;
+
+const button = (label, url) => `<p style="margin:24px 0;"><a href="${escapeHtml(url)}" style="display:inline-block;background:#00593f;color:#ffffff;text-decoration:none;padding:12px 24px;border-radius:8px;font-weight:bold;">${escapeHtml(label)}</a></p>`;
+
+const details = (rows) => `<table role="presentation" cellpadding="0" cellspacing="0" style="margin:0 0 16px;width:100%;border-collapse:collapse;">${
+  rows.filter(([, value]) => value).map(([label, value]) => `<tr><td style="padding:6px 0;color:#71717a;width:40%;">${escapeHtml(label)}</td><td style="padding:6px 0;">${escapeHtml(value)}</td></tr>`).join('')
+}</table>`;
+
+const textDetails = (rows) => rows.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`).join('\n');
+
+// Each template takes its data and returns { subject, text, html }
+const templates = {
+  verification: ({ name, verifyUrl, code, linkExpiresInHours = 24, codeExpiresInMinutes = 10 }) => {
+    const expiry = [
+      verifyUrl ? `The link works for ${linkExpiresInHours} hours` : null,
+      code ? `${verifyUrl ? 'the code' : 'The code works'} for ${codeExpiresInMinutes} minutes` : null
+    ].filter(Boolean).join(' and ');
+    const footnote = `${expiry}. If you didn't sign up, you can ignore this email.`;
+    return {
+      subject: 'Verify your email address',
+      text: [
+        greeting(name),
+        '',
+        'Confirm your email address to finish setting up your iShow account.',
+        verifyUrl ? `Verify here: ${verifyUrl}` : null,
+        code ? `Or enter this code: ${code}` : null,
+        '',
+        footnote
+      ].filter(line => line !== null).join('\n'),
+      html: layout('Verify your email address', [
+        paragraph(greeting(name)),
+        paragraph('Confirm your email address to finish setting up your iShow account.'),
+        verifyUrl ? button('Verify email', verifyUrl) : '',
+        code ? `<p style="margin:0 0 8px;">${verifyUrl ? 'Or enter this code' : 'Your verification code'}:</p><p style="margin:0 0 24px;font-size:28px;font-weight:bold;letter-spacing:6px;">${escapeHtml(code)}</p>` : '',
+        paragraph(footnote)
+      ].join(''))
+    };
+  },
+
+  loginCode: ({ name, code, expiresInMinutes = 10 }) => ({
+    subject: `Your iShow sign-in code: ${code}`,
+    text: [
+      greeting(name),
+      '',
+      `Your sign-in code is ${code}`,
+      '',
+      `It expires in ${expiresInMinutes} minutes. If you didn't try to sign in, you can ignore this email; nobody can get in without the code.`
+    ].join('\n'),
+    html: layout('Your sign-in code', [
+      paragraph(greeting(name)),
+      paragraph('Your sign-in code is'),
+      `<p style="margin:0 0 24px;font-size:28px;font-weight:bold;letter-spacing:6px;">${escapeHtml(code)}</p>`,
+      paragraph(`It expires in ${expiresInMinutes} minutes. If you didn't try to sign in, you can ignore this email; nobody can get in without the code.`)
+    ].join(''))
+  }),
+
+  passwordReset: ({ name, resetUrl, expiresInMinutes = 10 }) => ({
+    subject: 'Reset your password',
+    text: [
+      greeting(name),
+      '',
+      'We received a request to reset the password on your iShow account.',
+      `Choose a new password here: ${resetUrl}`,
+      `The link expires in ${expiresInMinutes} minutes and works once. If you didn't ask for this, ignore this email; your password stays the same.`
+    ].join('\n'),
+    html: layout('Reset your password', [
+      paragraph(greeting(name)),
+      paragraph('We received a request to reset the password on your iShow account.'),
+      button('Choose a new password', resetUrl),
+      paragraph(`The link expires in ${expiresInMinutes} minutes and works once. If you didn't ask for this, ignore this email; your password stays the same.`)
+    ].join(''))
+  }),
+
+  paymentConfirmed: ({ name, eventTitle, eventDate, amount, currency, paymentMethod, invoiceNumber, ticketsUrl }) => {
+    const rows = [
+      ['Event', eventTitle],
+      ['Date', longDate(eventDate)],
+      ['Amount', amount !== undefined ? formatMoney(amount, currency) : null],
+      ['Method', paymentMethod],
+      ['Invoice', invoiceNumber]
+    ];
+    return {
+      subject: `Payment confirmed: ${eventTitle}`,
+      text: [
+        greeting(name),
+        '',
+        `Your payment for "${eventTitle}" has been confirmed and your booking is secured.`,
+        '',
+        textDetails(rows),
+        ticketsUrl ? `\nYour tickets${invoiceNumber ? ' and invoice' : ''}: ${ticketsUrl}` : '',
+        '\nSee you at the event!'
+      ].join('\n'),
+      html: layout('Payment confirmed', [
+        paragraph(greeting(name)),
+        paragraph(`Your payment for "${eventTitle}" has been confirmed and your booking is secured.`),
+        details(rows),
+        ticketsUrl ? button(invoiceNumber ? 'View tickets and invoice' : 'View my tickets', ticketsUrl) : '',
+        paragraph('See you at the event!')
+      ].join(''))
+    };
+  },
+
+  paymentRejected: ({ name, eventTitle, amount, currency, reason, bookingUrl }) => {
+    const rows = [
+      ['Event', eventTitle],
+      ['Amount', amount !== undefined ? formatMoney(amount, currency) : null],
+      ['Reason', reason || 'No specific reason provided']
+    ];
+    return {
+      subject: `Payment receipt rejected: ${eventTitle}`,
+      text: [
+        greeting(name),
+        '',
+        `The organizer of "${eventTitle}" couldn't accept your payment receipt.`,
+        '',
+        textDetails(rows),
+        '',
+        'Please upload a corrected receipt or contact the organizer.',
+        bookingUrl ? `Your bookings: ${bookingUrl}` : ''
+      ].join('\n'),
+      html: layout('Payment receipt rejected', [
+        paragraph(greeting(name)),
+        paragraph(`The organizer of "${eventTitle}" couldn't accept your payment receipt.`),
+        details(rows),
+        paragraph('Please upload a corrected receipt or contact the organizer.'),
+        bookingUrl ? button('View my bookings', bookingUrl) : ''
+      ].join(''))
+    };
+  },
+
+  ticketIssued: ({ name, eventTitle, eventDate, quantity = 1, ticketsUrl }) => {
+    const noun = quantity > 1 ? `${quantity} tickets` : 'ticket';
+    return {
+      subject: `Your ${noun} for ${eventTitle}`,
+      text: [
+        greeting(name),
+        '',
+        `Your ${noun} for "${eventTitle}" on ${longDate(eventDate)} ${quantity > 1 ? 'are' : 'is'} attached.`,
+        'Each guest needs their own QR code at the venue.',
+        ticketsUrl ? `\nYou can also find them here: ${ticketsUrl}` : ''
+      ].join('\n'),
+      html: layout('Your tickets', [
+        paragraph(greeting(name)),
+        paragraph(`Your ${noun} for "${eventTitle}" on ${longDate(eventDate)} ${quantity > 1 ? 'are' : 'is'} attached.`),
+        paragraph('Each guest needs their own QR code at the venue.'),
+        ticketsUrl ? button('View my tickets', ticketsUrl) : ''
+      ].join(''))
+    };
+  },
+
+  eventPostponed: ({ name, eventTitle, originalDate, newDate, newTime, newLocation, reason, eventUrl }) => {
+    const rows = [
+      ['Originally', originalDate ? longDate(originalDate) : null],
+      ['New date', newDate ? longDate(newDate) : 'To be announced'],
+      ['New time', newTime],
+      ['New location', newLocation],
+      ['Reason', reason]
+    ];
+    return {
+      subject: `Postponed: ${eventTitle}`,
+      text: [
+        greeting(name),
+        '',
+        `"${eventTitle}" has been postponed. Your booking carries over to the new date.`,
+        '',
+        textDetails(rows),
+        eventUrl ? `\nEvent details: ${eventUrl}` : ''
+      ].join('\n'),
+      html: layout('Event postponed', [
+        paragraph(greeting(name)),
+        paragraph(`"${eventTitle}" has been postponed. Your booking carries over to the new date.`),
+        details(rows),
+        eventUrl ? button('View event', eventUrl) : ''
+      ].join(''))
+    };
+  },
+
+  eventCancelled: ({ name, eventTitle, eventDate, reason }) => {
+    const rows = [
+      ['Was scheduled for', eventDate ? longDate(eventDate) : null],
+      ['Reason', reason]
+    ];
+    return {
+      subject: `Cancelled: ${eventTitle}`,
+      text: [
+        greeting(name),
+        '',
+        `We're sorry: "${eventTitle}" has been cancelled.`,
+        '',
+        textDetails(rows),
+        '',
+        'If you paid for your booking, you can request a refund from your bookings page.'
+      ].join('\n'),
+      html: layout('Event cancelled', [
+        paragraph(greeting(name)),
+        paragraph(`We're sorry: "${eventTitle}" has been cancelled.`),
+        details(rows),
+        paragraph('If you paid for your booking, you can request a refund from your bookings page.')
+      ].join(''))
+    };
+  },
+
+  // Any other notification, as its title and message
+  notification: ({ name, title, message, url }) => ({
+    subject: title,
+    text: [greeting(name), '', message, url ? `\n${url}` : ''].join('\n'),
+    html: layout(title, [
+      paragraph(greeting(name)),
+      ...String(message || '').split(/\n{2,}/).map(block => `<p style="margin:0 0 16px;white-space:pre-line;">${escapeHtml(block)}</p>`),
+      url ? button('Open iShow', url) : ''
+    ].join(''))
+  })
+};
+
+export const EMAIL_TEMPLATES = Object.keys(templates);
+
+export function renderEmail(template, data = {}) {
+  const render = templates[template];
+  if (!render) throw new Error(`Unknown email template: ${template}`);
+  return render(data);
+}
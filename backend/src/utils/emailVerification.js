@@ -0,0 +1,183 @@
+import crypto from "crypto";
+import EmailOtp from "../models/EmailOtp.js";
+import User from "../models/User.js";
+import { enqueueEmail } from "./email/index.js";
+
+export const OTP_TTL_MINUTES = 10;
+const OTP_MAX_ATTEMPTS = 5;
+// Resend throttling, per email address and purpose
+const RESEND_INTERVAL_SECONDS = 60;
+const SEND_WINDOW_MS = 60 * 60 * 1000;
+const MAX_SENDS_PER_WINDOW = 5;
+const VERIFICATION_LINK_HOURS = 24;
+
+const CLIENT_URL = () => process.env.CLIENT_URL || 'https://ishow-ng.web.app';
+
+const sha256 = (value) => crypto.createHash('sha256').update(String(value)).digest('hex');
+// Bound to the address and purpose so a code can't be replayed anywhere else
+const hashCode = (email, purpose, code) => sha256(`${purpose}:${email}:${code}`);
+
+function verificationError(message, status = 400, extra = {}) {
+  const err = new Error(message);
+  err.status = status;
+  Object.assign(err, extra);
+  return err;
+}
+
+const throttled = (retryAfterMs) => verificationError(
+  `Please wait ${Math.ceil(retryAfterMs / 1000)} seconds before requesting another code`,
+  429,
+  { retryAfter: Math.ceil(retryAfterMs / 1000) }
+);
+
+/**
+ * Create (or replace) the six-digit code for an address and purpose and return
+ * it. Throws a 429 with `retryAfter` seconds when codes are requested too often.
+ */
+export async function issueOtp({ email, purpose, user }) {
+  const now = Date.now();
+  let otp = await EmailOtp.findOne({ email, purpose });
+
+  if (otp) {
+    const sinceLastSend = now - otp.lastSentAt.getTime();
+    if (sinceLastSend < RESEND_INTERVAL_SECONDS * 1000) throw throttled(RESEND_INTERVAL_SECONDS * 1000 - sinceLastSend);
+
+    const windowEnds = otp.windowStartedAt.getTime() + SEND_WINDOW_MS;
+    if (windowEnds <= now) {
+      otp.windowStartedAt = new Date(now);
+      otp.sendCount = 0;
+    } else if (otp.sendCount >= MAX_SENDS_PER_WINDOW) {
+      throw throttled(windowEnds - now);
+    }
+  } else {
+    otp = new EmailOtp({ email, purpose, windowStartedAt: new Date(now), sendCount: 0 });
+  }
+
+  const code = String(crypto.randomInt(0, 1000000)).padStart(6, '0');
+  const expiresAt = new Date(now + OTP_TTL_MINUTES * 60 * 1000);
+  Object.assign(otp, {
+    user,
+    codeHash: hashCode(email, purpose, code),
+    expiresAt,
+    attempts: 0,
+    consumedAt: null,
+    lastSentAt: new Date(now),
+    sendCount: otp.sendCount + 1,
+    purgeAt: new Date(Math.max(otp.windowStartedAt.getTime() + SEND_WINDOW_MS, expiresAt.getTime()))
+  });
+
+  try {
+    await otp.save();
+  } catch (error) {
+    // Another request issued a code for this address at the same moment
+    if (error.code === 11000) throw throttled(RESEND_INTERVAL_SECONDS * 1000);
+    throw error;
+  }
+  return code;
+}
+
+/**
+ * Check a code and use it up. Every guess counts against the attempt limit,
+ * including the right one. Resolves to the user id stored with the code.
+ */
+export async function consumeOtp({ email, purpose, code }) {
+  // Count the attempt before comparing so parallel guesses can't exceed the limit
+  const otp = await EmailOtp.findOneAndUpdate(
+    { email, purpose, consumedAt: null, expiresAt: { $gt: new Date() }, attempts: { $lt: OTP_MAX_ATTEMPTS } },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+  if (!otp) {
+    const spent = await EmailOtp.exists({ email, purpose, consumedAt: null, expiresAt: { $gt: new Date() } });
+    throw spent
+      ? verificationError("Too many incorrect attempts. Request a new code.", 429)
+      : verificationError("This code is invalid or has expired. Request a new one.");
+  }
+
+  const matches = crypto.timingSafeEqual(Buffer.from(hashCode(email, purpose, code)), Buffer.from(otp.codeHash));
+  if (!matches) {
+    const remaining = OTP_MAX_ATTEMPTS - otp.attempts;
+    throw verificationError(remaining > 0
+      ? `Incorrect code. ${remaining} attempt${remaining === 1 ? '' : 's'} left.`
+      : "Too many incorrect attempts. Request a new code.", remaining > 0 ? 400 : 429);
+  }
+
+  const used = await EmailOtp.updateOne({ _id: otp._id, consumedAt: null }, { $set: { consumedAt: new Date() } });
+  if (used.modifiedCount === 0) throw verificationError("This code has already been used. Request a new one.");
+  return otp.user;
+}
+
+/**
+ * Email a verification link and code to a user who hasn't verified yet. The
+ * link token is stored hashed on the user, like password reset tokens.
+ */
+export async function sendVerificationEmail(user) {
+  const code = await issueOtp({ email: user.email, purpose: 'verify_email', user: user._id });
+
+  const token = crypto.randomBytes(32).toString('hex');
+  await User.updateOne({ _id: user._id }, {
+    $set: {
+      emailVerificationToken: sha256(token),
+      emailVerificationExpires: new Date(Date.now() + VERIFICATION_LINK_HOURS * 60 * 60 * 1000)
+    }
+  });
+
+  return enqueueEmail({
+    to: user.email,
+    user: user._id,
+    template: 'verification',
+    data: {
+      name: user.name,
+      verifyUrl: `${CLIENT_URL()}/verify-email?token=${token}`,
+      code,
+      linkExpiresInHours: VERIFICATION_LINK_HOURS,
+      codeExpiresInMinutes: OTP_TTL_MINUTES
+    }
+  });
+}
+
+export async function sendLoginCode(user) {
+  const code = await issueOtp({ email: user.email, purpose: 'login', user: user._id });
+  return enqueueEmail({
+    to: user.email,
+    user: user._id,
+    template: 'loginCode',
+    data: { name: user.name, code, expiresInMinutes: OTP_TTL_MINUTES }
+  });
+}
+
+// The user a verification link belongs to, if it's still valid
+export const findUserByVerificationToken = (token) => User.findOne({
+  emailVerificationToken: sha256(token),
+  emailVerificationExpires: { $gt: new Date() }
+});
+
+// Mark the address verified and retire any outstanding link or code
+export async function markEmailVerified(userId) {
+  const user = await User.findByIdAndUpdate(
+    userId,
+    { $set: { isEmailVerified: true }, $unset: { emailVerificationToken: 1, emailVerificationExpires: 1 } },
+    { new: true }
+  );
+  if (user) await EmailOtp.deleteMany({ email: user.email, purpose: 'verify_email' });
+  return user;
+}
+
+// Hosts can't publish events or take payments until they've verified their email
+export const isHostVerified = async (hostId) => !!await User.exists({ _id: hostId, isEmailVerified: true });
+
+export const UNVERIFIED_HOST = {
+  message: "Verify your email address before publishing events or accepting payments.",
+  code: 'EMAIL_NOT_VERIFIED'
+};
+
+export const HOST_CANNOT_ACCEPT_PAYMENTS = {
+  message: "This organizer hasn't verified their account yet, so payments can't be accepted for this event.",
+  code: 'HOST_NOT_VERIFIED'
+};
+
+// The 403 body for taking a payment on a host's event, or null when the host is verified
+export async function paymentBlockedByHost(hostId, userId) {
+  if (await isHostVerified(hostId)) return null;
+  return String(hostId) === String(userId) ? UNVERIFIED_HOST : HOST_CANNOT_ACCEPT_PAYMENTS;
+}
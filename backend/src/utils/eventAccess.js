@@ -0,0 +1,47 @@
+import Event from "../models/Event.js";
+import EventStaff from "../models/EventStaff.js";
+
+// What each staff role may do on an event; the owner may do everything
+export const STAFF_ROLES = ['co-host', 'scanner', 'finance'];
+
+export const ROLE_PERMISSIONS = {
+  'co-host': ['check_in', 'view_bookings', 'view_revenue', 'confirm_receipts', 'view_staff', 'manage_promos'],
+  scanner: ['check_in'],
+  finance: ['view_bookings', 'view_revenue', 'confirm_receipts']
+};
+
+export const hasPermission = (role, permission) =>
+  role === 'owner' || (ROLE_PERMISSIONS[role] || []).includes(permission);
+
+/**
+ * Resolve the caller's role on an event: 'owner', an active staff role, or null.
+ * Accepts an event document (with `owner`) or an id.
+ */
+export async function getEventAccess(eventOrId, userId) {
+  const event = eventOrId?.owner
+    ? eventOrId
+    : await Event.findById(eventOrId?._id || eventOrId).select('owner');
+  if (!event) return { event: null, role: null, staff: null };
+
+  const ownerId = event.owner?._id || event.owner;
+  if (String(ownerId) === String(userId)) return { event, role: 'owner', staff: null };
+
+  const staff = await EventStaff.findOne({ event: event._id, user: userId, status: 'active' });
+  return { event, role: staff?.role || null, staff };
+}
+
+// True when the user may act on the event with the given permission
+export async function canAccessEvent(eventOrId, userId, permission) {
+  const access = await getEventAccess(eventOrId, userId);
+  return !!access.role && hasPermission(access.role, permission) ? access : null;
+}
+
+// Ids of events the user owns or staffs with the given permission
+export async function accessibleEventIds(userId, permission) {
+  const roles = STAFF_ROLES.filter(role => hasPermission(role, permission));
+  const [owned, staffed] = await Promise.all([
+    Event.find({ owner: userId }).distinct('_id'),
+    EventStaff.find({ user: userId, status: 'active', role: { $in: roles } }).distinct('event')
+  ]);
+  return [...owned, ...staffed];
+}
@@ -0,0 +1,107 @@
+import Booking from "../models/Booking.js";
+import PaymentReceipt from "../models/PaymentReceipt.js";
+import Payment from "../models/Payment.js";
+import { releaseInventory } from "./inventory.js";
+import { releasePromoCode } from "./promoCodes.js";
+import { notifyUser } from "./notify.js";
+import { triggerWaitlistOffers, sweepExpiredOffers } from "./waitlist.js";
+
+// Payment methods that are settled off-platform and confirmed via an uploaded receipt
+export const RECEIPT_PAYMENT_METHODS = ['bank_transfer','cashapp','paypal','bitcoin'];
+
+// Paid through the online payment provider; seats are held while the attendee is at checkout
+export const ONLINE_PAYMENT_METHODS = ['online'];
+
+export const DEFAULT_HOLD_MINUTES = 60;
+const SWEEP_INTERVAL_MS = Number(process.env.HOLD_SWEEP_INTERVAL_MS) || 60 * 1000;
+
+export function requiresHold(paymentMethod) {
+  return RECEIPT_PAYMENT_METHODS.includes(paymentMethod) || ONLINE_PAYMENT_METHODS.includes(paymentMethod);
+}
+
+export function computeHoldExpiry(event, from = new Date()) {
+  const minutes = event.holdWindowMinutes || DEFAULT_HOLD_MINUTES;
+  return new Date(from.getTime() + minutes * 60 * 1000);
+}
+
+// Expire a single pending booking whose hold ran out; returns true when it was expired here
+export async function expireBooking(booking) {
+  // A receipt or an online payment may have arrived between the sweep query and now;
+  // a rejected receipt doesn't count, its booking got a fresh hold to resubmit in
+  const paid = await PaymentReceipt.exists({ booking: booking._id, status: { $in: ['pending', 'confirmed'] } }) ||
+    await Payment.exists({ booking: booking._id, status: { $in: ['authorized', 'succeeded'] } });
+  if (paid) {
+    await Booking.updateOne({ _id: booking._id }, { $unset: { holdExpiresAt: 1 } });
+    return false;
+  }
+
+  const expired = await Booking.findOneAndUpdate(
+    { _id: booking._id, status: 'pending', holdExpiresAt: { $lte: new Date() } },
+    { status: 'expired' },
+    { new: true }
+  ).populate('event', 'title');
+  if (!expired) return false;
+
+  await releaseInventory(expired.event?._id || booking.event, expired.seats, expired.ticketBreakdown);
+  await releasePromoCode(expired);
+  triggerWaitlistOffers(expired.event?._id || booking.event);
+
+  try {
+    await notifyUser(expired.user, {
+      type: 'booking_expired',
+      title: 'Booking Hold Expired',
+      message: `We didn't receive ${ONLINE_PAYMENT_METHODS.includes(expired.paymentMethod) ? 'your payment' : 'a payment receipt'} for "${expired.event?.title || 'your event'}" in time, so your ${expired.seats} seat${expired.seats > 1 ? 's were' : ' was'} released. You can book again if tickets are still available.`,
+      data: {
+        bookingId: expired._id,
+        eventId: expired.event?._id,
+        eventTitle: expired.event?.title,
+        seats: expired.seats,
+        expiredAt: new Date().toISOString()
+      }
+    });
+  } catch (notificationError) {
+    console.error('❌ Failed to send hold expiry notification:', notificationError);
+  }
+
+  return true;
+}
+
+export async function sweepExpiredHolds() {
+  const due = await Booking.find({
+    status: 'pending',
+    holdExpiresAt: { $lte: new Date() }
+  }).select('_id event user seats ticketBreakdown');
+
+  let expiredCount = 0;
+  for (const booking of due) {
+    try {
+      if (await expireBooking(booking)) expiredCount++;
+    } catch (error) {
+      console.error(`❌ Failed to expire booking ${booking._id}:`, error);
+    }
+  }
+
+  if (expiredCount > 0) {
+    console.log(`⏱️ Expired ${expiredCount} unpaid booking hold${expiredCount > 1 ? 's' : ''}`);
+  }
+  return expiredCount;
+}
+
+// Background sweeper started once the database is connected; also lapses stale waitlist offers
+export function startHoldSweeper(intervalMs = SWEEP_INTERVAL_MS) {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sweepExpiredHolds();
+      await sweepExpiredOffers();
+    } catch (error) {
+      console.error('❌ Hold sweeper error:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,126 @@
+import Event from "../models/Event.js";
+import { isEarlyBird } from "./pricing.js";
+
+export const TICKET_TIERS = ['vvip','vip','standard','tableFor2','tableFor5','regular'];
+
+// Sum requested quantities per tier, ignoring empty lines
+export function groupByTier(ticketBreakdown = []) {
+  return ticketBreakdown.reduce((acc, line) => {
+    const quantity = Number(line.quantity) || 0;
+    if (quantity > 0) acc[line.type] = (acc[line.type] || 0) + quantity;
+    return acc;
+  }, {});
+}
+
+// A tier only limits bookings when the host configured a slot count for it
+function tierHasLimit(tier) {
+  return !!tier && typeof tier.slots === 'number';
+}
+
+// Remaining capacity per configured tier plus the event-wide total
+export function getAvailability(event) {
+  const totalSlots = event.totalSlots || 0;
+  const bookedSlots = event.bookedSlots || 0;
+  const tiers = TICKET_TIERS
+    .filter(type => event.ticketPricing?.[type] && (event.ticketPricing[type].price !== undefined || tierHasLimit(event.ticketPricing[type])))
+    .map(type => {
+      const tier = event.ticketPricing[type];
+      const booked = tier.booked || 0;
+      const earlyBird = isEarlyBird(tier);
+      return {
+        type,
+        price: earlyBird ? tier.earlyBirdPrice : (tier.price ?? 0),
+        regularPrice: tier.price ?? 0,
+        earlyBirdUntil: earlyBird ? tier.earlyBirdUntil : null,
+        slots: tierHasLimit(tier) ? tier.slots : null,
+        booked,
+        remaining: tierHasLimit(tier)
+          ? Math.max(0, Math.min(tier.slots - booked, totalSlots - bookedSlots))
+          : Math.max(0, totalSlots - bookedSlots)
+      };
+    });
+
+  return {
+    eventId: event._id,
+    totalSlots,
+    bookedSlots,
+    remaining: Math.max(0, totalSlots - bookedSlots),
+    tiers
+  };
+}
+
+function inventoryError(message, status = 400) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+/**
+ * Atomically take `seats` from the event and `quantity` from each requested tier.
+ * The conditional single-document update means two concurrent requests can never
+ * both succeed against the last remaining slots.
+ */
+export async function reserveInventory(eventId, seats, ticketBreakdown = []) {
+  const perTier = groupByTier(ticketBreakdown);
+  const event = await Event.findById(eventId).select('ticketPricing totalSlots bookedSlots');
+  if (!event) throw inventoryError("Event not found", 404);
+
+  const conditions = [
+    { $lte: [{ $add: [{ $ifNull: ['$bookedSlots', 0] }, seats] }, { $ifNull: ['$totalSlots', 0] }] }
+  ];
+  const inc = { bookedSlots: seats };
+
+  for (const [type, quantity] of Object.entries(perTier)) {
+    if (!TICKET_TIERS.includes(type)) throw inventoryError(`Unknown ticket type: ${type}`);
+    const tier = event.ticketPricing?.[type];
+    if (tierHasLimit(tier)) {
+      conditions.push({
+        $lte: [
+          { $add: [{ $ifNull: [`$ticketPricing.${type}.booked`, 0] }, quantity] },
+          `$ticketPricing.${type}.slots`
+        ]
+      });
+    }
+    inc[`ticketPricing.${type}.booked`] = quantity;
+  }
+
+  const updated = await Event.findOneAndUpdate(
+    { _id: eventId, $expr: { $and: conditions } },
+    { $inc: inc },
+    { new: true }
+  );
+
+  if (!updated) {
+    const latest = await Event.findById(eventId);
+    const availability = latest ? getAvailability(latest) : null;
+    const soldOut = availability?.tiers.find(t => perTier[t.type] > t.remaining);
+    const err = inventoryError(
+      soldOut
+        ? `Not enough ${soldOut.type} tickets available (${soldOut.remaining} left)`
+        : "Not enough tickets available"
+    );
+    err.availability = availability;
+    throw err;
+  }
+
+  return updated;
+}
+
+// Return a booking's seats to the event and to each tier it drew from
+export async function releaseInventory(eventId, seats, ticketBreakdown = []) {
+  const perTier = groupByTier(ticketBreakdown);
+  const inc = { bookedSlots: -seats };
+  const guards = { bookedSlots: { $gte: seats } };
+
+  for (const [type, quantity] of Object.entries(perTier)) {
+    if (!TICKET_TIERS.includes(type)) continue;
+    inc[`ticketPricing.${type}.booked`] = -quantity;
+    guards[`ticketPricing.${type}.booked`] = { $gte: quantity };
+  }
+
+  const result = await Event.updateOne({ _id: eventId, ...guards }, { $inc: inc });
+  if (result.modifiedCount === 0) {
+    // Counters drifted (e.g. legacy bookings made before tier tracking); release what we safely can
+    await Event.updateOne({ _id: eventId, bookedSlots: { $gte: seats } }, { $inc: { bookedSlots: -seats } });
+  }
+}
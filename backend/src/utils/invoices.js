@@ -0,0 +1,194 @@
+import { jsPDF } from 'jspdf';
+import Invoice from "../models/Invoice.js";
+import Counter from "../models/Counter.js";
+import Booking from "../models/Booking.js";
+import User from "../models/User.js";
+
+const TIER_NAMES = {
+  vvip: 'VVIP',
+  vip: 'VIP',
+  standard: 'Standard',
+  tableFor2: 'Table for 2',
+  tableFor5: 'Table for 5',
+  regular: 'Regular'
+};
+
+const PAYMENT_METHOD_NAMES = {
+  online: 'Online payment',
+  'pay-at-event': 'Paid at event',
+  bank_transfer: 'Bank transfer',
+  cashapp: 'Cash App',
+  paypal: 'PayPal',
+  bitcoin: 'Bitcoin'
+};
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+const idOf = (value) => value?._id ?? value;
+
+// INV-000042
+export const formatInvoiceNumber = (sequence) => `INV-${String(sequence).padStart(6, '0')}`;
+
+// Ticket lines as priced at booking time; legacy bookings spread their total over the seats
+function invoiceLines(booking, total) {
+  const priced = (booking.ticketBreakdown || []).filter(line => typeof line.price === 'number');
+  if (priced.length > 0 && priced.length === booking.ticketBreakdown.length) {
+    return priced.map(line => ({
+      description: `${TIER_NAMES[line.type] || line.type} ticket`,
+      quantity: line.quantity,
+      unitPrice: line.price,
+      amount: roundMoney(line.price * line.quantity)
+    }));
+  }
+  const seats = booking.seats || 1;
+  const amount = typeof booking.subtotal === 'number' ? booking.subtotal : total;
+  return [{ description: 'Ticket', quantity: seats, unitPrice: roundMoney(amount / seats), amount: roundMoney(amount) }];
+}
+
+/**
+ * Issue the invoice for a paid booking, once. Numbers come from a shared counter
+ * so they run in order across the platform. Returns the existing invoice if the
+ * booking already has one.
+ */
+export async function issueInvoice(bookingOrId, { paymentReceipt, payment } = {}) {
+  const bookingId = idOf(bookingOrId);
+  const existing = await Invoice.findOne({ booking: bookingId });
+  if (existing) return existing;
+
+  const booking = await Booking.findById(bookingId)
+    .populate('user', 'name email')
+    .populate('event', 'title date owner currency');
+  if (!booking?.event) throw new Error(`Booking ${bookingId} has no event to invoice`);
+  const host = await User.findById(booking.event.owner).select('name email companyAddress');
+
+  const amountPaid = paymentReceipt?.amount ?? payment?.amountCaptured ?? booking.totalAmount ?? 0;
+  const total = typeof booking.totalAmount === 'number' ? booking.totalAmount : amountPaid;
+  const lines = invoiceLines(booking, total);
+
+  const sequence = await Counter.next('invoice');
+  try {
+    const invoice = await Invoice.create({
+      number: formatInvoiceNumber(sequence),
+      sequence,
+      booking: booking._id,
+      user: booking.user._id,
+      event: booking.event._id,
+      host: booking.event.owner,
+      issuedBy: { name: host?.name, email: host?.email, companyAddress: host?.companyAddress },
+      billedTo: {
+        name: booking.attendeeInfo?.name || booking.user.name,
+        email: booking.attendeeInfo?.email || booking.user.email
+      },
+      eventTitle: booking.event.title,
+      eventDate: booking.event.date,
+      lines,
+      subtotal: typeof booking.subtotal === 'number' ? booking.subtotal : roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+      discount: { code: booking.discount?.code, amount: booking.discount?.amount || 0 },
+      charges: booking.charges || [],
+      total,
+      amountPaid,
+      currency: (paymentReceipt?.currency || payment?.currency || booking.currency || booking.event.currency || 'USD').toUpperCase(),
+      paymentMethod: payment ? 'online' : (paymentReceipt?.paymentMethod || booking.paymentMethod),
+      paidAt: booking.paymentConfirmedAt || new Date(),
+      paymentReceipt: idOf(paymentReceipt),
+      payment: idOf(payment)
+    });
+    console.log(`🧾 Invoice ${invoice.number} issued for booking ${booking._id}`);
+    return invoice;
+  } catch (error) {
+    // Another request invoiced the booking first; that number is skipped
+    if (error.code === 11000) return Invoice.findOne({ booking: bookingId });
+    throw error;
+  }
+}
+
+// Printable A4 invoice marked as paid (returns a Buffer)
+export function generateInvoicePDF(invoice) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  // jsPDF's built-in fonts lack most currency symbols, so amounts spell out the code
+  const money = (value) => `${invoice.currency} ${Number(value || 0).toFixed(2)}`;
+  const date = (value) => new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  // Header band
+  doc.setFillColor(0, 89, 63);
+  doc.rect(0, 0, pageWidth, 28, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text('INVOICE / RECEIPT', 14, 14);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(invoice.number, 14, 22);
+  doc.setFont('helvetica', 'bold');
+  doc.text('PAID', pageWidth - 14, 14, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Issued ${date(invoice.createdAt || new Date())}`, pageWidth - 14, 22, { align: 'right' });
+
+  // Parties
+  doc.setTextColor(40, 40, 40);
+  const party = (title, rows, x) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.text(title, x, 40);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    const lines = rows.filter(Boolean).flatMap(row => doc.splitTextToSize(row, pageWidth / 2 - 24));
+    doc.text(lines, x, 46);
+    return 46 + lines.length * 5;
+  };
+  const fromBottom = party('FROM', [invoice.issuedBy?.name, invoice.issuedBy?.companyAddress, invoice.issuedBy?.email], 14);
+  const toBottom = party('BILLED TO', [invoice.billedTo?.name, invoice.billedTo?.email], pageWidth / 2 + 4);
+
+  let y = Math.max(fromBottom, toBottom) + 4;
+  doc.setFontSize(10);
+  doc.text(doc.splitTextToSize(`Event: ${invoice.eventTitle}${invoice.eventDate ? ` (${date(invoice.eventDate)})` : ''}`, pageWidth - 28), 14, y);
+  y += 12;
+
+  // Line items
+  const columns = [14, pageWidth - 84, pageWidth - 50, pageWidth - 14];
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.text('Description', columns[0], y);
+  doc.text('Qty', columns[1], y, { align: 'right' });
+  doc.text('Unit price', columns[2], y, { align: 'right' });
+  doc.text('Amount', columns[3], y, { align: 'right' });
+  doc.setDrawColor(200, 200, 200);
+  doc.line(14, y + 2, pageWidth - 14, y + 2);
+  y += 8;
+  doc.setFont('helvetica', 'normal');
+  for (const line of invoice.lines) {
+    doc.text(line.description, columns[0], y);
+    doc.text(String(line.quantity), columns[1], y, { align: 'right' });
+    doc.text(money(line.unitPrice), columns[2], y, { align: 'right' });
+    doc.text(money(line.amount), columns[3], y, { align: 'right' });
+    y += 6;
+  }
+  doc.line(14, y - 2, pageWidth - 14, y - 2);
+  y += 4;
+
+  // Totals
+  const totals = [['Subtotal', money(invoice.subtotal)]];
+  if (invoice.discount?.amount) totals.push([`Discount${invoice.discount.code ? ` (${invoice.discount.code})` : ''}`, `-${money(invoice.discount.amount)}`]);
+  for (const charge of invoice.charges || []) {
+    totals.push([`${charge.name}${charge.inclusive ? ' (included in price)' : ''}`, money(charge.amount)]);
+  }
+  totals.push(['Total', money(invoice.total)]);
+  totals.forEach(([label, value], index) => {
+    doc.setFont('helvetica', index === totals.length - 1 ? 'bold' : 'normal');
+    doc.text(label, columns[1] - 30, y);
+    doc.text(value, columns[3], y, { align: 'right' });
+    y += 6;
+  });
+
+  y += 6;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(100, 100, 100);
+  doc.text(
+    `Paid ${money(invoice.amountPaid ?? invoice.total)} by ${PAYMENT_METHOD_NAMES[invoice.paymentMethod] || invoice.paymentMethod || 'other'} on ${date(invoice.paidAt || invoice.createdAt)}.`,
+    14,
+    y
+  );
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
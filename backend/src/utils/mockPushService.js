@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import { decryptPayload, verifyVapidAuthorization } from "./webPush.js";
+
+/**
+ * In-memory stand-in for a browser push service. It hands out subscriptions
+ * with real receiver keys, checks the VAPID signature on each message and
+ * decrypts it, so delivery can be exercised end to end without a browser.
+ * Served under /api/mock-push only when MOCK_PUSH_ENABLED=true, and never in
+ * production; tests can call these functions directly. State lives only as
+ * long as the process.
+ */
+const subscriptions = new Map();
+
+// The routes are unauthenticated, so they have to be switched on explicitly
+export const mockPushEnabled = () =>
+  process.env.MOCK_PUSH_ENABLED === 'true' && process.env.NODE_ENV !== 'production';
+
+function mockError(message, status = 400) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function getSubscription(id) {
+  const subscription = subscriptions.get(id);
+  if (!subscription) throw mockError('No such subscription', 404);
+  return subscription;
+}
+
+// A subscription as PushSubscription.toJSON() would give it, pointing back at this service
+export function createMockSubscription(baseUrl, { expirationTime = null } = {}) {
+  const id = crypto.randomBytes(12).toString('hex');
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const auth = crypto.randomBytes(16).toString('base64url');
+
+  subscriptions.set(id, { id, origin: new URL(baseUrl).origin, ecdh, auth, gone: false, messages: [] });
+  return {
+    id,
+    subscription: {
+      endpoint: `${baseUrl}/push/${id}`,
+      expirationTime,
+      keys: { p256dh: ecdh.getPublicKey().toString('base64url'), auth }
+    }
+  };
+}
+
+/**
+ * Accept one push message the way a push service would: 410 once the
+ * subscription has been expired, 401 for a bad VAPID token, 400 when the
+ * body doesn't decrypt. Returns the stored message.
+ */
+export function receivePush(id, headers, body) {
+  const subscription = getSubscription(id);
+  if (subscription.gone) throw mockError('Subscription has expired or been unsubscribed', 410);
+
+  const { claims } = verifyVapidAuthorization(headers.authorization, subscription.origin);
+  if (headers['content-encoding'] !== 'aes128gcm') throw mockError('Content-Encoding must be aes128gcm', 415);
+  if (!headers.ttl) throw mockError('TTL header is required');
+
+  const text = decryptPayload(body, subscription).toString('utf8');
+  let payload;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    payload = text;
+  }
+
+  const message = {
+    payload,
+    ttl: Number(headers.ttl),
+    urgency: headers.urgency || 'normal',
+    topic: headers.topic,
+    subject: claims.sub,
+    receivedAt: new Date().toISOString()
+  };
+  subscription.messages.push(message);
+  return message;
+}
+
+export const listMockMessages = (id) => getSubscription(id).messages;
+
+// From now on the subscription answers 410 Gone, as after the user revokes permission
+export function expireMockSubscription(id) {
+  getSubscription(id).gone = true;
+  return { id, gone: true };
+}
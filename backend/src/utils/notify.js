@@ -0,0 +1,100 @@
+import Notification from "../models/Notification.js";
+import User from "../models/User.js";
+import { sendNotificationToUser } from "../socket/socketHandlers.js";
+
+// Where a notification can be delivered: the in-app inbox and socket, web push, email
+export const NOTIFICATION_CHANNELS = ['inApp', 'push', 'email'];
+
+// Senders for channels delivered outside the app, registered at startup in server.js.
+// Each is called as send(user, notification) and may return a promise.
+const deliveryChannels = new Map();
+
+export function registerDeliveryChannel(channel, send) {
+  deliveryChannels.set(channel, send);
+}
+
+// The channels a user gets a notification type on; types they never touched use every channel
+export function channelsFor(preferences, type) {
+  const types = preferences?.types;
+  const chosen = types instanceof Map ? types.get(type) : types?.[type];
+  return Object.fromEntries(NOTIFICATION_CHANNELS.map(channel => [channel, chosen?.[channel] ?? true]));
+}
+
+const toMinutes = (time) => {
+  const [hours, minutes] = String(time).split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Whether `at` falls inside the user's quiet hours, in their own timezone. Windows may wrap midnight.
+export function inQuietHours(quietHours, at = new Date()) {
+  if (!quietHours?.enabled) return false;
+  let parts;
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: quietHours.timezone || 'UTC',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(at);
+  } catch {
+    return false;
+  }
+  const now = toMinutes(`${parts.find(p => p.type === 'hour').value}:${parts.find(p => p.type === 'minute').value}`);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Send one notification to each user on the channels they allow for its type.
+ * In-app notifications are stored and pushed over the socket; push stays silent
+ * during quiet hours (the inbox still gets it). `summary` is a short line for the
+ * socket toast and push; it defaults to `message`. Returns the stored notifications.
+ */
+export async function notifyUsers(userIds, { type, title, message, summary, data = {} }) {
+  const uniqueIds = [...new Set(userIds.map(String))];
+  if (uniqueIds.length === 0) return [];
+
+  const users = await User.find({ _id: { $in: uniqueIds } }).select('name email notificationPreferences');
+  const routed = users.map(user => ({ user, channels: channelsFor(user.notificationPreferences, type) }));
+
+  const inApp = routed.filter(({ channels }) => channels.inApp);
+  const stored = inApp.length > 0
+    ? await Notification.insertMany(inApp.map(({ user }) => ({ user: user._id, type, title, message, data, read: false })))
+    : [];
+
+  if (global.io) {
+    for (const notification of stored) {
+      sendNotificationToUser(global.io, String(notification.user), {
+        id: notification._id,
+        type,
+        title,
+        message: summary || message,
+        data: notification.data,
+        read: false,
+        createdAt: notification.createdAt
+      });
+    }
+  }
+
+  for (const { user, channels } of routed) {
+    for (const channel of ['push', 'email']) {
+      const send = deliveryChannels.get(channel);
+      if (!send || !channels[channel]) continue;
+      if (channel === 'push' && inQuietHours(user.notificationPreferences?.quietHours)) continue;
+      // Outside channels are slow and best-effort; they never hold up the caller
+      Promise.resolve()
+        .then(() => send(user, { type, title, message, summary: summary || message, data }))
+        .catch(error => console.error(`❌ Failed to deliver ${type} by ${channel} to ${user._id}:`, error.message));
+    }
+  }
+
+  return stored;
+}
+
+// Single-recipient form; resolves to the stored notification, or null when in-app is off for this type
+export async function notifyUser(userId, notification) {
+  const [stored] = await notifyUsers([userId], notification);
+  return stored || null;
+}
@@ -0,0 +1,332 @@
+import Payment from "../models/Payment.js";
+import Booking from "../models/Booking.js";
+import { getPaymentProvider, captureMethod } from "./payments/index.js";
+import { computeBookingTotal } from "./pricing.js";
+import { formatMoney } from "./currency.js";
+import { issueTicketsForPayment } from "./ticketIssuance.js";
+import { notifyUser } from "./notify.js";
+import { accrue, recordOnlinePayment, recordOnlineRefund, voidOnlineRefund } from "./payouts.js";
+import { issueInvoice } from "./invoices.js";
+
+const CLIENT_URL = () => process.env.CLIENT_URL || 'https://ishow-ng.web.app';
+
+function paymentError(message, status = 400) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+/**
+ * Open (or reuse) a checkout for a pending online booking. The amount is priced
+ * from the event, never from the client. Returns the Payment with its checkoutUrl.
+ */
+export async function startCheckout(booking, event) {
+  const provider = getPaymentProvider();
+  if (!provider) throw paymentError("Online payments are not available", 503);
+
+  // Bookings priced at creation keep that price (early-bird, promo codes, fees and taxes included)
+  const amount = typeof booking.totalAmount === 'number' ? booking.totalAmount : computeBookingTotal(event, booking);
+  if (amount <= 0) throw paymentError("This booking has nothing to pay");
+  const currency = (event.currency || 'USD').toUpperCase();
+
+  const existing = await Payment.findOne({
+    booking: booking._id,
+    status: { $in: ['requires_payment', 'authorized', 'succeeded'] }
+  }).sort({ createdAt: -1 });
+  if (existing && existing.status !== 'requires_payment') {
+    throw paymentError("This booking has already been paid", 409);
+  }
+  if (existing && existing.provider === provider.name && existing.amount === amount && existing.currency === currency) {
+    return existing;
+  }
+
+  const intent = await provider.createIntent({
+    amount,
+    currency,
+    reference: `booking_${booking._id}`,
+    captureMethod: captureMethod(),
+    returnUrl: `${CLIENT_URL()}/book/${event._id}?booking=${booking._id}`,
+    metadata: { bookingId: String(booking._id), eventId: String(event._id), userId: String(booking.user) }
+  });
+
+  // The old checkout no longer matches the price; stop it being paid
+  if (existing) {
+    await Payment.updateOne({ _id: existing._id, status: 'requires_payment' }, { status: 'cancelled' });
+    getPaymentProvider(existing.provider)?.cancel(existing.intentId)
+      .catch(error => console.error(`❌ Failed to cancel stale intent ${existing.intentId}:`, error.message));
+  }
+
+  const payment = await Payment.create({
+    booking: booking._id,
+    user: booking.user,
+    event: event._id,
+    eventCreator: event.owner,
+    provider: provider.name,
+    intentId: intent.id,
+    checkoutUrl: intent.checkoutUrl,
+    amount,
+    currency,
+    captureMethod: captureMethod()
+  });
+
+  await Booking.updateOne({ _id: booking._id }, { totalAmount: amount });
+
+  console.log(`💳 Checkout ${intent.id} opened for booking ${booking._id} (${amount} ${currency})`);
+  return payment;
+}
+
+const CLOSED_BOOKING_STATUSES = ['cancelled', 'expired'];
+
+/**
+ * Money arrived for a booking: confirm it, issue tickets and tell both sides.
+ * Every step is safe to repeat, so a webhook retry or a sync can finish a
+ * settlement that failed partway; only the run that confirms the booking notifies.
+ */
+async function settlePaidBooking(payment) {
+  await payment.populate([
+    { path: 'booking' },
+    { path: 'event', select: 'title date time location owner currency' },
+    { path: 'user', select: 'name email' }
+  ]);
+  const { booking, event, user } = payment;
+
+  const refundClosedBooking = (status) => {
+    // The hold lapsed or the booking was cancelled while the attendee was paying; the seats are gone
+    console.log(`⚠️ Payment ${payment.intentId} completed for ${status} booking ${booking._id}; refunding`);
+    return refundOnlinePayment(payment, { reason: `Booking was ${status} before the payment completed` });
+  };
+  if (CLOSED_BOOKING_STATUSES.includes(booking.status)) return refundClosedBooking(booking.status);
+
+  const confirmed = await Booking.findOneAndUpdate(
+    { _id: booking._id, status: { $nin: CLOSED_BOOKING_STATUSES }, paymentStatus: { $ne: 'confirmed' } },
+    {
+      $set: {
+        paymentStatus: 'confirmed',
+        paymentConfirmedAt: new Date(),
+        ...(booking.status === 'pending' && { status: 'confirmed' })
+      },
+      $unset: { holdExpiresAt: 1 }
+    }
+  );
+  if (!confirmed) {
+    const latest = await Booking.findById(booking._id).select('status');
+    if (!latest || CLOSED_BOOKING_STATUSES.includes(latest.status)) return refundClosedBooking(latest?.status || 'deleted');
+  }
+  booking.paymentStatus = 'confirmed';
+  await accrue(recordOnlinePayment(payment));
+
+  let invoice = null;
+  try {
+    invoice = await issueInvoice(booking, { payment });
+  } catch (invoiceError) {
+    console.error('❌ Failed to issue invoice:', invoiceError);
+  }
+
+  try {
+    await issueTicketsForPayment(payment);
+  } catch (ticketError) {
+    console.error('❌ Failed to generate tickets automatically:', ticketError);
+    // Don't fail the webhook if ticket generation fails; it can be retried
+  }
+
+  // An earlier run already confirmed the booking and told everyone
+  if (!confirmed) return;
+
+  try {
+    await notifyUser(user._id, {
+      type: 'payment_confirmed',
+      title: '✅ Payment Confirmed',
+      message: `Your online payment of ${formatMoney(payment.amount, payment.currency)} for "${event.title}" went through. Your booking is confirmed. See you at the event!`,
+      data: {
+        paymentId: payment._id,
+        bookingId: booking._id,
+        eventId: event._id,
+        eventTitle: event.title,
+        eventDate: event.date,
+        amount: payment.amount,
+        currency: payment.currency,
+        paymentMethod: 'online',
+        confirmedAt: new Date().toISOString(),
+        ...(invoice && {
+          invoiceId: invoice._id,
+          invoiceNumber: invoice.number,
+          invoiceUrl: `/api/invoices/${invoice._id}/download`
+        })
+      }
+    });
+    await notifyUser(event.owner, {
+      type: 'booking_confirmed',
+      title: 'New Paid Booking',
+      message: `${user.name} paid ${formatMoney(payment.amount, payment.currency)} online for ${booking.seats} seat${booking.seats > 1 ? 's' : ''} at "${event.title}".`,
+      data: { paymentId: payment._id, bookingId: booking._id, eventId: event._id, eventTitle: event.title }
+    });
+  } catch (notificationError) {
+    console.error('❌ Failed to send payment notifications:', notificationError);
+  }
+}
+
+// A settlement interrupted after the payment was marked succeeded leaves the booking's payment pending
+async function resumeSettlement(paymentId) {
+  const payment = await Payment.findOne({ _id: paymentId, status: 'succeeded' });
+  if (!payment) return;
+  const unsettled = await Booking.exists({ _id: payment.booking, paymentStatus: 'pending' });
+  if (unsettled) await settlePaidBooking(payment);
+}
+
+async function applyIntentUpdate(payment, intent) {
+  if (intent.status === 'succeeded') {
+    // Conditional so a redelivered or racing webhook marks the payment only once
+    const settled = await Payment.findOneAndUpdate(
+      { _id: payment._id, status: { $in: ['requires_payment', 'authorized'] } },
+      { status: 'succeeded', succeededAt: new Date(), amountCaptured: intent.amountCaptured || intent.amount },
+      { new: true }
+    );
+    if (settled) await settlePaidBooking(settled);
+    else await resumeSettlement(payment._id);
+    return;
+  }
+
+  if (intent.status === 'authorized') {
+    const authorized = await Payment.findOneAndUpdate(
+      { _id: payment._id, status: 'requires_payment' },
+      { status: 'authorized', authorizedAt: new Date() },
+      { new: true }
+    );
+    // Authorized money keeps the seats until the host captures or cancels
+    if (authorized) await Booking.updateOne({ _id: payment.booking }, { $unset: { holdExpiresAt: 1 } });
+    return;
+  }
+
+  if (intent.status === 'failed') {
+    const failed = await Payment.findOneAndUpdate(
+      { _id: payment._id, status: 'requires_payment' },
+      { status: 'failed', failureReason: intent.failureReason },
+      { new: true }
+    ).populate('event', 'title');
+    if (failed) {
+      try {
+        await notifyUser(failed.user, {
+          type: 'payment_failed',
+          title: 'Payment Failed',
+          message: `Your payment for "${failed.event?.title || 'your event'}" didn't go through${intent.failureReason ? `: ${intent.failureReason}` : '.'} Your seats stay held until the hold expires, so you can try again.`,
+          data: { paymentId: failed._id, bookingId: failed.booking, eventId: failed.event?._id, reason: intent.failureReason }
+        });
+      } catch (notificationError) {
+        console.error('❌ Failed to send payment failure notification:', notificationError);
+      }
+    }
+    return;
+  }
+
+  if (intent.status === 'cancelled') {
+    await Payment.updateOne({ _id: payment._id, status: { $in: ['requires_payment', 'authorized'] } }, { status: 'cancelled' });
+  }
+}
+
+async function applyRefundUpdate(payment, refund) {
+  const known = payment.refunds.find(r => r.refundId === refund.id);
+  if (known) {
+    await Payment.updateOne({ _id: payment._id, 'refunds.refundId': refund.id }, { 'refunds.$.status': refund.status });
+    if (refund.status === 'failed') await accrue(voidOnlineRefund(refund.id));
+  } else if (refund.status !== 'failed') {
+    // Issued from the gateway's own dashboard rather than through us
+    await Payment.updateOne(
+      { _id: payment._id, 'refunds.refundId': { $ne: refund.id } },
+      {
+        $push: { refunds: { refundId: refund.id, amount: refund.amount, status: refund.status } },
+        $inc: { amountRefunded: refund.amount }
+      }
+    );
+    await accrue(recordOnlineRefund(payment, refund));
+  }
+  await markRefundedIfFull(payment._id);
+}
+
+async function markRefundedIfFull(paymentId) {
+  const refunded = await Payment.findOneAndUpdate(
+    { _id: paymentId, status: 'succeeded', $expr: { $gte: ['$amountRefunded', '$amountCaptured'] } },
+    { status: 'refunded' },
+    { new: true }
+  );
+  if (refunded) await Booking.updateOne({ _id: refunded.booking }, { paymentStatus: 'refunded' });
+}
+
+/**
+ * Apply a verified provider webhook. An event id is recorded only once it has
+ * been applied, so a delivery that failed partway is applied again on retry
+ * (every update it makes is conditional). Returns false for events about
+ * intents we never created.
+ */
+export async function handleGatewayEvent(providerName, event) {
+  const intentId = event.intent?.id || event.refund?.intentId;
+  const payment = await Payment.findOne({ provider: providerName, intentId });
+  if (!payment) return false;
+  if (payment.processedEvents.includes(event.id)) return true;
+
+  if (event.intent) await applyIntentUpdate(payment, event.intent);
+  if (event.refund) await applyRefundUpdate(payment, event.refund);
+  await Payment.updateOne({ _id: payment._id }, { $addToSet: { processedEvents: event.id } });
+  return true;
+}
+
+// Pull the intent from the provider, for when the attendee returns before the webhook lands
+export async function syncPaymentFromProvider(payment) {
+  if (payment.status === 'succeeded') {
+    await resumeSettlement(payment._id);
+    return Payment.findById(payment._id);
+  }
+  if (!['requires_payment', 'authorized'].includes(payment.status)) return payment;
+  const provider = getPaymentProvider(payment.provider);
+  if (!provider) return payment;
+
+  const intent = await provider.retrieveIntent(payment.intentId);
+  await applyIntentUpdate(payment, intent);
+  return Payment.findById(payment._id);
+}
+
+// Host capture of an authorized payment; the succeeded webhook settles the booking
+export async function captureOnlinePayment(payment, { amount } = {}) {
+  if (payment.status !== 'authorized') throw paymentError("Only authorized payments can be captured");
+  const provider = getPaymentProvider(payment.provider);
+  if (!provider) throw paymentError("The payment provider for this payment is not configured", 503);
+
+  const intent = await provider.capture(payment.intentId, { amount, currency: payment.currency });
+  await applyIntentUpdate(payment, intent);
+  return Payment.findById(payment._id);
+}
+
+/**
+ * Refund some or all of a captured payment through its provider. An uncaptured
+ * authorization is cancelled instead, which releases the hold on the card.
+ */
+export async function refundOnlinePayment(payment, { amount, reason } = {}) {
+  const provider = getPaymentProvider(payment.provider);
+  if (!provider) throw paymentError("The payment provider for this payment is not configured", 503);
+
+  if (payment.status === 'authorized') {
+    await provider.cancel(payment.intentId);
+    await Payment.updateOne({ _id: payment._id, status: 'authorized' }, { status: 'cancelled' });
+    return Payment.findById(payment._id);
+  }
+  if (payment.status !== 'succeeded') throw paymentError("Only completed payments can be refunded");
+
+  const refundable = Math.round((payment.amountCaptured - payment.amountRefunded) * 100) / 100;
+  const refundAmount = amount ?? refundable;
+  if (refundAmount <= 0 || refundAmount > refundable) {
+    throw paymentError(`At most ${refundable} ${payment.currency} can be refunded`);
+  }
+
+  const refund = await provider.refund(payment.intentId, { amount: refundAmount, currency: payment.currency, reason });
+  await Payment.updateOne(
+    { _id: payment._id, 'refunds.refundId': { $ne: refund.id } },
+    {
+      $push: { refunds: { refundId: refund.id, amount: refund.amount, status: refund.status, reason } },
+      $inc: { amountRefunded: refund.amount }
+    }
+  );
+  await accrue(recordOnlineRefund(payment, { ...refund, reason }));
+  await markRefundedIfFull(payment._id);
+
+  console.log(`💸 Refunded ${refund.amount} ${payment.currency} on ${payment.intentId}`);
+  return Payment.findById(payment._id);
+}
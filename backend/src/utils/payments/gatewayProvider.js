@@ -0,0 +1,147 @@
+import crypto from "crypto";
+import { toMinorUnits, fromMinorUnits } from "../currency.js";
+
+// Signed webhooks older than this are refused to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+function gatewayError(message, status = 502, details) {
+  const err = new Error(message);
+  err.status = status;
+  if (details) err.details = details;
+  return err;
+}
+
+// Provider intents use the gateway's status names; map them onto Payment.status
+const INTENT_STATUS = {
+  requires_payment_method: 'requires_payment',
+  requires_action: 'requires_payment',
+  processing: 'requires_payment',
+  requires_capture: 'authorized',
+  succeeded: 'succeeded',
+  payment_failed: 'failed',
+  canceled: 'cancelled'
+};
+
+function normalizeIntent(intent) {
+  const currency = String(intent.currency || '').toUpperCase();
+  return {
+    id: intent.id,
+    status: INTENT_STATUS[intent.status] || 'requires_payment',
+    amount: fromMinorUnits(intent.amount, currency),
+    amountCaptured: fromMinorUnits(intent.amount_captured, currency),
+    amountRefunded: fromMinorUnits(intent.amount_refunded, currency),
+    currency,
+    checkoutUrl: intent.checkout_url,
+    clientSecret: intent.client_secret,
+    failureReason: intent.last_payment_error?.message,
+    metadata: intent.metadata || {}
+  };
+}
+
+// Refund objects carry their currency; `currency` covers gateways that leave it off
+const normalizeRefund = (refund, currency) => ({
+  id: refund.id,
+  intentId: refund.payment_intent,
+  status: refund.status === 'succeeded' ? 'succeeded' : refund.status === 'failed' ? 'failed' : 'pending',
+  amount: fromMinorUnits(refund.amount, refund.currency || currency)
+});
+
+export function signWebhookPayload(payload, secret, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Payment provider for a Stripe/Paystack-style REST gateway: payment intents with
+ * a hosted checkout page, optional manual capture, refunds, and HMAC-signed
+ * webhooks (`Gateway-Signature: t=<unix>,v1=<hex sha256 of "t.body">`).
+ * Amounts cross the wire in the currency's ISO 4217 minor units (cents, yen,
+ * fils); everything taken and returned here is in major units.
+ */
+export function createGatewayProvider({ name, baseUrl, secretKey, webhookSecret }) {
+  async function request(method, path, body) {
+    let response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${secretKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: body ? JSON.stringify(body) : undefined
+      });
+    } catch (error) {
+      throw gatewayError(`Payment gateway unreachable: ${error.message}`);
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw gatewayError(data.error?.message || `Payment gateway responded with ${response.status}`, 502, data.error);
+    }
+    return data;
+  }
+
+  return {
+    name,
+
+    async createIntent({ amount, currency, reference, captureMethod = 'automatic', returnUrl, metadata = {} }) {
+      const intent = await request('POST', '/payment_intents', {
+        amount: toMinorUnits(amount, currency),
+        currency: currency.toLowerCase(),
+        reference,
+        capture_method: captureMethod,
+        return_url: returnUrl,
+        metadata
+      });
+      return normalizeIntent(intent);
+    },
+
+    async retrieveIntent(intentId) {
+      return normalizeIntent(await request('GET', `/payment_intents/${encodeURIComponent(intentId)}`));
+    },
+
+    async capture(intentId, { amount, currency } = {}) {
+      const intent = await request('POST', `/payment_intents/${encodeURIComponent(intentId)}/capture`,
+        amount !== undefined ? { amount_to_capture: toMinorUnits(amount, currency) } : {});
+      return normalizeIntent(intent);
+    },
+
+    async cancel(intentId) {
+      return normalizeIntent(await request('POST', `/payment_intents/${encodeURIComponent(intentId)}/cancel`));
+    },
+
+    async refund(intentId, { amount, currency, reason } = {}) {
+      const refund = await request('POST', '/refunds', {
+        payment_intent: intentId,
+        ...(amount !== undefined && { amount: toMinorUnits(amount, currency) }),
+        ...(reason && { reason })
+      });
+      return normalizeRefund(refund, currency);
+    },
+
+    // Verify the signature on a raw webhook body and return { id, type, intent | refund }
+    parseWebhook(rawBody, headers) {
+      const header = headers['gateway-signature'] || '';
+      const parts = Object.fromEntries(header.split(',').map(part => part.split('=')));
+      const timestamp = Number(parts.t);
+      if (!timestamp || !parts.v1) throw gatewayError('Missing webhook signature', 400);
+      if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+        throw gatewayError('Webhook signature has expired', 400);
+      }
+
+      const payload = Buffer.isBuffer(rawBody) ? rawBody.toString('utf8') : String(rawBody);
+      const expected = signWebhookPayload(payload, webhookSecret, timestamp).split('v1=')[1];
+      const valid = expected.length === parts.v1.length &&
+        crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+      if (!valid) throw gatewayError('Invalid webhook signature', 400);
+
+      const event = JSON.parse(payload);
+      const object = event.data?.object || {};
+      return {
+        id: event.id,
+        type: event.type,
+        ...(object.object === 'refund' ? { refund: normalizeRefund(object) } : { intent: normalizeIntent(object) })
+      };
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import { createGatewayProvider } from "./gatewayProvider.js";
+
+/**
+ * Online payment providers. Each one implements:
+ *   createIntent({ amount, currency, reference, captureMethod, returnUrl, metadata })
+ *   retrieveIntent(intentId), capture(intentId, { amount, currency }), cancel(intentId)
+ *   refund(intentId, { amount, currency, reason })
+ *   parseWebhook(rawBody, headers) -> { id, type, intent | refund }
+ * Intents come back as { id, status, amount, currency, checkoutUrl, ... } with
+ * `status` already mapped onto Payment.status.
+ *
+ * PAYMENT_PROVIDER picks the active one:
+ *   gateway - a hosted Stripe/Paystack-style gateway at PAYMENT_GATEWAY_URL (default)
+ *   mock    - the in-process mock gateway; opt-in for local development only,
+ *             never available in production
+ * Both need PAYMENT_SECRET_KEY and PAYMENT_WEBHOOK_SECRET; without them online
+ * payments are disabled.
+ */
+const backendUrl = () => process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 5000}`;
+
+const factories = {
+  mock: () => {
+    if (!process.env.PAYMENT_SECRET_KEY || !process.env.PAYMENT_WEBHOOK_SECRET) return null;
+    return createGatewayProvider({
+      name: 'mock',
+      baseUrl: `${backendUrl()}/api/mock-gateway/v1`,
+      secretKey: process.env.PAYMENT_SECRET_KEY,
+      webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET
+    });
+  },
+  gateway: () => {
+    if (!process.env.PAYMENT_GATEWAY_URL || !process.env.PAYMENT_SECRET_KEY || !process.env.PAYMENT_WEBHOOK_SECRET) {
+      return null;
+    }
+    return createGatewayProvider({
+      name: 'gateway',
+      baseUrl: process.env.PAYMENT_GATEWAY_URL.replace(/\/$/, ''),
+      secretKey: process.env.PAYMENT_SECRET_KEY,
+      webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET
+    });
+  }
+};
+
+export const activeProviderName = () => process.env.PAYMENT_PROVIDER || 'gateway';
+
+// The mock gateway's public routes (including its Pay page) are only mounted when
+// it was chosen explicitly and has its secrets, and never in production
+export const mockGatewayEnabled = () =>
+  process.env.PAYMENT_PROVIDER === 'mock'
+  && process.env.NODE_ENV !== 'production'
+  && !!process.env.PAYMENT_SECRET_KEY
+  && !!process.env.PAYMENT_WEBHOOK_SECRET;
+
+// Returns null when the provider is unknown or not configured
+export function getPaymentProvider(name = activeProviderName()) {
+  if (name === 'mock' && !mockGatewayEnabled()) return null;
+  return factories[name]?.() || null;
+}
+
+export const paymentsEnabled = () => !!getPaymentProvider();
+
+// Authorize at checkout and capture later (e.g. after the host approves) when set to 'manual'
+export const captureMethod = () => process.env.PAYMENT_CAPTURE === 'manual' ? 'manual' : 'automatic';
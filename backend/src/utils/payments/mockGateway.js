@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import { signWebhookPayload } from "./gatewayProvider.js";
+
+/**
+ * In-memory stand-in for a hosted payment gateway, speaking the same REST and
+ * webhook protocol as gatewayProvider.js. Served under /api/mock-gateway only when
+ * PAYMENT_PROVIDER=mock outside production; tests can drive it directly through
+ * `settleIntent`.
+ * State lives only as long as the process.
+ */
+const intents = new Map();
+const refunds = new Map();
+
+const newId = (prefix) => `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+
+function mockError(message, status = 400) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+// Where settled intents are reported; defaults to this backend's own webhook endpoint
+const webhookUrl = () => process.env.MOCK_GATEWAY_WEBHOOK_URL ||
+  `${process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 5000}`}/api/payments/webhook/mock`;
+
+async function deliverWebhook(type, object) {
+  const payload = JSON.stringify({ id: newId('evt'), type, created: Math.floor(Date.now() / 1000), data: { object } });
+  try {
+    const response = await fetch(webhookUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Gateway-Signature': signWebhookPayload(payload, process.env.PAYMENT_WEBHOOK_SECRET)
+      },
+      body: payload
+    });
+    if (!response.ok) console.error(`❌ Mock gateway webhook ${type} rejected with ${response.status}`);
+  } catch (error) {
+    console.error(`❌ Mock gateway webhook ${type} failed:`, error.message);
+  }
+}
+
+export function createIntent({ amount, currency, reference, capture_method = 'automatic', return_url, metadata = {} }, checkoutBase) {
+  if (!Number.isInteger(amount) || amount <= 0) throw mockError('amount must be a positive integer in minor units');
+  if (!currency) throw mockError('currency is required');
+
+  const id = newId('pi');
+  const intent = {
+    id,
+    object: 'payment_intent',
+    amount,
+    amount_captured: 0,
+    amount_refunded: 0,
+    currency,
+    reference,
+    capture_method,
+    return_url,
+    metadata,
+    status: 'requires_payment_method',
+    client_secret: `${id}_secret_${crypto.randomBytes(8).toString('hex')}`,
+    checkout_url: `${checkoutBase}/checkout/${id}`,
+    created: Math.floor(Date.now() / 1000)
+  };
+  intents.set(id, intent);
+  return intent;
+}
+
+export function getIntent(id) {
+  const intent = intents.get(id);
+  if (!intent) throw mockError(`No such payment_intent: ${id}`, 404);
+  return intent;
+}
+
+// Simulate the customer finishing checkout: 'succeed' pays (or authorizes), 'fail' declines
+export async function settleIntent(id, outcome = 'succeed') {
+  const intent = getIntent(id);
+  if (intent.status !== 'requires_payment_method') {
+    throw mockError(`payment_intent ${id} has already been ${intent.status}`);
+  }
+
+  if (outcome === 'fail') {
+    intent.status = 'payment_failed';
+    intent.last_payment_error = { message: 'Your card was declined.' };
+    await deliverWebhook('payment_intent.payment_failed', intent);
+  } else if (intent.capture_method === 'manual') {
+    intent.status = 'requires_capture';
+    await deliverWebhook('payment_intent.requires_capture', intent);
+  } else {
+    intent.status = 'succeeded';
+    intent.amount_captured = intent.amount;
+    await deliverWebhook('payment_intent.succeeded', intent);
+  }
+  return intent;
+}
+
+export async function captureIntent(id, amountToCapture) {
+  const intent = getIntent(id);
+  if (intent.status !== 'requires_capture') throw mockError(`payment_intent ${id} is not awaiting capture`);
+  const amount = amountToCapture ?? intent.amount;
+  if (amount <= 0 || amount > intent.amount) throw mockError('amount_to_capture exceeds the authorized amount');
+
+  intent.status = 'succeeded';
+  intent.amount_captured = amount;
+  deliverWebhook('payment_intent.succeeded', intent);
+  return intent;
+}
+
+export async function cancelIntent(id) {
+  const intent = getIntent(id);
+  if (!['requires_payment_method', 'requires_capture'].includes(intent.status)) {
+    throw mockError(`payment_intent ${id} cannot be canceled once ${intent.status}`);
+  }
+  intent.status = 'canceled';
+  deliverWebhook('payment_intent.canceled', intent);
+  return intent;
+}
+
+export async function createRefund({ payment_intent, amount, reason }) {
+  const intent = getIntent(payment_intent);
+  if (intent.status !== 'succeeded') throw mockError(`payment_intent ${payment_intent} has not been captured`);
+  const refundable = intent.amount_captured - intent.amount_refunded;
+  const refundAmount = amount ?? refundable;
+  if (refundAmount <= 0 || refundAmount > refundable) throw mockError('Refund amount exceeds the captured amount');
+
+  intent.amount_refunded += refundAmount;
+  const refund = {
+    id: newId('re'),
+    object: 'refund',
+    payment_intent,
+    amount: refundAmount,
+    currency: intent.currency,
+    reason,
+    status: 'succeeded',
+    created: Math.floor(Date.now() / 1000)
+  };
+  refunds.set(refund.id, refund);
+  deliverWebhook('refund.succeeded', refund);
+  return refund;
+}
+
+// Forget everything; for tests
+export function resetMockGateway() {
+  intents.clear();
+  refunds.clear();
+}
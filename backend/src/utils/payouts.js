@@ -0,0 +1,278 @@
+import mongoose from "mongoose";
+import HostLedgerEntry from "../models/HostLedgerEntry.js";
+import SettlementPeriod from "../models/SettlementPeriod.js";
+import Event from "../models/Event.js";
+import Payment from "../models/Payment.js";
+import PaymentReceipt from "../models/PaymentReceipt.js";
+import RefundRequest from "../models/RefundRequest.js";
+import { isHostVerified } from "./emailVerification.js";
+
+// Share of every confirmed payment the platform keeps; refunds don't return it
+export const PLATFORM_FEE_PERCENT = Number(process.env.PLATFORM_FEE_PERCENT) || 0;
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+const idOf = (value) => value?._id ?? value;
+
+function payoutError(message, status = 400) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+// Insert an entry unless its source already booked one of that type
+async function recordEntry(entry) {
+  try {
+    return await HostLedgerEntry.create(entry);
+  } catch (error) {
+    if (error.code === 11000) return null;
+    throw error;
+  }
+}
+
+async function recordPaymentWithFee({ amount, collectedBy, description, ...entry }) {
+  const recorded = await recordEntry({
+    ...entry,
+    type: 'payment',
+    amount,
+    payable: collectedBy === 'platform' ? amount : 0,
+    collectedBy,
+    description
+  });
+  const fee = roundMoney(amount * PLATFORM_FEE_PERCENT / 100);
+  if (fee > 0) {
+    await recordEntry({
+      ...entry,
+      type: 'platform_fee',
+      amount: -fee,
+      payable: -fee,
+      // Owed to the platform whoever holds the payment
+      collectedBy: 'platform',
+      description: `Platform fee (${PLATFORM_FEE_PERCENT}%)`
+    });
+  }
+  return recorded;
+}
+
+// A captured online payment: the platform holds the money until it is paid out
+export async function recordOnlinePayment(payment) {
+  const amount = roundMoney(payment.amountCaptured || payment.amount);
+  if (amount <= 0) return null;
+  return recordPaymentWithFee({
+    host: idOf(payment.eventCreator),
+    event: idOf(payment.event),
+    booking: idOf(payment.booking),
+    amount,
+    currency: payment.currency,
+    collectedBy: 'platform',
+    source: { kind: 'Payment', id: String(payment._id) },
+    occurredAt: payment.succeededAt || new Date(),
+    description: 'Online payment'
+  });
+}
+
+// A confirmed bank transfer or cash receipt: the host already has the money
+export async function recordReceiptPayment(receipt) {
+  const amount = roundMoney(receipt.amount);
+  if (amount <= 0) return null;
+  return recordPaymentWithFee({
+    host: idOf(receipt.eventCreator),
+    event: idOf(receipt.event),
+    booking: idOf(receipt.booking),
+    amount,
+    currency: receipt.currency,
+    collectedBy: 'host',
+    source: { kind: 'PaymentReceipt', id: String(receipt._id) },
+    occurredAt: receipt.verifiedAt || new Date(),
+    description: `Receipt payment (${String(receipt.paymentMethod || 'other').replace(/_/g, ' ')})`
+  });
+}
+
+/**
+ * A refund sent back through the payment provider. Payments refunded before they
+ * ever confirmed a booking never reached the ledger, so neither do their refunds.
+ */
+export async function recordOnlineRefund(payment, refund) {
+  if (refund.status === 'failed' || !(refund.amount > 0)) return null;
+  const paid = await HostLedgerEntry.exists({ type: 'payment', 'source.kind': 'Payment', 'source.id': String(payment._id) });
+  if (!paid) return null;
+  return recordEntry({
+    host: idOf(payment.eventCreator),
+    event: idOf(payment.event),
+    booking: idOf(payment.booking),
+    type: 'refund',
+    amount: -roundMoney(refund.amount),
+    payable: -roundMoney(refund.amount),
+    currency: payment.currency,
+    collectedBy: 'platform',
+    source: { kind: 'PaymentRefund', id: String(refund.refundId || refund.id) },
+    occurredAt: refund.createdAt || new Date(),
+    description: refund.reason ? `Refund: ${refund.reason}` : 'Refund'
+  });
+}
+
+// A provider refund that failed after we booked it; only unsettled entries can be taken back
+export async function voidOnlineRefund(refundId) {
+  await HostLedgerEntry.deleteOne({
+    type: 'refund',
+    'source.kind': 'PaymentRefund',
+    'source.id': String(refundId),
+    settlement: null
+  });
+}
+
+// A refund the host paid back themselves for a receipt-paid booking
+export async function recordReceiptRefund(refundRequest) {
+  if (refundRequest.payment || !(refundRequest.amount > 0)) return null;
+  return recordEntry({
+    host: idOf(refundRequest.eventCreator),
+    event: idOf(refundRequest.event),
+    booking: idOf(refundRequest.booking),
+    type: 'refund',
+    amount: -roundMoney(refundRequest.amount),
+    payable: 0,
+    currency: refundRequest.currency,
+    collectedBy: 'host',
+    source: { kind: 'RefundRequest', id: String(refundRequest._id) },
+    occurredAt: refundRequest.processedAt || new Date(),
+    description: refundRequest.reason ? `Refund: ${refundRequest.reason}` : 'Refund'
+  });
+}
+
+// Recording is best-effort from payment flows; syncHostLedger picks up anything missed
+export function accrue(promise) {
+  return promise.catch(error => console.error('❌ Failed to update host ledger:', error.message));
+}
+
+/**
+ * Book everything already confirmed for the host's events that the ledger hasn't
+ * seen yet (payments made before the ledger existed, or a missed accrual).
+ */
+export async function syncHostLedger(hostId) {
+  const eventIds = await Event.find({ owner: hostId }).distinct('_id');
+  if (eventIds.length === 0) return;
+
+  const receipts = await PaymentReceipt.find({ event: { $in: eventIds }, status: 'confirmed' });
+  for (const receipt of receipts) await recordReceiptPayment(receipt);
+
+  const payments = await Payment.find({
+    event: { $in: eventIds },
+    status: { $in: ['succeeded', 'refunded'] }
+  }).populate('booking', 'paymentConfirmedAt');
+  for (const payment of payments) {
+    // Paid after the booking lapsed and refunded straight away; it never confirmed anything
+    if (!payment.booking?.paymentConfirmedAt) continue;
+    await recordOnlinePayment(payment);
+    for (const refund of payment.refunds) await recordOnlineRefund(payment, refund);
+  }
+
+  const refundRequests = await RefundRequest.find({
+    event: { $in: eventIds },
+    status: 'refunded',
+    payment: { $exists: false }
+  });
+  for (const refundRequest of refundRequests) await recordReceiptRefund(refundRequest);
+}
+
+// Revenue and payable totals for a set of entries in one currency
+export function summarizeEntries(entries) {
+  const totals = { payments: 0, refunds: 0, platformFees: 0, payouts: 0, netRevenue: 0, collectedByHost: 0 };
+  let payable = 0;
+  let balance = 0;
+  for (const entry of entries) {
+    if (entry.type === 'payment') totals.payments += entry.amount;
+    if (entry.type === 'refund') totals.refunds -= entry.amount;
+    if (entry.type === 'platform_fee') totals.platformFees -= entry.amount;
+    if (entry.type === 'payout') totals.payouts -= entry.payable;
+    else payable += entry.payable;
+    if (entry.collectedBy === 'host') totals.collectedByHost += entry.amount;
+    totals.netRevenue += entry.amount;
+    balance += entry.payable;
+  }
+  for (const key of Object.keys(totals)) totals[key] = roundMoney(totals[key]);
+  return { totals, payable: roundMoney(payable), balance: roundMoney(balance) };
+}
+
+/**
+ * Close the host's open period at `periodEnd`: one settlement per currency with
+ * unsettled activity, each carrying its balance over from the previous one.
+ */
+export async function closeSettlementPeriod(hostId, periodEnd = new Date()) {
+  await syncHostLedger(hostId);
+  const host = new mongoose.Types.ObjectId(String(hostId));
+  const open = { host, settlement: null, occurredAt: { $lte: periodEnd } };
+
+  const currencies = await HostLedgerEntry.distinct('currency', open);
+  if (currencies.length === 0) throw payoutError("There is no unsettled activity to close");
+
+  const last = await SettlementPeriod.findOne({ host }).sort({ number: -1 }).select('number');
+  let number = last?.number || 0;
+  const settlements = [];
+
+  for (const currency of currencies.sort()) {
+    const entries = await HostLedgerEntry.find({ ...open, currency }).sort({ occurredAt: 1 });
+    const previous = await SettlementPeriod.findOne({ host, currency }).sort({ periodEnd: -1 });
+    const { totals, payable, balance } = summarizeEntries(entries);
+    const openingBalance = previous?.closingBalance || 0;
+
+    const settlement = await SettlementPeriod.create({
+      host,
+      number: ++number,
+      currency,
+      periodStart: previous?.periodEnd || entries[0].occurredAt,
+      periodEnd,
+      totals,
+      entryCount: entries.length,
+      payable,
+      openingBalance,
+      closingBalance: roundMoney(openingBalance + balance)
+    });
+    await HostLedgerEntry.updateMany(
+      { _id: { $in: entries.map(entry => entry._id) }, settlement: null },
+      { settlement: settlement._id }
+    );
+    settlements.push(settlement);
+  }
+
+  console.log(`🧾 Closed ${settlements.length} settlement period(s) for host ${hostId}`);
+  return settlements;
+}
+
+/**
+ * Record that a closed settlement was paid out. The payout lands in the host's
+ * open period, bringing the running balance back down by the period's payable.
+ */
+export async function markSettlementPaid(settlementId, admin, { reference } = {}) {
+  // Money only goes out to hosts who have verified their email
+  const due = await SettlementPeriod.findOne({ _id: settlementId, status: 'closed' }).select('host payable');
+  if (due && due.payable > 0 && !await isHostVerified(due.host)) {
+    throw payoutError("The host must verify their email address before they can be paid out", 409);
+  }
+
+  const settlement = await SettlementPeriod.findOneAndUpdate(
+    { _id: settlementId, status: 'closed' },
+    { status: 'paid', paidAt: new Date(), paidBy: admin.id, payoutReference: reference },
+    { new: true }
+  );
+  if (!settlement) {
+    const exists = await SettlementPeriod.exists({ _id: settlementId });
+    throw payoutError(exists ? "This settlement has already been paid" : "Settlement not found", exists ? 409 : 404);
+  }
+
+  if (settlement.payable !== 0) {
+    await recordEntry({
+      host: settlement.host,
+      type: 'payout',
+      amount: 0,
+      payable: -settlement.payable,
+      currency: settlement.currency,
+      collectedBy: 'platform',
+      source: { kind: 'SettlementPeriod', id: String(settlement._id) },
+      description: settlement.payable > 0
+        ? `Payout for statement #${settlement.number}${reference ? ` (${reference})` : ''}`
+        : `Platform fees collected for statement #${settlement.number}${reference ? ` (${reference})` : ''}`
+    });
+  }
+
+  console.log(`💸 Settlement #${settlement.number} for host ${settlement.host} marked paid`);
+  return settlement;
+}
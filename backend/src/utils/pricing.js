@@ -0,0 +1,124 @@
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+// Early-bird pricing applies to a tier until its cut-off passes
+export function isEarlyBird(tier, at = new Date()) {
+  return typeof tier?.earlyBirdPrice === 'number' && !!tier.earlyBirdUntil && at < new Date(tier.earlyBirdUntil);
+}
+
+// Price of one seat in a tier; bookings without a tier fall back to the event's base price
+export function unitPrice(event, ticketType, at = new Date()) {
+  const tier = event.ticketPricing?.[ticketType];
+  if (isEarlyBird(tier, at)) return tier.earlyBirdPrice;
+  const tierPrice = tier?.price;
+  return typeof tierPrice === 'number' ? tierPrice : (event.price || 0);
+}
+
+// Normalize a cart from either the tickets array or the legacy seat count
+export function parseCart({ tickets, seats } = {}) {
+  if (Array.isArray(tickets)) {
+    const ticketBreakdown = tickets
+      .map(ticket => ({ type: ticket.type, quantity: Number(ticket.quantity) || 0 }))
+      .filter(ticket => ticket.quantity > 0);
+    return { ticketBreakdown, totalSeats: ticketBreakdown.reduce((sum, ticket) => sum + ticket.quantity, 0) };
+  }
+  return { ticketBreakdown: [], totalSeats: Number(seats) || 1 };
+}
+
+function bookingLines(booking) {
+  return booking.ticketBreakdown?.length > 0
+    ? booking.ticketBreakdown
+    : [{ type: 'regular', quantity: booking.seats || 1 }];
+}
+
+// Amount owed for a booking at the event's own prices and charges, ignoring whatever the client sent
+export function computeBookingTotal(event, booking) {
+  return priceBooking(event, booking).total;
+}
+
+// One fee or tax on one line, worked out on what the attendee pays for the tickets after any discount.
+// Inclusive charges are already inside the ticket price and are only broken out.
+function chargeForLine(charge, line) {
+  const net = line.subtotal - line.discount;
+  if (net <= 0) return 0;
+  if (charge.calculation === 'flat') {
+    const flat = charge.amount * line.quantity;
+    return charge.inclusive ? Math.min(flat, net) : flat;
+  }
+  const rate = charge.amount / 100;
+  return charge.inclusive ? net - net / (1 + rate) : net * rate;
+}
+
+/**
+ * Price a booking at the event's current prices with an optional promo code.
+ * Percentage codes come off each eligible line; fixed codes come off the booking
+ * once, spread over the eligible lines and capped at their subtotal.
+ * The event's fees and taxes are then worked out on the discounted lines; exclusive
+ * ones are added to the total, inclusive ones are listed but already in the price.
+ */
+export function priceBooking(event, booking, { promo, at = new Date() } = {}) {
+  const lines = bookingLines(booking).map(line => {
+    const tier = event.ticketPricing?.[line.type];
+    const price = unitPrice(event, line.type, at);
+    return {
+      type: line.type,
+      quantity: line.quantity || 0,
+      unitPrice: price,
+      earlyBird: isEarlyBird(tier, at),
+      subtotal: roundMoney(price * (line.quantity || 0)),
+      discount: 0
+    };
+  });
+
+  if (promo) {
+    const eligible = lines.filter(line => !promo.ticketTypes?.length || promo.ticketTypes.includes(line.type));
+    const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.subtotal, 0);
+
+    if (promo.discountType === 'percentage') {
+      const rate = Math.min(promo.amount, 100) / 100;
+      eligible.forEach(line => { line.discount = roundMoney(line.subtotal * rate); });
+    } else if (eligibleSubtotal > 0) {
+      const capped = roundMoney(Math.min(promo.amount, eligibleSubtotal));
+      let remaining = capped;
+      eligible.forEach((line, index) => {
+        const share = index === eligible.length - 1
+          ? remaining
+          : roundMoney(Math.min(remaining, capped * line.subtotal / eligibleSubtotal));
+        line.discount = share;
+        remaining = roundMoney(remaining - share);
+      });
+    }
+  }
+
+  const charges = (event.charges || [])
+    .map(charge => {
+      const eligible = lines.filter(line => !charge.ticketTypes?.length || charge.ticketTypes.includes(line.type));
+      return {
+        name: charge.name,
+        kind: charge.kind,
+        calculation: charge.calculation,
+        rate: charge.amount,
+        inclusive: !!charge.inclusive,
+        amount: roundMoney(eligible.reduce((sum, line) => sum + chargeForLine(charge, line), 0))
+      };
+    })
+    .filter(charge => charge.amount > 0);
+  const addedCharges = (kind) => roundMoney(charges
+    .filter(charge => charge.kind === kind && !charge.inclusive)
+    .reduce((sum, charge) => sum + charge.amount, 0));
+
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.subtotal, 0));
+  const discount = roundMoney(lines.reduce((sum, line) => sum + line.discount, 0));
+  const fees = addedCharges('fee');
+  const taxes = addedCharges('tax');
+  return {
+    lines,
+    subtotal,
+    discount,
+    charges,
+    fees,
+    taxes,
+    total: roundMoney(Math.max(0, subtotal - discount) + fees + taxes),
+    currency: (event.currency || 'USD').toUpperCase(),
+    ...(promo && { promoCode: promo.code })
+  };
+}
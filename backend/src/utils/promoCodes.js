@@ -0,0 +1,96 @@
+import PromoCode from "../models/PromoCode.js";
+import Booking from "../models/Booking.js";
+import PromoRedemption from "../models/PromoRedemption.js";
+
+function promoError(message, status = 400) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+/**
+ * Look up a code for an event and check it can be used by this user for these
+ * tickets right now. Throws a 400/404 with a reason the attendee can act on.
+ */
+export async function resolvePromoCode(eventId, code, { userId, ticketBreakdown = [], at = new Date() } = {}) {
+  const promo = await PromoCode.findOne({ event: eventId, code: String(code || '').trim().toUpperCase() });
+  if (!promo || !promo.isActive) throw promoError("This promo code is not valid for this event", 404);
+
+  if (promo.validFrom && at < promo.validFrom) throw promoError("This promo code is not active yet");
+  if (promo.validUntil && at > promo.validUntil) throw promoError("This promo code has expired");
+  if (promo.maxUses && promo.usedCount >= promo.maxUses) throw promoError("This promo code has been fully redeemed");
+
+  if (promo.ticketTypes?.length) {
+    const types = ticketBreakdown.length > 0 ? ticketBreakdown.map(line => line.type) : ['regular'];
+    if (!types.some(type => promo.ticketTypes.includes(type))) {
+      throw promoError(`This promo code only applies to ${promo.ticketTypes.join(', ')} tickets`);
+    }
+  }
+
+  // Early answer for quotes; redeemPromoCode is what actually enforces the limit
+  if (promo.perUserLimit && userId) {
+    const used = await Booking.countDocuments({
+      user: userId,
+      promoCode: promo._id,
+      status: { $nin: ['cancelled', 'expired'] }
+    });
+    if (used >= promo.perUserLimit) throw promoError("You have already used this promo code");
+  }
+
+  return promo;
+}
+
+// Take one of this user's uses of the code. The filter only matches while they are under
+// the limit; once they're at it the upsert collides with the unique index instead.
+async function claimUserRedemption(promo, userId) {
+  try {
+    await PromoRedemption.findOneAndUpdate(
+      { promoCode: promo._id, user: userId, count: { $lt: promo.perUserLimit } },
+      { $inc: { count: 1 } },
+      { upsert: true }
+    );
+  } catch (error) {
+    if (error.code === 11000) throw promoError("You have already used this promo code");
+    throw error;
+  }
+}
+
+async function releaseUserRedemption(promoCodeId, userId) {
+  await PromoRedemption.updateOne(
+    { promoCode: promoCodeId, user: userId, count: { $gt: 0 } },
+    { $inc: { count: -1 } }
+  );
+}
+
+// Take one use of the code; conditional so concurrent bookings can't exceed maxUses
+// or the user's own limit
+export async function redeemPromoCode(promo, { userId } = {}) {
+  const perUser = !!(promo.perUserLimit && userId);
+  if (perUser) await claimUserRedemption(promo, userId);
+
+  const redeemed = await PromoCode.findOneAndUpdate(
+    {
+      _id: promo._id,
+      isActive: true,
+      $or: [{ maxUses: null }, { $expr: { $lt: ['$usedCount', '$maxUses'] } }]
+    },
+    { $inc: { usedCount: 1 } },
+    { new: true }
+  );
+  if (!redeemed) {
+    if (perUser) await releaseUserRedemption(promo._id, userId);
+    throw promoError("This promo code has been fully redeemed");
+  }
+  return redeemed;
+}
+
+// Give the use back when a booking that redeemed a code is cancelled or expires
+export async function releasePromoCode(booking) {
+  if (!booking?.promoCode) return;
+  const promoCodeId = booking.promoCode._id || booking.promoCode;
+  await PromoCode.updateOne(
+    { _id: promoCodeId, usedCount: { $gt: 0 } },
+    { $inc: { usedCount: -1 } }
+  );
+  if (booking.user) await releaseUserRedemption(promoCodeId, booking.user._id || booking.user);
+}
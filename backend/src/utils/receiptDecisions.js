@@ -0,0 +1,168 @@
+import PaymentReceipt from "../models/PaymentReceipt.js";
+import Booking from "../models/Booking.js";
+import Event from "../models/Event.js";
+import { notifyUser } from "./notify.js";
+import { issueTicketsForReceipt } from "./ticketIssuance.js";
+import { formatMoney } from "./currency.js";
+import { accrue, recordReceiptPayment } from "./payouts.js";
+import { issueInvoice } from "./invoices.js";
+import { computeHoldExpiry } from "./holds.js";
+
+// Bookings whose seats have already gone back on sale
+const CLOSED_BOOKING_STATUSES = ['cancelled', 'expired'];
+
+// `reason` is what the bank statement import reports when it skips the receipt
+function decisionError(message, reason) {
+  const err = new Error(message);
+  err.status = 409;
+  err.reason = reason;
+  return err;
+}
+
+/**
+ * Move a receipt out of 'pending' exactly once. Throws a 409 when someone else
+ * already decided it, so a receipt can't be confirmed twice or flipped later.
+ */
+async function claimPendingReceipt(receipt, update) {
+  const claimed = await PaymentReceipt.findOneAndUpdate(
+    { _id: receipt._id, status: 'pending' },
+    { $set: update },
+    { new: true }
+  );
+  if (!claimed) {
+    const current = await PaymentReceipt.findById(receipt._id).select('status');
+    throw decisionError(`This receipt has already been ${current?.status || 'removed'}`, `already_${current?.status || 'removed'}`);
+  }
+  receipt.set(update);
+}
+
+/**
+ * Confirm a pending receipt: mark the booking paid, notify the attendee and
+ * issue tickets. `receipt` must have user, event and booking populated.
+ * `statementMatch` records the bank statement line that justified it.
+ * Refuses (409) receipts that were already decided and bookings that were
+ * cancelled or expired, since their seats may belong to someone else now.
+ */
+export async function applyReceiptConfirmation(receipt, verifier, { verificationNotes, statementMatch } = {}) {
+  const booking = receipt.booking;
+  if (CLOSED_BOOKING_STATUSES.includes(booking.status)) {
+    throw decisionError(`Cannot confirm a receipt for a ${booking.status} booking`, `booking_${booking.status}`);
+  }
+
+  await claimPendingReceipt(receipt, {
+    status: 'confirmed',
+    verifiedAt: new Date(),
+    verifiedBy: verifier.id,
+    verificationNotes,
+    ...(statementMatch && { statementMatch })
+  });
+
+  // Mark the booking paid unless it was cancelled or expired in the meantime
+  const paid = await Booking.findOneAndUpdate(
+    { _id: booking._id, status: { $nin: CLOSED_BOOKING_STATUSES } },
+    { $set: { paymentStatus: 'confirmed', paymentConfirmedAt: new Date() } },
+    { new: true }
+  );
+  if (!paid) {
+    // Same outcome as if the cancellation had landed first
+    await PaymentReceipt.updateOne(
+      { _id: receipt._id, status: 'confirmed' },
+      {
+        $set: { status: 'rejected', verificationNotes: 'Booking was cancelled before this receipt was reviewed' },
+        $unset: { statementMatch: 1 }
+      }
+    );
+    throw decisionError("The booking was cancelled before the receipt could be confirmed", 'booking_closed');
+  }
+  booking.paymentStatus = paid.paymentStatus;
+  booking.paymentConfirmedAt = paid.paymentConfirmedAt;
+  await accrue(recordReceiptPayment(receipt));
+
+  let invoice = null;
+  try {
+    invoice = await issueInvoice(booking, { paymentReceipt: receipt });
+  } catch (invoiceError) {
+    console.error('❌ Failed to issue invoice:', invoiceError);
+    // The attendee can still download it from My Tickets once the booking is paid
+  }
+
+  // Tell the attendee
+  await notifyUser(receipt.user._id, {
+    type: 'payment_confirmed',
+    title: '✅ Payment Confirmed',
+    summary: `Your payment for "${receipt.event.title}" has been confirmed!`,
+    message: `Great news! Your payment for "${receipt.event.title}" has been confirmed by the event organizer.\n\nPayment Details:\n• Amount: ${formatMoney(receipt.amount, receipt.currency)}\n• Method: ${receipt.paymentMethod}\n• Confirmed by: ${verifier.name}\n• Event Date: ${new Date(receipt.event.date).toLocaleDateString()}\n\nYour booking is now confirmed. See you at the event!`,
+    data: {
+      receiptId: receipt._id,
+      eventId: receipt.event._id,
+      eventTitle: receipt.event.title,
+      eventDate: receipt.event.date,
+      eventTime: receipt.event.time,
+      eventLocation: receipt.event.location,
+      amount: receipt.amount,
+      currency: receipt.currency,
+      paymentMethod: receipt.paymentMethod,
+      confirmedBy: verifier.name,
+      confirmedAt: new Date().toISOString(),
+      verificationNotes,
+      ...(invoice && {
+        invoiceId: invoice._id,
+        invoiceNumber: invoice.number,
+        invoiceUrl: `/api/invoices/${invoice._id}/download`
+      })
+    }
+  });
+
+  // Automatically issue one ticket per seat after payment confirmation
+  try {
+    await issueTicketsForReceipt(receipt);
+    console.log(`✅ Tickets generated automatically for payment receipt: ${receipt._id}`);
+  } catch (ticketError) {
+    console.error('❌ Failed to generate tickets automatically:', ticketError);
+    // Don't fail the payment confirmation if ticket generation fails
+  }
+}
+
+/**
+ * Reject a pending receipt and tell the attendee why. The booking gets a fresh
+ * hold window to resubmit in; if that lapses too, the sweeper releases the seats.
+ * `receipt` must have user and event populated.
+ */
+export async function applyReceiptRejection(receipt, verifier, { verificationNotes } = {}) {
+  await claimPendingReceipt(receipt, {
+    status: 'rejected',
+    verifiedAt: new Date(),
+    verifiedBy: verifier.id,
+    verificationNotes: verificationNotes || 'Receipt rejected by event organizer'
+  });
+
+  const event = await Event.findById(receipt.event._id).select('holdWindowMinutes');
+  await Booking.updateOne(
+    { _id: receipt.booking?._id || receipt.booking, status: 'pending', paymentStatus: { $ne: 'confirmed' } },
+    { $set: { holdExpiresAt: computeHoldExpiry(event || {}) } }
+  );
+
+  // Tell the attendee
+  await notifyUser(receipt.user._id, {
+    type: 'payment_rejected',
+    title: '❌ Payment Receipt Rejected',
+    summary: `Your payment receipt for "${receipt.event.title}" has been rejected.`,
+    message: `Your payment receipt for "${receipt.event.title}" has been rejected by the event organizer.\n\nRejection Details:\n• Reason: ${verificationNotes || 'No specific reason provided'}\n• Rejected by: ${verifier.name}\n• Original Amount: ${formatMoney(receipt.amount, receipt.currency)}\n\nPlease review the rejection reason and resubmit a corrected payment receipt, or contact the event organizer directly for assistance.`,
+    data: {
+      receiptId: receipt._id,
+      eventId: receipt.event._id,
+      eventTitle: receipt.event.title,
+      eventDate: receipt.event.date,
+      eventTime: receipt.event.time,
+      eventLocation: receipt.event.location,
+      amount: receipt.amount,
+      currency: receipt.currency,
+      paymentMethod: receipt.paymentMethod,
+      rejectionReason: verificationNotes || 'No specific reason provided',
+      rejectedBy: verifier.name,
+      rejectedAt: new Date().toISOString(),
+      organizerEmail: verifier.email,
+      organizerPhone: verifier.phone
+    }
+  });
+}
@@ -0,0 +1,138 @@
+import { jsPDF } from 'jspdf';
+
+const ENTRY_LABELS = {
+  payment: 'Payment',
+  refund: 'Refund',
+  platform_fee: 'Platform fee',
+  payout: 'Payout'
+};
+
+const csvCell = (value) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoDate = (date) => new Date(date).toISOString().slice(0, 10);
+
+// jsPDF's built-in fonts lack most currency symbols, so PDFs spell out the code
+const pdfMoney = (value, currency) => `${currency} ${Number(value || 0).toFixed(2)}`;
+
+// Summary rows at the top of the PDF statement
+function summaryRows(settlement) {
+  const { totals, currency } = settlement;
+  return [
+    ['Opening balance', pdfMoney(settlement.openingBalance, currency)],
+    ['Payments', pdfMoney(totals.payments, currency)],
+    ['Refunds', pdfMoney(-totals.refunds, currency)],
+    ['Platform fees', pdfMoney(-totals.platformFees, currency)],
+    ['Net revenue', pdfMoney(totals.netRevenue, currency)],
+    ['Collected directly by you', pdfMoney(-totals.collectedByHost, currency)],
+    ['Payouts', pdfMoney(-totals.payouts, currency)],
+    ['Closing balance', pdfMoney(settlement.closingBalance, currency)]
+  ];
+}
+
+// One row per ledger entry; `entries` need event populated with its title
+export function statementCsv(settlement, entries) {
+  const header = ['date', 'type', 'event', 'booking', 'description', 'collected_by', 'amount', 'payable', 'currency'];
+  const rows = entries.map(entry => [
+    isoDate(entry.occurredAt),
+    entry.type,
+    entry.event?.title || '',
+    entry.booking ? String(entry.booking) : '',
+    entry.description || '',
+    entry.collectedBy,
+    entry.amount.toFixed(2),
+    entry.payable.toFixed(2),
+    entry.currency
+  ]);
+  const footer = [
+    [],
+    ['statement', settlement.number],
+    ['period', `${isoDate(settlement.periodStart)} to ${isoDate(settlement.periodEnd)}`],
+    ['opening_balance', settlement.openingBalance.toFixed(2)],
+    ['net_revenue', settlement.totals.netRevenue.toFixed(2)],
+    ['payable', settlement.payable.toFixed(2)],
+    ['closing_balance', settlement.closingBalance.toFixed(2)],
+    ['status', settlement.status]
+  ];
+  return [header, ...rows, ...footer].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+// Printable A4 statement (returns a Buffer)
+export function statementPdf(settlement, entries, host) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const { currency } = settlement;
+
+  // Header band
+  doc.setFillColor(0, 89, 63);
+  doc.rect(0, 0, pageWidth, 28, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(`Settlement Statement #${settlement.number}`, 14, 13);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`${host?.name || 'Host'} · ${currency} · ${isoDate(settlement.periodStart)} to ${isoDate(settlement.periodEnd)}`, 14, 21);
+
+  doc.setTextColor(40, 40, 40);
+  let y = 40;
+  const rows = summaryRows(settlement);
+  rows.forEach(([label, value], index) => {
+    doc.setFont('helvetica', index === rows.length - 1 ? 'bold' : 'normal');
+    doc.setFontSize(10);
+    doc.text(label, 14, y);
+    doc.text(value, pageWidth - 14, y, { align: 'right' });
+    y += 6;
+  });
+  doc.setFontSize(8);
+  doc.setTextColor(100, 100, 100);
+  doc.text(
+    settlement.status === 'paid'
+      ? `Paid out ${pdfMoney(settlement.payable, currency)} on ${isoDate(settlement.paidAt)}${settlement.payoutReference ? ` (ref ${settlement.payoutReference})` : ''}`
+      : `Payable for this period: ${pdfMoney(settlement.payable, currency)} (awaiting payout)`,
+    14,
+    y + 2
+  );
+
+  // Entries
+  y += 14;
+  const columns = [14, 38, 68, pageWidth - 44, pageWidth - 14];
+  const drawHeader = () => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.setTextColor(40, 40, 40);
+    doc.text('Date', columns[0], y);
+    doc.text('Type', columns[1], y);
+    doc.text('Event / description', columns[2], y);
+    doc.text('Amount', columns[3], y, { align: 'right' });
+    doc.text('Payable', columns[4], y, { align: 'right' });
+    y += 5;
+    doc.setFont('helvetica', 'normal');
+  };
+  drawHeader();
+
+  for (const entry of entries) {
+    const detail = doc.splitTextToSize(
+      [entry.event?.title, entry.description].filter(Boolean).join(' · '),
+      columns[3] - columns[2] - 24
+    );
+    if (y + detail.length * 4 > pageHeight - 14) {
+      doc.addPage();
+      y = 16;
+      drawHeader();
+    }
+    doc.text(isoDate(entry.occurredAt), columns[0], y);
+    doc.text(ENTRY_LABELS[entry.type] || entry.type, columns[1], y);
+    doc.text(detail, columns[2], y);
+    doc.text(pdfMoney(entry.amount, currency), columns[3], y, { align: 'right' });
+    doc.text(pdfMoney(entry.payable, currency), columns[4], y, { align: 'right' });
+    y += Math.max(detail.length, 1) * 4 + 1.5;
+  }
+
+  if (entries.length === 0) doc.text('No activity in this period.', columns[0], y);
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -1,17 +1,27 @@
 import QRCode from 'qrcode';
 import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
+import { jsPDF } from 'jspdf';
+import { formatMoney } from './currency.js';
 
-// Generate secure verification hash
+// Event, attendee and charge details come from users, so escape them in the HTML ticket
+const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, ch => ({
+  '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+}[ch]));
+
+// Generate secure verification hash for legacy JSON payloads; null without TICKET_SECRET
 export const generateVerificationHash = (ticketData) => {
-  const secret = process.env.TICKET_SECRET || 'default-ticket-secret-change-in-production';
+  const secret = process.env.TICKET_SECRET;
+  if (!secret) return null;
   const dataString = JSON.stringify(ticketData);
   return crypto.createHmac('sha256', secret).update(dataString).digest('hex');
 };
 
-// Verify ticket hash
+// Verify ticket hash. Without TICKET_SECRET there is nothing to trust, so legacy
+// payloads are refused; tickets issued since carry signed tokens instead.
 export const verifyTicketHash = (ticketData, hash) => {
   const expectedHash = generateVerificationHash(ticketData);
+  if (!expectedHash || typeof hash !== 'string' || hash.length !== expectedHash.length) return false;
   return crypto.timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(expectedHash, 'hex'));
 };
 
@@ -42,7 +52,8 @@ export const generateQRCodeData = (ticket, event, user, booking) => {
 // Generate QR code image (base64)
 export const generateQRCodeImage = async (qrData) => {
   try {
-    const qrString = JSON.stringify(qrData);
+    // Signed tokens are encoded as-is; legacy payloads are objects
+    const qrString = typeof qrData === 'string' ? qrData : JSON.stringify(qrData);
     const qrCodeDataURL = await QRCode.toDataURL(qrString, {
       errorCorrectionLevel: 'M',
       type: 'image/png',
@@ -62,6 +73,20 @@ export const generateQRCodeImage = async (qrData) => {
   }
 };
 
+// Price breakdown printed on tickets; bookings from before server-side pricing have no total to show
+const paymentSummaryRows = (booking, moneyOptions) => {
+  if (typeof booking?.totalAmount !== 'number') return [];
+  const money = (value) => formatMoney(value, booking.currency, moneyOptions);
+  const rows = [];
+  if (typeof booking.subtotal === 'number') rows.push(['Tickets', money(booking.subtotal)]);
+  if (booking.discount?.amount) rows.push([`Discount (${booking.discount.code})`, `-${money(booking.discount.amount)}`]);
+  (booking.charges || []).forEach(charge => {
+    rows.push([charge.inclusive ? `${charge.name} (included)` : charge.name, money(charge.amount)]);
+  });
+  rows.push(['Booking total', money(booking.totalAmount)]);
+  return rows;
+};
+
 // Generate ticket HTML template
 export const generateTicketHTML = (ticket, event, user, booking, qrCodeImage) => {
   const formatDate = (date) => {
@@ -89,12 +114,14 @@ export const generateTicketHTML = (ticket, event, user, booking, qrCodeImage) =>
     return types[type] || type.toUpperCase();
   };
 
+  const paymentRows = paymentSummaryRows(booking);
+
   return `
     <!DOCTYPE html>
     <html>
     <head>
       <meta charset="utf-8">
-      <title>Event Ticket - ${event.title}</title>
+      <title>Event Ticket - ${escapeHtml(event.title)}</title>
       <style>
         * {
           margin: 0;
@@ -246,18 +273,37 @@ export const generateTicketHTML = (ticket, event, user, booking, qrCodeImage) =>
           color: #388e3c;
           font-size: 14px;
         }
+        
+        .payment-summary {
+          border-top: 1px solid #eee;
+          margin-top: 20px;
+          padding-top: 15px;
+        }
+        
+        .payment-row {
+          display: flex;
+          justify-content: space-between;
+          color: #666;
+          font-size: 14px;
+          margin-bottom: 6px;
+        }
+        
+        .payment-row:last-child {
+          color: #333;
+          font-weight: bold;
+        }
       </style>
     </head>
     <body>
       <div class="ticket">
         <div class="ticket-header">
-          <div class="event-title">${event.title}</div>
-          <div class="ticket-id">Ticket ID: ${ticket.ticketId}</div>
+          <div class="event-title">${escapeHtml(event.title)}</div>
+          <div class="ticket-id">Ticket ID: ${escapeHtml(ticket.ticketId)}</div>
         </div>
         
         <div class="ticket-body">
           <div class="ticket-info">
-            <div class="ticket-type-badge">${getTicketTypeName(ticket.ticketType)}</div>
+            <div class="ticket-type-badge">${escapeHtml(getTicketTypeName(ticket.ticketType))}</div>
             
             <div class="info-row">
               <div class="info-label">Event Date:</div>
@@ -266,22 +312,22 @@ export const generateTicketHTML = (ticket, event, user, booking, qrCodeImage) =>
             
             <div class="info-row">
               <div class="info-label">Time:</div>
-              <div class="info-value">${formatTime(event.time)}</div>
+              <div class="info-value">${escapeHtml(formatTime(event.time))}</div>
             </div>
             
             <div class="info-row">
               <div class="info-label">Location:</div>
-              <div class="info-value">${event.location}</div>
+              <div class="info-value">${escapeHtml(event.location)}</div>
             </div>
             
             <div class="info-row">
               <div class="info-label">Attendee:</div>
-              <div class="info-value">${user.name}</div>
+              <div class="info-value">${escapeHtml(ticket.attendeeName || user.name)}</div>
             </div>
             
             <div class="info-row">
               <div class="info-label">Email:</div>
-              <div class="info-value">${user.email}</div>
+              <div class="info-value">${escapeHtml(ticket.attendeeEmail || user.email)}</div>
             </div>
             
             <div class="info-row">
@@ -292,7 +338,15 @@ export const generateTicketHTML = (ticket, event, user, booking, qrCodeImage) =>
             ${ticket.seatNumber ? `
             <div class="info-row">
               <div class="info-label">Seat:</div>
-              <div class="info-value">${ticket.seatNumber}</div>
+              <div class="info-value">${escapeHtml(ticket.seatNumber)}</div>
+            </div>
+            ` : ''}
+            
+            ${paymentRows.length > 0 ? `
+            <div class="payment-summary">
+              ${paymentRows.map(([label, value]) => `
+              <div class="payment-row"><span>${escapeHtml(label)}</span><span>${escapeHtml(value)}</span></div>
+              `).join('')}
             </div>
             ` : ''}
             
@@ -303,7 +357,7 @@ export const generateTicketHTML = (ticket, event, user, booking, qrCodeImage) =>
           </div>
           
           <div class="ticket-qr">
-            <img src="${qrCodeImage}" alt="QR Code" class="qr-code" />
+            <img src="${escapeHtml(qrCodeImage)}" alt="QR Code" class="qr-code" />
             <div class="qr-instructions">
               <strong>Present this QR code at the venue</strong><br>
               Scan to verify ticket authenticity<br>
@@ -324,3 +378,83 @@ export const generateTicketHTML = (ticket, event, user, booking, qrCodeImage) =>
     </html>
   `;
 };
+
+// Render a printable A6 PDF ticket with the QR code embedded (returns a Buffer).
+// The booking's price breakdown, when there is one, goes on a second page.
+export const generateTicketPDF = (ticket, event, user, qrCodeImage, booking) => {
+  const ticketTypeNames = {
+    'vvip': 'VVIP',
+    'vip': 'VIP',
+    'standard': 'Standard',
+    'tableFor2': 'Table for 2',
+    'tableFor5': 'Table for 5',
+    'regular': 'Regular'
+  };
+  const eventDate = event.date
+    ? new Date(event.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+    : 'Date TBA';
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a6' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  // Header band
+  doc.setFillColor(0, 89, 63);
+  doc.rect(0, 0, pageWidth, 24, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(doc.splitTextToSize(event.title, pageWidth - 16), 8, 11);
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`${ticketTypeNames[ticket.ticketType] || ticket.ticketType.toUpperCase()} ADMISSION`, 8, 20);
+
+  // Details
+  const rows = [
+    ['Date', eventDate],
+    ['Time', event.time || 'Time TBA'],
+    ['Location', event.location || 'TBA'],
+    ['Attendee', ticket.attendeeName || user.name],
+    ['Ticket ID', ticket.ticketId]
+  ];
+  doc.setTextColor(40, 40, 40);
+  let y = 32;
+  for (const [label, value] of rows) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.text(label.toUpperCase(), 8, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    const lines = doc.splitTextToSize(String(value), pageWidth - 16);
+    doc.text(lines, 8, y + 4);
+    y += 6 + lines.length * 4;
+  }
+
+  // QR code
+  const qrSize = 50;
+  doc.addImage(qrCodeImage, 'PNG', (pageWidth - qrSize) / 2, y, qrSize, qrSize);
+  y += qrSize + 5;
+
+  doc.setFontSize(7);
+  doc.setTextColor(100, 100, 100);
+  doc.text('Present this QR code at the venue. Valid for one admission.', pageWidth / 2, y, { align: 'center' });
+  doc.text(`Valid until ${new Date(ticket.validUntil).toLocaleDateString()}`, pageWidth / 2, y + 4, { align: 'center' });
+
+  const paymentRows = paymentSummaryRows(booking, { currencyDisplay: 'code' });
+  if (paymentRows.length > 0) {
+    doc.addPage();
+    doc.setTextColor(40, 40, 40);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text('Payment Summary', 8, 14);
+    y = 24;
+    paymentRows.forEach(([label, value], index) => {
+      doc.setFont('helvetica', index === paymentRows.length - 1 ? 'bold' : 'normal');
+      doc.setFontSize(9);
+      doc.text(doc.splitTextToSize(label, pageWidth - 50), 8, y);
+      doc.text(value, pageWidth - 8, y, { align: 'right' });
+      y += 7;
+    });
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+};
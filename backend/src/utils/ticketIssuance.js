@@ -0,0 +1,142 @@
+import Ticket from "../models/Ticket.js";
+import Booking from "../models/Booking.js";
+import { signTicketToken } from "./ticketTokens.js";
+import { notifyUser } from "./notify.js";
+
+// One admission per seat, in breakdown order; legacy bookings without a breakdown are 'regular'
+export function planSeats(booking) {
+  const breakdown = booking.ticketBreakdown?.length > 0
+    ? booking.ticketBreakdown
+    : [{ type: 'regular', quantity: booking.seats || 1 }];
+
+  const seats = [];
+  for (const line of breakdown) {
+    for (let i = 0; i < (line.quantity || 0); i++) {
+      const seatIndex = seats.length;
+      const attendee = booking.attendees?.[seatIndex];
+      seats.push({
+        seatIndex,
+        ticketType: line.type,
+        attendeeName: attendee?.name,
+        attendeeEmail: attendee?.email
+      });
+    }
+  }
+  return seats;
+}
+
+// Tickets stay valid until 24 hours after the event starts
+function computeValidUntil(event) {
+  let eventDate = event.date ? new Date(event.date) : null;
+  if (!eventDate || isNaN(eventDate.getTime())) {
+    console.log('⚠️ No valid event date found, using fallback');
+    eventDate = new Date();
+    eventDate.setDate(eventDate.getDate() + 30);
+  }
+  const validUntil = new Date(eventDate);
+  validUntil.setHours(validUntil.getHours() + 24);
+  return validUntil;
+}
+
+/**
+ * Issue an individual ticket (own ticketId and signed QR token) for every seat on a
+ * paid booking. Safe to call repeatedly: seats that already have a ticket are
+ * skipped, so a retry only fills the gaps.
+ * `paid` is the confirmed receipt or succeeded online payment, with `event`,
+ * `user` and `booking` populated.
+ */
+export async function issueTicketsForBooking(paid, { paymentReceipt, payment } = {}) {
+  const { event, user, booking } = paid;
+
+  // Seats of a cancelled or expired booking may already belong to someone else
+  const current = await Booking.findById(booking._id).select('status');
+  if (!current || ['cancelled', 'expired'].includes(current.status)) {
+    const err = new Error(`Cannot issue tickets for a ${current?.status || 'missing'} booking`);
+    err.status = 409;
+    throw err;
+  }
+
+  const existing = await Ticket.find({ booking: booking._id }).sort({ seatIndex: 1 });
+  const issuedSeats = new Set(existing.map(t => t.seatIndex));
+
+  // Tickets issued before per-seat issuance cover the whole booking on their own
+  if (existing.some(t => t.seatIndex === undefined || t.seatIndex === null)) {
+    return { tickets: existing, created: [] };
+  }
+
+  const validFrom = new Date();
+  const validUntil = computeValidUntil(event);
+  const created = [];
+
+  for (const seat of planSeats(booking)) {
+    if (issuedSeats.has(seat.seatIndex)) continue;
+
+    const ticketId = Ticket.generateTicketId();
+    const { token, kid, signature } = await signTicketToken(
+      { ticketId, ticketType: seat.ticketType, validFrom, validUntil },
+      event._id
+    );
+
+    try {
+      created.push(await Ticket.create({
+        ticketId,
+        event: event._id,
+        user: user._id,
+        booking: booking._id,
+        paymentReceipt,
+        payment,
+        ticketType: seat.ticketType,
+        quantity: 1,
+        seatIndex: seat.seatIndex,
+        attendeeName: seat.attendeeName,
+        attendeeEmail: seat.attendeeEmail,
+        validFrom,
+        validUntil,
+        generatedAt: validFrom,
+        qrCodeData: token,
+        signingKeyId: kid,
+        verificationHash: signature
+      }));
+    } catch (error) {
+      // A concurrent issuance already covered this seat
+      if (error.code !== 11000) throw error;
+    }
+  }
+
+  if (created.length > 0) {
+    console.log(`🎫 Issued ${created.length} ticket${created.length > 1 ? 's' : ''} for booking ${booking._id}`);
+
+    try {
+      const summary = Object.entries(created.reduce((acc, t) => {
+        acc[t.ticketType] = (acc[t.ticketType] || 0) + 1;
+        return acc;
+      }, {})).map(([type, count]) => `• ${type.toUpperCase()}: ${count}`).join('\n');
+
+      await notifyUser(user._id, {
+        type: 'ticket_generated',
+        title: '🎫 Your Event Tickets are Ready!',
+        message: `Your ${created.length > 1 ? `${created.length} tickets` : 'ticket'} for "${event.title}" ${created.length > 1 ? 'have' : 'has'} been generated and ${created.length > 1 ? 'are' : 'is'} ready for download.\n\nTickets:\n${summary}\n• Event Date: ${new Date(event.date).toLocaleDateString()}\n\nEach guest needs their own QR code at the venue.`,
+        data: {
+          ticketIds: created.map(t => t.ticketId),
+          bookingId: booking._id,
+          eventId: event._id,
+          eventTitle: event.title,
+          eventDate: event.date,
+          quantity: created.length,
+          downloadUrl: `/api/tickets/${created[0]._id}/download`
+        }
+      });
+    } catch (notificationError) {
+      console.error('❌ Failed to send ticket notification:', notificationError);
+    }
+  }
+
+  const tickets = await Ticket.find({ booking: booking._id }).sort({ seatIndex: 1 });
+  return { tickets, created };
+}
+
+export const issueTicketsForReceipt = (receipt) =>
+  issueTicketsForBooking(receipt, { paymentReceipt: receipt._id });
+
+export const issueTicketsForPayment = (payment) =>
+  issueTicketsForBooking(payment, { payment: payment._id });
@@ -0,0 +1,189 @@
+import crypto from "crypto";
+import EventSigningKey from "../models/EventSigningKey.js";
+import Ticket from "../models/Ticket.js";
+import { notifyUser } from "./notify.js";
+
+// Token layout: IS1.<base64url(JSON claims)>.<base64url(Ed25519 signature over "IS1.<claims>")>
+export const TOKEN_VERSION = 'IS1';
+
+const toSeconds = (date) => Math.floor(new Date(date).getTime() / 1000);
+
+function tokenError(message, code) {
+  const err = new Error(message);
+  err.code = code;
+  return err;
+}
+
+export function isTicketToken(value) {
+  return typeof value === 'string' && value.startsWith(`${TOKEN_VERSION}.`);
+}
+
+// Create a fresh Ed25519 key for an event and make it the signing key
+export async function createEventKey(eventId) {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  return EventSigningKey.create({
+    event: eventId,
+    kid: crypto.randomBytes(6).toString('base64url'),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' })
+  });
+}
+
+export async function getActiveEventKey(eventId) {
+  const key = await EventSigningKey.findOne({ event: eventId, status: 'active' })
+    .select('+privateKey')
+    .sort({ createdAt: -1 });
+  return key || createEventKey(eventId);
+}
+
+/**
+ * Sign a compact ticket token. Only identifiers and validity are embedded; names,
+ * emails and titles stay on the server.
+ */
+export async function signTicketToken(ticket, eventId) {
+  const key = await getActiveEventKey(eventId);
+  const claims = {
+    k: key.kid,
+    t: ticket.ticketId,
+    e: String(eventId),
+    y: ticket.ticketType,
+    f: toSeconds(ticket.validFrom),
+    u: toSeconds(ticket.validUntil)
+  };
+  const signingInput = `${TOKEN_VERSION}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput), crypto.createPrivateKey(key.privateKey));
+
+  return {
+    token: `${signingInput}.${signature.toString('base64url')}`,
+    kid: key.kid,
+    signature: signature.toString('hex')
+  };
+}
+
+export function decodeTicketToken(token) {
+  if (!isTicketToken(token)) throw tokenError("Unsupported ticket code format", 'format');
+  const parts = token.split('.');
+  if (parts.length !== 3) throw tokenError("Malformed ticket code", 'format');
+
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  } catch {
+    throw tokenError("Malformed ticket code", 'format');
+  }
+
+  return {
+    claims: {
+      kid: claims.k,
+      ticketId: claims.t,
+      eventId: claims.e,
+      ticketType: claims.y,
+      validFrom: new Date(claims.f * 1000),
+      validUntil: new Date(claims.u * 1000)
+    },
+    signingInput: `${parts[0]}.${parts[1]}`,
+    signature: Buffer.from(parts[2], 'base64url')
+  };
+}
+
+// Server-side verification against the stored key; throws with `code` on failure
+export async function verifyTicketToken(token, now = new Date()) {
+  const { claims, signingInput, signature } = decodeTicketToken(token);
+
+  const key = await EventSigningKey.findOne({ kid: claims.kid });
+  if (!key || String(key.event) !== claims.eventId) {
+    throw tokenError("Ticket was signed with an unknown key", 'unknown_key');
+  }
+  if (key.status === 'revoked') {
+    throw tokenError("Ticket was signed with a revoked key", 'revoked_key');
+  }
+  if (!crypto.verify(null, Buffer.from(signingInput), crypto.createPublicKey(key.publicKey), signature)) {
+    throw tokenError("Invalid ticket - security verification failed", 'bad_signature');
+  }
+  if (now < claims.validFrom || now > claims.validUntil) {
+    throw tokenError("Ticket is outside its validity window", 'expired');
+  }
+
+  return claims;
+}
+
+// Keys a scanner needs to verify tickets offline, as JWKs plus the revocation list
+export async function getPublishedKeys(eventId) {
+  const keys = await EventSigningKey.find({ event: eventId }).sort({ createdAt: 1 });
+  return {
+    eventId: String(eventId),
+    format: TOKEN_VERSION,
+    keys: keys
+      .filter(k => k.status !== 'revoked')
+      .map(k => ({
+        ...crypto.createPublicKey(k.publicKey).export({ format: 'jwk' }),
+        kid: k.kid,
+        use: 'sig',
+        alg: 'EdDSA',
+        status: k.status
+      })),
+    revoked: keys
+      .filter(k => k.status === 'revoked')
+      .map(k => ({ kid: k.kid, revokedAt: k.revokedAt })),
+    issuedAt: new Date().toISOString()
+  };
+}
+
+// Re-sign active tickets that were issued under `kid` with the event's current key
+async function resignTickets(eventId, kid) {
+  const tickets = await Ticket.find({ event: eventId, signingKeyId: kid, status: 'active' })
+    .populate('event', 'title');
+  const affectedUsers = new Set();
+
+  for (const ticket of tickets) {
+    const { token, kid: newKid, signature } = await signTicketToken(ticket, eventId);
+    ticket.qrCodeData = token;
+    ticket.verificationHash = signature;
+    ticket.signingKeyId = newKid;
+    ticket.pdfUrl = undefined;
+    await ticket.save();
+    affectedUsers.add(String(ticket.user));
+  }
+
+  const eventTitle = tickets[0]?.event?.title;
+  for (const userId of affectedUsers) {
+    try {
+      await notifyUser(userId, {
+        type: 'event_update',
+        title: 'Your Ticket QR Code Changed',
+        message: `For security reasons the QR code on your ticket for "${eventTitle}" was replaced. Please download your ticket again; the old code will no longer be accepted.`,
+        data: { eventId, eventTitle, reason: 'key_revoked' }
+      });
+    } catch (notificationError) {
+      console.error('❌ Failed to send ticket re-issue notification:', notificationError);
+    }
+  }
+
+  return tickets.length;
+}
+
+// Retire the current signing key; existing tickets stay valid, new tickets use a fresh key
+export async function rotateEventKey(eventId) {
+  await EventSigningKey.updateMany(
+    { event: eventId, status: 'active' },
+    { status: 'retired', retiredAt: new Date() }
+  );
+  return createEventKey(eventId);
+}
+
+/**
+ * Revoke a compromised key. Scanners reject anything it signed, so active tickets
+ * issued under it are re-signed with the current key and their holders notified.
+ */
+export async function revokeEventKey(eventId, kid, { revokedBy, reason } = {}) {
+  const key = await EventSigningKey.findOneAndUpdate(
+    { event: eventId, kid, status: { $ne: 'revoked' } },
+    { status: 'revoked', revokedAt: new Date(), revokedBy, revocationReason: reason },
+    { new: true }
+  );
+  if (!key) return null;
+
+  const reissued = await resignTickets(eventId, kid);
+  console.log(`🔑 Revoked ticket key ${kid} for event ${eventId}; re-signed ${reissued} ticket${reissued === 1 ? '' : 's'}`);
+  return { key, reissued };
+}
@@ -0,0 +1,184 @@
+import Event from "../models/Event.js";
+import Waitlist from "../models/Waitlist.js";
+import { getAvailability, groupByTier, reserveInventory, releaseInventory } from "./inventory.js";
+import { notifyUser } from "./notify.js";
+
+export const OFFER_WINDOW_MINUTES = Number(process.env.WAITLIST_OFFER_MINUTES) || 30;
+
+// Entries ahead of this one in the same event queue (1-based)
+export async function getQueuePosition(entry) {
+  if (entry.status !== 'waiting') return null;
+  const ahead = await Waitlist.countDocuments({
+    event: entry.event,
+    status: 'waiting',
+    createdAt: { $lt: entry.createdAt }
+  });
+  return ahead + 1;
+}
+
+// The inventory an offer holds: its tier, or only event-wide seats for 'any'
+const offerBreakdown = (offer) => offer.offeredTicketType && offer.offeredTicketType !== 'any'
+  ? [{ type: offer.offeredTicketType, quantity: offer.quantity }]
+  : [];
+
+// Give an offer's seats back to the event
+export const releaseOfferSeats = (offer) => releaseInventory(offer.event, offer.quantity, offerBreakdown(offer));
+
+// Seats open to an entry of this tier ('any' = event-wide) according to the latest counters
+function openSeats(availability, ticketType) {
+  if (ticketType === 'any') return availability.remaining;
+  return availability.tiers.find(t => t.type === ticketType)?.remaining || 0;
+}
+
+// Reserve seats for an entry in the first tier that has room; null when none does
+async function reserveForEntry(eventId, entry, availability) {
+  const candidates = availability.tiers.length === 0
+    ? ['any']
+    : (entry.ticketType === 'any' ? availability.tiers.map(t => t.type) : [entry.ticketType]);
+
+  for (const type of candidates) {
+    if (openSeats(availability, type) < entry.quantity) continue;
+    try {
+      const breakdown = type === 'any' ? [] : [{ type, quantity: entry.quantity }];
+      const event = await reserveInventory(eventId, entry.quantity, breakdown);
+      return { tierType: type, event };
+    } catch (reservationError) {
+      // Someone else took the seats first; try the next tier
+      if (!reservationError.status) throw reservationError;
+    }
+  }
+  return null;
+}
+
+/**
+ * Hand freed capacity to the front of the queue. Called whenever seats are released
+ * (cancellation, expired hold, host raising capacity). Each offer is time-limited and
+ * reserves its seats through the same conditional update as a booking, so they stay
+ * out of everyone else's reach until the offer is accepted or lapses.
+ */
+export async function offerReleasedCapacity(eventId) {
+  const event = await Event.findById(eventId).select('title totalSlots bookedSlots ticketPricing status');
+  if (!event || event.status === 'cancelled') return 0;
+
+  let availability = getAvailability(event);
+  const queue = await Waitlist.find({ event: eventId, status: 'waiting' }).sort({ createdAt: 1 });
+
+  let sent = 0;
+  for (const entry of queue) {
+    if (availability.remaining <= 0) break;
+
+    const reserved = await reserveForEntry(event._id, entry, availability);
+    if (!reserved) continue;
+    availability = getAvailability(reserved.event);
+    const tierType = reserved.tierType;
+
+    const offerExpiresAt = new Date(Date.now() + OFFER_WINDOW_MINUTES * 60 * 1000);
+    const claimed = await Waitlist.findOneAndUpdate(
+      { _id: entry._id, status: 'waiting' },
+      { status: 'offered', offeredAt: new Date(), offerExpiresAt, offeredTicketType: tierType },
+      { new: true }
+    );
+    if (!claimed) {
+      // The entry left the queue meanwhile
+      await releaseOfferSeats({ event: event._id, quantity: entry.quantity, offeredTicketType: tierType });
+      continue;
+    }
+    sent++;
+
+    try {
+      await notifyUser(entry.user, {
+        type: 'waitlist_offer',
+        title: 'Tickets Available!',
+        message: `${entry.quantity} ${tierType === 'any' ? '' : `${tierType} `}ticket${entry.quantity > 1 ? 's are' : ' is'} now available for "${event.title}". Book within ${OFFER_WINDOW_MINUTES} minutes before the offer passes to the next person.`,
+        data: {
+          waitlistId: claimed._id,
+          eventId: event._id,
+          eventTitle: event.title,
+          ticketType: tierType,
+          quantity: entry.quantity,
+          offerExpiresAt: offerExpiresAt.toISOString(),
+          bookingUrl: `/book/${event._id}`
+        }
+      });
+    } catch (notificationError) {
+      console.error('❌ Failed to send waitlist offer:', notificationError);
+    }
+  }
+
+  if (sent > 0) console.log(`📋 Sent ${sent} waitlist offer${sent > 1 ? 's' : ''} for event ${event._id}`);
+  return sent;
+}
+
+// Fire-and-forget wrapper for callers that must not fail when the waitlist does
+export function triggerWaitlistOffers(eventId) {
+  offerReleasedCapacity(eventId).catch(error => {
+    console.error(`❌ Failed to process waitlist for event ${eventId}:`, error);
+  });
+}
+
+// Lapse unanswered offers, give their seats back and pass them on to the next in line
+export async function sweepExpiredOffers() {
+  const lapsed = await Waitlist.find({ status: 'offered', offerExpiresAt: { $lte: new Date() } })
+    .select('event quantity offeredTicketType');
+  if (lapsed.length === 0) return 0;
+
+  const eventIds = new Set();
+  let expired = 0;
+  for (const offer of lapsed) {
+    // Only whoever flips the offer releases its seats
+    const flipped = await Waitlist.findOneAndUpdate({ _id: offer._id, status: 'offered' }, { status: 'expired' });
+    if (!flipped) continue;
+    await releaseOfferSeats(offer);
+    eventIds.add(String(offer.event));
+    expired++;
+  }
+
+  for (const eventId of eventIds) {
+    await offerReleasedCapacity(eventId);
+  }
+  return expired;
+}
+
+/**
+ * Take over the user's open offer for an event so their booking can use its
+ * seats. The offer is marked accepted straight away; restoreWaitlistOffer puts
+ * it back if the booking then fails.
+ */
+export const claimWaitlistOffer = (eventId, userId) => Waitlist.findOneAndUpdate(
+  { event: eventId, user: userId, status: 'offered', offerExpiresAt: { $gt: new Date() } },
+  { status: 'accepted' },
+  { new: true }
+);
+
+// Whether the seats an offer reserved are exactly what the booking needs
+export function offerCoversBooking(offer, seats, ticketBreakdown = []) {
+  const wanted = groupByTier(ticketBreakdown);
+  const held = groupByTier(offerBreakdown(offer));
+  return seats === offer.quantity &&
+    Object.keys(wanted).length === Object.keys(held).length &&
+    Object.entries(wanted).every(([type, quantity]) => held[type] === quantity);
+}
+
+// Reopen an offer claimed by a booking that failed, reserving its seats again if they were given up
+export async function restoreWaitlistOffer(offer, seatsStillHeld) {
+  if (!offer) return;
+  if (!seatsStillHeld) {
+    try {
+      await reserveInventory(offer.event, offer.quantity, offerBreakdown(offer));
+    } catch (reservationError) {
+      if (!reservationError.status) throw reservationError;
+      // The seats went to someone else meanwhile, so the offer can't be honoured
+      await Waitlist.updateOne({ _id: offer._id, status: 'accepted' }, { status: 'expired' });
+      return;
+    }
+  }
+  await Waitlist.updateOne({ _id: offer._id, status: 'accepted' }, { status: 'offered' });
+}
+
+// Record the booking on the claimed offer and close any place the user still held in the queue
+export async function acceptWaitlistOffer(eventId, userId, bookingId, offer) {
+  await Waitlist.updateMany(
+    { event: eventId, user: userId, $or: [{ status: 'waiting' }, ...(offer ? [{ _id: offer._id }] : [])] },
+    { status: 'accepted', acceptedBooking: bookingId }
+  );
+}
@@ -0,0 +1,162 @@
+import crypto from "crypto";
+import fs from "fs";
+import { createZip, readZip } from "./zip.js";
+
+const PASS_TYPE_IDENTIFIER = process.env.PASS_TYPE_IDENTIFIER || 'pass.com.ishow.ticket';
+const PASS_TEAM_IDENTIFIER = process.env.PASS_TEAM_IDENTIFIER || 'ISHOWTEST';
+const PASS_ORGANIZATION = process.env.PASS_ORGANIZATION_NAME || 'iShow';
+
+function passError(message, status = 500) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+// PEM may be given inline or as a file path
+function readPem(inlineVar, pathVar) {
+  if (process.env[inlineVar]) return process.env[inlineVar].replace(/\\n/g, '\n');
+  if (process.env[pathVar]) return fs.readFileSync(process.env[pathVar], 'utf8');
+  return null;
+}
+
+let signingIdentity;
+
+/**
+ * Signing key and X.509 certificate for pass bundles. Configure with
+ * PASS_SIGNING_KEY / PASS_SIGNING_CERT (inline PEM) or the *_PATH variants;
+ * `npm run pass:certs` creates a self-signed pair for local testing.
+ */
+export function getSigningIdentity() {
+  if (signingIdentity) return signingIdentity;
+
+  const keyPem = readPem('PASS_SIGNING_KEY', 'PASS_SIGNING_KEY_PATH');
+  const certPem = readPem('PASS_SIGNING_CERT', 'PASS_SIGNING_CERT_PATH');
+  if (!keyPem || !certPem) {
+    throw passError("Wallet passes are not configured on this server", 503);
+  }
+
+  const privateKey = crypto.createPrivateKey(keyPem);
+  const certificate = new crypto.X509Certificate(certPem);
+  if (!certificate.checkPrivateKey(privateKey)) {
+    throw passError("Wallet pass signing key does not match its certificate");
+  }
+
+  signingIdentity = { privateKey, certificate, certPem };
+  return signingIdentity;
+}
+
+const sha1 = (data) => crypto.createHash('sha1').update(data).digest('hex');
+
+function buildPassJson(ticket, event, user, qrMessage) {
+  const eventDate = event.date ? new Date(event.date) : null;
+  return {
+    formatVersion: 1,
+    passTypeIdentifier: PASS_TYPE_IDENTIFIER,
+    teamIdentifier: PASS_TEAM_IDENTIFIER,
+    serialNumber: ticket.ticketId,
+    organizationName: PASS_ORGANIZATION,
+    description: `Ticket for ${event.title}`,
+    logoText: PASS_ORGANIZATION,
+    foregroundColor: 'rgb(255, 255, 255)',
+    backgroundColor: 'rgb(0, 89, 63)',
+    ...(eventDate && { relevantDate: eventDate.toISOString() }),
+    expirationDate: new Date(ticket.validUntil).toISOString(),
+    voided: ticket.status !== 'active',
+    barcodes: [{
+      format: 'PKBarcodeFormatQR',
+      message: qrMessage,
+      messageEncoding: 'iso-8859-1',
+      altText: ticket.ticketId
+    }],
+    eventTicket: {
+      primaryFields: [
+        { key: 'event', label: 'EVENT', value: event.title }
+      ],
+      secondaryFields: [
+        { key: 'date', label: 'DATE', value: eventDate ? eventDate.toDateString() : 'TBA' },
+        { key: 'time', label: 'TIME', value: event.time || 'TBA' }
+      ],
+      auxiliaryFields: [
+        { key: 'type', label: 'TICKET', value: ticket.ticketType.toUpperCase() },
+        { key: 'attendee', label: 'ATTENDEE', value: ticket.attendeeName || user.name }
+      ],
+      backFields: [
+        { key: 'location', label: 'Location', value: event.location || '' },
+        { key: 'ticketId', label: 'Ticket ID', value: ticket.ticketId }
+      ]
+    }
+  };
+}
+
+/**
+ * Build a .pkpass-style bundle: pass.json, manifest.json with SHA-1 digests of every
+ * file, a detached signature over manifest.json, and the signer certificate so the
+ * bundle can be verified offline.
+ */
+export function buildPassBundle(ticket, event, user, qrMessage, extraFiles = []) {
+  const { privateKey, certPem } = getSigningIdentity();
+
+  const files = [
+    { name: 'pass.json', data: Buffer.from(JSON.stringify(buildPassJson(ticket, event, user, qrMessage), null, 2)) },
+    ...extraFiles
+  ];
+
+  const manifest = Object.fromEntries(files.map(f => [f.name, sha1(f.data)]));
+  const manifestBuffer = Buffer.from(JSON.stringify(manifest, null, 2));
+  const signature = crypto.sign('sha256', manifestBuffer, privateKey);
+
+  return createZip([
+    ...files,
+    { name: 'manifest.json', data: manifestBuffer },
+    { name: 'signature', data: signature },
+    { name: 'certificate.pem', data: Buffer.from(certPem) }
+  ]);
+}
+
+/**
+ * Check a bundle's manifest digests and signature. When `trustedCertPem` is given the
+ * embedded certificate must match it; otherwise the embedded certificate is used as-is.
+ */
+export function verifyPassBundle(bundle, trustedCertPem) {
+  const errors = [];
+  let entries;
+  try {
+    entries = readZip(bundle);
+  } catch (error) {
+    return { valid: false, errors: [error.message] };
+  }
+
+  const manifestBuffer = entries.get('manifest.json');
+  const signature = entries.get('signature');
+  const embeddedCert = entries.get('certificate.pem');
+  if (!manifestBuffer || !signature || !embeddedCert) {
+    return { valid: false, errors: ['Bundle is missing manifest.json, signature or certificate.pem'] };
+  }
+
+  const manifest = JSON.parse(manifestBuffer.toString('utf8'));
+  const unsigned = ['manifest.json', 'signature', 'certificate.pem'];
+  for (const name of entries.keys()) {
+    if (unsigned.includes(name)) continue;
+    if (!manifest[name]) errors.push(`${name} is not listed in the manifest`);
+    else if (manifest[name] !== sha1(entries.get(name))) errors.push(`${name} does not match its manifest digest`);
+  }
+  for (const name of Object.keys(manifest)) {
+    if (!entries.has(name)) errors.push(`${name} is listed in the manifest but missing`);
+  }
+
+  const certificate = new crypto.X509Certificate(embeddedCert);
+  if (trustedCertPem && certificate.fingerprint256 !== new crypto.X509Certificate(trustedCertPem).fingerprint256) {
+    errors.push('Bundle was signed with an untrusted certificate');
+  }
+  if (!crypto.verify('sha256', manifestBuffer, certificate.publicKey, signature)) {
+    errors.push('Manifest signature is invalid');
+  }
+
+  const passJson = entries.get('pass.json');
+  return {
+    valid: errors.length === 0,
+    errors,
+    signer: certificate.subject,
+    pass: passJson ? JSON.parse(passJson.toString('utf8')) : null
+  };
+}
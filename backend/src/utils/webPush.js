@@ -0,0 +1,248 @@
+import crypto from "crypto";
+import PushSubscription from "../models/PushSubscription.js";
+
+// How long a push service should hold a message for an offline device
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+// Messages go out as one aes128gcm record. Push services cap the whole body at
+// 4096 bytes, which leaves room for the 86-byte header, the tag and the delimiter.
+const RECORD_SIZE = 4096;
+const MAX_PAYLOAD_BYTES = 4096 - 86 - 16 - 1;
+
+const toBase64Url = (buffer) => Buffer.from(buffer).toString('base64url');
+const fromBase64Url = (value) => Buffer.from(String(value), 'base64url');
+
+function pushError(message, status = 500) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+// A fresh VAPID key pair in the base64url form VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY expect
+export function generateVapidKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const privateKey = ecdh.getPrivateKey();
+  return {
+    publicKey: toBase64Url(ecdh.getPublicKey()),
+    // Left-pad to the full 32 bytes a JWK `d` needs
+    privateKey: toBase64Url(Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey]))
+  };
+}
+
+let vapidIdentity;
+
+/**
+ * Application server keys for VAPID (RFC 8292). Configure VAPID_PUBLIC_KEY and
+ * VAPID_PRIVATE_KEY (`npm run push:keys` prints a pair) and VAPID_SUBJECT, a
+ * mailto: or https: contact for the push services (defaults to the client URL).
+ * Null when push is not set up.
+ */
+export function getVapidIdentity() {
+  if (vapidIdentity) return vapidIdentity;
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = process.env;
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) return null;
+
+  const publicKey = fromBase64Url(VAPID_PUBLIC_KEY);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw pushError("VAPID_PUBLIC_KEY must be an uncompressed P-256 point");
+  }
+  const privateKey = crypto.createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: VAPID_PRIVATE_KEY,
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33))
+    }
+  });
+
+  vapidIdentity = {
+    publicKey: VAPID_PUBLIC_KEY,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT || process.env.CLIENT_URL || 'https://ishow-ng.web.app'
+  };
+  return vapidIdentity;
+}
+
+export const pushConfigured = () => !!getVapidIdentity();
+
+// `Authorization: vapid t=<jwt>, k=<key>` for one push service origin, valid for 12 hours
+export function vapidAuthorization(endpoint, identity = getVapidIdentity()) {
+  const header = toBase64Url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = toBase64Url(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: identity.subject
+  }));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: identity.privateKey,
+    dsaEncoding: 'ieee-p1363'
+  });
+  return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${identity.publicKey}`;
+}
+
+/**
+ * Check a VAPID Authorization header the way a push service does. Returns the
+ * JWT claims and the signer's public key, or throws a 401.
+ */
+export function verifyVapidAuthorization(authorization, audience) {
+  const match = /^vapid t=([\w-]+\.[\w-]+\.[\w-]+),\s*k=([\w-]+)$/.exec(authorization || '');
+  if (!match) throw pushError("Missing or malformed VAPID authorization", 401);
+  const [, token, key] = match;
+  const [header, claims, signature] = token.split('.');
+
+  const publicKey = fromBase64Url(key);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) throw pushError("Invalid VAPID public key", 401);
+  const verifier = crypto.createPublicKey({
+    format: 'jwk',
+    key: { kty: 'EC', crv: 'P-256', x: toBase64Url(publicKey.subarray(1, 33)), y: toBase64Url(publicKey.subarray(33)) }
+  });
+  const valid = crypto.verify('sha256', Buffer.from(`${header}.${claims}`), {
+    key: verifier,
+    dsaEncoding: 'ieee-p1363'
+  }, fromBase64Url(signature));
+  if (!valid) throw pushError("VAPID signature does not verify", 401);
+
+  const payload = JSON.parse(fromBase64Url(claims).toString('utf8'));
+  if (payload.aud !== audience) throw pushError("VAPID audience does not match this push service", 401);
+  if (!payload.exp || payload.exp * 1000 < Date.now()) throw pushError("VAPID token has expired", 401);
+  return { claims: payload, publicKey: key };
+}
+
+// Content key and nonce for one message (RFC 8291 section 3.4 and RFC 8188)
+function deriveContentKeys(ecdhSecret, authSecret, receiverPublicKey, senderPublicKey, salt) {
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverPublicKey, senderPublicKey]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', ecdhSecret, authSecret, keyInfo, 32));
+  return {
+    key: Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)),
+    nonce: Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12))
+  };
+}
+
+/**
+ * Encrypt a payload for one subscription with the aes128gcm content coding,
+ * as a single record. `keys` are the subscription's base64url p256dh and auth.
+ */
+export function encryptPayload(payload, keys) {
+  const plaintext = Buffer.from(payload);
+  if (plaintext.length > MAX_PAYLOAD_BYTES) {
+    throw pushError(`Push payload is ${plaintext.length} bytes; the limit is ${MAX_PAYLOAD_BYTES}`, 413);
+  }
+  const receiverPublicKey = fromBase64Url(keys.p256dh);
+  const authSecret = fromBase64Url(keys.auth);
+
+  const sender = crypto.createECDH('prime256v1');
+  const senderPublicKey = sender.generateKeys();
+  const salt = crypto.randomBytes(16);
+  const { key, nonce } = deriveContentKeys(
+    sender.computeSecret(receiverPublicKey), authSecret, receiverPublicKey, senderPublicKey, salt
+  );
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', key, nonce);
+  // 0x02 marks the last (only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderPublicKey.length, 20);
+  return Buffer.concat([header, senderPublicKey, ciphertext]);
+}
+
+/**
+ * The receiving side of encryptPayload: what a browser does with a push
+ * message. `receiver` is the subscription's ECDH key pair and auth secret.
+ */
+export function decryptPayload(body, { ecdh, auth }) {
+  const idLength = body.length > 21 ? body.readUInt8(20) : 0;
+  const record = body.subarray(21 + idLength);
+  if (idLength === 0 || record.length < 17) throw pushError("Push message is too short", 400);
+  const salt = body.subarray(0, 16);
+  const senderPublicKey = body.subarray(21, 21 + idLength);
+
+  let padded;
+  try {
+    const { key, nonce } = deriveContentKeys(
+      ecdh.computeSecret(senderPublicKey), fromBase64Url(auth), ecdh.getPublicKey(), senderPublicKey, salt
+    );
+    const decipher = crypto.createDecipheriv('aes-128-gcm', key, nonce);
+    decipher.setAuthTag(record.subarray(record.length - 16));
+    padded = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+  } catch {
+    throw pushError("Push message does not decrypt", 400);
+  }
+
+  // Strip padding back to the record delimiter
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end -= 1;
+  if (end < 0 || padded[end] !== 2) throw pushError("Push message has no final record delimiter", 400);
+  return padded.subarray(0, end);
+}
+
+/**
+ * POST one encrypted, VAPID-signed message to a subscription's push service.
+ * Resolves with the push service's status code; rejects with `err.status` set
+ * to it when the message is refused (404/410 mean the subscription is gone).
+ */
+export async function sendWebPush(subscription, payload, { ttl = DEFAULT_TTL_SECONDS, urgency = 'normal', topic } = {}) {
+  const identity = getVapidIdentity();
+  if (!identity) throw pushError("Push notifications are not configured on this server", 503);
+
+  const headers = {
+    'Authorization': vapidAuthorization(subscription.endpoint, identity),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    'TTL': String(ttl),
+    'Urgency': urgency
+  };
+  if (topic) headers['Topic'] = topic;
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers,
+    body: encryptPayload(typeof payload === 'string' ? payload : JSON.stringify(payload), subscription.keys)
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw pushError(`Push service responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`, response.status);
+  }
+  return response.status;
+}
+
+// What the service worker receives; it shows `title` and `body` and opens `url` on click
+const pushPayload = ({ type, title, summary, data }) => ({
+  title,
+  body: summary,
+  tag: type,
+  url: '/notifications',
+  data: { type, ...data }
+});
+
+/**
+ * Push delivery channel for the notification dispatcher: sends to every live
+ * subscription the user has, and drops the ones the push service says are gone.
+ */
+export async function deliverPush(user, notification) {
+  if (!pushConfigured()) return;
+  const subscriptions = await PushSubscription.find({
+    user: user._id,
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+  });
+  if (subscriptions.length === 0) return;
+
+  const payload = pushPayload(notification);
+  await Promise.all(subscriptions.map(async (subscription) => {
+    try {
+      await sendWebPush(subscription, payload, { topic: notification.type.replace(/[^\w-]/g, '').slice(0, 32) });
+      await PushSubscription.updateOne({ _id: subscription._id }, { $set: { lastDeliveredAt: new Date() } });
+    } catch (error) {
+      if (error.status === 404 || error.status === 410) {
+        await PushSubscription.deleteOne({ _id: subscription._id });
+        console.log(`🔔 Removed expired push subscription for user ${user._id}`);
+      } else {
+        console.error(`❌ Push to ${new URL(subscription.endpoint).host} failed for user ${user._id}:`, error.message);
+      }
+    }
+  }));
+}
@@ -23,7 +23,10 @@ import Analytics from "./pages/Analytics";
 import ProfileEdit from "./pages/ProfileEdit";
 import UserProfile from "./pages/UserProfile";
 import EmailVerification from "./pages/EmailVerification";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
 import MyTickets from "./pages/MyTickets";
+import CheckInScanner from "./pages/CheckInScanner";
 import NotFound from "./pages/NotFound";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { authService } from "./lib/auth";
@@ -116,6 +119,8 @@ const App = () => {
                         <Route path="/about" element={<About />} />
                         <Route path="/auth" element={<Auth />} />
                         <Route path="/verify-email" element={<EmailVerification />} />
+                        <Route path="/forgot-password" element={<ForgotPassword />} />
+                        <Route path="/reset-password" element={<ResetPassword />} />
 
                         {/* Protected Routes */}
                         <Route path="/create-event" element={
@@ -142,6 +147,12 @@ const App = () => {
                           </ProtectedRoute>
                         } />
 
+                        <Route path="/events/:id/check-in" element={
+                          <ProtectedRoute>
+                            <CheckInScanner />
+                          </ProtectedRoute>
+                        } />
+
                         <Route path="/analytics" element={
                           <ProtectedRoute>
                             <Analytics />
@@ -1,12 +1,17 @@
-import { type FC } from 'react';
+import { useState, useEffect, useCallback, type FC } from 'react';
+import { Download, FileText } from 'lucide-react';
 import { Card, CardHeader, CardContent } from './ui/card';
 import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useToast } from '../hooks/use-toast';
+import { payoutsAPI } from '../lib/api';
+import { formatMoney } from '../lib/currency';
 
 interface DashboardMetric {
   title: string;
   value: string;
-  change: string;
-  trend: 'up' | 'down' | 'neutral';
+  detail: string;
 }
 
 interface ChartData {
@@ -15,152 +20,306 @@ interface ChartData {
   color: string;
 }
 
+interface LedgerTotals {
+  payments: number;
+  refunds: number;
+  platformFees: number;
+  payouts: number;
+  netRevenue: number;
+  collectedByHost: number;
+}
+
+interface CurrencyBalance {
+  currency: string;
+  totals: LedgerTotals;
+  balance: number;
+  bookings: number;
+  openPeriod: LedgerTotals & { payable: number; entries: number };
+  awaitingPayout: number;
+}
+
+interface LedgerEntry {
+  _id: string;
+  type: 'payment' | 'refund' | 'platform_fee' | 'payout';
+  amount: number;
+  payable: number;
+  currency: string;
+  description?: string;
+  event?: { title: string };
+  occurredAt: string;
+}
+
+interface PayoutSummary {
+  platformFeePercent: number;
+  balances: CurrencyBalance[];
+  monthly: Array<{ month: string; currency: string; netRevenue: number; payments: number }>;
+  recent: LedgerEntry[];
+}
+
+interface Settlement {
+  _id: string;
+  number: number;
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  totals: LedgerTotals;
+  payable: number;
+  closingBalance: number;
+  status: 'closed' | 'paid';
+  paidAt?: string;
+  payoutReference?: string;
+}
+
+const ENTRY_LABELS: Record<LedgerEntry['type'], string> = {
+  payment: 'Payment received',
+  refund: 'Refund',
+  platform_fee: 'Platform fee',
+  payout: 'Payout'
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Host payouts: ledger balances, monthly revenue and settlement statements
 export const AdvancedDashboard: FC = () => {
-  const metrics: DashboardMetric[] = [
-    { title: 'Total Bookings', value: '1,234', change: '+12%', trend: 'up' },
-    { title: 'Revenue', value: '$45,678', change: '+8%', trend: 'up' },
-    { title: 'Occupancy Rate', value: '87%', change: '-2%', trend: 'down' },
-    { title: 'Guest Satisfaction', value: '4.8', change: '+0.2', trend: 'up' },
-  ];
-
-  const chartData: ChartData[] = [
-    { name: 'Jan', value: 400, color: 'dashboard-chart-1' },
-    { name: 'Feb', value: 300, color: 'dashboard-chart-2' },
-    { name: 'Mar', value: 600, color: 'dashboard-chart-3' },
-    { name: 'Apr', value: 800, color: 'dashboard-chart-4' },
-    { name: 'May', value: 500, color: 'dashboard-chart-5' },
-  ];
+  const { toast } = useToast();
+  const [summary, setSummary] = useState<PayoutSummary | null>(null);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [selectedCurrency, setSelectedCurrency] = useState('');
+  const [closing, setClosing] = useState(false);
+
+  const loadPayouts = useCallback(() => {
+    Promise.all([payoutsAPI.getSummary(), payoutsAPI.getSettlements()])
+      .then(([summaryResponse, settlementsResponse]) => {
+        setSummary(summaryResponse.data);
+        setSettlements(settlementsResponse.data.settlements || []);
+      })
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to load payouts",
+          variant: "destructive"
+        });
+      });
+  }, [toast]);
+
+  useEffect(() => {
+    loadPayouts();
+  }, [loadPayouts]);
+
+  const balances = summary?.balances || [];
+  const current = balances.find(balance => balance.currency === selectedCurrency) || balances[0];
+  const currency = current?.currency || 'USD';
+  const money = (value: number) => formatMoney(value, currency);
+
+  const metrics: DashboardMetric[] = current ? [
+    { title: 'Paid Bookings', value: current.bookings.toLocaleString(), detail: `${money(current.totals.payments)} received` },
+    { title: 'Net Revenue', value: money(current.totals.netRevenue), detail: `after ${money(current.totals.refunds)} refunds and ${money(current.totals.platformFees)} fees` },
+    { title: 'Balance Owed to You', value: money(current.balance), detail: current.balance < 0 ? 'you owe platform fees' : 'held by the platform' },
+    { title: 'Awaiting Payout', value: money(current.awaitingPayout), detail: `${money(current.openPeriod.payable)} in the open period` },
+  ] : [];
+
+  // Last six months of net revenue in the selected currency
+  const chartData: ChartData[] = Array.from({ length: 6 }, (_, index) => {
+    const date = new Date();
+    date.setMonth(date.getMonth() - 5 + index, 1);
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const row = summary?.monthly.find(month => month.month === key && month.currency === currency);
+    return { name: MONTHS[date.getMonth()], value: Math.max(row?.netRevenue || 0, 0), color: `dashboard-chart-${(index % 5) + 1}` };
+  });
+  const chartMax = Math.max(...chartData.map(data => data.value), 1);
+
+  const handleClosePeriod = async () => {
+    setClosing(true);
+    try {
+      const response = await payoutsAPI.closePeriod();
+      toast({ title: "Period closed", description: `${response.data.settlements.length} statement(s) ready to download.` });
+      loadPayouts();
+    } catch (error) {
+      toast({
+        title: "Could not close period",
+        description: (error as { response?: { data?: { message?: string } } })?.response?.data?.message || "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const downloadStatement = async (settlement: Settlement, format: 'csv' | 'pdf') => {
+    try {
+      const response = await payoutsAPI.downloadStatement(settlement._id, format);
+      const blob = new Blob([response.data], { type: format === 'pdf' ? 'application/pdf' : 'text/csv' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `statement-${settlement.number}-${settlement.currency}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to download statement",
+        variant: "destructive"
+      });
+    }
+  };
 
   return (
-    <div className="w-full space-y-6 p-6">
+    <div className="w-full space-y-6">
       {/* Header */}
-      <div className="flex justify-between items-center">
-        <h1 className="text-3xl font-bold bg-gradient-dashboard bg-clip-text text-transparent">
-          Host Dashboard
-        </h1>
-        <Button className="animate-glow">
-          Generate Report
-        </Button>
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h2 className="text-2xl font-bold bg-gradient-dashboard bg-clip-text text-transparent">
+            Payouts
+          </h2>
+          {summary && summary.platformFeePercent > 0 && (
+            <p className="text-xs text-muted-foreground">Platform fee: {summary.platformFeePercent}% of each confirmed payment</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {balances.length > 1 && (
+            <Select value={currency} onValueChange={setSelectedCurrency}>
+              <SelectTrigger className="w-[110px]" aria-label="Ledger currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {balances.map(balance => (
+                  <SelectItem key={balance.currency} value={balance.currency}>{balance.currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button className="animate-glow" onClick={handleClosePeriod} disabled={closing || !balances.some(balance => balance.openPeriod.entries > 0)}>
+            {closing ? 'Closing...' : 'Close Period'}
+          </Button>
+        </div>
       </div>
 
-      {/* Metrics Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {metrics.map((metric, index) => (
-          <Card 
-            key={metric.title}
-            className="bg-dashboard-widget backdrop-blur-md border-gray-300 animate-widget-appear"
-            style={{ animationDelay: `${index * 0.1}s` }}
-          >
-            <CardContent className="p-6">
-              <div className="animate-metric-pulse">
-                <h3 className="text-sm font-medium text-muted-foreground mb-2">
-                  {metric.title}
-                </h3>
-                <div className="flex items-center justify-between">
-                  <span className="text-2xl font-bold">{metric.value}</span>
-                  <span 
-                    className={`text-sm px-2 py-1 rounded-full ${
-                      metric.trend === 'up' 
-                        ? 'bg-notification-success/20 text-notification-success' 
-                        : metric.trend === 'down'
-                        ? 'bg-notification-error/20 text-notification-error'
-                        : 'bg-notification-info/20 text-notification-info'
-                    }`}
-                  >
-                    {metric.change}
-                  </span>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
-
-      {/* Charts Section */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Revenue Chart */}
-        <Card className="bg-dashboard-widget backdrop-blur-md border-glass-border">
-          <CardHeader>
-            <h3 className="text-lg font-semibold">Monthly Revenue</h3>
-          </CardHeader>
-          <CardContent>
-            <div className="h-64 flex items-end justify-between space-x-2">
-              {chartData.map((data, index) => (
-                <div key={data.name} className="flex-1 flex flex-col items-center">
-                  <div 
-                    className={`w-full bg-${data.color} rounded-t-lg animate-chart-draw`}
-                    style={{ 
-                      height: `${(data.value / 800) * 200}px`,
-                      animationDelay: `${index * 0.2}s`
-                    }}
-                  ></div>
-                  <span className="text-xs mt-2 text-muted-foreground">{data.name}</span>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Real-time Activity */}
-        <Card className="bg-dashboard-widget backdrop-blur-md border-glass-border">
-          <CardHeader>
-            <h3 className="text-lg font-semibold">Real-time Activity</h3>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {[
-              { user: 'John Doe', action: 'New booking', time: '2 min ago', type: 'booking' },
-              { user: 'Jane Smith', action: 'Payment received', time: '5 min ago', type: 'payment' },
-              { user: 'Mike Johnson', action: 'Check-in', time: '10 min ago', type: 'checkin' },
-              { user: 'Sarah Wilson', action: 'Review submitted', time: '15 min ago', type: 'review' },
-            ].map((activity, index) => (
-              <div 
-                key={index}
-                className="flex items-center space-x-3 p-3 rounded-lg bg-dashboard-metric/50 animate-fade-in"
+      {!summary ? (
+        <p className="text-center text-muted-foreground py-6">Loading payouts...</p>
+      ) : balances.length === 0 ? (
+        <p className="text-center text-muted-foreground py-6">No confirmed payments yet. Payments, refunds and fees for your events will show up here.</p>
+      ) : (
+        <>
+          {/* Metrics Grid */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {metrics.map((metric, index) => (
+              <Card
+                key={metric.title}
+                className="bg-dashboard-widget backdrop-blur-md border-gray-300 animate-widget-appear"
                 style={{ animationDelay: `${index * 0.1}s` }}
               >
-                <div className={`w-3 h-3 rounded-full ${
-                  activity.type === 'booking' ? 'bg-dashboard-chart-1' :
-                  activity.type === 'payment' ? 'bg-dashboard-chart-2' :
-                  activity.type === 'checkin' ? 'bg-dashboard-chart-3' :
-                  'bg-dashboard-chart-4'
-                } animate-pulse`}></div>
-                <div className="flex-1">
-                  <p className="text-sm font-medium">{activity.user}</p>
-                  <p className="text-xs text-muted-foreground">{activity.action}</p>
-                </div>
-                <span className="text-xs text-muted-foreground">{activity.time}</span>
-              </div>
+                <CardContent className="p-6">
+                  <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                    {metric.title}
+                  </h3>
+                  <span className="text-2xl font-bold">{metric.value}</span>
+                  <p className="text-xs text-muted-foreground mt-1">{metric.detail}</p>
+                </CardContent>
+              </Card>
             ))}
-          </CardContent>
-        </Card>
-      </div>
+          </div>
 
-      {/* Performance Monitor */}
+          {/* Charts Section */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Revenue Chart */}
+            <Card className="bg-dashboard-widget backdrop-blur-md border-glass-border">
+              <CardHeader>
+                <h3 className="text-lg font-semibold">Monthly Net Revenue</h3>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64 flex items-end justify-between space-x-2">
+                  {chartData.map((data, index) => (
+                    <div key={data.name} className="flex-1 flex flex-col items-center">
+                      <span className="text-xs mb-1 text-muted-foreground">{data.value > 0 ? money(data.value) : ''}</span>
+                      <div
+                        className={`w-full bg-${data.color} rounded-t-lg animate-chart-draw`}
+                        style={{
+                          height: `${(data.value / chartMax) * 200}px`,
+                          animationDelay: `${index * 0.2}s`
+                        }}
+                      ></div>
+                      <span className="text-xs mt-2 text-muted-foreground">{data.name}</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Recent Activity */}
+            <Card className="bg-dashboard-widget backdrop-blur-md border-glass-border">
+              <CardHeader>
+                <h3 className="text-lg font-semibold">Recent Activity</h3>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {summary.recent.map((entry, index) => (
+                  <div
+                    key={entry._id}
+                    className="flex items-center space-x-3 p-3 rounded-lg bg-dashboard-metric/50 animate-fade-in"
+                    style={{ animationDelay: `${index * 0.1}s` }}
+                  >
+                    <div className={`w-3 h-3 rounded-full ${
+                      entry.type === 'payment' ? 'bg-dashboard-chart-1' :
+                      entry.type === 'refund' ? 'bg-dashboard-chart-2' :
+                      entry.type === 'platform_fee' ? 'bg-dashboard-chart-3' :
+                      'bg-dashboard-chart-4'
+                    }`}></div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{entry.event?.title || entry.description || ENTRY_LABELS[entry.type]}</p>
+                      <p className="text-xs text-muted-foreground">{ENTRY_LABELS[entry.type]} · {new Date(entry.occurredAt).toLocaleDateString()}</p>
+                    </div>
+                    <span className="text-sm font-medium">
+                      {formatMoney(entry.type === 'payout' ? -entry.payable : entry.amount, entry.currency)}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+
+      {/* Settlement statements */}
       <Card className="bg-dashboard-widget backdrop-blur-md border-glass-border">
         <CardHeader>
-          <h3 className="text-lg font-semibold">System Performance</h3>
+          <h3 className="text-lg font-semibold">Statements</h3>
         </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {[
-              { label: 'Server Load', value: 45, color: 'dashboard-chart-1' },
-              { label: 'Response Time', value: 78, color: 'dashboard-chart-2' },
-              { label: 'Memory Usage', value: 62, color: 'dashboard-chart-3' },
-            ].map((stat, index) => (
-              <div key={stat.label} className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>{stat.label}</span>
-                  <span>{stat.value}%</span>
+        <CardContent className="space-y-3">
+          {settlements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Close a period to produce your first settlement statement.</p>
+          ) : (
+            settlements.map(settlement => (
+              <div key={settlement._id} className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg bg-dashboard-metric/50">
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <FileText className="h-4 w-4" />
+                    Statement #{settlement.number} · {settlement.currency}
+                    <Badge variant={settlement.status === 'paid' ? 'default' : 'secondary'}>
+                      {settlement.status === 'paid' ? 'Paid' : 'Awaiting payout'}
+                    </Badge>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(settlement.periodStart).toLocaleDateString()} – {new Date(settlement.periodEnd).toLocaleDateString()}
+                    {' · '}Net {formatMoney(settlement.totals.netRevenue, settlement.currency)}
+                    {' · '}Payable {formatMoney(settlement.payable, settlement.currency)}
+                    {settlement.paidAt ? ` · Paid ${new Date(settlement.paidAt).toLocaleDateString()}` : ''}
+                  </p>
                 </div>
-                <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
-                  <div 
-                    className={`h-full bg-${stat.color} rounded-full animate-progress-bar`}
-                    style={{ width: `${stat.value}%`, animationDelay: `${index * 0.2}s` }}
-                  ></div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => downloadStatement(settlement, 'csv')}>
+                    <Download className="h-4 w-4 mr-1" />
+                    CSV
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => downloadStatement(settlement, 'pdf')}>
+                    <Download className="h-4 w-4 mr-1" />
+                    PDF
+                  </Button>
                 </div>
               </div>
-            ))}
-          </div>
+            ))
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,281 @@
+import { useState, type ChangeEvent, type FC } from 'react';
+import { CheckCircle, FileSpreadsheet, Landmark, Upload, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useToast } from '../hooks/use-toast';
+import { paymentReceiptAPI } from '../lib/api';
+import { triggerNotificationRefresh } from '../utils/notifications';
+
+interface StatementLine {
+  lineId: string;
+  postedAt: string;
+  amount: number;
+  description?: string;
+  reference?: string;
+}
+
+interface ProposedReceipt {
+  _id: string;
+  user?: { name: string; email: string };
+  event?: { title: string; date: string };
+  amount: number;
+  currency?: string;
+  transactionReference?: string;
+  createdAt: string;
+}
+
+interface Proposal {
+  receiptId: string;
+  action: 'confirm' | 'reject';
+  lineId?: string;
+  score?: number;
+  reasons: string[];
+  // The receipt doesn't match the booking total; left for the host to tick deliberately
+  amountMismatch?: boolean;
+  receipt: ProposedReceipt;
+  line?: StatementLine;
+}
+
+interface StatementSummary {
+  _id: string;
+  filename?: string;
+  format: 'csv' | 'ofx';
+  currency?: string;
+  coverage?: { from: string; to: string };
+  lineCount: number;
+  creditCount: number;
+}
+
+interface StatementMatches {
+  statement: StatementSummary;
+  proposals: Proposal[];
+  unresolved: ProposedReceipt[];
+}
+
+interface BankStatementImportProps {
+  eventId?: string;
+  onApplied?: () => void;
+}
+
+// Upload a bank export, review the proposed matches and confirm/reject receipts in bulk
+const BankStatementImport: FC<BankStatementImportProps> = ({ eventId, onApplied }) => {
+  const { toast } = useToast();
+  const [dateFormat, setDateFormat] = useState<'auto' | 'dmy' | 'mdy'>('auto');
+  const [importing, setImporting] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [matches, setMatches] = useState<StatementMatches | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const showMatches = (data: StatementMatches) => {
+    setMatches(data);
+    // Confirmations are pre-selected; rejections need an explicit tick
+    setSelected(new Set(data.proposals.filter(p => p.action === 'confirm' && !p.amountMismatch).map(p => p.receiptId)));
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const content = await file.text();
+      const response = await paymentReceiptAPI.importStatement({
+        content,
+        filename: file.name,
+        dateFormat,
+        eventId
+      });
+      showMatches(response.data);
+      toast({
+        title: "Statement imported",
+        description: `${response.data.statement.lineCount} transactions read, ${response.data.proposals.length} receipts matched.`
+      });
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } })?.response?.data?.message;
+      toast({
+        title: "Import failed",
+        description: message || "Could not read this bank statement.",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const toggle = (receiptId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(receiptId);
+      else next.delete(receiptId);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!matches) return;
+    const decisions = matches.proposals
+      .filter(p => selected.has(p.receiptId))
+      .map(p => ({
+        receiptId: p.receiptId,
+        action: p.action,
+        lineId: p.lineId,
+        note: p.action === 'reject' ? p.reasons.join('. ') : undefined
+      }));
+    if (decisions.length === 0) return;
+
+    setApplying(true);
+    try {
+      const response = await paymentReceiptAPI.applyStatementDecisions(matches.statement._id, decisions);
+      const { confirmed, rejected, skipped } = response.data;
+      toast({
+        title: "Payments verified",
+        description: `${confirmed.length} confirmed, ${rejected.length} rejected${skipped.length ? `, ${skipped.length} skipped` : ''}.`
+      });
+      triggerNotificationRefresh();
+      onApplied?.();
+
+      const refreshed = await paymentReceiptAPI.getStatement(matches.statement._id);
+      showMatches(refreshed.data);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to apply the statement matches",
+        variant: "destructive"
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const formatMoney = (amount: number, currency?: string) =>
+    `${currency && currency !== 'USD' ? `${currency} ` : '$'}${amount.toFixed(2)}`;
+
+  return (
+    <Card className="backdrop-blur-glass bg-gradient-glass border-gray-300 shadow-glass">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Landmark className="h-5 w-5 mr-2" />
+          Verify with Bank Statement
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Upload a CSV or OFX export from your bank. Credits are matched to pending receipts by amount,
+          transaction reference and date.
+        </p>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label>Date format (CSV)</Label>
+            <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as 'auto' | 'dmy' | 'mdy')}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect</SelectItem>
+                <SelectItem value="dmy">DD/MM/YYYY</SelectItem>
+                <SelectItem value="mdy">MM/DD/YYYY</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button asChild variant="outline" disabled={importing}>
+            <label className="cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              {importing ? 'Reading statement...' : 'Upload statement'}
+              <input
+                type="file"
+                accept=".csv,.ofx,.qfx,text/csv"
+                className="hidden"
+                onChange={handleFile}
+                disabled={importing}
+              />
+            </label>
+          </Button>
+        </div>
+
+        {matches && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              <span>{matches.statement.filename || 'Statement'}</span>
+              <Badge variant="outline">{matches.statement.format.toUpperCase()}</Badge>
+              <span>{matches.statement.creditCount} credits</span>
+              {matches.statement.coverage && (
+                <span>
+                  {new Date(matches.statement.coverage.from).toLocaleDateString()} – {new Date(matches.statement.coverage.to).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+
+            {matches.proposals.length === 0 ? (
+              <p className="text-center text-muted-foreground py-4">No pending receipts could be matched to this statement.</p>
+            ) : (
+              <div className="space-y-2">
+                {matches.proposals.map(proposal => (
+                  <div key={proposal.receiptId} className="flex items-start gap-3 p-3 border rounded-lg">
+                    <Checkbox
+                      checked={selected.has(proposal.receiptId)}
+                      onCheckedChange={(checked) => toggle(proposal.receiptId, checked === true)}
+                      className="mt-1"
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="font-medium truncate">
+                          {proposal.receipt.user?.name} · {proposal.receipt.event?.title}
+                        </p>
+                        {proposal.action === 'confirm' ? (
+                          <Badge className="bg-green-600">
+                            <CheckCircle className="h-3 w-3 mr-1" />
+                            Confirm{proposal.score !== undefined && ` · ${proposal.score}%`}
+                          </Badge>
+                        ) : (
+                          <Badge variant="destructive">
+                            <XCircle className="h-3 w-3 mr-1" />
+                            Reject
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm">
+                        Receipt {formatMoney(proposal.receipt.amount, proposal.receipt.currency)}
+                        {proposal.receipt.transactionReference && ` · ref ${proposal.receipt.transactionReference}`}
+                        {' · uploaded '}{new Date(proposal.receipt.createdAt).toLocaleDateString()}
+                      </p>
+                      {proposal.line && (
+                        <p className="text-sm text-muted-foreground">
+                          Bank: {formatMoney(proposal.line.amount, proposal.receipt.currency)} on {new Date(proposal.line.postedAt).toLocaleDateString()}
+                          {proposal.line.reference && ` · ${proposal.line.reference}`}
+                          {proposal.line.description && ` · ${proposal.line.description}`}
+                        </p>
+                      )}
+                      <p className={`text-xs ${proposal.amountMismatch ? 'text-amber-600' : 'text-muted-foreground'}`}>{proposal.reasons.join(' · ')}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {matches.unresolved.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {matches.unresolved.length} pending receipt{matches.unresolved.length === 1 ? '' : 's'} fall outside this
+                statement's dates and still need a manual check.
+              </p>
+            )}
+
+            {matches.proposals.length > 0 && (
+              <Button onClick={handleApply} disabled={applying || selected.size === 0}>
+                {applying ? 'Applying...' : `Apply ${selected.size} selected`}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BankStatementImport;
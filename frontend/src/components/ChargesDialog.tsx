@@ -0,0 +1,193 @@
+import { useState, type FC } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Checkbox } from './ui/checkbox';
+import { useToast } from '../hooks/use-toast';
+import { useEvents, type EventCharge } from '../contexts/EventContext';
+
+interface ChargesDialogProps {
+  eventId: string;
+  eventTitle: string;
+  currency?: string;
+  ticketTypes: string[];
+  charges: EventCharge[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Amounts stay as typed until saved so a half-entered number doesn't jump around
+type ChargeRow = Omit<EventCharge, 'amount'> & { amount: string };
+
+const newCharge = (): ChargeRow => ({
+  name: '',
+  kind: 'fee',
+  calculation: 'percentage',
+  amount: '',
+  inclusive: false,
+  ticketTypes: []
+});
+
+const toRows = (charges: EventCharge[]): ChargeRow[] =>
+  charges.map(charge => ({ ...charge, amount: String(charge.amount), ticketTypes: charge.ticketTypes || [] }));
+
+const ChargesDialog: FC<ChargesDialogProps> = ({ eventId, eventTitle, currency = 'USD', ticketTypes, charges, open, onOpenChange }) => {
+  const { updateEvent } = useEvents();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ChargeRow[]>(() => toRows(charges));
+  const [saving, setSaving] = useState(false);
+
+  // Closing without saving throws away the edits
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setRows(toRows(charges));
+    onOpenChange(nextOpen);
+  };
+
+  const updateRow = (index: number, changes: Partial<ChargeRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const toggleRowTier = (index: number, tier: string, checked: boolean) => {
+    setRows(prev => prev.map((row, i) => i !== index ? row : {
+      ...row,
+      ticketTypes: checked ? [...row.ticketTypes, tier] : row.ticketTypes.filter(t => t !== tier)
+    }));
+  };
+
+  const isValid = rows.every(row => row.name.trim() && row.amount !== '' && Number(row.amount) >= 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await updateEvent(eventId, {
+      charges: rows.map(row => ({ ...row, name: row.name.trim(), amount: Number(row.amount) }))
+    });
+    setSaving(false);
+    if (saved) {
+      toast({
+        title: "Fees and taxes saved",
+        description: "New bookings will be priced with these charges."
+      });
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto glass-card backdrop-blur-glass shadow-glass">
+        <DialogHeader>
+          <DialogTitle>Fees &amp; Taxes</DialogTitle>
+          <DialogDescription>
+            Service fees and taxes for "{eventTitle}". Exclusive charges are added at checkout; inclusive ones are already part of your ticket prices and are shown separately on receipts and tickets.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {rows.length === 0 && (
+            <p className="text-center text-muted-foreground py-6">No fees or taxes. Attendees pay the ticket price only.</p>
+          )}
+          {rows.map((row, index) => (
+            <div key={index} className="space-y-3 p-3 border rounded-lg">
+              <div className="grid gap-3 md:grid-cols-4">
+                <div className="md:col-span-2">
+                  <Label htmlFor={`charge-name-${index}`}>Name</Label>
+                  <Input
+                    id={`charge-name-${index}`}
+                    placeholder={row.kind === 'tax' ? 'VAT' : 'Service fee'}
+                    value={row.name}
+                    maxLength={60}
+                    onChange={(e) => updateRow(index, { name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Select value={row.kind} onValueChange={(kind) => updateRow(index, { kind: kind as EventCharge['kind'] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fee">Fee</SelectItem>
+                      <SelectItem value="tax">Tax</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Calculated as</Label>
+                  <Select
+                    value={row.calculation}
+                    onValueChange={(calculation) => updateRow(index, { calculation: calculation as EventCharge['calculation'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percentage">Percentage</SelectItem>
+                      <SelectItem value="flat">Flat per ticket</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor={`charge-amount-${index}`}>{row.calculation === 'percentage' ? 'Rate (%)' : `Amount (${currency})`}</Label>
+                  <Input
+                    id={`charge-amount-${index}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={row.amount}
+                    onChange={(e) => updateRow(index, { amount: e.target.value })}
+                  />
+                </div>
+                <div className="md:col-span-2 flex items-end gap-2 pb-2">
+                  <Switch
+                    id={`charge-inclusive-${index}`}
+                    checked={row.inclusive}
+                    onCheckedChange={(inclusive) => updateRow(index, { inclusive })}
+                  />
+                  <Label htmlFor={`charge-inclusive-${index}`}>Included in ticket price</Label>
+                </div>
+                <div className="flex items-end justify-end">
+                  <Button variant="ghost" size="sm" onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {ticketTypes.length > 1 && (
+                <div>
+                  <Label>Applies to</Label>
+                  <div className="flex flex-wrap gap-4 mt-2">
+                    {ticketTypes.map(tier => (
+                      <label key={tier} className="flex items-center gap-2 text-sm capitalize">
+                        <Checkbox
+                          checked={row.ticketTypes.includes(tier)}
+                          onCheckedChange={(checked) => toggleRowTier(index, tier, checked === true)}
+                        />
+                        {tier}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">Leave all unticked to apply to every ticket type.</p>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setRows(prev => [...prev, newCharge()])} disabled={rows.length >= 10}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Charge
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !isValid}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChargesDialog;
@@ -0,0 +1,31 @@
+import { type FC } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { SUPPORTED_CURRENCIES } from '../lib/currency';
+
+interface DisplayCurrencySelectProps {
+  value: string;
+  onChange: (currency: string) => void;
+  className?: string;
+}
+
+// Radix Select can't hold an empty value, so "event currency" travels as a sentinel
+const EVENT_CURRENCY = 'event';
+
+const DisplayCurrencySelect: FC<DisplayCurrencySelectProps> = ({ value, onChange, className }) => (
+  <Select
+    value={value || EVENT_CURRENCY}
+    onValueChange={(next) => onChange(next === EVENT_CURRENCY ? '' : next)}
+  >
+    <SelectTrigger className={className ?? 'w-[170px]'} aria-label="Display currency">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={EVENT_CURRENCY}>Event currency</SelectItem>
+      {SUPPORTED_CURRENCIES.map(currency => (
+        <SelectItem key={currency} value={currency}>Show in {currency}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default DisplayCurrencySelect;
@@ -0,0 +1,32 @@
+import type { FC } from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+
+interface EmailCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// The six-digit code from verification and sign-in emails
+const EmailCodeInput: FC<EmailCodeInputProps> = ({ value, onChange, onComplete, disabled }) => (
+  <InputOTP
+    maxLength={6}
+    pattern={REGEXP_ONLY_DIGITS}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoComplete="one-time-code"
+    containerClassName="justify-center"
+  >
+    <InputOTPGroup>
+      {[0, 1, 2, 3, 4, 5].map(index => (
+        <InputOTPSlot key={index} index={index} className="h-12 w-11 text-lg" />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+export default EmailCodeInput;
@@ -14,12 +14,15 @@ interface EventCardProps {
   event: Event;
   onEdit?: (event: Event) => void;
   showActions?: boolean;
+  // Approximate price in the viewer's display currency (see useDisplayCurrency)
+  formatConverted?: (amount: number, currency: string) => string | null;
 }
 
 const EventCard: FC<EventCardProps> = ({
   event,
   onEdit,
-  showActions = true
+  showActions = true,
+  formatConverted
 }) => {
   const { currentUser, unbookEvent, users } = useEvents();
   const { toast } = useToast();
@@ -304,7 +307,12 @@ const EventCard: FC<EventCardProps> = ({
                   .map(([type, details]) => (
                     <div key={type} className="flex items-center justify-between text-[13px] font-[420]">
                       <span className="text-muted-foreground capitalize">{type.replace(/([A-Z])/g, ' $1').replace(/For/g, 'for')}:</span>
-                      <span className="text-[13px] font-[420] text-muted-foreground">{getCurrencySymbol(event.currency || 'USD')}{(details as any).price}</span>
+                      <span className="text-[13px] font-[420] text-muted-foreground">
+                        {getCurrencySymbol(event.currency || 'USD')}{(details as any).price}
+                        {formatConverted?.(details.price, event.currency || 'USD') && (
+                          <span className="ml-1 opacity-75">({formatConverted(details.price, event.currency || 'USD')})</span>
+                        )}
+                      </span>
                     </div>
                   ))
                 }
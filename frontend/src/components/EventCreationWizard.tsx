@@ -27,6 +27,9 @@ interface TicketCategory {
   sold: number;
   description: string;
   isActive: boolean;
+  // Cheaper price for bookings made before earlyBirdUntil
+  earlyBirdPrice?: number;
+  earlyBirdUntil?: string;
 }
 
 interface PaymentMethod {
@@ -74,6 +77,12 @@ const EventCreationWizard: FC<EventCreationWizardProps> = ({
     currency: initialData?.currency || 'USD',
     capacity: 10,
     images: initialData?.images || [] as string[],
+    holdWindowMinutes: initialData?.holdWindowMinutes || 60,
+    cancellationPolicy: initialData?.cancellationPolicy || {
+      allowCancellation: true,
+      deadlineHours: 24,
+      refundPercentage: 100,
+    },
   });
 
   const [ticketCategories, setTicketCategories] = useState<TicketCategory[]>(
@@ -104,6 +113,13 @@ const EventCreationWizard: FC<EventCreationWizardProps> = ({
     setEventData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleCancellationPolicyChange = (field: keyof typeof eventData.cancellationPolicy, value: boolean | number) => {
+    setEventData(prev => ({
+      ...prev,
+      cancellationPolicy: { ...prev.cancellationPolicy, [field]: value }
+    }));
+  };
+
   // Image Management
   const handleImageUpload = async (e: ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []).slice(0, 3);
@@ -905,6 +921,29 @@ const EventCreationWizard: FC<EventCreationWizardProps> = ({
                             disabled={!category.isActive}
                           />
                         </div>
+                        <div>
+                          <Label htmlFor={`early-price-${category.id}`} className="text-xs">Early-Bird Price (Optional)</Label>
+                          <Input
+                            id={`early-price-${category.id}`}
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder="No early-bird price"
+                            value={category.earlyBirdPrice ?? ''}
+                            onChange={(e) => updateTicketCategory(category.id, 'earlyBirdPrice', e.target.value === '' ? undefined : parseFloat(e.target.value) || 0)}
+                            disabled={!category.isActive}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`early-until-${category.id}`} className="text-xs">Early-Bird Ends</Label>
+                          <Input
+                            id={`early-until-${category.id}`}
+                            type="datetime-local"
+                            value={category.earlyBirdUntil || ''}
+                            onChange={(e) => updateTicketCategory(category.id, 'earlyBirdUntil', e.target.value || undefined)}
+                            disabled={!category.isActive || category.earlyBirdPrice === undefined}
+                          />
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -980,6 +1019,59 @@ const EventCreationWizard: FC<EventCreationWizardProps> = ({
                 <h4 className="font-semibold mb-3">Add Payment Method</h4>
                 {renderPaymentMethodForm()}
               </div>
+
+              {/* Payment Hold Window */}
+              <div className="space-y-2">
+                <Label htmlFor="holdWindowMinutes">Payment hold window (minutes)</Label>
+                <Input
+                  id="holdWindowMinutes"
+                  type="number"
+                  min={5}
+                  value={eventData.holdWindowMinutes}
+                  onChange={(e) => handleEventDataChange('holdWindowMinutes', Math.max(5, parseInt(e.target.value) || 5))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Unpaid bookings release their seats if no payment receipt is uploaded within this time
+                </p>
+              </div>
+
+              {/* Cancellation Policy */}
+              <div className="space-y-3">
+                <h4 className="font-semibold">Cancellation Policy</h4>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="allowCancellation">Allow attendees to cancel bookings</Label>
+                  <Switch
+                    id="allowCancellation"
+                    checked={eventData.cancellationPolicy.allowCancellation}
+                    onCheckedChange={(checked) => handleCancellationPolicyChange('allowCancellation', checked)}
+                  />
+                </div>
+                {eventData.cancellationPolicy.allowCancellation && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="deadlineHours">Deadline (hours before event)</Label>
+                      <Input
+                        id="deadlineHours"
+                        type="number"
+                        min={0}
+                        value={eventData.cancellationPolicy.deadlineHours}
+                        onChange={(e) => handleCancellationPolicyChange('deadlineHours', Math.max(0, parseInt(e.target.value) || 0))}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="refundPercentage">Refund (%)</Label>
+                      <Input
+                        id="refundPercentage"
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={eventData.cancellationPolicy.refundPercentage}
+                        onChange={(e) => handleCancellationPolicyChange('refundPercentage', Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
             </CardContent>
           </motion.div>
         )}
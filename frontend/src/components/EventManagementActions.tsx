@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { Calendar, Clock, MapPin, Trash2, Users, Bell, Edit, CalendarX } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Calendar, Clock, MapPin, Trash2, Users, Bell, Edit, CalendarX, ScanLine, UserCog, Tag, Percent, DollarSign } from 'lucide-react';
 import { type Event, useEvents } from '../contexts/EventContext';
 import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
@@ -11,6 +12,10 @@ import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { useToast } from '../hooks/use-toast';
+import EventStaffDialog from './EventStaffDialog';
+import PromoCodesDialog from './PromoCodesDialog';
+import ChargesDialog from './ChargesDialog';
+import EventRevenueDialog from './EventRevenueDialog';
 
 interface EventManagementActionsProps {
   event: Event;
@@ -20,9 +25,14 @@ interface EventManagementActionsProps {
 const EventManagementActions: React.FC<EventManagementActionsProps> = ({ event, onEdit }) => {
   const { updateEventStatus, deleteEvent } = useEvents();
   const { toast } = useToast();
+  const navigate = useNavigate();
   
   const [statusDialogOpen, setStatusDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [staffDialogOpen, setStaffDialogOpen] = useState(false);
+  const [promoDialogOpen, setPromoDialogOpen] = useState(false);
+  const [chargesDialogOpen, setChargesDialogOpen] = useState(false);
+  const [revenueDialogOpen, setRevenueDialogOpen] = useState(false);
   const [actionType, setActionType] = useState<'postpone' | 'cancel' | null>(null);
   
   const [formData, setFormData] = useState({
@@ -118,6 +128,61 @@ const EventManagementActions: React.FC<EventManagementActionsProps> = ({ event,
         Edit
       </Button>
 
+      {/* Door check-in */}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => navigate(`/events/${event.id}/check-in`)}
+        className="bg-glass-light/10 border-gray-300 hover:bg-glass-light/20"
+      >
+        <ScanLine className="h-4 w-4 mr-2" />
+        Check-In
+      </Button>
+
+      {/* Event team */}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setStaffDialogOpen(true)}
+        className="bg-glass-light/10 border-gray-300 hover:bg-glass-light/20"
+      >
+        <UserCog className="h-4 w-4 mr-2" />
+        Team
+      </Button>
+
+      {/* Promo codes */}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setPromoDialogOpen(true)}
+        className="bg-glass-light/10 border-gray-300 hover:bg-glass-light/20"
+      >
+        <Tag className="h-4 w-4 mr-2" />
+        Promo Codes
+      </Button>
+
+      {/* Fees and taxes */}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setChargesDialogOpen(true)}
+        className="bg-glass-light/10 border-gray-300 hover:bg-glass-light/20"
+      >
+        <Percent className="h-4 w-4 mr-2" />
+        Fees &amp; Taxes
+      </Button>
+
+      {/* Revenue breakdown */}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setRevenueDialogOpen(true)}
+        className="bg-glass-light/10 border-gray-300 hover:bg-glass-light/20"
+      >
+        <DollarSign className="h-4 w-4 mr-2" />
+        Revenue
+      </Button>
+
       {/* Postpone Button */}
       <Button
         variant="outline"
@@ -323,6 +388,43 @@ const EventManagementActions: React.FC<EventManagementActionsProps> = ({ event,
         </DialogContent>
       </Dialog>
 
+      <EventStaffDialog
+        eventId={event.id}
+        eventTitle={event.title}
+        open={staffDialogOpen}
+        onOpenChange={setStaffDialogOpen}
+      />
+
+      <PromoCodesDialog
+        eventId={event.id}
+        eventTitle={event.title}
+        currency={event.currency}
+        ticketTypes={Object.entries(event.ticketPricing || {})
+          .filter(([, tier]) => typeof tier?.price === 'number')
+          .map(([type]) => type)}
+        open={promoDialogOpen}
+        onOpenChange={setPromoDialogOpen}
+      />
+
+      <ChargesDialog
+        eventId={event.id}
+        eventTitle={event.title}
+        currency={event.currency}
+        ticketTypes={Object.entries(event.ticketPricing || {})
+          .filter(([, tier]) => typeof tier?.price === 'number')
+          .map(([type]) => type)}
+        charges={event.charges || []}
+        open={chargesDialogOpen}
+        onOpenChange={setChargesDialogOpen}
+      />
+
+      <EventRevenueDialog
+        eventId={event.id}
+        eventTitle={event.title}
+        open={revenueDialogOpen}
+        onOpenChange={setRevenueDialogOpen}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent className="glass-card backdrop-blur-glass shadow-glass">
@@ -0,0 +1,98 @@
+import { useState, useEffect, type FC } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { useToast } from '../hooks/use-toast';
+import { analyticsAPI } from '../lib/api';
+import { formatMoney } from '../lib/currency';
+
+interface EventRevenue {
+  currency: string;
+  bookings: number;
+  grossSales: number;
+  discounts: number;
+  charges: Array<{ name: string; kind: 'fee' | 'tax'; inclusive: boolean; amount: number }>;
+  fees: number;
+  taxes: number;
+  collected: number;
+  netTicketRevenue: number;
+}
+
+interface EventRevenueDialogProps {
+  eventId: string;
+  eventTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EventRevenueDialog: FC<EventRevenueDialogProps> = ({ eventId, eventTitle, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const [revenue, setRevenue] = useState<EventRevenue | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    analyticsAPI.getEventRevenue(eventId)
+      .then(response => setRevenue(response.data))
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to load revenue",
+          variant: "destructive"
+        });
+      });
+  }, [open, eventId, toast]);
+
+  const money = (value: number) => formatMoney(value, revenue?.currency);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg glass-card backdrop-blur-glass shadow-glass">
+        <DialogHeader>
+          <DialogTitle>Revenue</DialogTitle>
+          <DialogDescription>
+            Confirmed bookings for "{eventTitle}". Fees and taxes are collected from attendees and passed on, so they are kept apart from your ticket revenue.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!revenue ? (
+          <p className="text-center text-muted-foreground py-6">Loading revenue...</p>
+        ) : (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Ticket sales ({revenue.bookings} booking{revenue.bookings === 1 ? '' : 's'})</span>
+              <span>{money(revenue.grossSales)}</span>
+            </div>
+            {revenue.discounts > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Promo discounts</span>
+                <span>-{money(revenue.discounts)}</span>
+              </div>
+            )}
+            {revenue.charges.map(charge => (
+              <div key={`${charge.kind}-${charge.name}-${charge.inclusive}`} className="flex justify-between text-muted-foreground">
+                <span>{charge.name}{charge.inclusive ? ' (included in price)' : ''}</span>
+                <span>{money(charge.amount)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between pt-2 border-t font-medium">
+              <span>Collected from attendees</span>
+              <span>{money(revenue.collected)}</span>
+            </div>
+            <div className="flex justify-between text-muted-foreground">
+              <span>Fees</span>
+              <span>-{money(revenue.fees)}</span>
+            </div>
+            <div className="flex justify-between text-muted-foreground">
+              <span>Taxes</span>
+              <span>-{money(revenue.taxes)}</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t text-base font-semibold">
+              <span>Net ticket revenue</span>
+              <span>{money(revenue.netTicketRevenue)}</span>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventRevenueDialog;
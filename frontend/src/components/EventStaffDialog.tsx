@@ -0,0 +1,220 @@
+import { useState, useEffect, useCallback, type FC, type FormEvent } from 'react';
+import { Trash2, UserPlus } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { useToast } from '../hooks/use-toast';
+import { eventsAPI } from '../lib/api';
+import { staffRoleLabels, type StaffRole } from '../lib/staffRoles';
+
+interface StaffMember {
+  _id: string;
+  user: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  role: StaffRole;
+  gate?: string;
+  status: 'invited' | 'active' | 'declined';
+}
+
+interface EventStaffDialogProps {
+  eventId: string;
+  eventTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EventStaffDialog: FC<EventStaffDialogProps> = ({ eventId, eventTitle, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [inviting, setInviting] = useState(false);
+  const [invite, setInvite] = useState<{ email: string; role: StaffRole; gate: string }>({
+    email: '',
+    role: 'scanner',
+    gate: ''
+  });
+
+  const loadStaff = useCallback(() => {
+    setLoading(true);
+    eventsAPI.getStaff(eventId)
+      .then(response => setStaff(response.data.staff || []))
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to load the event team",
+          variant: "destructive"
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [eventId, toast]);
+
+  useEffect(() => {
+    if (open) loadStaff();
+  }, [open, loadStaff]);
+
+  const handleInvite = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!invite.email.trim()) return;
+    setInviting(true);
+    try {
+      const response = await eventsAPI.inviteStaff(eventId, {
+        email: invite.email.trim(),
+        role: invite.role,
+        gate: invite.gate.trim() || undefined
+      });
+      setStaff(prev => [...prev.filter(s => s._id !== response.data._id), response.data]);
+      setInvite({ email: '', role: invite.role, gate: '' });
+      toast({
+        title: "Invitation sent",
+        description: `${response.data.user?.name || invite.email} will be notified.`
+      });
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } })?.response?.data?.message;
+      toast({
+        title: "Invite failed",
+        description: message || "Could not invite this user.",
+        variant: "destructive"
+      });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleUpdate = async (member: StaffMember, update: { role?: StaffRole; gate?: string | null }) => {
+    try {
+      const response = await eventsAPI.updateStaff(eventId, member._id, update);
+      setStaff(prev => prev.map(s => s._id === member._id ? response.data : s));
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to update this team member",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemove = async (member: StaffMember) => {
+    try {
+      await eventsAPI.removeStaff(eventId, member._id);
+      setStaff(prev => prev.filter(s => s._id !== member._id));
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to remove this team member",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto glass-card backdrop-blur-glass shadow-glass">
+        <DialogHeader>
+          <DialogTitle>Event Team</DialogTitle>
+          <DialogDescription>
+            Invite people to help run "{eventTitle}". Scanners can only check guests in; they never see revenue.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleInvite} className="grid gap-3 md:grid-cols-[1fr_140px_140px_auto] items-end">
+          <div>
+            <Label htmlFor="staff-email">Email</Label>
+            <Input
+              id="staff-email"
+              type="email"
+              placeholder="name@example.com"
+              value={invite.email}
+              onChange={(e) => setInvite(prev => ({ ...prev, email: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label>Role</Label>
+            <Select value={invite.role} onValueChange={(role) => setInvite(prev => ({ ...prev, role: role as StaffRole }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(staffRoleLabels) as StaffRole[]).map(role => (
+                  <SelectItem key={role} value={role}>{staffRoleLabels[role].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="staff-gate">Gate (optional)</Label>
+            <Input
+              id="staff-gate"
+              placeholder="North Gate"
+              value={invite.gate}
+              maxLength={50}
+              onChange={(e) => setInvite(prev => ({ ...prev, gate: e.target.value }))}
+            />
+          </div>
+          <Button type="submit" disabled={inviting || !invite.email.trim()}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            {inviting ? 'Inviting...' : 'Invite'}
+          </Button>
+        </form>
+        <p className="text-xs text-muted-foreground">{staffRoleLabels[invite.role].description}</p>
+
+        <div className="space-y-3">
+          {loading ? (
+            <p className="text-center text-muted-foreground py-6">Loading team...</p>
+          ) : staff.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">No one has been invited yet.</p>
+          ) : (
+            staff.map(member => (
+              <div key={member._id} className="flex flex-wrap items-center justify-between gap-3 p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">{member.user?.name}</p>
+                  <p className="text-sm text-muted-foreground">{member.user?.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {member.status !== 'active' && (
+                    <Badge variant="outline">{member.status === 'invited' ? 'Pending' : 'Declined'}</Badge>
+                  )}
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => handleUpdate(member, { role: role as StaffRole })}
+                    disabled={member.status === 'declined'}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(staffRoleLabels) as StaffRole[]).map(role => (
+                        <SelectItem key={role} value={role}>{staffRoleLabels[role].name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Gate"
+                    defaultValue={member.gate || ''}
+                    maxLength={50}
+                    disabled={member.status === 'declined'}
+                    onBlur={(e) => {
+                      const next = e.target.value.trim();
+                      if (next !== (member.gate || '')) handleUpdate(member, { gate: next || null });
+                    }}
+                    className="w-32"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EventStaffDialog;
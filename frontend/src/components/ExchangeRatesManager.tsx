@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback, type FC, type FormEvent } from 'react';
+import { Upload } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { useToast } from '../hooks/use-toast';
+import { exchangeRatesAPI } from '../lib/api';
+import { SUPPORTED_CURRENCIES } from '../lib/currency';
+
+interface RateSnapshot {
+  _id: string;
+  base: string;
+  rates: Record<string, number>;
+  effectiveAt: string;
+  source?: string;
+  uploadedBy?: { name: string; email: string };
+}
+
+// Admins upload rate tables here; display and reporting conversions use the newest one in effect
+const ExchangeRatesManager: FC = () => {
+  const { toast } = useToast();
+  const [snapshots, setSnapshots] = useState<RateSnapshot[]>([]);
+  const [base, setBase] = useState('USD');
+  const [csv, setCsv] = useState('');
+  const [source, setSource] = useState('');
+  const [effectiveAt, setEffectiveAt] = useState('');
+  const [uploading, setUploading] = useState(false);
+
+  const loadSnapshots = useCallback(() => {
+    exchangeRatesAPI.getSnapshots()
+      .then(response => setSnapshots(response.data.snapshots || []))
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to load exchange rates",
+          variant: "destructive"
+        });
+      });
+  }, [toast]);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) setCsv(await file.text());
+  };
+
+  const handleUpload = async (e: FormEvent) => {
+    e.preventDefault();
+    setUploading(true);
+    try {
+      await exchangeRatesAPI.uploadSnapshot({
+        base,
+        csv,
+        source: source.trim() || undefined,
+        effectiveAt: effectiveAt ? new Date(effectiveAt).toISOString() : undefined
+      });
+      setCsv('');
+      setSource('');
+      setEffectiveAt('');
+      toast({ title: "Exchange rates uploaded" });
+      loadSnapshots();
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: (error as { response?: { data?: { message?: string } } })?.response?.data?.message || "Check the CSV and try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="backdrop-blur-glass bg-gradient-glass border-glass-border/30 shadow-glass">
+        <CardHeader>
+          <CardTitle>Upload Exchange Rates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleUpload} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <Label>Base currency</Label>
+                <Select value={base} onValueChange={setBase}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPORTED_CURRENCIES.map(currency => (
+                      <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="rates-effective">Effective from (optional)</Label>
+                <Input id="rates-effective" type="datetime-local" value={effectiveAt} onChange={(e) => setEffectiveAt(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="rates-source">Source (optional)</Label>
+                <Input id="rates-source" placeholder="Central bank, 1 March" value={source} maxLength={200} onChange={(e) => setSource(e.target.value)} />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="rates-csv">Rates CSV</Label>
+              <Textarea
+                id="rates-csv"
+                rows={6}
+                placeholder={'currency,rate\nEUR,0.92\nGBP,0.79'}
+                value={csv}
+                onChange={(e) => setCsv(e.target.value)}
+                className="font-mono text-sm"
+              />
+              <div className="flex items-center justify-between mt-2">
+                <p className="text-xs text-muted-foreground">One line per currency: how much of it 1 {base} buys.</p>
+                <Input type="file" accept=".csv,text/csv" className="max-w-[220px]" onChange={(e) => handleFile(e.target.files?.[0])} />
+              </div>
+            </div>
+            <Button type="submit" disabled={uploading || !csv.trim()}>
+              <Upload className="h-4 w-4 mr-2" />
+              {uploading ? 'Uploading...' : 'Upload Rates'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-3">
+        {snapshots.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">No exchange rates uploaded yet. Prices are only shown in each event's own currency.</p>
+        ) : (
+          snapshots.map(snapshot => (
+            <Card key={snapshot._id} className="backdrop-blur-glass bg-gradient-glass border-glass-border/30 shadow-glass">
+              <CardContent className="p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="font-medium">
+                    1 {snapshot.base} · effective {new Date(snapshot.effectiveAt).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {snapshot.source ? `${snapshot.source} · ` : ''}{snapshot.uploadedBy?.name || 'Unknown'}
+                  </p>
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {Object.entries(snapshot.rates).map(([code, rate]) => `${code} ${rate}`).join(' · ')}
+                </p>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRatesManager;
@@ -0,0 +1,220 @@
+import { useState, type FC } from 'react';
+import { Settings } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { useToast } from '../hooks/use-toast';
+import { notificationsAPI } from '../lib/api';
+
+type Channel = 'inApp' | 'push' | 'email';
+type ChannelChoice = Record<Channel, boolean>;
+
+interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+interface NotificationSettings {
+  types: Record<string, ChannelChoice>;
+  quietHours: QuietHours;
+}
+
+const CHANNEL_LABELS: Record<Channel, string> = {
+  inApp: 'In-app',
+  push: 'Push',
+  email: 'Email'
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  booking_confirmed: 'Booking confirmed',
+  booking_cancelled: 'Booking cancelled',
+  booking_expired: 'Booking expired',
+  payment_receipt: 'Payment receipt uploaded',
+  payment_confirmed: 'Payment confirmed',
+  payment_rejected: 'Payment rejected',
+  payment_failed: 'Payment failed',
+  refund_processed: 'Refund processed',
+  ticket_generated: 'Tickets ready',
+  event_update: 'Event updates',
+  event_postponed: 'Event postponed',
+  event_cancelled: 'Event cancelled',
+  waitlist_offer: 'Waitlist offers',
+  staff_invite: 'Staff invitations'
+};
+
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Which channels each notification type arrives on, plus a quiet-hours window that holds back push
+const NotificationPreferences: FC = () => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadSettings = () => {
+    setSettings(null);
+    notificationsAPI.getNotificationSettings()
+      .then(response => {
+        const loaded = response.data as NotificationSettings;
+        // Quiet hours nobody has set up yet default to the browser's timezone
+        setSettings(loaded.quietHours.enabled
+          ? loaded
+          : { ...loaded, quietHours: { ...loaded.quietHours, timezone: browserTimezone() } });
+      })
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to load notification preferences",
+          variant: "destructive"
+        });
+        setOpen(false);
+      });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) loadSettings();
+  };
+
+  const setChannel = (type: string, channel: Channel, value: boolean) => {
+    setSettings(current => current && {
+      ...current,
+      types: { ...current.types, [type]: { ...current.types[type], [channel]: value } }
+    });
+  };
+
+  const setQuietHours = (changes: Partial<QuietHours>) => {
+    setSettings(current => current && { ...current, quietHours: { ...current.quietHours, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setSaving(true);
+    try {
+      await notificationsAPI.updateNotificationSettings(settings);
+      toast({ title: "Preferences saved", description: "Your notification preferences have been updated." });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Could not save preferences",
+        description: (error as { response?: { data?: { message?: string } } })?.response?.data?.message || "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const channels = Object.keys(CHANNEL_LABELS) as Channel[];
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => handleOpenChange(true)} className="flex items-center space-x-2">
+        <Settings className="h-4 w-4" />
+        <span>Preferences</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Notification Preferences</DialogTitle>
+            <DialogDescription>
+              Choose how you hear about each kind of update.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!settings ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div>
+                <div className="grid grid-cols-[1fr_repeat(3,4rem)] gap-2 pb-2 border-b text-xs font-medium text-muted-foreground">
+                  <span>Notification</span>
+                  {channels.map(channel => (
+                    <span key={channel} className="text-center">{CHANNEL_LABELS[channel]}</span>
+                  ))}
+                </div>
+                {Object.keys(settings.types).map(type => (
+                  <div key={type} className="grid grid-cols-[1fr_repeat(3,4rem)] gap-2 py-2 border-b last:border-b-0 items-center">
+                    <span className="text-sm">{TYPE_LABELS[type] || type}</span>
+                    {channels.map(channel => (
+                      <div key={channel} className="flex justify-center">
+                        <Switch
+                          checked={settings.types[type][channel]}
+                          onCheckedChange={value => setChannel(type, channel, value)}
+                          aria-label={`${TYPE_LABELS[type] || type} by ${CHANNEL_LABELS[channel]}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="quiet-hours">Quiet hours</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Push notifications are held back; they still appear here.
+                    </p>
+                  </div>
+                  <Switch
+                    id="quiet-hours"
+                    checked={settings.quietHours.enabled}
+                    onCheckedChange={enabled => setQuietHours({ enabled })}
+                  />
+                </div>
+                {settings.quietHours.enabled && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                      <Label htmlFor="quiet-start" className="text-xs">From</Label>
+                      <Input
+                        id="quiet-start"
+                        type="time"
+                        value={settings.quietHours.start}
+                        onChange={e => setQuietHours({ start: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="quiet-end" className="text-xs">Until</Label>
+                      <Input
+                        id="quiet-end"
+                        type="time"
+                        value={settings.quietHours.end}
+                        onChange={e => setQuietHours({ end: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="quiet-timezone" className="text-xs">Timezone</Label>
+                      <Input
+                        id="quiet-timezone"
+                        value={settings.quietHours.timezone}
+                        onChange={e => setQuietHours({ timezone: e.target.value })}
+                        placeholder="Europe/London"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!settings || saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default NotificationPreferences;
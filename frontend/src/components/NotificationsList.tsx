@@ -1,11 +1,11 @@
 import { useState, useEffect, type FC } from 'react';
-import { Bell, Calendar, MapPin, Clock, CheckCircle } from 'lucide-react';
+import { Bell, Calendar, MapPin, Clock, CheckCircle, FileText } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { ScrollArea } from './ui/scroll-area';
 import { useToast } from '../hooks/use-toast';
-import { notificationsAPI } from '../lib/api';
+import { notificationsAPI, invoicesAPI } from '../lib/api';
 import { getNotificationIcon } from '../hooks/useBookingNotifications';
 
 interface Notification {
@@ -50,6 +50,8 @@ interface Notification {
     confirmedBy?: string;
     confirmedAt?: string;
     verificationNotes?: string;
+    invoiceId?: string;
+    invoiceNumber?: string;
 
     // Rejection details
     rejectionReason?: string;
@@ -105,6 +107,26 @@ const NotificationsList: FC = () => {
     }
   };
 
+  const downloadInvoice = async (invoiceId: string, invoiceNumber?: string) => {
+    try {
+      const response = await invoicesAPI.download(invoiceId);
+      const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${invoiceNumber || 'invoice'}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to download invoice",
+        variant: "destructive"
+      });
+    }
+  };
+
 
 
 
@@ -343,6 +365,17 @@ const NotificationsList: FC = () => {
                                   {notification.data.verificationNotes && (
                                     <p><strong>Notes:</strong> {notification.data.verificationNotes}</p>
                                   )}
+                                  {notification.data.invoiceId && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="mt-2 h-7 text-xs"
+                                      onClick={() => downloadInvoice(notification.data?.invoiceId ?? '', notification.data?.invoiceNumber)}
+                                    >
+                                      <FileText className="h-3 w-3 mr-1" />
+                                      Invoice {notification.data.invoiceNumber}
+                                    </Button>
+                                  )}
                                 </div>
                               )}
 
@@ -10,6 +10,7 @@ import { ScrollArea } from './ui/scroll-area';
 import { useToast } from '../hooks/use-toast';
 import { paymentReceiptAPI, getAbsoluteImageUrl } from '../lib/api';
 import { triggerNotificationRefresh } from '../utils/notifications';
+import BankStatementImport from './BankStatementImport';
 
 interface PaymentReceipt {
   _id: string;
@@ -35,6 +36,8 @@ interface PaymentReceipt {
   };
   receiptImage: string;
   amount: number;
+  expectedAmount?: number;
+  amountMismatch?: boolean;
   paymentMethod: string;
   transactionReference?: string;
   notes?: string;
@@ -71,10 +74,10 @@ const PaymentReceiptManagement: FC = () => {
     fetchReceipts();
   }, []);
 
-  const handleConfirmPayment = async (receiptId: string) => {
+  const handleConfirmPayment = async (receiptId: string, acceptAmountMismatch = false) => {
     try {
       setActionLoading(true);
-      await paymentReceiptAPI.confirmReceipt(receiptId, verificationNotes);
+      await paymentReceiptAPI.confirmReceipt(receiptId, verificationNotes, acceptAmountMismatch);
 
       toast({
         title: "Payment Confirmed",
@@ -178,6 +181,8 @@ const PaymentReceiptManagement: FC = () => {
 
   return (
     <div className="space-y-6">
+      <BankStatementImport onApplied={fetchReceipts} />
+
       {/* Pending Receipts */}
       <Card className="glass-card">
         <CardHeader>
@@ -229,6 +234,11 @@ const PaymentReceiptManagement: FC = () => {
                             <DollarSign className="h-3 w-3 mr-1" />
                             Amount: ${receipt.amount}
                           </div>
+                          {receipt.amountMismatch && (
+                            <p className="text-amber-600 text-xs">
+                              Booking total is ${receipt.expectedAmount}
+                            </p>
+                          )}
                           <p className="text-muted-foreground">
                             Method: {formatPaymentMethod(receipt.paymentMethod)}
                           </p>
@@ -286,6 +296,9 @@ const PaymentReceiptManagement: FC = () => {
                                   <p><strong>Email:</strong> {selectedReceipt.user.email}</p>
                                   <p><strong>Event:</strong> {selectedReceipt.event.title}</p>
                                   <p><strong>Amount:</strong> ${selectedReceipt.amount}</p>
+                                  {selectedReceipt.amountMismatch && (
+                                    <p className="text-amber-600">Booking total is ${selectedReceipt.expectedAmount}</p>
+                                  )}
                                 </div>
                                 <div>
                                   <p><strong>Payment Method:</strong> {formatPaymentMethod(selectedReceipt.paymentMethod)}</p>
@@ -327,12 +340,12 @@ const PaymentReceiptManagement: FC = () => {
                                   Reject
                                 </Button>
                                 <Button
-                                  onClick={() => handleConfirmPayment(selectedReceipt._id)}
+                                  onClick={() => handleConfirmPayment(selectedReceipt._id, selectedReceipt.amountMismatch)}
                                   disabled={actionLoading}
                                   className="bg-glass-light/10 border-gray-300 hover:bg-glass-light/20 backdrop-blur-sm text-green-600 hover:text-green-700 border-green-200/50"
                                 >
                                   <CheckCircle className="h-4 w-4 mr-1" />
-                                  Confirm Payment
+                                  {selectedReceipt.amountMismatch ? 'Confirm Anyway' : 'Confirm Payment'}
                                 </Button>
                               </div>
                             </div>
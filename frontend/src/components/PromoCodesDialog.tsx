@@ -0,0 +1,329 @@
+import { useState, useEffect, useCallback, type FC, type FormEvent } from 'react';
+import { Tag, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Checkbox } from './ui/checkbox';
+import { useToast } from '../hooks/use-toast';
+import { eventsAPI } from '../lib/api';
+
+interface PromoCode {
+  _id: string;
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'fixed';
+  amount: number;
+  ticketTypes: string[];
+  maxUses?: number;
+  perUserLimit?: number;
+  usedCount: number;
+  validFrom?: string;
+  validUntil?: string;
+  isActive: boolean;
+}
+
+interface PromoCodesDialogProps {
+  eventId: string;
+  eventTitle: string;
+  currency?: string;
+  ticketTypes: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  code: '',
+  description: '',
+  discountType: 'percentage' as 'percentage' | 'fixed',
+  amount: '',
+  ticketTypes: [] as string[],
+  maxUses: '',
+  perUserLimit: '1',
+  validFrom: '',
+  validUntil: ''
+};
+
+const getErrorMessage = (error: unknown) => {
+  const data = (error as { response?: { data?: { message?: string; errors?: Array<{ msg?: string; path?: string }> } } })?.response?.data;
+  if (data?.errors?.length) return `${data.errors[0].path}: ${data.errors[0].msg}`;
+  return data?.message;
+};
+
+const PromoCodesDialog: FC<PromoCodesDialogProps> = ({ eventId, eventTitle, currency = 'USD', ticketTypes, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const loadPromoCodes = useCallback(() => {
+    setLoading(true);
+    eventsAPI.getPromoCodes(eventId)
+      .then(response => setPromoCodes(response.data.promoCodes || []))
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to load promo codes",
+          variant: "destructive"
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [eventId, toast]);
+
+  useEffect(() => {
+    if (open) loadPromoCodes();
+  }, [open, loadPromoCodes]);
+
+  const toggleFormTier = (tier: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      ticketTypes: checked ? [...prev.ticketTypes, tier] : prev.ticketTypes.filter(t => t !== tier)
+    }));
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!form.code.trim() || !form.amount) return;
+    setSaving(true);
+    try {
+      const response = await eventsAPI.createPromoCode(eventId, {
+        code: form.code.trim(),
+        description: form.description.trim() || undefined,
+        discountType: form.discountType,
+        amount: Number(form.amount),
+        ticketTypes: form.ticketTypes,
+        maxUses: form.maxUses ? Number(form.maxUses) : null,
+        perUserLimit: form.perUserLimit ? Number(form.perUserLimit) : null,
+        validFrom: form.validFrom ? new Date(form.validFrom).toISOString() : null,
+        validUntil: form.validUntil ? new Date(form.validUntil).toISOString() : null
+      });
+      setPromoCodes(prev => [response.data, ...prev]);
+      setForm(emptyForm);
+      toast({
+        title: "Promo code created",
+        description: `${response.data.code} is ready to share.`
+      });
+    } catch (error) {
+      toast({
+        title: "Could not create promo code",
+        description: getErrorMessage(error) || "Please check the details and try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (promo: PromoCode, isActive: boolean) => {
+    try {
+      const response = await eventsAPI.updatePromoCode(eventId, promo._id, { isActive });
+      setPromoCodes(prev => prev.map(p => p._id === promo._id ? response.data : p));
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to update this promo code",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (promo: PromoCode) => {
+    try {
+      const response = await eventsAPI.deletePromoCode(eventId, promo._id);
+      if (response.data.promoCode) {
+        // Already used by bookings, so the server switched it off instead
+        setPromoCodes(prev => prev.map(p => p._id === promo._id ? response.data.promoCode : p));
+      } else {
+        setPromoCodes(prev => prev.filter(p => p._id !== promo._id));
+      }
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete this promo code",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const describeDiscount = (promo: PromoCode) =>
+    promo.discountType === 'percentage' ? `${promo.amount}% off` : `${promo.amount} ${currency} off`;
+
+  const describeWindow = (promo: PromoCode) => {
+    const format = (value: string) => new Date(value).toLocaleString();
+    if (promo.validFrom && promo.validUntil) return `${format(promo.validFrom)} – ${format(promo.validUntil)}`;
+    if (promo.validUntil) return `Until ${format(promo.validUntil)}`;
+    if (promo.validFrom) return `From ${format(promo.validFrom)}`;
+    return 'No expiry';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto glass-card backdrop-blur-glass shadow-glass">
+        <DialogHeader>
+          <DialogTitle>Promo Codes</DialogTitle>
+          <DialogDescription>
+            Discount codes for "{eventTitle}". Attendees enter them on the booking page before paying.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="space-y-3 p-3 border rounded-lg">
+          <div className="grid gap-3 md:grid-cols-3">
+            <div>
+              <Label htmlFor="promo-code">Code</Label>
+              <Input
+                id="promo-code"
+                placeholder="EARLY20"
+                value={form.code}
+                maxLength={40}
+                onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+              />
+            </div>
+            <div>
+              <Label>Discount</Label>
+              <Select
+                value={form.discountType}
+                onValueChange={(discountType) => setForm(prev => ({ ...prev, discountType: discountType as 'percentage' | 'fixed' }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentage</SelectItem>
+                  <SelectItem value="fixed">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="promo-amount">{form.discountType === 'percentage' ? 'Percent off' : `Amount off (${currency})`}</Label>
+              <Input
+                id="promo-amount"
+                type="number"
+                min="0"
+                max={form.discountType === 'percentage' ? 100 : undefined}
+                step="0.01"
+                value={form.amount}
+                onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="promo-max-uses">Total uses (optional)</Label>
+              <Input
+                id="promo-max-uses"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={form.maxUses}
+                onChange={(e) => setForm(prev => ({ ...prev, maxUses: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="promo-per-user">Uses per attendee</Label>
+              <Input
+                id="promo-per-user"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={form.perUserLimit}
+                onChange={(e) => setForm(prev => ({ ...prev, perUserLimit: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="promo-description">Note (optional)</Label>
+              <Input
+                id="promo-description"
+                placeholder="Newsletter subscribers"
+                value={form.description}
+                maxLength={200}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="promo-valid-from">Starts (optional)</Label>
+              <Input
+                id="promo-valid-from"
+                type="datetime-local"
+                value={form.validFrom}
+                onChange={(e) => setForm(prev => ({ ...prev, validFrom: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="promo-valid-until">Expires (optional)</Label>
+              <Input
+                id="promo-valid-until"
+                type="datetime-local"
+                value={form.validUntil}
+                onChange={(e) => setForm(prev => ({ ...prev, validUntil: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {ticketTypes.length > 1 && (
+            <div>
+              <Label>Applies to</Label>
+              <div className="flex flex-wrap gap-4 mt-2">
+                {ticketTypes.map(tier => (
+                  <label key={tier} className="flex items-center gap-2 text-sm capitalize">
+                    <Checkbox
+                      checked={form.ticketTypes.includes(tier)}
+                      onCheckedChange={(checked) => toggleFormTier(tier, checked === true)}
+                    />
+                    {tier}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">Leave all unticked to apply to every ticket type.</p>
+            </div>
+          )}
+
+          <Button type="submit" disabled={saving || !form.code.trim() || !form.amount}>
+            <Tag className="h-4 w-4 mr-2" />
+            {saving ? 'Creating...' : 'Create Code'}
+          </Button>
+        </form>
+
+        <div className="space-y-3">
+          {loading ? (
+            <p className="text-center text-muted-foreground py-6">Loading promo codes...</p>
+          ) : promoCodes.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">No promo codes yet.</p>
+          ) : (
+            promoCodes.map(promo => (
+              <div key={promo._id} className="flex flex-wrap items-center justify-between gap-3 p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-mono font-semibold">{promo.code}</p>
+                    <Badge variant="secondary">{describeDiscount(promo)}</Badge>
+                    {!promo.isActive && <Badge variant="outline">Off</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {promo.ticketTypes?.length ? `${promo.ticketTypes.join(', ')} only` : 'All tickets'}
+                    {' · '}
+                    {promo.usedCount}{promo.maxUses ? `/${promo.maxUses}` : ''} used
+                    {promo.perUserLimit ? ` · ${promo.perUserLimit} per attendee` : ''}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{describeWindow(promo)}</p>
+                  {promo.description && <p className="text-xs text-muted-foreground">{promo.description}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={promo.isActive}
+                    onCheckedChange={(checked) => handleToggleActive(promo, checked)}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(promo)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromoCodesDialog;
@@ -11,8 +11,17 @@ import {
   PopoverTrigger,
 } from './ui/popover';
 
+export interface EventSearchFilters {
+  query: string;
+  location?: string;
+  country?: string;
+  dateFilter?: string;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
 interface SearchFilterProps {
-  onSearch: (query: string, location?: string, country?: string, dateFilter?: string) => void;
+  onSearch: (filters: EventSearchFilters) => void;
   placeholder?: string;
 }
 
@@ -24,6 +33,8 @@ const SearchFilter: FC<SearchFilterProps> = ({
   const [location, setLocation] = useState('');
   const [country, setCountry] = useState('');
   const [dateFilter, setDateFilter] = useState('');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
   const [showLocationSuggestions, setShowLocationSuggestions] = useState(false);
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const [selectedLocationIndex, setSelectedLocationIndex] = useState<number>(-1);
@@ -59,7 +70,14 @@ const SearchFilter: FC<SearchFilterProps> = ({
   }, [filteredLocationSuggestions, selectedLocationIndex]);
 
   const handleSearch = () => {
-    onSearch(query, location || undefined, country || undefined, dateFilter || undefined);
+    onSearch({
+      query,
+      location: location || undefined,
+      country: country || undefined,
+      dateFilter: dateFilter || undefined,
+      minPrice: minPrice !== '' ? Number(minPrice) : undefined,
+      maxPrice: maxPrice !== '' ? Number(maxPrice) : undefined,
+    });
   };
 
   const clearFilters = () => {
@@ -67,10 +85,13 @@ const SearchFilter: FC<SearchFilterProps> = ({
     setLocation('');
     setCountry('');
     setDateFilter('');
-    onSearch('');
+    setMinPrice('');
+    setMaxPrice('');
+    onSearch({ query: '' });
   };
 
-  const activeFiltersCount = [location, country, dateFilter].filter(Boolean).length;
+  const priceLabel = minPrice || maxPrice ? `${minPrice || '0'} - ${maxPrice || 'any'}` : '';
+  const activeFiltersCount = [location, country, dateFilter, priceLabel].filter(Boolean).length;
 
   return (
     <motion.div
@@ -245,6 +266,30 @@ const SearchFilter: FC<SearchFilterProps> = ({
                     </select>
                   </div>
 
+                  {/* Price Range Filter */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Price Range</label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="Min"
+                        value={minPrice}
+                        onChange={(e) => setMinPrice(e.target.value)}
+                        className="bg-glass-light/10 border-glass-border/30"
+                      />
+                      <span className="text-muted-foreground">-</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="Max"
+                        value={maxPrice}
+                        onChange={(e) => setMaxPrice(e.target.value)}
+                        className="bg-glass-light/10 border-glass-border/30"
+                      />
+                    </div>
+                  </div>
+
                   <Button 
                     onClick={() => {
                       handleSearch();
@@ -318,6 +363,20 @@ const SearchFilter: FC<SearchFilterProps> = ({
                 </button>
               </Badge>
             )}
+            {priceLabel && (
+              <Badge 
+                variant="secondary" 
+                className="bg-glass-light/20 border-gray-300"
+              >
+                {priceLabel}
+                <button
+                  onClick={() => { setMinPrice(''); setMaxPrice(''); }}
+                  className="ml-1 hover:text-destructive"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
           </motion.div>
         )}
       </div>
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, type FC } from 'react';
+import { Check } from 'lucide-react';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { useToast } from '../hooks/use-toast';
+import { payoutsAPI } from '../lib/api';
+import { formatMoney } from '../lib/currency';
+
+interface PendingSettlement {
+  _id: string;
+  number: number;
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  payable: number;
+  host?: { name: string; email: string };
+}
+
+// Admins send payouts outside the app, then record them here against the host's statement
+const SettlementPayouts: FC = () => {
+  const { toast } = useToast();
+  const [settlements, setSettlements] = useState<PendingSettlement[]>([]);
+  const [references, setReferences] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadSettlements = useCallback(() => {
+    payoutsAPI.getSettlements({ status: 'closed' })
+      .then(response => setSettlements(response.data.settlements || []))
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to load settlements",
+          variant: "destructive"
+        });
+      });
+  }, [toast]);
+
+  useEffect(() => {
+    loadSettlements();
+  }, [loadSettlements]);
+
+  const handleMarkPaid = async (settlement: PendingSettlement) => {
+    setSavingId(settlement._id);
+    try {
+      await payoutsAPI.markPaid(settlement._id, references[settlement._id]?.trim() || undefined);
+      toast({ title: "Payout recorded", description: `Statement #${settlement.number} is marked paid.` });
+      loadSettlements();
+    } catch (error) {
+      toast({
+        title: "Could not record payout",
+        description: (error as { response?: { data?: { message?: string } } })?.response?.data?.message || "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (settlements.length === 0) {
+    return <p className="text-center text-muted-foreground py-6">No settlements are awaiting payout.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {settlements.map(settlement => (
+        <Card key={settlement._id} className="backdrop-blur-glass bg-gradient-glass border-glass-border/30 shadow-glass">
+          <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <p className="font-medium">
+                {settlement.host?.name || 'Unknown host'} · Statement #{settlement.number}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {new Date(settlement.periodStart).toLocaleDateString()} – {new Date(settlement.periodEnd).toLocaleDateString()}
+                {' · '}
+                {settlement.payable >= 0
+                  ? `Pay ${formatMoney(settlement.payable, settlement.currency)}`
+                  : `Collect ${formatMoney(-settlement.payable, settlement.currency)} in fees`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Transfer reference"
+                className="w-[180px]"
+                maxLength={200}
+                value={references[settlement._id] || ''}
+                onChange={(e) => setReferences(prev => ({ ...prev, [settlement._id]: e.target.value }))}
+              />
+              <Button size="sm" onClick={() => handleMarkPaid(settlement)} disabled={savingId === settlement._id}>
+                <Check className="h-4 w-4 mr-1" />
+                Mark Paid
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default SettlementPayouts;
@@ -0,0 +1,138 @@
+import { useState, useEffect, type FC } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Calendar, Check, MapPin, ScanLine, UserCog, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { useToast } from '../hooks/use-toast';
+import { eventsAPI } from '../lib/api';
+import { staffRoleLabels, type StaffRole } from '../lib/staffRoles';
+
+interface StaffAssignment {
+  _id: string;
+  event: {
+    _id: string;
+    title: string;
+    date: string;
+    time?: string;
+    location: string;
+  };
+  role: StaffRole;
+  gate?: string;
+  status: 'invited' | 'active';
+  permissions: string[];
+}
+
+// Events the current user helps run, including invitations waiting for an answer
+const StaffAssignments: FC = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [assignments, setAssignments] = useState<StaffAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    eventsAPI.getMyStaffRoles()
+      .then(response => setAssignments(response.data || []))
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to fetch your event roles",
+          variant: "destructive"
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [toast]);
+
+  const respond = async (assignment: StaffAssignment, accept: boolean) => {
+    try {
+      const response = accept
+        ? await eventsAPI.acceptStaffInvite(assignment._id)
+        : await eventsAPI.declineStaffInvite(assignment._id);
+      setAssignments(prev => accept
+        ? prev.map(a => a._id === assignment._id ? response.data : a)
+        : prev.filter(a => a._id !== assignment._id));
+      toast({
+        title: accept ? "Invitation accepted" : "Invitation declined",
+        description: accept ? `You're on the team for "${assignment.event.title}".` : undefined
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to respond to the invitation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12 text-muted-foreground">Loading your event roles...</div>;
+  }
+
+  if (assignments.length === 0) {
+    return (
+      <Card className="backdrop-blur-glass bg-gradient-glass border-gray-300 shadow-glass">
+        <CardContent className="p-12 text-center">
+          <UserCog className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="text-lg font-semibold mb-2">No team roles yet</h3>
+          <p className="text-muted-foreground">
+            When an organizer invites you to scan tickets or handle payments for their event, it will show up here.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {assignments.map(assignment => (
+        <Card key={assignment._id} className="backdrop-blur-glass bg-gradient-glass border-gray-300 shadow-glass">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>{assignment.event.title}</span>
+              <div className="flex items-center gap-2">
+                {assignment.gate && <Badge variant="outline">{assignment.gate}</Badge>}
+                <Badge variant={assignment.status === 'active' ? 'default' : 'secondary'}>
+                  {staffRoleLabels[assignment.role]?.name || assignment.role}
+                  {assignment.status === 'invited' && ' · invited'}
+                </Badge>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                {new Date(assignment.event.date).toLocaleDateString()}{assignment.event.time && ` at ${assignment.event.time}`}
+              </span>
+              <span className="flex items-center gap-1">
+                <MapPin className="h-4 w-4" />
+                {assignment.event.location}
+              </span>
+            </div>
+            <p className="text-sm">{staffRoleLabels[assignment.role]?.description}</p>
+
+            {assignment.status === 'invited' ? (
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => respond(assignment, true)}>
+                  <Check className="h-4 w-4 mr-2" />
+                  Accept
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => respond(assignment, false)}>
+                  <X className="h-4 w-4 mr-2" />
+                  Decline
+                </Button>
+              </div>
+            ) : assignment.permissions?.includes('check_in') && (
+              <Button size="sm" onClick={() => navigate(`/events/${assignment.event._id}/check-in`)}>
+                <ScanLine className="h-4 w-4 mr-2" />
+                Open Check-In
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default StaffAssignments;
@@ -0,0 +1,124 @@
+import { useState, useEffect, type FC } from 'react';
+import { Clock, ListOrdered, Users } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { useToast } from '../hooks/use-toast';
+import { waitlistAPI } from '../lib/api';
+
+interface WaitlistEntry {
+  _id: string;
+  user: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  event: {
+    _id: string;
+    title: string;
+    date: string;
+  };
+  ticketType: string;
+  quantity: number;
+  status: 'waiting' | 'offered' | 'accepted' | 'expired' | 'left';
+  position: number | null;
+  offerExpiresAt?: string;
+  createdAt: string;
+}
+
+const WaitlistManagement: FC = () => {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    waitlistAPI.getHostWaitlist()
+      .then(response => setEntries(response.data || []))
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Failed to fetch waitlist",
+          variant: "destructive"
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [toast]);
+
+  // Group entries by event, keeping the queue order from the server
+  const byEvent = entries.reduce<Record<string, { title: string; date: string; entries: WaitlistEntry[] }>>((acc, entry) => {
+    const key = entry.event?._id || 'unknown';
+    if (!acc[key]) acc[key] = { title: entry.event?.title || 'Event', date: entry.event?.date, entries: [] };
+    acc[key].entries.push(entry);
+    return acc;
+  }, {});
+
+  if (loading) {
+    return <div className="text-center py-12 text-muted-foreground">Loading waitlist...</div>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Card className="backdrop-blur-glass bg-gradient-glass border-gray-300 shadow-glass">
+        <CardContent className="p-12 text-center">
+          <ListOrdered className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="text-lg font-semibold mb-2">No one is waiting</h3>
+          <p className="text-muted-foreground">
+            When your events or ticket tiers sell out, attendees can join a waitlist and will show up here.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {Object.entries(byEvent).map(([eventId, group]) => (
+        <Card key={eventId} className="backdrop-blur-glass bg-gradient-glass border-gray-300 shadow-glass">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>{group.title}</span>
+              <Badge variant="secondary" className="flex items-center gap-1">
+                <Users className="h-3 w-3" />
+                {group.entries.length} waiting
+              </Badge>
+            </CardTitle>
+            {group.date && (
+              <p className="text-sm text-muted-foreground">{new Date(group.date).toLocaleDateString()}</p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {group.entries.map(entry => (
+                <div key={entry._id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center text-sm font-semibold">
+                      {entry.position ?? '—'}
+                    </div>
+                    <div>
+                      <p className="font-medium">{entry.user?.name}</p>
+                      <p className="text-sm text-muted-foreground">{entry.user?.email}</p>
+                    </div>
+                  </div>
+                  <div className="text-right space-y-1">
+                    <div className="text-sm">
+                      {entry.quantity} × {entry.ticketType === 'any' ? 'any tier' : entry.ticketType}
+                    </div>
+                    {entry.status === 'offered' ? (
+                      <Badge className="bg-amber-100 text-amber-800 flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        Offer until {entry.offerExpiresAt ? new Date(entry.offerExpiresAt).toLocaleTimeString() : '—'}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">Waiting since {new Date(entry.createdAt).toLocaleDateString()}</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default WaitlistManagement;
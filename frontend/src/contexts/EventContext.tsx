@@ -30,6 +30,16 @@ const normalizeEvent = (e: any, fallback: any = {}) => {
     createdByAvatar: base.createdByAvatar || base.owner?.displayPicture || base.owner?.avatar || undefined,
   };
 };
+// A service fee or tax; `amount` is a percentage or a flat amount per ticket
+export interface EventCharge {
+  name: string;
+  kind: 'fee' | 'tax';
+  calculation: 'percentage' | 'flat';
+  amount: number;
+  inclusive: boolean;
+  ticketTypes: string[];
+}
+
 // Updated Event interface to match backend
 export interface Event {
   owner: any;
@@ -53,13 +63,14 @@ export interface Event {
   bookedSlots: number;
   images: string[];
   ticketPricing: {
-    vvip: { price: number; slots: number; includes: string[] };
-    vip: { price: number; slots: number; includes: string[] };
-    standard: { price: number; slots: number; includes: string[] };
-    tableFor2: { price: number; slots: number; includes: string[] };
-    tableFor5: { price: number; slots: number; includes: string[] };
-    regular: { price: number; slots: number; includes: string[] };
+    vvip: { price: number; slots: number; includes: string[]; earlyBirdPrice?: number; earlyBirdUntil?: string };
+    vip: { price: number; slots: number; includes: string[]; earlyBirdPrice?: number; earlyBirdUntil?: string };
+    standard: { price: number; slots: number; includes: string[]; earlyBirdPrice?: number; earlyBirdUntil?: string };
+    tableFor2: { price: number; slots: number; includes: string[]; earlyBirdPrice?: number; earlyBirdUntil?: string };
+    tableFor5: { price: number; slots: number; includes: string[]; earlyBirdPrice?: number; earlyBirdUntil?: string };
+    regular: { price: number; slots: number; includes: string[]; earlyBirdPrice?: number; earlyBirdUntil?: string };
   };
+  charges?: EventCharge[];
   paymentMethod: 'online' | 'pay-at-event' | 'both';
   contactInfo: {
     phone?: string;
@@ -82,6 +93,12 @@ export interface Event {
     originalTime?: string;
     originalLocation?: string;
   };
+  holdWindowMinutes?: number;
+  cancellationPolicy?: {
+    allowCancellation: boolean;
+    deadlineHours: number;
+    refundPercentage: number;
+  };
   createdAt?: string;
   updatedAt?: string;
 }
@@ -102,6 +119,8 @@ export interface User {
   avatar?: string;
   homeAddress?: string;
   companyAddress?: string;
+  preferredCurrency?: string | null;
+  isEmailVerified?: boolean;
   // Comments received about this user
   receivedComments?: {
     id: string;
@@ -272,6 +291,17 @@ export const EventProvider: FC<{ children: ReactNode }> = ({ children }) => {
     }
   };
 
+  // Unverified hosts can't publish; tell them where to go instead of a generic error
+  const warnIfEmailUnverified = (err: unknown) => {
+    const data = (err as { response?: { data?: { code?: string; message?: string } } }).response?.data;
+    if (data?.code !== 'EMAIL_NOT_VERIFIED') return;
+    toast({
+      title: 'Verify your email',
+      description: `${data.message} Open the link we emailed you, or enter the code at /verify-email.`,
+      variant: 'destructive',
+    });
+  };
+
   // Initialize and fetch data
   useEffect(() => {
     const initializeApp = async () => {
@@ -469,6 +499,7 @@ export const EventProvider: FC<{ children: ReactNode }> = ({ children }) => {
 
       return true;
     } catch (err) {
+      warnIfEmailUnverified(err);
       handleError(err);
       return false;
     }
@@ -487,6 +518,7 @@ export const EventProvider: FC<{ children: ReactNode }> = ({ children }) => {
       }));
       return true;
     } catch (err) {
+      warnIfEmailUnverified(err);
       handleError(err);
       return false;
     }
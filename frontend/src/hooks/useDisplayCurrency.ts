@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { useEvents } from '../contexts/EventContext';
+import { exchangeRatesAPI } from '../lib/api';
+import { convertAmount, formatMoney, type ExchangeRates } from '../lib/currency';
+
+const STORAGE_KEY = 'display-currency';
+
+// One request per page load; every price on screen converts with the same table
+let ratesRequest: Promise<ExchangeRates | null> | null = null;
+const loadRates = () => {
+  ratesRequest ??= exchangeRatesAPI.getLatest()
+    .then(response => response.data as ExchangeRates)
+    .catch(() => null);
+  return ratesRequest;
+};
+
+/**
+ * The currency the viewer wants prices shown in. Signed-in users keep it on their
+ * profile, guests in localStorage; an empty string means each event's own currency.
+ */
+export const useDisplayCurrency = () => {
+  const { currentUser, updateUserProfile } = useEvents();
+  const [guestCurrency, setGuestCurrency] = useState(() => localStorage.getItem(STORAGE_KEY) || '');
+  const [rates, setRates] = useState<ExchangeRates | null>(null);
+
+  const displayCurrency = currentUser ? (currentUser.preferredCurrency || '') : guestCurrency;
+
+  useEffect(() => {
+    if (!displayCurrency) return;
+    let cancelled = false;
+    loadRates().then(table => {
+      if (!cancelled) setRates(table);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [displayCurrency]);
+
+  const setDisplayCurrency = (currency: string) => {
+    if (currentUser) {
+      updateUserProfile({ preferredCurrency: currency || null });
+    } else {
+      localStorage.setItem(STORAGE_KEY, currency);
+      setGuestCurrency(currency);
+    }
+  };
+
+  // "≈ €12.40" for a price in another currency, or null when no conversion applies
+  const formatConverted = (amount: number, currency: string) => {
+    if (!displayCurrency || displayCurrency === (currency || 'USD').toUpperCase()) return null;
+    const converted = convertAmount(amount, currency, displayCurrency, rates);
+    return converted === null ? null : `≈ ${formatMoney(converted, displayCurrency)}`;
+  };
+
+  return { displayCurrency, setDisplayCurrency, formatConverted, ratesAsOf: rates?.effectiveAt };
+};
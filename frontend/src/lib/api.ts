@@ -63,6 +63,41 @@ export const authAPI = {
   
   changePassword: (passwordData: { currentPassword: string; newPassword: string }) =>
     api.put('/auth/password', passwordData),
+
+  verifyEmailToken: (token: string) =>
+    api.get(`/auth/verify-email/${encodeURIComponent(token)}`),
+
+  verifyEmailCode: (data: { email: string; code: string }) =>
+    api.post('/auth/verify-email', data),
+
+  resendVerification: (email: string) =>
+    api.post('/auth/resend-verification', { email }),
+
+  requestLoginCode: (email: string) =>
+    api.post('/auth/otp/request', { email }),
+
+  verifyLoginCode: (data: { email: string; code: string }) =>
+    api.post('/auth/otp/verify', data),
+
+  forgotPassword: (email: string) =>
+    api.post('/auth/forgot-password', { email }),
+
+  resetPassword: (data: { token: string; password: string }) =>
+    api.post('/auth/reset-password', data),
+};
+
+// Host-editable promo code fields; null clears a limit or date on update
+type PromoCodeInput = {
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'fixed';
+  amount: number;
+  ticketTypes?: string[];
+  maxUses?: number | null;
+  perUserLimit?: number | null;
+  validFrom?: string | null;
+  validUntil?: string | null;
+  isActive?: boolean;
 };
 
 // Events API
@@ -76,6 +111,7 @@ export const eventsAPI = {
     minPrice?: number;
     maxPrice?: number;
     country?: string;
+    location?: string;
     startDate?: string;
     endDate?: string;
   }) => api.get('/events', { params }),
@@ -108,6 +144,38 @@ export const eventsAPI = {
     api.post(`/events/${id}/comments`, commentData),
   
   getHostEvents: () => api.get('/events/host/my-events'),
+
+  getTicketKeys: (id: string) => api.get(`/events/${id}/ticket-keys`),
+
+  rotateTicketKey: (id: string) => api.post(`/events/${id}/ticket-keys/rotate`),
+
+  revokeTicketKey: (id: string, kid: string, reason?: string) =>
+    api.post(`/events/${id}/ticket-keys/${kid}/revoke`, { reason }),
+
+  getStaff: (id: string) => api.get(`/events/${id}/staff`),
+
+  inviteStaff: (id: string, invite: { email: string; role: 'co-host' | 'scanner' | 'finance'; gate?: string }) =>
+    api.post(`/events/${id}/staff`, invite),
+
+  updateStaff: (id: string, staffId: string, update: { role?: 'co-host' | 'scanner' | 'finance'; gate?: string | null }) =>
+    api.patch(`/events/${id}/staff/${staffId}`, update),
+
+  removeStaff: (id: string, staffId: string) => api.delete(`/events/${id}/staff/${staffId}`),
+
+  getMyStaffRoles: () => api.get('/events/staff/me'),
+
+  acceptStaffInvite: (staffId: string) => api.post(`/events/staff/${staffId}/accept`),
+
+  declineStaffInvite: (staffId: string) => api.post(`/events/staff/${staffId}/decline`),
+
+  getPromoCodes: (id: string) => api.get(`/events/${id}/promo-codes`),
+
+  createPromoCode: (id: string, promo: PromoCodeInput) => api.post(`/events/${id}/promo-codes`, promo),
+
+  updatePromoCode: (id: string, promoId: string, update: Partial<PromoCodeInput>) =>
+    api.patch(`/events/${id}/promo-codes/${promoId}`, update),
+
+  deletePromoCode: (id: string, promoId: string) => api.delete(`/events/${id}/promo-codes/${promoId}`),
 };
 
 // Users API
@@ -149,24 +217,66 @@ export const bookingsAPI = {
   createBooking: (bookingData: {
     eventId: string;
     tickets?: Array<{ type: string; quantity: number }>;
-    paymentMethod: 'online' | 'pay-at-event';
+    paymentMethod: 'online' | 'pay-at-event' | 'bank_transfer' | 'cashapp' | 'paypal' | 'bitcoin';
     quantity?: number; // legacy support
     attendeeInfo?: { name: string; email: string; phone?: string };
     notes?: string;
+    promoCode?: string;
   }) => api.post('/bookings', bookingData),
+
+  // Server price for a cart, including early-bird prices and any promo code
+  getQuote: (cart: {
+    eventId: string;
+    tickets?: Array<{ type: string; quantity: number }>;
+    seats?: number;
+    promoCode?: string;
+  }) => api.post('/bookings/quote', cart),
   
   getUserBookings: (params?: { page?: number; limit?: number; status?: string }) =>
     api.get('/bookings/my-bookings', { params }),
   
   getBooking: (id: string) => api.get(`/bookings/${id}`),
+
+  getAvailability: (eventId: string) => api.get(`/bookings/availability/${eventId}`),
   
   cancelBooking: (id: string, reason?: string) =>
     api.patch(`/bookings/${id}/cancel`, { reason }),
+
+  getRefundRequests: (params?: { status?: string }) =>
+    api.get('/bookings/refunds', { params }),
+
+  updateRefundRequest: (refundId: string, update: {
+    status: 'approved' | 'rejected' | 'refunded';
+    notes?: string;
+  }) => api.patch(`/bookings/refunds/${refundId}`, update),
   
   getEventBookings: (eventId: string, params?: { page?: number; limit?: number; status?: string }) =>
     api.get(`/bookings/event/${eventId}`, { params }),
   
-  checkInBooking: (id: string) => api.patch(`/bookings/${id}/checkin`),
+  checkInBooking: (id: string, admit?: { gate?: string; deviceId?: string }) =>
+    api.patch(`/bookings/${id}/checkin`, admit),
+};
+
+// Check-in ledger API
+export const checkInsAPI = {
+  getEventCheckIns: (eventId: string, params?: { gate?: string; includeUndone?: boolean; limit?: number }) =>
+    api.get(`/checkins/event/${eventId}`, { params }),
+
+  undoCheckIn: (id: string, reason?: string) => api.post(`/checkins/${id}/undo`, { reason }),
+};
+
+// Waitlist API
+export const waitlistAPI = {
+  joinWaitlist: (entry: { eventId: string; ticketType?: string; quantity?: number }) =>
+    api.post('/waitlist', entry),
+
+  leaveWaitlist: (id: string) => api.delete(`/waitlist/${id}`),
+
+  getMyWaitlist: () => api.get('/waitlist/me'),
+
+  getHostWaitlist: () => api.get('/waitlist/host'),
+
+  getEventWaitlist: (eventId: string) => api.get(`/waitlist/event/${eventId}`),
 };
 
 // Notifications API
@@ -184,8 +294,18 @@ export const notificationsAPI = {
   
   getNotificationSettings: () => api.get('/notifications/settings'),
   
-  updateNotificationSettings: (settings: any) =>
-    api.put('/notifications/settings', settings),
+  updateNotificationSettings: (settings: {
+    types?: Record<string, { inApp?: boolean; push?: boolean; email?: boolean }>;
+    quietHours?: { enabled?: boolean; start?: string; end?: string; timezone?: string };
+  }) => api.put('/notifications/settings', settings),
+
+  getPushPublicKey: () => api.get('/notifications/push/key'),
+
+  subscribeToPush: (subscription: PushSubscriptionJSON) =>
+    api.post('/notifications/subscribe', { subscription }),
+
+  unsubscribeFromPush: (endpoint?: string) =>
+    api.post('/notifications/unsubscribe', { subscription: endpoint ? { endpoint } : undefined }),
 };
 
 // Upload API
@@ -220,11 +340,49 @@ export const analyticsAPI = {
   
   getEventAnalytics: (eventId: string) =>
     api.get(`/analytics/events/${eventId}`),
+
+  // Ticket sales with discounts, fees and taxes as separate line items
+  getEventRevenue: (eventId: string, currency?: string) =>
+    api.get(`/analytics/events/${eventId}/revenue`, { params: { currency } }),
+
+  // Revenue across the caller's events converted to one reporting currency
+  getHostRevenue: (currency?: string) =>
+    api.get('/analytics/revenue', { params: { currency } }),
   
   getPlatformAnalytics: (timeFrame?: string) =>
     api.get('/analytics/platform', { params: { timeFrame } }),
 };
 
+// Exchange rates (uploaded by admins, used for display and reporting conversions)
+export const exchangeRatesAPI = {
+  getLatest: () => api.get('/exchange-rates/latest'),
+
+  getSnapshots: () => api.get('/exchange-rates'),
+
+  // Either a rates map or "currency,rate" CSV text against `base`
+  uploadSnapshot: (data: { base: string; rates?: Record<string, number>; csv?: string; effectiveAt?: string; source?: string }) =>
+    api.post('/exchange-rates', data),
+};
+
+// Host payouts ledger and settlement statements (admins pass `host` to view someone else's)
+export const payoutsAPI = {
+  getSummary: (host?: string) => api.get('/payouts/summary', { params: { host } }),
+
+  getLedger: (params?: { currency?: string; settlement?: string; page?: number; limit?: number; host?: string }) =>
+    api.get('/payouts/ledger', { params }),
+
+  getSettlements: (params?: { status?: 'closed' | 'paid'; host?: string }) =>
+    api.get('/payouts/settlements', { params }),
+
+  // Close the open period; one settlement is created per currency
+  closePeriod: (periodEnd?: string) => api.post('/payouts/settlements', { periodEnd }),
+
+  downloadStatement: (id: string, format: 'csv' | 'pdf') =>
+    api.get(`/payouts/settlements/${id}/statement`, { params: { format }, responseType: 'blob' }),
+
+  markPaid: (id: string, reference?: string) => api.post(`/payouts/settlements/${id}/paid`, { reference }),
+};
+
 // Socket connection
 export const createSocketConnection = () => {
   const token = typeof window !== 'undefined' ? localStorage.getItem('auth-token') : '';
@@ -271,22 +429,91 @@ export const paymentReceiptAPI = {
 
   getReceipt: (receiptId: string) => api.get(`/payment-receipts/${receiptId}`),
 
-  confirmReceipt: (receiptId: string, verificationNotes?: string) =>
-    api.patch(`/payment-receipts/${receiptId}/confirm`, { verificationNotes }),
+  confirmReceipt: (receiptId: string, verificationNotes?: string, acceptAmountMismatch?: boolean) =>
+    api.patch(`/payment-receipts/${receiptId}/confirm`, { verificationNotes, acceptAmountMismatch }),
 
   rejectReceipt: (receiptId: string, verificationNotes?: string) =>
-    api.patch(`/payment-receipts/${receiptId}/reject`, { verificationNotes })
+    api.patch(`/payment-receipts/${receiptId}/reject`, { verificationNotes }),
+
+  importStatement: (statement: {
+    content: string;
+    filename?: string;
+    format?: 'csv' | 'ofx';
+    dateFormat?: 'auto' | 'dmy' | 'mdy';
+    eventId?: string;
+  }) => api.post('/payment-receipts/statements', statement),
+
+  getStatements: () => api.get('/payment-receipts/statements'),
+
+  getStatement: (statementId: string) => api.get(`/payment-receipts/statements/${statementId}`),
+
+  applyStatementDecisions: (statementId: string, decisions: Array<{
+    receiptId: string;
+    action: 'confirm' | 'reject';
+    lineId?: string;
+    note?: string;
+  }>) => api.post(`/payment-receipts/statements/${statementId}/apply`, { decisions })
+};
+
+// Online payments API
+export const paymentsAPI = {
+  getConfig: () => api.get('/payments/config'),
+
+  createIntent: (bookingId: string) => api.post('/payments/intents', { bookingId }),
+
+  getBookingPayment: (bookingId: string, sync?: boolean) =>
+    api.get(`/payments/booking/${bookingId}`, { params: sync ? { sync: 'true' } : undefined }),
+
+  getEventPayments: (eventId: string, params?: { status?: string }) =>
+    api.get(`/payments/event/${eventId}`, { params }),
+
+  capturePayment: (paymentId: string, amount?: number) =>
+    api.post(`/payments/${paymentId}/capture`, { amount }),
+
+  refundPayment: (paymentId: string, refund?: { amount?: number; reason?: string }) =>
+    api.post(`/payments/${paymentId}/refund`, refund || {})
+};
+
+// Numbered invoices for paid bookings
+export const invoicesAPI = {
+  getMyInvoices: () => api.get('/invoices/me'),
+
+  download: (id: string) => api.get(`/invoices/${id}/download`, { responseType: 'blob' }),
+
+  // Issued on demand for paid bookings that don't have one yet
+  downloadForBooking: (bookingId: string) =>
+    api.get(`/invoices/booking/${bookingId}/download`, { responseType: 'blob' }),
 };
 
 // Tickets API
 export const ticketsAPI = {
   getMyTickets: () => api.get('/tickets/my-tickets'),
 
-  downloadTicket: (id: string) => api.get(`/tickets/${id}/download`),
+  downloadTicket: (id: string) => api.get(`/tickets/${id}/download`, { responseType: 'blob' }),
+
+  downloadPass: (id: string) => api.get(`/tickets/${id}/pass`, { responseType: 'blob' }),
+
+  updateAttendee: (id: string, attendee: { name?: string; email?: string }) =>
+    api.patch(`/tickets/${id}/attendee`, attendee),
+
+  // Pass either the scanned qrData or a ticketId typed in at the door
+  validateTicket: (lookup: { qrData?: string; ticketId?: string; eventId?: string }) =>
+    api.post('/tickets/validate', lookup),
+
+  useTicket: (ticketId: string, admit?: { count?: number; deviceId?: string; gate?: string }) =>
+    api.patch(`/tickets/${ticketId}/use`, admit),
+
+  getCheckInStats: (eventId: string) => api.get(`/tickets/event/${eventId}/stats`),
+
+  getGateStats: (eventId: string) => api.get(`/tickets/event/${eventId}/gates`),
 
-  validateTicket: (qrData: string) => api.post('/tickets/validate', { qrData }),
+  getCheckInManifest: (eventId: string) => api.get(`/tickets/event/${eventId}/manifest`),
 
-  useTicket: (ticketId: string) => api.patch(`/tickets/${ticketId}/use`),
+  syncCheckIns: (eventId: string, payload: {
+    deviceId: string;
+    gate?: string;
+    admissions: Array<{ id: string; ticketId: string; count: number; scannedAt: string; gate?: string }>;
+  }) => api.post(`/tickets/event/${eventId}/sync`, payload),
 };
 
 export default api;
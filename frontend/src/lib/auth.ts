@@ -86,6 +86,14 @@ export class AuthService {
     }
   }
 
+  // Store a session issued some other way (verification links, sign-in codes)
+  setSession(token: string, user: unknown): void {
+    localStorage.setItem('auth-token', token);
+    localStorage.setItem('user', JSON.stringify(user));
+    // Trigger app state update
+    window.dispatchEvent(new Event('auth-change'));
+  }
+
   // Logout
   async logout(): Promise<void> {
     localStorage.removeItem('auth-token');
@@ -133,6 +141,10 @@ export class AuthService {
   async changePassword(passwordData: { currentPassword: string; newPassword: string }): Promise<ApiResponse<{ message: string }>> {
     try {
       const response = await authAPI.changePassword(passwordData);
+      // Other sessions were signed out; keep this one going with the new token
+      if (response.data?.token) {
+        this.setSession(response.data.token, response.data.user);
+      }
       return { success: true, data: response.data };
     } catch (error: any) {
       return { 
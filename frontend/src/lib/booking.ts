@@ -66,10 +66,9 @@ export interface PaymentMethod {
   isDefault: boolean;
 }
 
+// The amount is priced by the server from the booking; only the booking is sent
 export interface PaymentRequest {
   bookingId: string;
-  paymentMethodId: string;
-  amount: number;
 }
 
 export interface Ticket {
@@ -163,14 +162,23 @@ export class BookingService {
     return apiClient.post('/payments/methods', method);
   }
 
-  // Process payment
+  // Start online checkout; redirect the attendee to `checkoutUrl` to pay
   async processPayment(paymentData: PaymentRequest): Promise<ApiResponse<{
     paymentId: string;
-    status: 'success' | 'failed';
-    transactionId?: string;
-    receipt?: string;
+    status: 'requires_payment' | 'authorized' | 'succeeded' | 'failed' | 'cancelled' | 'refunded';
+    checkoutUrl: string;
+    amount: number;
+    currency: string;
   }>> {
-    return apiClient.post('/payments/process', paymentData);
+    return apiClient.post('/payments/intents', { bookingId: paymentData.bookingId });
+  }
+
+  // Latest online payment for a booking, asking the provider if the webhook hasn't arrived yet
+  async getPaymentStatus(bookingId: string): Promise<ApiResponse<{
+    payment: { _id: string; status: string; amount: number; currency: string };
+    booking: { status: string; paymentStatus: string };
+  }>> {
+    return apiClient.get(`/payments/booking/${bookingId}`, { params: { sync: 'true' } });
   }
 
   // Generate ticket
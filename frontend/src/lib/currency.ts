@@ -0,0 +1,32 @@
+// Currencies an event can be priced in (mirrors backend utils/currency.js)
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'KRW', 'BRL', 'MXN', 'INR', 'CNY', 'NGN', 'ZAR', 'KES', 'GHS'];
+
+// An uploaded rate table: 1 unit of `base` buys `rates[code]` of each currency
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+  effectiveAt: string;
+}
+
+// Symbol and minor units per ISO code, e.g. "$1,234.50" or "¥1,235"
+export const formatMoney = (amount: number, currency = 'USD') => {
+  const code = (currency || 'USD').toUpperCase();
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: code }).format(amount || 0);
+  } catch {
+    return `${code} ${(amount || 0).toFixed(2)}`;
+  }
+};
+
+// Convert through the table's base; null when either currency has no rate
+export const convertAmount = (amount: number, from: string, to: string, table: ExchangeRates | null) => {
+  const source = (from || 'USD').toUpperCase();
+  const target = (to || 'USD').toUpperCase();
+  if (source === target) return amount;
+  if (!table) return null;
+  const rateFor = (code: string) => code === table.base ? 1 : table.rates[code];
+  const fromRate = rateFor(source);
+  const toRate = rateFor(target);
+  if (!fromRate || !toRate) return null;
+  return Math.round(amount / fromRate * toRate * 100) / 100;
+};
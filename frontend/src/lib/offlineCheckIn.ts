@@ -0,0 +1,315 @@
+// Offline door check-in: an event's ticket manifest is kept in IndexedDB so scans can be
+// validated without a connection, and admissions are queued until they can be synced.
+import { isTicketToken, verifyTicketTokenOffline, type PublishedTicketKeys } from './ticketToken';
+
+export interface ManifestTicket {
+  ticketId: string;
+  codeHash: string;
+  ticketType: string;
+  quantity: number;
+  admittedCount: number;
+  status: string;
+  attendeeName?: string;
+  validFrom: string;
+  validUntil: string;
+}
+
+export interface CheckInManifest {
+  eventId: string;
+  eventTitle: string;
+  eventDate?: string;
+  generatedAt: string;
+  keys: PublishedTicketKeys;
+  tickets: ManifestTicket[];
+}
+
+export interface QueuedAdmission {
+  id: string;
+  eventId: string;
+  ticketId: string;
+  count: number;
+  scannedAt: string;
+  gate?: string;
+}
+
+export interface SyncConflict {
+  id: string;
+  ticketId: string;
+  reason: 'not_found' | 'already_admitted' | 'over_admitted' | 'cancelled' | 'expired' | string;
+  requested: number;
+  applied: number;
+  scannedAt: string;
+  previousAdmissions?: Array<{ count: number; admittedAt: string; deviceId?: string; gate?: string; source: string }>;
+}
+
+export interface SyncResponse {
+  applied: string[];
+  duplicates: string[];
+  conflicts: SyncConflict[];
+  tickets: Array<{ ticketId: string; quantity: number; admittedCount: number; status: string }>;
+}
+
+// Mirrors the shape returned by POST /tickets/validate so the scanner can treat both alike
+export interface OfflineValidation {
+  valid: boolean;
+  message: string;
+  reason?: string;
+  ticket?: {
+    ticketId: string;
+    attendeeName: string;
+    ticketType: string;
+    quantity: number;
+    admittedCount: number;
+    remaining: number;
+    status: string;
+  };
+}
+
+const DB_NAME = 'ishow-checkin';
+const DB_VERSION = 1;
+const DEVICE_ID_KEY = 'checkin-device-id';
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('manifests', { keyPath: 'eventId' });
+        const tickets = db.createObjectStore('tickets', { keyPath: ['eventId', 'ticketId'] });
+        tickets.createIndex('eventId', 'eventId');
+        const queue = db.createObjectStore('queue', { keyPath: 'id' });
+        queue.createIndex('eventId', 'eventId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Stable id for this browser so conflicts can name the gate that admitted a guest
+export const getDeviceId = () => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = `gate-${crypto.randomUUID().slice(0, 8)}`;
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+export const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Replace the stored manifest, keeping local admissions that have not been synced yet
+export const saveManifest = async (manifest: CheckInManifest) => {
+  const db = await openDb();
+  const pending = await getQueuedAdmissions(manifest.eventId);
+  const pendingByTicket = pending.reduce<Record<string, number>>((acc, a) => {
+    acc[a.ticketId] = (acc[a.ticketId] || 0) + a.count;
+    return acc;
+  }, {});
+
+  const tx = db.transaction(['manifests', 'tickets'], 'readwrite');
+  const { tickets, ...meta } = manifest;
+  tx.objectStore('manifests').put({ ...meta, ticketCount: tickets.length });
+
+  const ticketStore = tx.objectStore('tickets');
+  const existing = await requestToPromise(ticketStore.index('eventId').getAllKeys(manifest.eventId));
+  existing.forEach(key => ticketStore.delete(key));
+  tickets.forEach(ticket => {
+    const admittedCount = Math.min(ticket.quantity, ticket.admittedCount + (pendingByTicket[ticket.ticketId] || 0));
+    ticketStore.put({
+      ...ticket,
+      eventId: manifest.eventId,
+      admittedCount,
+      status: admittedCount >= ticket.quantity && ticket.status === 'active' ? 'used' : ticket.status
+    });
+  });
+
+  await transactionDone(tx);
+};
+
+export const getManifestInfo = async (eventId: string) => {
+  const db = await openDb();
+  return requestToPromise<(Omit<CheckInManifest, 'tickets'> & { ticketCount: number }) | undefined>(
+    db.transaction('manifests').objectStore('manifests').get(eventId)
+  );
+};
+
+export const getLocalTickets = async (eventId: string) => {
+  const db = await openDb();
+  return requestToPromise<Array<ManifestTicket & { eventId: string }>>(
+    db.transaction('tickets').objectStore('tickets').index('eventId').getAll(eventId)
+  );
+};
+
+const getLocalTicket = async (eventId: string, ticketId: string) => {
+  const db = await openDb();
+  return requestToPromise<(ManifestTicket & { eventId: string }) | undefined>(
+    db.transaction('tickets').objectStore('tickets').get([eventId, ticketId])
+  );
+};
+
+export const getQueuedAdmissions = async (eventId: string) => {
+  const db = await openDb();
+  return requestToPromise<QueuedAdmission[]>(
+    db.transaction('queue').objectStore('queue').index('eventId').getAll(eventId)
+  );
+};
+
+const toValidation = (ticket: ManifestTicket) => ({
+  ticketId: ticket.ticketId,
+  attendeeName: ticket.attendeeName || 'Guest',
+  ticketType: ticket.ticketType,
+  quantity: ticket.quantity,
+  admittedCount: ticket.admittedCount,
+  remaining: Math.max(0, ticket.quantity - ticket.admittedCount),
+  status: ticket.status
+});
+
+// Check a scanned code (or a typed ticketId) against the stored manifest
+export const validateOffline = async (
+  eventId: string,
+  lookup: { qrData?: string; ticketId?: string }
+): Promise<OfflineValidation> => {
+  const manifest = await getManifestInfo(eventId);
+  if (!manifest) return { valid: false, message: 'Download the ticket list before checking in offline' };
+
+  let ticketId = lookup.ticketId?.trim();
+  if (lookup.qrData) {
+    if (isTicketToken(lookup.qrData)) {
+      const verification = await verifyTicketTokenOffline(lookup.qrData, manifest.keys);
+      if (!verification.valid) {
+        return { valid: false, message: verification.message, reason: verification.reason };
+      }
+      ticketId = verification.claims.ticketId;
+    } else {
+      // Legacy JSON codes cannot be signature-checked offline; the manifest digest vouches for them
+      try {
+        ticketId = JSON.parse(lookup.qrData).ticketId;
+      } catch {
+        return { valid: false, message: 'Invalid QR code format' };
+      }
+    }
+  }
+
+  const ticket = ticketId ? await getLocalTicket(eventId, ticketId) : undefined;
+  if (!ticket) return { valid: false, message: 'Ticket not found in the downloaded list' };
+
+  if (lookup.qrData && ticket.codeHash !== await sha256Hex(lookup.qrData)) {
+    return {
+      valid: false,
+      message: "This ticket code doesn't match the one on file. Ask the attendee to show their latest ticket.",
+      reason: 'superseded'
+    };
+  }
+
+  const summary = toValidation(ticket);
+  if (ticket.status === 'used' || summary.remaining <= 0) {
+    return { valid: false, message: 'Ticket has already been used', reason: 'used', ticket: summary };
+  }
+  if (ticket.status !== 'active') {
+    return { valid: false, message: `Ticket is ${ticket.status}`, reason: ticket.status, ticket: summary };
+  }
+  const now = Date.now();
+  if (now < new Date(ticket.validFrom).getTime() || now > new Date(ticket.validUntil).getTime()) {
+    return { valid: false, message: 'Ticket is not valid at this time', reason: 'outside_validity', ticket: summary };
+  }
+
+  return {
+    valid: true,
+    message: summary.admittedCount > 0
+      ? `Ticket is valid (${summary.remaining} of ${summary.quantity} admissions left)`
+      : 'Ticket is valid',
+    ticket: summary
+  };
+};
+
+// Record an admission locally and queue it for the server
+export const admitOffline = async (eventId: string, ticketId: string, count: number, gate?: string) => {
+  const db = await openDb();
+  const tx = db.transaction(['tickets', 'queue'], 'readwrite');
+  const ticketStore = tx.objectStore('tickets');
+  const ticket = await requestToPromise<(ManifestTicket & { eventId: string }) | undefined>(
+    ticketStore.get([eventId, ticketId])
+  );
+  if (!ticket) throw new Error('Ticket not found in the downloaded list');
+
+  const remaining = ticket.quantity - ticket.admittedCount;
+  if (count > remaining) throw new Error(`Only ${remaining} admission${remaining === 1 ? '' : 's'} left on this ticket`);
+
+  const admittedCount = ticket.admittedCount + count;
+  const updated = { ...ticket, admittedCount, status: admittedCount >= ticket.quantity ? 'used' : ticket.status };
+  const queueId = crypto.randomUUID();
+  ticketStore.put(updated);
+  tx.objectStore('queue').put({
+    id: queueId,
+    eventId,
+    ticketId,
+    count,
+    scannedAt: new Date().toISOString(),
+    gate
+  } satisfies QueuedAdmission);
+
+  await transactionDone(tx);
+  return { queueId, ticket: toValidation(updated) };
+};
+
+// Take back an admission that has not been synced yet
+export const undoOfflineAdmission = async (eventId: string, queueId: string) => {
+  const db = await openDb();
+  const tx = db.transaction(['tickets', 'queue'], 'readwrite');
+  const queue = tx.objectStore('queue');
+  const admission = await requestToPromise<QueuedAdmission | undefined>(queue.get(queueId));
+  if (!admission) throw new Error('This admission has already been synced');
+
+  const ticketStore = tx.objectStore('tickets');
+  const ticket = await requestToPromise<(ManifestTicket & { eventId: string }) | undefined>(
+    ticketStore.get([eventId, admission.ticketId])
+  );
+  queue.delete(queueId);
+  if (ticket) {
+    const admittedCount = Math.max(0, ticket.admittedCount - admission.count);
+    ticketStore.put({ ...ticket, admittedCount, status: ticket.status === 'used' ? 'active' : ticket.status });
+  }
+
+  await transactionDone(tx);
+};
+
+// Drop synced admissions from the queue and take the server's word for the tickets involved
+export const applySyncResult = async (eventId: string, result: SyncResponse) => {
+  const db = await openDb();
+  const tx = db.transaction(['tickets', 'queue'], 'readwrite');
+  const queue = tx.objectStore('queue');
+  [...result.applied, ...result.duplicates, ...result.conflicts.map(c => c.id)].forEach(id => queue.delete(id));
+
+  const ticketStore = tx.objectStore('tickets');
+  for (const serverTicket of result.tickets) {
+    const local = await requestToPromise<(ManifestTicket & { eventId: string }) | undefined>(
+      ticketStore.get([eventId, serverTicket.ticketId])
+    );
+    if (local) {
+      ticketStore.put({ ...local, admittedCount: serverTicket.admittedCount, status: serverTicket.status });
+    }
+  }
+
+  await transactionDone(tx);
+};
@@ -1,3 +1,5 @@
+import { notificationsAPI } from './api';
+
 // Push Notification Service
 class PushNotificationService {
   private swRegistration: ServiceWorkerRegistration | null = null;
@@ -26,6 +28,11 @@ class PushNotificationService {
       // Register service worker
       await this.registerServiceWorker();
 
+      // Already allowed on an earlier visit: make sure the server still has this device
+      if (Notification.permission === 'granted') {
+        await this.subscribeToPush();
+      }
+
       console.log('🔔 Push notification service initialized');
     } catch (error) {
       console.error('🔔 Failed to initialize push notification service:', error);
@@ -99,21 +106,24 @@ class PushNotificationService {
       let subscription = await this.swRegistration.pushManager.getSubscription();
       
       if (!subscription) {
-        // Convert VAPID key - use ArrayBuffer instead of Uint8Array for compatibility
-        const applicationServerKey = this.urlBase64ToUint8Array(this.vapidPublicKey);
-        
+        const vapidPublicKey = await this.getVapidPublicKey();
+        if (!vapidPublicKey) {
+          console.warn('🔔 Push notifications are not configured on the server');
+          return null;
+        }
+
         // Subscribe to push notifications
         subscription = await this.swRegistration.pushManager.subscribe({
           userVisibleOnly: true,
-          applicationServerKey: applicationServerKey as any // Cast to any to handle type compatibility
+          applicationServerKey: this.urlBase64ToUint8Array(vapidPublicKey)
         });
 
         console.log('🔔 Push subscription created');
-        
-        // Send subscription to server
-        await this.sendSubscriptionToServer(subscription);
       }
 
+      // Send it every time: the server drops subscriptions its push service reports gone
+      await this.sendSubscriptionToServer(subscription);
+
       return subscription;
     } catch (error) {
       console.error('🔔 Failed to subscribe to push notifications:', error);
@@ -121,6 +131,16 @@ class PushNotificationService {
     }
   }
 
+  // The server's key wins over the build-time one so a key rotation needs no rebuild
+  private async getVapidPublicKey(): Promise<string> {
+    try {
+      const response = await notificationsAPI.getPushPublicKey();
+      return response.data.publicKey || this.vapidPublicKey;
+    } catch {
+      return this.vapidPublicKey;
+    }
+  }
+
   private async sendSubscriptionToServer(subscription: PushSubscription): Promise<void> {
     try {
       const token = localStorage.getItem('auth-token');
@@ -129,22 +149,8 @@ class PushNotificationService {
         return;
       }
 
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:5000/api'}/notifications/subscribe`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          subscription: subscription.toJSON()
-        })
-      });
-
-      if (response.ok) {
-        console.log('🔔 Push subscription sent to server');
-      } else {
-        console.error('🔔 Failed to send push subscription to server');
-      }
+      await notificationsAPI.subscribeToPush(subscription.toJSON());
+      console.log('🔔 Push subscription sent to server');
     } catch (error) {
       console.error('🔔 Error sending subscription to server:', error);
     }
@@ -178,16 +184,7 @@ class PushNotificationService {
       const token = localStorage.getItem('auth-token');
       if (!token) return;
 
-      await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:5000/api'}/notifications/unsubscribe`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          subscription: subscription.toJSON()
-        })
-      });
+      await notificationsAPI.unsubscribeFromPush(subscription.endpoint);
     } catch (error) {
       console.error('🔔 Error removing subscription from server:', error);
     }
@@ -223,7 +220,7 @@ class PushNotificationService {
   }
 
   // Utility function to convert VAPID key
-  private urlBase64ToUint8Array(base64String: string): Uint8Array {
+  private urlBase64ToUint8Array(base64String: string): Uint8Array<ArrayBuffer> {
     const padding = '='.repeat((4 - base64String.length % 4) % 4);
     const base64 = (base64String + padding)
       .replace(/-/g, '+')
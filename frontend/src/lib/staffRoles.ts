@@ -0,0 +1,8 @@
+export type StaffRole = 'co-host' | 'scanner' | 'finance';
+
+// Mirrors ROLE_PERMISSIONS in backend/src/utils/eventAccess.js
+export const staffRoleLabels: Record<StaffRole, { name: string; description: string }> = {
+  'co-host': { name: 'Co-host', description: 'Check-in, bookings, revenue, receipts and promo codes' },
+  scanner: { name: 'Scanner', description: 'Validate and admit tickets at the door' },
+  finance: { name: 'Finance', description: 'Bookings, revenue and receipt confirmation' }
+};
@@ -0,0 +1,102 @@
+// Offline verification of signed ticket codes (IS1 tokens) using an event's published keys
+
+export interface TicketTokenClaims {
+  kid: string;
+  ticketId: string;
+  eventId: string;
+  ticketType: string;
+  validFrom: Date;
+  validUntil: Date;
+}
+
+export interface PublishedTicketKey {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  x: string;
+  kid: string;
+  status: 'active' | 'retired';
+}
+
+export interface PublishedTicketKeys {
+  eventId: string;
+  format: string;
+  keys: PublishedTicketKey[];
+  revoked: Array<{ kid: string; revokedAt?: string }>;
+  issuedAt: string;
+}
+
+export type TicketTokenResult =
+  | { valid: true; claims: TicketTokenClaims }
+  | { valid: false; reason: 'format' | 'wrong_event' | 'unknown_key' | 'revoked_key' | 'bad_signature' | 'expired'; message: string; claims?: TicketTokenClaims };
+
+const TOKEN_VERSION = 'IS1';
+
+export const isTicketToken = (value: string) => value.startsWith(`${TOKEN_VERSION}.`);
+
+const base64UrlToBytes = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+export const decodeTicketToken = (token: string): TicketTokenClaims | null => {
+  if (!isTicketToken(token)) return null;
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlToBytes(parts[1])));
+    return {
+      kid: claims.k,
+      ticketId: claims.t,
+      eventId: claims.e,
+      ticketType: claims.y,
+      validFrom: new Date(claims.f * 1000),
+      validUntil: new Date(claims.u * 1000),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Verify a scanned code without contacting the server
+export const verifyTicketTokenOffline = async (
+  token: string,
+  published: PublishedTicketKeys,
+  now: Date = new Date()
+): Promise<TicketTokenResult> => {
+  const claims = decodeTicketToken(token);
+  if (!claims) return { valid: false, reason: 'format', message: 'Not a ticket code' };
+
+  if (claims.eventId !== published.eventId) {
+    return { valid: false, reason: 'wrong_event', message: 'Ticket is for a different event', claims };
+  }
+  if (published.revoked.some(k => k.kid === claims.kid)) {
+    return { valid: false, reason: 'revoked_key', message: 'Ticket was signed with a revoked key', claims };
+  }
+
+  const jwk = published.keys.find(k => k.kid === claims.kid);
+  if (!jwk) return { valid: false, reason: 'unknown_key', message: 'Ticket was signed with an unknown key', claims };
+
+  const [version, payload, signature] = token.split('.');
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    { kty: jwk.kty, crv: jwk.crv, x: jwk.x },
+    { name: 'Ed25519' },
+    false,
+    ['verify']
+  );
+  const signatureValid = await crypto.subtle.verify(
+    { name: 'Ed25519' },
+    key,
+    base64UrlToBytes(signature),
+    new TextEncoder().encode(`${version}.${payload}`)
+  );
+  if (!signatureValid) {
+    return { valid: false, reason: 'bad_signature', message: 'Invalid ticket - security verification failed', claims };
+  }
+
+  if (now < claims.validFrom || now > claims.validUntil) {
+    return { valid: false, reason: 'expired', message: 'Ticket is outside its validity window', claims };
+  }
+
+  return { valid: true, claims };
+};
@@ -8,6 +8,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Badge } from '../components/ui/badge';
 import { Avatar, AvatarFallback } from '../components/ui/avatar';
 import EventCard from '../components/EventCard';
+import ExchangeRatesManager from '../components/ExchangeRatesManager';
+import SettlementPayouts from '../components/SettlementPayouts';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -185,6 +187,8 @@ const Admin: FC = () => {
             <TabsList className="backdrop-blur-glass bg-gradient-glass border border-glass-border/30 shadow-glass mb-6">
               <TabsTrigger value="users">User Management</TabsTrigger>
               <TabsTrigger value="events">Event Moderation</TabsTrigger>
+              <TabsTrigger value="currency">Exchange Rates</TabsTrigger>
+              <TabsTrigger value="payouts">Payouts</TabsTrigger>
             </TabsList>
 
             <TabsContent value="users">
@@ -379,6 +383,14 @@ const Admin: FC = () => {
                 </Card>
               )}
             </TabsContent>
+
+            <TabsContent value="currency">
+              <ExchangeRatesManager />
+            </TabsContent>
+
+            <TabsContent value="payouts">
+              <SettlementPayouts />
+            </TabsContent>
           </Tabs>
         </motion.div>
       </div>
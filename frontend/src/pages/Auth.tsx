@@ -1,6 +1,6 @@
 import { useState, useEffect, type FormEvent, type FC } from 'react';
 import { motion } from 'framer-motion';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Eye, EyeOff, Mail, Lock, User } from 'lucide-react';
 import { useEvents } from '../contexts/EventContext';
 import { Button } from '../components/ui/button';
@@ -8,7 +8,10 @@ import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+import EmailCodeInput from '../components/EmailCodeInput';
 import { useToast } from '../hooks/use-toast';
+import { authAPI } from '../lib/api';
+import { authService } from '../lib/auth';
 
 const Auth: FC = () => {
   const { login, register, isAuthenticated } = useEvents();
@@ -31,6 +34,11 @@ const Auth: FC = () => {
     password: ''
   });
   
+  // Passwordless sign-in with a code sent by email
+  const [useEmailCode, setUseEmailCode] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [loginCode, setLoginCode] = useState('');
+
   const [registerData, setRegisterData] = useState({
     name: '',
     email: '',
@@ -95,6 +103,62 @@ const Auth: FC = () => {
     }
   };
 
+  const requestLoginCode = async (e?: FormEvent) => {
+    e?.preventDefault();
+    if (!loginData.email) {
+      toast({
+        title: 'Missing Information',
+        description: 'Please enter your email.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await authAPI.requestLoginCode(loginData.email);
+      setCodeSent(true);
+      setLoginCode('');
+      toast({
+        title: 'Check Your Email',
+        description: 'If an account exists for that address, we sent it a 6-digit sign-in code.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Could Not Send Code',
+        description: (error as { response?: { data?: { message?: string } } }).response?.data?.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyLoginCode = async (code = loginCode) => {
+    if (code.length !== 6) return;
+    setIsLoading(true);
+    try {
+      const response = await authAPI.verifyLoginCode({ email: loginData.email, code });
+      authService.setSession(response.data.token, response.data.user);
+      navigate('/events');
+    } catch (error) {
+      setLoginCode('');
+      toast({
+        title: 'Sign In Failed',
+        description: (error as { response?: { data?: { message?: string } } }).response?.data?.message || 'That code could not be verified.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCodeLogin = (e: FormEvent) => {
+    e.preventDefault();
+    if (codeSent) verifyLoginCode();
+    else requestLoginCode();
+  };
+
   const handleRegister = async (e: FormEvent) => {
     e.preventDefault();
     
@@ -131,7 +195,11 @@ const Auth: FC = () => {
       const success = await register(registerData.name, registerData.email, registerData.password);
 
       if (success) {
-        navigate('/events');
+        toast({
+          title: 'Check Your Email',
+          description: 'We sent you a link and a code to verify your email address.',
+        });
+        navigate(`/verify-email?email=${encodeURIComponent(registerData.email)}`);
       } else {
         toast({
           title: 'Registration Failed',
@@ -191,6 +259,63 @@ const Auth: FC = () => {
                 </TabsList>
 
                 <TabsContent value="login">
+                  {useEmailCode ? (
+                  <form onSubmit={handleCodeLogin} className="space-y-4 font-poppins text-[15px]">
+                    <div className="space-y-2">
+                      <Label htmlFor="code-email">Email</Label>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="code-email"
+                          type="email"
+                          placeholder="Enter your email"
+                          value={loginData.email}
+                          onChange={(e) => {
+                            setLoginData({ ...loginData, email: e.target.value });
+                            setCodeSent(false);
+                          }}
+                          className="w-full box-border pl-10 bg-glass-light/10 border border-gray-300"
+                          required
+                        />
+                      </div>
+                    </div>
+
+                    {codeSent && (
+                      <div className="space-y-2">
+                        <Label>Sign-in code</Label>
+                        <EmailCodeInput
+                          value={loginCode}
+                          onChange={setLoginCode}
+                          onComplete={(code) => verifyLoginCode(code)}
+                          disabled={isLoading}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => requestLoginCode()}
+                          disabled={isLoading}
+                          className="text-sm text-muted-foreground hover:text-foreground underline"
+                        >
+                          Send a new code
+                        </button>
+                      </div>
+                    )}
+
+                    <Button
+                      type="submit"
+                      className="w-full bg-[#00593F] text-white border-0 shadow-accent-glow mt-8"
+                      disabled={isLoading || (codeSent && loginCode.length !== 6)}
+                    >
+                      {isLoading ? 'Please wait...' : codeSent ? 'Sign In' : 'Email Me a Code'}
+                    </Button>
+                    <button
+                      type="button"
+                      onClick={() => setUseEmailCode(false)}
+                      className="w-full text-sm text-muted-foreground hover:text-foreground"
+                    >
+                      Sign in with your password instead
+                    </button>
+                  </form>
+                  ) : (
                   <form onSubmit={handleLogin} className="space-y-4 font-poppins text-[15px]">
                     <div className="space-y-2">
                       <Label htmlFor="login-email">Email</Label>
@@ -209,7 +334,12 @@ const Auth: FC = () => {
                     </div>
 
                     <div className="space-y-2 font-poppins">
-                      <Label htmlFor="login-password text-[17px]">Password</Label>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="login-password text-[17px]">Password</Label>
+                        <Link to="/forgot-password" className="text-sm text-muted-foreground hover:text-foreground">
+                          Forgot password?
+                        </Link>
+                      </div>
                       <div className="relative">
                         <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                         <Input
@@ -242,7 +372,18 @@ const Auth: FC = () => {
                     >
                       {isLoading ? 'Signing In...' : 'Sign In'}
                     </Button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setUseEmailCode(true);
+                        setCodeSent(false);
+                      }}
+                      className="w-full text-sm text-muted-foreground hover:text-foreground"
+                    >
+                      Email me a sign-in code instead
+                    </button>
                   </form>
+                  )}
                 </TabsContent>
 
                 <TabsContent value="register">
@@ -1,5 +1,5 @@
-import { useState, type ChangeEvent, type FC } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, type ChangeEvent, type FC } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { 
   Calendar, 
@@ -10,7 +10,10 @@ import {
   Upload,
   Check, 
   ArrowLeft,
-  Banknote
+  Banknote,
+  CreditCard,
+  Tag,
+  X
 } from 'lucide-react';
 import { useEvents } from '../contexts/EventContext';
 import { Button } from '../components/ui/button';
@@ -21,11 +24,48 @@ import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Textarea } from '../components/ui/textarea';
 import { useToast } from '../hooks/use-toast';
-import { paymentReceiptAPI, uploadAPI, bookingsAPI } from '../lib/api';
+import { paymentReceiptAPI, uploadAPI, bookingsAPI, waitlistAPI, paymentsAPI } from '../lib/api';
+
+interface TierAvailability {
+  type: string;
+  price: number;
+  regularPrice?: number;
+  earlyBirdUntil?: string | null;
+  slots: number | null;
+  booked: number;
+  remaining: number;
+}
+
+interface EventAvailability {
+  totalSlots: number;
+  bookedSlots: number;
+  remaining: number;
+  tiers: TierAvailability[];
+}
+
+// Server price for the selected tickets (POST /bookings/quote)
+interface BookingQuote {
+  subtotal: number;
+  discount: number;
+  total: number;
+  currency: string;
+  lines: Array<{ type: string; quantity: number; unitPrice: number; earlyBird: boolean; subtotal: number; discount: number }>;
+  // Inclusive charges are already in the ticket prices; fees and taxes only sum the ones added on top
+  charges: Array<{ name: string; kind: 'fee' | 'tax'; inclusive: boolean; amount: number }>;
+  fees: number;
+  taxes: number;
+  promo?: { code: string; description?: string };
+}
+
+// Offered alongside the host's own payment methods whenever an online provider is configured
+const ONLINE_PAYMENT_OPTION = { id: 'online', type: 'online', isActive: true, details: {} };
 
 const BookingPage: FC = () => {
   const { eventId } = useParams<{ eventId: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Set when the attendee comes back from the payment provider's checkout page
+  const returningBookingId = searchParams.get('booking');
 const { events, currentUser } = useEvents();
   const { toast } = useToast();
   
@@ -37,19 +77,133 @@ const { events, currentUser } = useEvents();
   
   // Ticket selection state (keys are ticketPricing names: regular, vip, vvip, tableFor2, tableFor5, standard)
   const [selectedTickets, setSelectedTickets] = useState<Record<string, number>>({});
+  const [availability, setAvailability] = useState<EventAvailability | null>(null);
+
+  // Pending booking whose seats are held while the attendee pays and uploads a receipt
+  // selectionKey records the tickets, payment method and promo code the hold was made for
+  const [heldBooking, setHeldBooking] = useState<{ id: string; holdExpiresAt?: string; paymentMethod?: string; selectionKey?: string } | null>(null);
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  // Tiers the user has joined the waitlist for, keyed by ticket type
+  const [waitlistPositions, setWaitlistPositions] = useState<Record<string, number | null>>({});
+  const [onlinePaymentsEnabled, setOnlinePaymentsEnabled] = useState(false);
+  const [redirectingToCheckout, setRedirectingToCheckout] = useState(false);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [latestQuote, setLatestQuote] = useState<BookingQuote | null>(null);
+
+  useEffect(() => {
+    paymentsAPI.getConfig()
+      .then(response => setOnlinePaymentsEnabled(!!response.data.enabled))
+      .catch(() => setOnlinePaymentsEnabled(false));
+  }, []);
+
+  // Back from checkout: the webhook may not have landed yet, so ask the server to check with the provider
+  useEffect(() => {
+    if (!returningBookingId) return;
+    paymentsAPI.getBookingPayment(returningBookingId, true)
+      .then(response => {
+        const { payment, booking } = response.data;
+        if (payment.status === 'succeeded' || payment.status === 'authorized') {
+          setBookingStep('confirmed');
+          toast({
+            title: 'Payment Successful!',
+            description: 'Your booking is confirmed. Your tickets will appear in My Tickets shortly.',
+          });
+        } else if (payment.status === 'failed' || payment.status === 'requires_payment') {
+          setHeldBooking({ id: returningBookingId, holdExpiresAt: booking.holdExpiresAt, paymentMethod: 'online' });
+          setSelectedPaymentMethod(ONLINE_PAYMENT_OPTION);
+          setBookingStep('payment');
+          toast({
+            title: payment.status === 'failed' ? 'Payment Failed' : 'Payment Not Completed',
+            description: payment.failureReason || 'Your seats are still held. You can try paying again.',
+            variant: 'destructive',
+          });
+        }
+      })
+      .catch(error => console.error('Failed to check payment status:', error))
+      .finally(() => setSearchParams({}, { replace: true }));
+  }, [returningBookingId, setSearchParams, toast]);
+
+  // Live per-tier availability from the reservation service
+  useEffect(() => {
+    if (!eventId) return;
+    bookingsAPI.getAvailability(eventId)
+      .then(response => setAvailability(response.data))
+      .catch(error => console.error('Failed to load ticket availability:', error));
+  }, [eventId]);
+
+  // Re-price on the server whenever the selection or promo code changes; the booking is charged exactly this
+  useEffect(() => {
+    const tickets = Object.entries(selectedTickets)
+      .filter(([, qty]) => (qty || 0) > 0)
+      .map(([type, quantity]) => ({ type, quantity }));
+    if (!eventId || tickets.length === 0) return;
+
+    let cancelled = false;
+    bookingsAPI.getQuote({ eventId, tickets, promoCode: promoCode || undefined })
+      .then(response => {
+        if (!cancelled) setLatestQuote(response.data);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        if (promoCode && error?.response?.data?.promoCode) {
+          setPromoCode(null);
+          toast({
+            title: 'Promo Code Not Applied',
+            description: error.response.data.message || 'This code could not be applied.',
+            variant: 'destructive',
+          });
+        } else {
+          console.error('Failed to price booking:', error);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setApplyingPromo(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId, selectedTickets, promoCode, toast]);
+
+  // Tick once a second while a hold is running
+  useEffect(() => {
+    if (!heldBooking?.holdExpiresAt) return;
+    const timer = setInterval(() => setNowMs(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [heldBooking]);
+
+  const holdRemainingMs = heldBooking?.holdExpiresAt
+    ? Math.max(0, new Date(heldBooking.holdExpiresAt).getTime() - nowMs)
+    : null;
+  const isHoldExpired = holdRemainingMs === 0;
+
+  const formatCountdown = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+  };
 
   const event = Array.isArray(events) ? events.find(e => (e.id === eventId || e._id === eventId)) : null;
 
-  // Prepare categories from backend ticketPricing shape
+  // Prepare categories from backend ticketPricing shape; live availability carries the early-bird price
   const ticketCategories = event?.ticketPricing ? Object.entries(event.ticketPricing)
     .filter(([, cfg]) => cfg && (typeof (cfg as any)?.price === 'number'))
-    .map(([key, cfg]) => ({
-      id: key,
-      name: key,
-      price: (cfg as { price: number; slots: number; includes: string[] }).price,
-      slots: (cfg as { price: number; slots: number; includes: string[] }).slots || 0,
-      includes: (cfg as { price: number; slots: number; includes: string[] }).includes || []
-    }))
+    .map(([key, cfg]) => {
+      const tier = availability?.tiers.find(t => t.type === key);
+      return {
+        id: key,
+        name: key,
+        price: tier ? tier.price : (cfg as { price: number; slots: number; includes: string[] }).price,
+        regularPrice: (cfg as { price: number; slots: number; includes: string[] }).price,
+        earlyBirdUntil: tier?.earlyBirdUntil || null,
+        slots: (cfg as { price: number; slots: number; includes: string[] }).slots || 0,
+        includes: (cfg as { price: number; slots: number; includes: string[] }).includes || []
+      };
+    })
     : [];
 
   const totalTickets = Object.values(selectedTickets).reduce((sum, count) => sum + count, 0);
@@ -57,6 +211,10 @@ const { events, currentUser } = useEvents();
     const count = selectedTickets[category.id] || 0;
     return sum + (category.price * count);
   }, 0);
+  // An emptied selection has nothing to price, so drop the last quote
+  const quote = totalTickets > 0 ? latestQuote : null;
+  // What the attendee will actually be charged; the local sum only shows until the quote arrives
+  const payableTotal = quote ? quote.total : totalPrice;
 
   if (!event) {
     return (
@@ -144,6 +302,74 @@ const { events, currentUser } = useEvents();
     );
   }
 
+  const paymentOptions = [
+    ...(onlinePaymentsEnabled ? [ONLINE_PAYMENT_OPTION] : []),
+    ...(Array.isArray(event.paymentMethods) ? event.paymentMethods.filter(pm => pm.isActive) : [])
+  ];
+
+  const selectionKey = (tickets: Array<{ type: string; quantity: number }>, paymentMethod: string) => JSON.stringify({
+    tickets: [...tickets].sort((a, b) => a.type.localeCompare(b.type)),
+    paymentMethod,
+    promoCode: quote?.promo?.code || null
+  });
+
+  // The held booking, if it was made for this exact selection. A hold for a different
+  // selection is cancelled so its seats go back on sale and nothing is paid against it.
+  const reusableHold = async (key: string) => {
+    if (!heldBooking) return null;
+    // Restored after a checkout redirect, before anything could be changed
+    if (!heldBooking.selectionKey || heldBooking.selectionKey === key) return heldBooking;
+    setHeldBooking(null);
+    try {
+      await bookingsAPI.cancelBooking(heldBooking.id, 'Ticket selection changed before payment');
+    } catch (error) {
+      console.error('Failed to release previous hold:', error);
+    }
+    return null;
+  };
+
+  // Hold the seats with a pending booking, then send the attendee to the provider's checkout page
+  const startOnlineCheckout = async (tickets: Array<{ type: string; quantity: number }>) => {
+    setRedirectingToCheckout(true);
+    try {
+      const key = selectionKey(tickets, 'online');
+      let bookingId = (await reusableHold(key))?.id ?? null;
+      if (!bookingId) {
+        const bookingResponse = await bookingsAPI.createBooking({
+          eventId: event.id,
+          tickets,
+          paymentMethod: 'online',
+          notes,
+          promoCode: quote?.promo?.code
+        });
+        bookingId = bookingResponse.data._id as string;
+        if (bookingResponse.data.status === 'confirmed') {
+          // The promo code covered everything, so there is nothing to pay
+          setBookingStep('confirmed');
+          setRedirectingToCheckout(false);
+          return;
+        }
+        setHeldBooking({
+          id: bookingId,
+          holdExpiresAt: bookingResponse.data.holdExpiresAt,
+          paymentMethod: 'online',
+          selectionKey: key
+        });
+      }
+
+      const intentResponse = await paymentsAPI.createIntent(bookingId);
+      window.location.assign(intentResponse.data.checkoutUrl);
+    } catch (error) {
+      console.error('Checkout error:', error);
+      setRedirectingToCheckout(false);
+      toast({
+        title: 'Checkout Failed',
+        description: getBookingErrorMessage(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString('en-US', {
       weekday: 'long',
@@ -172,7 +398,7 @@ const { events, currentUser } = useEvents();
     const category = ticketCategories.find(c => c.id === categoryId);
     if (!category) return;
 
-    const maxAvailable = category.slots; // backend-provided slots per type
+    const maxAvailable = getAvailableTickets(categoryId);
     const validCount = Math.max(0, Math.min(count, maxAvailable));
 
     setSelectedTickets(prev => ({
@@ -181,11 +407,55 @@ const { events, currentUser } = useEvents();
     }));
   };
 
+  // The quote effect checks the code against the current selection
+  const applyPromoCode = (code: string) => {
+    const normalized = code.trim().toUpperCase();
+    if (!normalized || normalized === promoCode) return;
+    setApplyingPromo(totalTickets > 0);
+    setPromoCode(normalized);
+  };
+
   const getAvailableTickets = (categoryId: string) => {
+    const tier = availability?.tiers.find(t => t.type === categoryId);
+    if (tier) return tier.remaining;
     const category = ticketCategories.find(c => c.id === categoryId);
     return category ? category.slots : 0;
   };
 
+  const handleJoinWaitlist = async (ticketType: string) => {
+    if (!currentUser) {
+      toast({
+        title: "Authentication Required",
+        description: "Please log in to join the waitlist",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const response = await waitlistAPI.joinWaitlist({ eventId: eventId!, ticketType, quantity: 1 });
+      setWaitlistPositions(prev => ({ ...prev, [ticketType]: response.data.position }));
+      toast({
+        title: "You're on the waitlist",
+        description: `You are number ${response.data.position} in line. We'll notify you if a ticket frees up.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not join waitlist",
+        description: getBookingErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Surface the server's reason and refresh availability when a reservation is rejected
+  const getBookingErrorMessage = (error: any) => {
+    if (error?.response?.data?.availability) {
+      setAvailability(error.response.data.availability);
+    }
+    return error?.response?.data?.message || error?.message || 'Failed to complete booking. Please try again.';
+  };
+
   const handleBooking = async () => {
     // Check authentication first
     if (!currentUser) {
@@ -219,12 +489,19 @@ const { events, currentUser } = useEvents();
     setBookingStep('payment');
 
   } else if (bookingStep === 'payment' && selectedPaymentMethod?.type) {
-    if (selectedPaymentMethod.type === 'pay_at_event') {
+    if (selectedPaymentMethod.type === 'online') {
+      const tickets = Object.entries(selectedTickets)
+        .filter(([, qty]) => (qty || 0) > 0)
+        .map(([type, qty]) => ({ type, quantity: qty }));
+      await startOnlineCheckout(tickets);
+    } else if (selectedPaymentMethod.type === 'pay_at_event') {
       try {
         // Complete booking directly with selected ticket breakdown
         const tickets = Object.entries(selectedTickets)
           .filter(([, qty]) => (qty || 0) > 0)
           .map(([type, qty]) => ({ type, quantity: qty }));
+        // Paying at the door needs no hold; give back any left from another selection
+        await reusableHold(selectionKey(tickets, 'pay-at-event'));
 
         console.log('🎫 Booking event:', {
           eventId: event.id,
@@ -238,7 +515,8 @@ const { events, currentUser } = useEvents();
           eventId: event.id,
           tickets,
           paymentMethod: 'pay-at-event',
-          notes
+          notes,
+          promoCode: quote?.promo?.code
         });
         if (response.data && response.data._id) {
           setBookingStep('confirmed');
@@ -249,7 +527,7 @@ const { events, currentUser } = useEvents();
         }
       } catch (error) {
         console.error('Booking error:', error);
-        const errMsg = (error as any)?.message || 'Failed to complete booking. Please try again.';
+        const errMsg = getBookingErrorMessage(error);
         toast({
           title: 'Booking Failed',
           description: errMsg,
@@ -257,10 +535,54 @@ const { events, currentUser } = useEvents();
         });
       }
     } else {
-      setBookingStep('receipt');
+      const tickets = Object.entries(selectedTickets)
+        .filter(([, qty]) => (qty || 0) > 0)
+        .map(([type, qty]) => ({ type, quantity: qty }));
+      const key = selectionKey(tickets, selectedPaymentMethod.type);
+      if (await reusableHold(key)) {
+        setBookingStep('receipt');
+        return;
+      }
+      try {
+        // Create the pending booking now so the seats are held while the attendee pays
+        const bookingResponse = await bookingsAPI.createBooking({
+          eventId: event.id,
+          tickets,
+          paymentMethod: selectedPaymentMethod.type,
+          notes,
+          promoCode: quote?.promo?.code
+        });
+
+        if (bookingResponse.data.status === 'confirmed') {
+          setBookingStep('confirmed');
+          return;
+        }
+        setHeldBooking({
+          id: bookingResponse.data._id,
+          holdExpiresAt: bookingResponse.data.holdExpiresAt,
+          paymentMethod: selectedPaymentMethod.type,
+          selectionKey: key
+        });
+        setBookingStep('receipt');
+      } catch (error) {
+        console.error('Booking error:', error);
+        toast({
+          title: 'Booking Failed',
+          description: getBookingErrorMessage(error),
+          variant: 'destructive',
+        });
+      }
     }
 
-  } else if (bookingStep === 'receipt' && paymentReceipt) {
+  } else if (bookingStep === 'receipt' && paymentReceipt && heldBooking) {
+    if (isHoldExpired) {
+      toast({
+        title: 'Hold Expired',
+        description: 'Your seats were released. Please start your booking again.',
+        variant: 'destructive',
+      });
+      return;
+    }
     try {
       // First upload the receipt image
       console.log('📷 Uploading receipt image:', {
@@ -271,40 +593,26 @@ const { events, currentUser } = useEvents();
       const uploadResponse = await uploadAPI.uploadImage(paymentReceipt);
       console.log('✅ Upload successful:', uploadResponse);
 
-      // Complete booking with receipt and selected ticket breakdown
-      const tickets = Object.entries(selectedTickets)
-        .filter(([, qty]) => (qty || 0) > 0)
-        .map(([type, qty]) => ({ type, quantity: qty }));
-
-      const bookingResponse = await bookingsAPI.createBooking({
+      // Upload payment receipt for the held booking
+      await paymentReceiptAPI.uploadReceipt({
         eventId: event.id,
-        tickets,
-        paymentMethod: selectedPaymentMethod?.type || 'online',
-        notes
+        bookingId: heldBooking.id,
+        amount: payableTotal,
+        receiptImage: uploadResponse.data.url,
+        receiptImagePublicId: uploadResponse.data.publicId,
+        paymentMethod: selectedPaymentMethod?.type || 'bank_transfer',
+        transactionReference: '', // Could be added to form if needed
+        notes: notes
       });
 
-      if (bookingResponse.data && bookingResponse.data._id) {
-        // Upload payment receipt with booking details
-        await paymentReceiptAPI.uploadReceipt({
-          eventId: event.id,
-          bookingId: bookingResponse.data._id,
-          amount: totalPrice,
-          receiptImage: uploadResponse.data.url,
-          receiptImagePublicId: uploadResponse.data.publicId,
-          paymentMethod: selectedPaymentMethod?.type || 'bank_transfer',
-          transactionReference: '', // Could be added to form if needed
-          notes: notes
-        });
-
-        setBookingStep('confirmed');
-        toast({
-          title: 'Booking Submitted!',
-          description: 'Your booking and payment receipt have been submitted for verification.',
-        });
-      }
+      setBookingStep('confirmed');
+      toast({
+        title: 'Booking Submitted!',
+        description: 'Your booking and payment receipt have been submitted for verification.',
+      });
     } catch (error) {
       console.error('Booking error:', error);
-      const errMsg = (error as any)?.message || 'Failed to complete booking. Please try again.';
+      const errMsg = getBookingErrorMessage(error);
       toast({
         title: 'Booking Failed',
         description: errMsg,
@@ -334,6 +642,7 @@ const { events, currentUser } = useEvents();
       case 'paypal': return '🅿️';
       case 'bitcoin': return '₿';
       case 'pay_at_event': return <Banknote className="h-4 w-4" />;
+      case 'online': return <CreditCard className="h-5 w-5" />;
       default: return '💰';
     }
   };
@@ -345,6 +654,7 @@ const { events, currentUser } = useEvents();
       case 'paypal': return 'PayPal';
       case 'bitcoin': return 'Bitcoin';
       case 'pay_at_event': return 'Pay at Event';
+      case 'online': return 'Pay Online';
       default: return 'Payment';
     }
   };
@@ -362,7 +672,11 @@ const { events, currentUser } = useEvents();
           </div>
           <h1 className="text-2xl font-bold mb-4">Booking Confirmed!</h1>
           <p className="text-muted-foreground mb-6">
-            Your booking for "{event.title}" has been submitted. The event organizer will verify your payment and confirm your spot.
+            {quote?.promo && quote.total === 0
+              ? `Your promo code covers the full price, so your spot for "${event.title}" is confirmed.`
+              : selectedPaymentMethod?.type === 'online' || returningBookingId
+              ? `Your payment for "${event.title}" went through and your spot is confirmed. Your tickets will be in My Tickets.`
+              : `Your booking for "${event.title}" has been submitted. The event organizer will verify your payment and confirm your spot.`}
           </p>
           <div className="space-y-2">
             <Button onClick={() => navigate('/dashboard')} className="w-full">
@@ -399,7 +713,7 @@ const { events, currentUser } = useEvents();
         {/* Progress Steps */}
         <div className="flex items-center justify-center mb-8">
           <div className="flex items-center space-x-4">
-            {(selectedPaymentMethod?.type === 'pay_at_event' 
+            {(selectedPaymentMethod?.type === 'pay_at_event' || selectedPaymentMethod?.type === 'online'
               ? [
                   { key: 'details', label: 'Details' },
                   { key: 'payment', label: 'Payment' }
@@ -498,10 +812,22 @@ const { events, currentUser } = useEvents();
                   ) : null}
                 </div>
 
-                <div className="pt-4 border-t border-glass-border/30">
+                <div className="pt-4 border-t border-glass-border/30 space-y-1">
+                  {quote && quote.discount > 0 && (
+                    <div className="flex items-center justify-between text-sm text-green-600">
+                      <span>Discount ({quote.promo?.code}):</span>
+                      <span>-${quote.discount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {quote?.charges.map(charge => (
+                    <div key={`${charge.kind}-${charge.name}`} className={`flex items-center justify-between text-sm ${charge.inclusive ? 'text-muted-foreground' : ''}`}>
+                      <span>{charge.name}{charge.inclusive ? ' (included)' : ''}:</span>
+                      <span>${charge.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
                   <div className="flex items-center justify-between text-sm">
                     <span>Total Amount:</span>
-                    <span className="font-semibold text-lg">${totalPrice.toFixed(2)}</span>
+                    <span className="font-semibold text-lg">${payableTotal.toFixed(2)}</span>
                   </div>
                 </div>
               </CardContent>
@@ -547,8 +873,17 @@ const { events, currentUser } = useEvents();
                                         </p>
                                       </div>
                                       <div className="text-right">
-                                        <div className="text-lg font-bold">${category.price}</div>
-                                        <div className="text-sm text-muted-foreground">per ticket</div>
+                                        <div className="text-lg font-bold">
+                                          {category.earlyBirdUntil && category.regularPrice > category.price && (
+                                            <span className="text-sm font-normal text-muted-foreground line-through mr-2">${category.regularPrice}</span>
+                                          )}
+                                          ${category.price}
+                                        </div>
+                                        <div className="text-sm text-muted-foreground">
+                                          {category.earlyBirdUntil
+                                            ? `Early bird until ${new Date(category.earlyBirdUntil).toLocaleDateString()}`
+                                            : 'per ticket'}
+                                        </div>
                                       </div>
                                     </div>
                                     
@@ -580,7 +915,22 @@ const { events, currentUser } = useEvents();
                                         )}
                                       </div>
                                     ) : (
-                                      <Badge variant="secondary" className="mt-2">Sold Out</Badge>
+                                      <div className="flex items-center justify-between mt-2">
+                                        <Badge variant="secondary">Sold Out</Badge>
+                                        {category.id in waitlistPositions ? (
+                                          <span className="text-sm text-muted-foreground">
+                                            On waitlist{waitlistPositions[category.id] ? ` (#${waitlistPositions[category.id]})` : ''}
+                                          </span>
+                                        ) : (
+                                          <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => handleJoinWaitlist(category.id)}
+                                          >
+                                            Join Waitlist
+                                          </Button>
+                                        )}
+                                      </div>
                                     )}
                                   </CardContent>
                                 </Card>
@@ -594,8 +944,18 @@ const { events, currentUser } = useEvents();
                             <div className="flex justify-between items-center">
                               <div>
                                 <span className="font-semibold">Total: {totalTickets} ticket{totalTickets > 1 ? 's' : ''}</span>
+                                {quote && quote.fees + quote.taxes > 0 && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Includes ${(quote.fees + quote.taxes).toFixed(2)} in fees and taxes
+                                  </p>
+                                )}
+                              </div>
+                              <div className="text-xl font-bold">
+                                {quote && quote.discount > 0 && (
+                                  <span className="text-sm font-normal text-muted-foreground line-through mr-2">${totalPrice.toFixed(2)}</span>
+                                )}
+                                ${payableTotal.toFixed(2)}
                               </div>
-                              <div className="text-xl font-bold">${totalPrice.toFixed(2)}</div>
                             </div>
                           </div>
                         )}
@@ -612,6 +972,52 @@ const { events, currentUser } = useEvents();
                       )
                     )}
 
+                    <div>
+                      <Label htmlFor="promo-code">Promo Code (Optional)</Label>
+                      {quote?.promo ? (
+                        <div className="mt-1 flex items-center justify-between p-3 rounded-lg border border-green-300 bg-green-50 text-green-800 text-sm">
+                          <span className="flex items-center">
+                            <Tag className="h-4 w-4 mr-2" />
+                            <span className="font-mono font-semibold mr-2">{quote.promo.code}</span>
+                            {quote.discount > 0
+                              ? `saves you $${quote.discount.toFixed(2)}`
+                              : 'applied'}
+                            {quote.promo.description && ` · ${quote.promo.description}`}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setPromoCode(null);
+                              setPromoInput('');
+                            }}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="mt-1 flex gap-2">
+                          <Input
+                            id="promo-code"
+                            placeholder="Enter code"
+                            value={promoInput}
+                            maxLength={40}
+                            onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') applyPromoCode(promoInput);
+                            }}
+                          />
+                          <Button
+                            variant="outline"
+                            onClick={() => applyPromoCode(promoInput)}
+                            disabled={!promoInput.trim() || applyingPromo || (ticketCategories.length > 0 && totalTickets === 0)}
+                          >
+                            {applyingPromo ? 'Checking...' : 'Apply'}
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+
                     <div>
                       <Label htmlFor="notes">Additional Notes (Optional)</Label>
                       <Textarea
@@ -645,11 +1051,11 @@ const { events, currentUser } = useEvents();
                   <CardHeader>
                     <CardTitle>Select Payment Method</CardTitle>
                     <p className="text-muted-foreground">
-                      Choose how you'd like to pay for this event (${totalPrice.toFixed(2)})
+                      Choose how you'd like to pay for this event (${payableTotal.toFixed(2)})
                     </p>
                   </CardHeader>
                   <CardContent className="space-y-4">
-                    {event.paymentMethods && Array.isArray(event.paymentMethods) && event.paymentMethods.length > 0 ? (
+                    {paymentOptions.length > 0 ? (
                       <>
                         <div className="bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
                           <div className="flex items-start space-x-3">
@@ -659,7 +1065,12 @@ const { events, currentUser } = useEvents();
                             <div className="text-sm text-blue-800 dark:text-blue-200">
                               <p className="font-medium mb-1">Payment Instructions:</p>
                               <p>1. Select a payment method below</p>
-                              {!selectedPaymentMethod || selectedPaymentMethod.type !== 'pay_at_event' ? (
+                              {selectedPaymentMethod?.type === 'online' ? (
+                                <>
+                                  <p>2. You'll be taken to a secure checkout page to pay</p>
+                                  <p>3. Your tickets are issued as soon as the payment goes through</p>
+                                </>
+                              ) : !selectedPaymentMethod || selectedPaymentMethod.type !== 'pay_at_event' ? (
                                 <>
                                   <p>2. Make the payment using the provided details</p>
                                   <p>3. Upload a screenshot/receipt of your payment</p>
@@ -672,7 +1083,7 @@ const { events, currentUser } = useEvents();
                           </div>
                         </div>
                         
-                        {event.paymentMethods.filter(pm => pm.isActive).map((paymentMethod) => (
+                        {paymentOptions.map((paymentMethod) => (
                       <Card
                         key={paymentMethod.id}
                         className={`cursor-pointer transition-all ${
@@ -692,6 +1103,9 @@ const { events, currentUser } = useEvents();
                                 {getPaymentMethodLabel(paymentMethod.type)}
                               </h4>
                               <div className="text-sm text-muted-foreground mt-1">
+                                {paymentMethod.type === 'online' && (
+                                  <p>Pay by card now and get your tickets instantly.</p>
+                                )}
                                 {paymentMethod.type === 'bank_transfer' && (
                                   <div>
                                     <p>Bank: {paymentMethod.details.bankName}</p>
@@ -743,13 +1157,15 @@ const { events, currentUser } = useEvents();
                             </Button>
                             <Button 
                               onClick={handleBooking} 
-                              disabled={!selectedPaymentMethod}
+                              disabled={!selectedPaymentMethod || redirectingToCheckout}
                               className="flex-2" 
                               size="lg"
                             >
                               {selectedPaymentMethod?.type === 'pay_at_event' 
                                 ? 'Confirm Booking' 
-                                : 'Continue to Receipt Upload'
+                                : selectedPaymentMethod?.type === 'online'
+                                  ? (redirectingToCheckout ? 'Redirecting to Checkout...' : `Pay $${payableTotal.toFixed(2)} Online`)
+                                  : 'Continue to Receipt Upload'
                               }
                             </Button>
                           </div>
@@ -779,6 +1195,23 @@ const { events, currentUser } = useEvents();
                     </p>
                   </CardHeader>
                   <CardContent className="space-y-6">
+                    {holdRemainingMs !== null && (
+                      isHoldExpired ? (
+                        <div className="p-4 rounded-lg border border-red-300 bg-red-50 text-red-700 text-sm">
+                          <p className="font-semibold">Your hold has expired</p>
+                          <p>The seats were released to other attendees. Please start your booking again.</p>
+                        </div>
+                      ) : (
+                        <div className="p-4 rounded-lg border border-amber-300 bg-amber-50 text-amber-800 text-sm flex items-center justify-between">
+                          <span className="flex items-center">
+                            <Clock className="h-4 w-4 mr-2" />
+                            Your seats are held while you complete payment
+                          </span>
+                          <span className="font-mono font-bold text-base">{formatCountdown(holdRemainingMs)}</span>
+                        </div>
+                      )
+                    )}
+
                     {selectedPaymentMethod && (
                       <div className="p-4 bg-glass-light/20 backdrop-blur-sm border border-glass-border/30 rounded-lg">
                         <h4 className="font-semibold mb-2 flex items-center">
@@ -792,7 +1225,7 @@ const { events, currentUser } = useEvents();
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Amount:</span>
-                            <span className="font-bold text-green-600">${totalPrice.toFixed(2)}</span>
+                            <span className="font-bold text-green-600">${payableTotal.toFixed(2)}</span>
                           </div>
                           
                           {selectedPaymentMethod.type === 'bank_transfer' && (
@@ -908,15 +1341,28 @@ const { events, currentUser } = useEvents();
                         <ArrowLeft className="h-4 w-4 mr-2" />
                         Back to Payment
                       </Button>
-                      <Button 
-                        onClick={handleBooking} 
-                        disabled={!paymentReceipt}
-                        className="flex-2" 
-                        size="lg"
-                      >
-                        <Check className="h-4 w-4 mr-2" />
-                        Complete Booking
-                      </Button>
+                      {isHoldExpired ? (
+                        <Button 
+                          onClick={() => {
+                            setHeldBooking(null);
+                            setBookingStep('details');
+                          }}
+                          className="flex-2" 
+                          size="lg"
+                        >
+                          Start Over
+                        </Button>
+                      ) : (
+                        <Button 
+                          onClick={handleBooking} 
+                          disabled={!paymentReceipt}
+                          className="flex-2" 
+                          size="lg"
+                        >
+                          <Check className="h-4 w-4 mr-2" />
+                          Complete Booking
+                        </Button>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
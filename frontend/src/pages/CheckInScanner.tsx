@@ -0,0 +1,845 @@
+import { useState, useEffect, useRef, useCallback, type FC, type FormEvent } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import jsQR from 'jsqr';
+import {
+  ArrowLeft,
+  Camera,
+  CameraOff,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Search,
+  RefreshCw,
+  Users,
+  Undo2,
+  Download,
+  Wifi,
+  WifiOff,
+  CloudUpload
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Badge } from '../components/ui/badge';
+import { useToast } from '../hooks/use-toast';
+import { eventsAPI, ticketsAPI, checkInsAPI } from '../lib/api';
+import {
+  admitOffline,
+  applySyncResult,
+  getDeviceId,
+  getLocalTickets,
+  getManifestInfo,
+  getQueuedAdmissions,
+  saveManifest,
+  undoOfflineAdmission,
+  validateOffline,
+  type SyncConflict,
+  type SyncResponse
+} from '../lib/offlineCheckIn';
+
+interface DoorTicket {
+  ticketId: string;
+  attendeeName: string;
+  attendeeEmail?: string;
+  bookedBy?: string;
+  ticketType: string;
+  quantity: number;
+  admittedCount: number;
+  remaining: number;
+  status: string;
+}
+
+interface CheckInStats {
+  tickets: number;
+  expected: number;
+  admitted: number;
+  remaining: number;
+}
+
+interface ScanResult {
+  tone: 'green' | 'amber' | 'red';
+  title: string;
+  message: string;
+  ticket?: DoorTicket;
+  admitted?: boolean;
+  // Set on a fresh admission so door staff can take it back
+  undo?: { checkInId?: string; queueId?: string; count: number };
+}
+
+interface LedgerEntry {
+  _id: string;
+  count: number;
+  gate?: string;
+  source: 'ticket' | 'booking' | 'offline';
+  admittedAt: string;
+  ticket?: { ticketId: string; attendeeName?: string };
+  booking?: { user?: { name: string }; attendeeInfo?: { name?: string } };
+  scannedBy?: { name: string };
+}
+
+interface ValidationErrorBody {
+  message?: string;
+  reason?: string;
+  ticket?: DoorTicket;
+}
+
+interface GateStats {
+  gate: string | null;
+  admitted: number;
+  scans: number;
+  scanners: number;
+  lastHour: number;
+  perMinute: number;
+  lastAdmissionAt?: string;
+}
+
+interface ManifestInfo {
+  generatedAt: string;
+  ticketCount: number;
+}
+
+// Problems the door staff can act on (already in, wrong time, replaced code) are amber; forgeries and unknown tickets are red
+const AMBER_REASONS = ['used', 'outside_validity', 'expired', 'superseded'];
+
+// Gate label is remembered per device so a scanner only types it once
+const GATE_KEY = 'checkin-gate';
+
+// Decode roughly four frames a second; full-rate decoding drains phone batteries
+const SCAN_INTERVAL_MS = 250;
+
+const ticketTypeNames: Record<string, string> = {
+  vvip: 'VVIP',
+  vip: 'VIP',
+  standard: 'Standard',
+  tableFor2: 'Table for 2',
+  tableFor5: 'Table for 5',
+  regular: 'Regular'
+};
+
+const describeRejection = (error: unknown): ScanResult => {
+  const body = (error as { response?: { data?: ValidationErrorBody } })?.response?.data;
+  const message = body?.message || (error as Error)?.message || 'Ticket could not be verified';
+  return describeRejectionBody({ ...body, message });
+};
+
+const describeRejectionBody = (body: ValidationErrorBody): ScanResult => {
+  const amber = !!body.reason && AMBER_REASONS.includes(body.reason);
+  return {
+    tone: amber ? 'amber' : 'red',
+    title: amber ? 'Check Ticket' : 'Entry Denied',
+    message: body.message || 'Ticket could not be verified',
+    ticket: body.ticket
+  };
+};
+
+const conflictReasons: Record<string, string> = {
+  already_admitted: 'Already admitted at another gate',
+  over_admitted: 'More guests admitted than the ticket allows',
+  not_found: 'Ticket no longer exists',
+  cancelled: 'Ticket was cancelled',
+  expired: 'Ticket has expired'
+};
+
+const toneStyles = {
+  green: { card: 'border-green-500 bg-green-50', text: 'text-green-800', icon: CheckCircle },
+  amber: { card: 'border-amber-500 bg-amber-50', text: 'text-amber-800', icon: AlertTriangle },
+  red: { card: 'border-red-500 bg-red-50', text: 'text-red-800', icon: XCircle }
+};
+
+const CheckInScanner: FC = () => {
+  const { id: eventId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Decoding pauses while a result is on screen
+  const busyRef = useRef(false);
+
+  const [eventTitle, setEventTitle] = useState('');
+  const [stats, setStats] = useState<CheckInStats | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [admitCount, setAdmitCount] = useState(1);
+  const [manualTicketId, setManualTicketId] = useState('');
+
+  // Offline mode validates against the downloaded manifest and queues admissions
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [offlineMode, setOfflineMode] = useState(() => !navigator.onLine);
+  const [manifest, setManifest] = useState<ManifestInfo | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [gate, setGate] = useState(() => localStorage.getItem(GATE_KEY) || '');
+  const [gateStats, setGateStats] = useState<GateStats[]>([]);
+  const [recent, setRecent] = useState<LedgerEntry[]>([]);
+
+  // Counters and queue size from the local copy
+  const refreshLocal = useCallback(async () => {
+    if (!eventId) return;
+    const [info, tickets, queue] = await Promise.all([
+      getManifestInfo(eventId),
+      getLocalTickets(eventId),
+      getQueuedAdmissions(eventId)
+    ]);
+    setManifest(info ? { generatedAt: info.generatedAt, ticketCount: info.ticketCount } : null);
+    setPendingCount(queue.length);
+    return tickets;
+  }, [eventId]);
+
+  const refreshOfflineStats = useCallback(async () => {
+    const tickets = await refreshLocal();
+    if (!tickets) return;
+    const counted = tickets.filter(t => t.status === 'active' || t.status === 'used');
+    const expected = counted.reduce((sum, t) => sum + t.quantity, 0);
+    const admitted = counted.reduce((sum, t) => sum + (t.status === 'used' ? t.quantity : t.admittedCount), 0);
+    setStats({ tickets: counted.length, expected, admitted, remaining: Math.max(0, expected - admitted) });
+  }, [refreshLocal]);
+
+  const refreshStats = useCallback(() => {
+    if (!eventId) return;
+    if (offlineMode) {
+      refreshOfflineStats().catch(error => console.error('Failed to read offline check-ins:', error));
+      return;
+    }
+    checkInsAPI.getEventCheckIns(eventId, { limit: 10 })
+      .then(response => setRecent(response.data || []))
+      .catch(error => console.error('Failed to load recent check-ins:', error));
+    ticketsAPI.getGateStats(eventId)
+      .then(response => setGateStats(response.data.gates || []))
+      .catch(error => console.error('Failed to load gate throughput:', error));
+    ticketsAPI.getCheckInStats(eventId)
+      .then(response => setStats(response.data))
+      .catch(error => {
+        console.error('Failed to load check-in stats:', error);
+        if (error?.response?.status === 403) {
+          toast({
+            title: "Not allowed",
+            description: "Only the event organizer and check-in staff can check in guests.",
+            variant: "destructive"
+          });
+        }
+      });
+  }, [eventId, offlineMode, refreshOfflineStats, toast]);
+
+  useEffect(() => {
+    if (!eventId) return;
+    refreshLocal().catch(error => console.error('Failed to read offline check-ins:', error));
+    if (!navigator.onLine) return;
+    eventsAPI.getEvent(eventId)
+      .then(response => setEventTitle(response.data?.title || ''))
+      .catch(error => console.error('Failed to load event:', error));
+  }, [eventId, refreshLocal]);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  const downloadManifest = async () => {
+    if (!eventId) return;
+    setDownloading(true);
+    try {
+      const response = await ticketsAPI.getCheckInManifest(eventId);
+      await saveManifest(response.data);
+      if (!eventTitle) setEventTitle(response.data.eventTitle);
+      await refreshLocal();
+      toast({
+        title: "Ready for offline check-in",
+        description: `${response.data.tickets.length} tickets saved to this device.`
+      });
+    } catch (error) {
+      console.error('Failed to download manifest:', error);
+      toast({
+        title: "Download failed",
+        description: "Could not save the ticket list for offline use.",
+        variant: "destructive"
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const syncQueue = useCallback(async () => {
+    if (!eventId) return;
+    const queue = await getQueuedAdmissions(eventId);
+    if (queue.length === 0) return;
+
+    setSyncing(true);
+    try {
+      const response = await ticketsAPI.syncCheckIns(eventId, {
+        deviceId: getDeviceId(),
+        admissions: queue.map(({ id, ticketId, count, scannedAt, gate }) => ({ id, ticketId, count, scannedAt, gate }))
+      });
+      const sync: SyncResponse = response.data;
+      await applySyncResult(eventId, sync);
+      setConflicts(prev => [...sync.conflicts, ...prev]);
+      toast({
+        title: "Check-ins synced",
+        description: sync.conflicts.length > 0
+          ? `${sync.applied.length} admissions uploaded, ${sync.conflicts.length} need attention.`
+          : `${sync.applied.length} admissions uploaded.`,
+        variant: sync.conflicts.length > 0 ? "destructive" : undefined
+      });
+    } catch (error) {
+      console.error('Failed to sync check-ins:', error);
+      toast({
+        title: "Sync failed",
+        description: "Admissions are still saved on this device. Try again when the connection is stable.",
+        variant: "destructive"
+      });
+    } finally {
+      setSyncing(false);
+      refreshLocal().catch(() => undefined);
+    }
+  }, [eventId, refreshLocal, toast]);
+
+  // Fall back to the local copy when the connection drops, and upload the queue when it returns
+  useEffect(() => {
+    const handleOffline = () => {
+      setOnline(false);
+      if (manifest) setOfflineMode(true);
+    };
+    const handleOnline = () => {
+      setOnline(true);
+      setOfflineMode(false);
+      syncQueue();
+    };
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [manifest, syncQueue]);
+
+  const lookupTicket = useCallback(async (lookup: { qrData?: string; ticketId?: string }) => {
+    busyRef.current = true;
+    setChecking(true);
+    try {
+      if (offlineMode) {
+        if (!eventId) return;
+        const check = await validateOffline(eventId, lookup);
+        if (check.valid && check.ticket) {
+          setAdmitCount(check.ticket.remaining);
+          setResult({ tone: 'green', title: 'Valid Ticket (offline)', message: check.message, ticket: check.ticket });
+        } else {
+          setResult(describeRejectionBody(check));
+        }
+        return;
+      }
+
+      const response = await ticketsAPI.validateTicket({ ...lookup, eventId });
+      const ticket: DoorTicket = response.data.ticket;
+      setAdmitCount(ticket.remaining);
+      setResult({
+        tone: 'green',
+        title: 'Valid Ticket',
+        message: response.data.message,
+        ticket
+      });
+    } catch (error) {
+      setResult(describeRejection(error));
+    } finally {
+      setChecking(false);
+    }
+  }, [eventId, offlineMode]);
+
+  // Camera capture and QR decoding loop
+  useEffect(() => {
+    if (!cameraOn) return;
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let lastScan = 0;
+    let stopped = false;
+
+    const scan = (timestamp: number) => {
+      if (stopped) return;
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+
+      if (video && canvas && !busyRef.current && timestamp - lastScan >= SCAN_INTERVAL_MS &&
+          video.readyState === video.HAVE_ENOUGH_DATA) {
+        lastScan = timestamp;
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+          if (code?.data) {
+            navigator.vibrate?.(100);
+            lookupTicket({ qrData: code.data });
+          }
+        }
+      }
+
+      frame = requestAnimationFrame(scan);
+    };
+
+    navigator.mediaDevices?.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(mediaStream => {
+        if (stopped) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(() => undefined);
+        }
+        frame = requestAnimationFrame(scan);
+      })
+      .catch(error => {
+        console.error('Camera unavailable:', error);
+        setCameraError('Camera access was denied or is unavailable. Use manual lookup instead.');
+        setCameraOn(false);
+      });
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraOn, lookupTicket]);
+
+  const toggleCamera = () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError('This browser cannot access the camera. Use manual lookup instead.');
+      return;
+    }
+    setCameraError(null);
+    setCameraOn(on => !on);
+  };
+
+  const handleManualLookup = (e: FormEvent) => {
+    e.preventDefault();
+    if (!manualTicketId.trim()) return;
+    lookupTicket({ ticketId: manualTicketId.trim() });
+  };
+
+  const handleAdmit = async () => {
+    if (!result?.ticket) return;
+    setChecking(true);
+    try {
+      if (offlineMode) {
+        if (!eventId) return;
+        const { queueId, ticket } = await admitOffline(eventId, result.ticket.ticketId, admitCount, gate.trim() || undefined);
+        setResult({
+          tone: 'green',
+          title: `Admitted ${admitCount}`,
+          message: 'Saved on this device. It will sync when the connection returns.',
+          ticket: { ...result.ticket, ...ticket },
+          admitted: true,
+          undo: { queueId, count: admitCount }
+        });
+        refreshStats();
+        return;
+      }
+
+      const response = await ticketsAPI.useTicket(result.ticket.ticketId, {
+        count: admitCount,
+        deviceId: getDeviceId(),
+        gate: gate.trim() || undefined
+      });
+      setResult({
+        tone: 'green',
+        title: `Admitted ${admitCount}`,
+        message: response.data.message,
+        ticket: { ...result.ticket, ...response.data.ticket },
+        admitted: true,
+        undo: { checkInId: response.data.checkInId, count: admitCount }
+      });
+      refreshStats();
+    } catch (error) {
+      setResult(describeRejection(error));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const undoAdmission = async (undo: { checkInId?: string; queueId?: string }) => {
+    if (!eventId) return;
+    if (undo.queueId) {
+      await undoOfflineAdmission(eventId, undo.queueId);
+    } else if (undo.checkInId) {
+      await checkInsAPI.undoCheckIn(undo.checkInId, 'Admitted by mistake');
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!result?.undo) return;
+    setChecking(true);
+    try {
+      await undoAdmission(result.undo);
+      const count = result.undo.count;
+      const ticket = result.ticket && {
+        ...result.ticket,
+        admittedCount: Math.max(0, result.ticket.admittedCount - count),
+        remaining: result.ticket.remaining + count,
+        status: 'active'
+      };
+      setResult({
+        tone: 'amber',
+        title: 'Admission Undone',
+        message: `${count} guest${count === 1 ? '' : 's'} taken off the count. Scan again to re-admit.`,
+        ticket
+      });
+      refreshStats();
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } })?.response?.data?.message;
+      toast({
+        title: "Undo failed",
+        description: message || (error as Error)?.message || "Could not undo this admission.",
+        variant: "destructive"
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleUndoRecent = async (entry: LedgerEntry) => {
+    try {
+      await undoAdmission({ checkInId: entry._id });
+      toast({ title: "Admission undone", description: `${entry.count} guest${entry.count === 1 ? '' : 's'} taken off the count.` });
+      refreshStats();
+    } catch (error) {
+      const message = (error as { response?: { data?: { message?: string } } })?.response?.data?.message;
+      toast({ title: "Undo failed", description: message || "Could not undo this admission.", variant: "destructive" });
+    }
+  };
+
+  const scanNext = () => {
+    setResult(null);
+    setManualTicketId('');
+    busyRef.current = false;
+  };
+
+  const tone = result ? toneStyles[result.tone] : null;
+  const ToneIcon = tone?.icon;
+
+  return (
+    <div className="container mx-auto px-4 py-8 font-poppins max-w-3xl">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="space-y-6"
+      >
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate(-1)} className="flex items-center space-x-2">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={refreshStats}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        <div>
+          <h1 className="text-3xl font-bold">Door Check-In</h1>
+          {eventTitle && <p className="text-muted-foreground">{eventTitle}</p>}
+        </div>
+
+        {/* Offline readiness and sync */}
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                {online ? <Wifi className="h-4 w-4 text-green-600" /> : <WifiOff className="h-4 w-4 text-red-600" />}
+                <span className="text-sm font-medium">{online ? 'Online' : 'No connection'}</span>
+                {offlineMode && <Badge variant="secondary">Offline mode</Badge>}
+                {pendingCount > 0 && <Badge variant="outline">{pendingCount} to sync</Badge>}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={downloadManifest} disabled={!online || downloading}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {downloading ? 'Downloading...' : manifest ? 'Update offline list' : 'Download for offline'}
+                </Button>
+                {manifest && (
+                  <Button variant="outline" size="sm" onClick={() => setOfflineMode(mode => !mode)}>
+                    {offlineMode ? <Wifi className="h-4 w-4 mr-2" /> : <WifiOff className="h-4 w-4 mr-2" />}
+                    {offlineMode ? 'Check in online' : 'Check in offline'}
+                  </Button>
+                )}
+                {pendingCount > 0 && (
+                  <Button size="sm" onClick={syncQueue} disabled={!online || syncing}>
+                    <CloudUpload className="h-4 w-4 mr-2" />
+                    {syncing ? 'Syncing...' : 'Sync now'}
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="gate" className="text-sm whitespace-nowrap">Gate</Label>
+              <Input
+                id="gate"
+                placeholder="e.g. North Gate"
+                value={gate}
+                maxLength={50}
+                onChange={(e) => {
+                  setGate(e.target.value);
+                  localStorage.setItem(GATE_KEY, e.target.value);
+                }}
+                className="h-8 max-w-xs"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {manifest
+                ? `${manifest.ticketCount} tickets saved ${new Date(manifest.generatedAt).toLocaleString()}`
+                : 'Download the ticket list before doors open so scanning keeps working without signal.'}
+            </p>
+          </CardContent>
+        </Card>
+
+        {conflicts.length > 0 && (
+          <Card className="border-amber-500">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-amber-800">
+                <span className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5" />
+                  Sync conflicts
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => setConflicts([])}>Dismiss</Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {conflicts.map(conflict => (
+                <div key={conflict.id} className="text-sm border-b last:border-0 pb-2">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-mono">{conflict.ticketId}</span>
+                    <span className="text-muted-foreground">{new Date(conflict.scannedAt).toLocaleTimeString()}</span>
+                  </div>
+                  <p className="text-amber-800">
+                    {conflictReasons[conflict.reason] || conflict.reason}
+                    {conflict.applied > 0 && ` (${conflict.applied} of ${conflict.requested} recorded)`}
+                  </p>
+                  {conflict.previousAdmissions && conflict.previousAdmissions.length > 0 && (
+                    <p className="text-muted-foreground">
+                      Earlier: {conflict.previousAdmissions.map(a =>
+                        `${a.count} at ${new Date(a.admittedAt).toLocaleTimeString()}${a.gate || a.deviceId ? ` (${a.gate || a.deviceId})` : ''}`
+                      ).join(', ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Running counter */}
+        <div className="grid grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="p-4 text-center">
+              <p className="text-sm text-muted-foreground">Admitted</p>
+              <p className="text-3xl font-bold text-green-600">{stats?.admitted ?? '—'}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <p className="text-sm text-muted-foreground">Remaining</p>
+              <p className="text-3xl font-bold">{stats?.remaining ?? '—'}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <p className="text-sm text-muted-foreground">Expected</p>
+              <p className="text-3xl font-bold text-muted-foreground">{stats?.expected ?? '—'}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Per-gate throughput */}
+        {!offlineMode && gateStats.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Gates</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {gateStats.map(g => (
+                <div key={g.gate ?? 'unassigned'} className="flex items-center justify-between text-sm border-b last:border-0 pb-2">
+                  <div>
+                    <p className="font-medium">{g.gate || 'No gate'}</p>
+                    <p className="text-muted-foreground">
+                      {g.scans} scans · {g.scanners} staff
+                      {g.lastAdmissionAt && ` · last ${new Date(g.lastAdmissionAt).toLocaleTimeString()}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold">{g.admitted} in</p>
+                    <p className="text-muted-foreground">{g.lastHour} last hour · {g.perMinute}/min</p>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Result screen */}
+        {result && tone && ToneIcon ? (
+          <Card className={`border-2 ${tone.card}`}>
+            <CardContent className="p-6 space-y-4">
+              <div className={`flex items-center space-x-3 ${tone.text}`}>
+                <ToneIcon className="h-12 w-12" />
+                <div>
+                  <h2 className="text-2xl font-bold">{result.title}</h2>
+                  <p>{result.message}</p>
+                </div>
+              </div>
+
+              {result.ticket && (
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Attendee</p>
+                    <p className="font-semibold">{result.ticket.attendeeName}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Ticket</p>
+                    <p className="font-semibold">{ticketTypeNames[result.ticket.ticketType] || result.ticket.ticketType}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Ticket ID</p>
+                    <p className="font-mono">{result.ticket.ticketId}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Admissions</p>
+                    <p className="font-semibold">
+                      {result.ticket.admittedCount} of {result.ticket.quantity} used
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {result.tone === 'green' && !result.admitted && result.ticket && (
+                <div className="flex items-end gap-3">
+                  {result.ticket.remaining > 1 && (
+                    <div className="w-32">
+                      <Label htmlFor="admit-count">Guests entering</Label>
+                      <Input
+                        id="admit-count"
+                        type="number"
+                        min={1}
+                        max={result.ticket.remaining}
+                        value={admitCount}
+                        onChange={(e) => setAdmitCount(Math.min(result.ticket!.remaining, Math.max(1, Number(e.target.value) || 1)))}
+                      />
+                    </div>
+                  )}
+                  <Button
+                    onClick={handleAdmit}
+                    disabled={checking}
+                    className="flex-1 bg-green-600 hover:bg-green-700 text-white"
+                  >
+                    <Users className="h-4 w-4 mr-2" />
+                    {result.ticket.remaining > 1 ? `Admit ${admitCount} of ${result.ticket.remaining}` : 'Admit'}
+                  </Button>
+                </div>
+              )}
+
+              {result.undo && (
+                <Button variant="ghost" onClick={handleUndo} disabled={checking} className="w-full">
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Undo admission
+                </Button>
+              )}
+
+              <Button variant="outline" onClick={scanNext} className="w-full">
+                Scan Next
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Scan Ticket</span>
+                {checking && <Badge variant="secondary">Checking...</Badge>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="relative bg-black rounded-lg overflow-hidden aspect-square max-h-[60vh] mx-auto">
+                <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+                {!cameraOn && (
+                  <div className="absolute inset-0 flex items-center justify-center text-white/70">
+                    <CameraOff className="h-12 w-12" />
+                  </div>
+                )}
+                {cameraOn && (
+                  <div className="absolute inset-[15%] border-4 border-white/70 rounded-lg pointer-events-none" />
+                )}
+              </div>
+              <canvas ref={canvasRef} className="hidden" />
+
+              {cameraError && <p className="text-sm text-red-600">{cameraError}</p>}
+
+              <Button onClick={toggleCamera} className="w-full">
+                {cameraOn ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+                {cameraOn ? 'Stop Camera' : 'Start Camera'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Recent admissions from the ledger */}
+        {!offlineMode && recent.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Recent Admissions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {recent.map(entry => (
+                <div key={entry._id} className="flex items-center justify-between gap-2 text-sm border-b last:border-0 pb-2">
+                  <div>
+                    <p className="font-medium">
+                      {entry.ticket?.attendeeName || entry.booking?.attendeeInfo?.name || entry.booking?.user?.name || 'Guest'}
+                      {entry.count > 1 && ` ×${entry.count}`}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {new Date(entry.admittedAt).toLocaleTimeString()}
+                      {entry.gate && ` · ${entry.gate}`}
+                      {entry.scannedBy?.name && ` · ${entry.scannedBy.name}`}
+                      {entry.source === 'offline' && ' · synced'}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleUndoRecent(entry)}>
+                    <Undo2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Manual lookup */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Manual Lookup</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleManualLookup} className="flex gap-2">
+              <Input
+                placeholder="Ticket ID, e.g. TKT-2025-ABC123456789"
+                value={manualTicketId}
+                onChange={(e) => setManualTicketId(e.target.value)}
+                className="font-mono"
+              />
+              <Button type="submit" disabled={checking || !manualTicketId.trim()}>
+                <Search className="h-4 w-4 mr-2" />
+                Look up
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default CheckInScanner;
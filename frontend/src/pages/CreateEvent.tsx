@@ -19,7 +19,15 @@ const CreateEvent: FC = () => {
         bookedSlots: 0,
         ticketPricing: (eventData.ticketCategories || []).reduce((acc: any, tc: any) => {
           const key = (tc.name || '').replace(/\s+/g, '').replace(/for/i,'For').toLowerCase();
-          acc[key] = { price: Number(tc.price) || 0, slots: Number(tc.capacity) || 0, includes: tc.includes || [] };
+          acc[key] = {
+            price: Number(tc.price) || 0,
+            slots: Number(tc.capacity) || 0,
+            includes: tc.includes || [],
+            ...(tc.earlyBirdPrice !== undefined && tc.earlyBirdUntil && {
+              earlyBirdPrice: Number(tc.earlyBirdPrice),
+              earlyBirdUntil: new Date(tc.earlyBirdUntil).toISOString()
+            })
+          };
           return acc;
         }, {}),
         paymentMethods: eventData.paymentMethods || [],
@@ -9,9 +9,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Badge } from '../components/ui/badge';
 import EventCard from '../components/EventCard';
 import EventCreationWizard from '../components/EventCreationWizard';
+import WaitlistManagement from '../components/WaitlistManagement';
+import StaffAssignments from '../components/StaffAssignments';
+import BankStatementImport from '../components/BankStatementImport';
+import { AdvancedDashboard } from '../components/AdvancedDashboard';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from '../components/ui/dialog';
 import { useToast } from '../hooks/use-toast';
-import { paymentReceiptAPI, getAbsoluteImageUrl } from '../lib/api';
+import { paymentReceiptAPI, analyticsAPI, getAbsoluteImageUrl } from '../lib/api';
+import { formatMoney } from '../lib/currency';
+import { useDisplayCurrency } from '../hooks/useDisplayCurrency';
 import api from '../lib/api';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts';
 
@@ -54,6 +60,16 @@ const Dashboard: React.FC = () => {
   const [editingEvent, setEditingEvent] = useState<any>(null);
   const [paymentReceipts, setPaymentReceipts] = useState<any[]>([]);
   const [loadingReceipts, setLoadingReceipts] = useState(false);
+  const { displayCurrency } = useDisplayCurrency();
+  const [hostRevenue, setHostRevenue] = useState<{ currency: string; collected: number } | null>(null);
+
+  // Confirmed booking revenue across the user's events, in their display currency
+  useEffect(() => {
+    if (!currentUser) return;
+    analyticsAPI.getHostRevenue(displayCurrency || undefined)
+      .then(response => setHostRevenue(response.data))
+      .catch(error => console.error('Failed to fetch revenue:', error));
+  }, [currentUser, displayCurrency]);
 
   if (!currentUser) {
     return (
@@ -87,11 +103,13 @@ const Dashboard: React.FC = () => {
     bookedEvents: userBookedEvents.length,
     totalAttendees: userCreatedEvents.reduce((sum, event) => sum + getBookedCount(event), 0),
     upcomingEvents: userCreatedEvents.filter(event => new Date(event.date) > new Date()).length,
-    totalRevenue: userCreatedEvents.reduce((sum, event) => sum + (getBookedCount(event) * (event.price || 0)), 0),
+    totalRevenue: hostRevenue?.collected ?? userCreatedEvents.reduce((sum, event) => sum + (getBookedCount(event) * (event.price || 0)), 0),
     pendingPayments: paymentReceipts.filter(receipt => receipt.status === 'pending').length,
     confirmedPayments: paymentReceipts.filter(receipt => receipt.status === 'confirmed').length
   };
 
+  const revenueCurrency = hostRevenue?.currency || 'USD';
+
   // Analytics data for charts
   const getMonthlyEventData = () => {
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
@@ -158,9 +176,10 @@ const Dashboard: React.FC = () => {
 
   // Deleted events handled elsewhere; keep API but avoid unused local function
 
-  const handleConfirmReceipt = async (receiptId: string) => {
+  // Receipts flagged as not matching the booking total are only sent once the host has seen the warning
+  const handleConfirmReceipt = async (receiptId: string, acceptAmountMismatch = false) => {
     try {
-      await paymentReceiptAPI.confirmReceipt(receiptId, 'Payment confirmed by event organizer');
+      await paymentReceiptAPI.confirmReceipt(receiptId, 'Payment confirmed by event organizer', acceptAmountMismatch);
 
       // Note: Backend automatically sends notification to user when payment is confirmed
 
@@ -403,6 +422,16 @@ const Dashboard: React.FC = () => {
                   >
                     Mine ({userCreatedEvents.length})
                   </button>
+                  <button
+                    onClick={() => setActiveTab('payouts')}
+                    className={`flex-1 px-3 py-2 text-xs font-medium rounded-md transition-colors ${
+                      activeTab === 'payouts'
+                        ? 'bg-primary text-primary-foreground shadow-sm'
+                        : 'text-muted-foreground hover:text-foreground hover:bg-muted/50'
+                    }`}
+                  >
+                    Payouts
+                  </button>
                 </div>
                 {/* Second row */}
                 <div className="flex space-x-1">
@@ -426,8 +455,26 @@ const Dashboard: React.FC = () => {
                   >
                     Payments
                   </button>
-                  {/* Empty space to balance the layout */}
-                  <div className="flex-1"></div>
+                  <button
+                    onClick={() => setActiveTab('waitlist')}
+                    className={`flex-1 px-3 py-2 text-xs font-medium rounded-md transition-colors ${
+                      activeTab === 'waitlist'
+                        ? 'bg-primary text-primary-foreground shadow-sm'
+                        : 'text-muted-foreground hover:text-foreground hover:bg-muted/50'
+                    }`}
+                  >
+                    Waitlist
+                  </button>
+                  <button
+                    onClick={() => setActiveTab('team')}
+                    className={`flex-1 px-3 py-2 text-xs font-medium rounded-md transition-colors ${
+                      activeTab === 'team'
+                        ? 'bg-primary text-primary-foreground shadow-sm'
+                        : 'text-muted-foreground hover:text-foreground hover:bg-muted/50'
+                    }`}
+                  >
+                    Team
+                  </button>
                 </div>
               </div>
             </div>
@@ -439,6 +486,9 @@ const Dashboard: React.FC = () => {
               <TabsTrigger value="created">My Events ({userCreatedEvents.length})</TabsTrigger>
               <TabsTrigger value="booked">Booked Events ({userBookedEvents.length})</TabsTrigger>
               <TabsTrigger value="payments">Payments</TabsTrigger>
+              <TabsTrigger value="payouts">Payouts</TabsTrigger>
+              <TabsTrigger value="waitlist">Waitlist</TabsTrigger>
+              <TabsTrigger value="team">Team</TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview">
@@ -514,7 +564,7 @@ const Dashboard: React.FC = () => {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm text-muted-foreground">Revenue</p>
-                          <p className="text-2xl font-bold">${stats.totalRevenue}</p>
+                          <p className="text-2xl font-bold">{formatMoney(stats.totalRevenue, revenueCurrency)}</p>
                         </div>
                         <div className="w-12 h-12 rounded-full backdrop-blur-sm bg-glass-light/20 border border-gray-300 hover:bg-glass-light/30 transition-colors flex items-center justify-center">
                           <DollarSign className="h-6 w-6" />
@@ -575,8 +625,8 @@ const Dashboard: React.FC = () => {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm text-muted-foreground">Total Revenue</p>
-                          <p className="text-2xl font-bold">${stats.totalRevenue}</p>
-                          <p className="text-xs text-green-600">Avg: ${stats.createdEvents > 0 ? Math.round(stats.totalRevenue / stats.createdEvents) : 0} per event</p>
+                          <p className="text-2xl font-bold">{formatMoney(stats.totalRevenue, revenueCurrency)}</p>
+                          <p className="text-xs text-green-600">Avg: {formatMoney(stats.createdEvents > 0 ? stats.totalRevenue / stats.createdEvents : 0, revenueCurrency)} per event</p>
                         </div>
                         <DollarSign className="h-8 w-8" />
                       </div>
@@ -701,11 +751,11 @@ const Dashboard: React.FC = () => {
                       <div className="space-y-4">
                         <div className="flex justify-between items-center">
                           <span className="text-sm text-muted-foreground">Average per Event</span>
-                          <span className="font-bold">${stats.createdEvents > 0 ? Math.round(stats.totalRevenue / stats.createdEvents) : 0}</span>
+                          <span className="font-bold">{formatMoney(stats.createdEvents > 0 ? stats.totalRevenue / stats.createdEvents : 0, revenueCurrency)}</span>
                         </div>
                         <div className="flex justify-between items-center">
                           <span className="text-sm text-muted-foreground">Average per Attendee</span>
-                          <span className="font-bold">${stats.totalAttendees > 0 ? Math.round(stats.totalRevenue / stats.totalAttendees) : 0}</span>
+                          <span className="font-bold">{formatMoney(stats.totalAttendees > 0 ? stats.totalRevenue / stats.totalAttendees : 0, revenueCurrency)}</span>
                         </div>
                         <div className="flex justify-between items-center">
                           <span className="text-sm text-muted-foreground">Highest Earning Event</span>
@@ -834,7 +884,7 @@ const Dashboard: React.FC = () => {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm text-muted-foreground">Total Revenue</p>
-                          <p className="text-2xl font-bold text-green-600">${stats.totalRevenue}</p>
+                          <p className="text-2xl font-bold text-green-600">{formatMoney(stats.totalRevenue, revenueCurrency)}</p>
                         </div>
                         <DollarSign className="h-8 w-8" />
                       </div>
@@ -866,6 +916,8 @@ const Dashboard: React.FC = () => {
                   </Card>
                 </div>
 
+                <BankStatementImport onApplied={fetchPaymentReceipts} />
+
                 {/* Test Ticket Creation */}
                 <Card className="backdrop-blur-glass bg-gradient-glass border-gray-300 shadow-glass">
                   <CardHeader>
@@ -951,6 +1003,9 @@ const Dashboard: React.FC = () => {
                                 <div>
                                   <p className="text-[14px] font-[420] text-blue-900">Amount</p>
                                   <p className="text-[14px] font-[420] text-blue-300">${receipt.amount}</p>
+                                  {receipt.amountMismatch && (
+                                    <p className="text-xs font-semibold text-amber-600">Booking total is ${receipt.expectedAmount}</p>
+                                  )}
                                 </div>
                                 <div className="text-right">
                                   <p className="text-[14px] font-[420] text-muted-foreground">Method</p>
@@ -982,11 +1037,11 @@ const Dashboard: React.FC = () => {
                                     <Button
                                       variant="outline"
                                       size="sm"
-                                      onClick={() => handleConfirmReceipt(receipt._id)}
+                                      onClick={() => handleConfirmReceipt(receipt._id, receipt.amountMismatch)}
                                       className="bg-glass-light/10 border-gray-300 hover:bg-glass-light/20 backdrop-blur-sm hover:text-blue-700 border-[#3CDAFF] flex-1 font-[420]"
                                     >
                                       <Check className="h-4 w-4 mr-1" />
-                                      Confirm
+                                      {receipt.amountMismatch ? 'Confirm Anyway' : 'Confirm'}
                                     </Button>
                                     <Button
                                       variant="outline"
@@ -1031,7 +1086,12 @@ const Dashboard: React.FC = () => {
                                 {receipt.event?.location && (
                                   <p className="text-xs text-muted-foreground font-medium">{receipt.event.location}</p>
                                 )}
-                                <p className="text-[15px] font-[550] text-muted-foreground">${receipt.amount}</p>
+                                <p className="text-[15px] font-[550] text-muted-foreground">
+                                  ${receipt.amount}
+                                  {receipt.amountMismatch && (
+                                    <span className="ml-2 text-xs font-semibold text-amber-600">Booking total is ${receipt.expectedAmount}</span>
+                                  )}
+                                </p>
                                 <p className="text-xs text-muted-foreground font-medium">
                                   {new Date(receipt.createdAt).toLocaleDateString()} • {receipt.paymentMethod}
                                 </p>
@@ -1051,11 +1111,11 @@ const Dashboard: React.FC = () => {
                                     <Button
                                       variant="outline"
                                       size="sm"
-                                      onClick={() => handleConfirmReceipt(receipt._id)}
+                                      onClick={() => handleConfirmReceipt(receipt._id, receipt.amountMismatch)}
                                       className="bg-glass-light/10 border-gray-300 hover:bg-glass-light/20 backdrop-blur-sm hover:text-blue-700 border-blue-200 font-[420]"
                                     >
                                       <Check className="h-4 w-4 mr-1" />
-                                      Confirm
+                                      {receipt.amountMismatch ? 'Confirm Anyway' : 'Confirm'}
                                     </Button>
                                     <Button
                                       variant="outline"
@@ -1090,6 +1150,18 @@ const Dashboard: React.FC = () => {
                 </Card>
               </div>
             </TabsContent>
+
+            <TabsContent value="payouts">
+              <AdvancedDashboard />
+            </TabsContent>
+
+            <TabsContent value="waitlist">
+              <WaitlistManagement />
+            </TabsContent>
+
+            <TabsContent value="team">
+              <StaffAssignments />
+            </TabsContent>
           </Tabs>
         </motion.div>
       </div>
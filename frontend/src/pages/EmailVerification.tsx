@@ -1,4 +1,4 @@
-import { useEffect, useState, type FC } from 'react';
+import { useEffect, useRef, useState, type FC, type FormEvent } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { CheckCircle, XCircle, Mail, RefreshCw } from 'lucide-react';
@@ -6,71 +6,75 @@ import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
+import EmailCodeInput from '../components/EmailCodeInput';
 import { useToast } from '../hooks/use-toast';
+import { authAPI } from '../lib/api';
+import { authService } from '../lib/auth';
+
+type ApiError = { response?: { data?: { message?: string; retryAfter?: number } } };
 
 const EmailVerification: FC = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  
-  const [verificationStatus, setVerificationStatus] = useState<'loading' | 'success' | 'error' | 'resend'>('loading');
-  const [email, setEmail] = useState('');
-  const [isResending, setIsResending] = useState(false);
-  
+
   const token = searchParams.get('token');
+  const [verificationStatus, setVerificationStatus] = useState<'loading' | 'success' | 'error' | 'code'>(token ? 'loading' : 'code');
+  const [email, setEmail] = useState(searchParams.get('email') || '');
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [resendCooldown, setResendCooldown] = useState(0);
+  // Links are single use, so don't spend one twice when effects run twice
+  const verifiedToken = useRef<string | null>(null);
+
+  const finishVerification = (data: { token: string; user: unknown }) => {
+    authService.setSession(data.token, data.user);
+    setVerificationStatus('success');
+    toast({
+      title: 'Email Verified!',
+      description: 'Your email has been verified successfully. You are now logged in.',
+    });
+    setTimeout(() => navigate('/events'), 2000);
+  };
 
   useEffect(() => {
-    if (token) {
-      verifyEmail(token);
-    } else {
-      setVerificationStatus('resend');
-    }
+    if (!token || verifiedToken.current === token) return;
+    verifiedToken.current = token;
+    authAPI.verifyEmailToken(token)
+      .then(response => finishVerification(response.data))
+      .catch(() => setVerificationStatus('error'));
   }, [token]);
 
-  const verifyEmail = async (verificationToken: string) => {
+  useEffect(() => {
+    if (resendCooldown <= 0) return;
+    const timer = setTimeout(() => setResendCooldown(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendCooldown]);
+
+  const verifyCode = async (value = code) => {
+    if (!email || value.length !== 6) return;
+    setIsVerifying(true);
     try {
-      const response = await fetch(`/api/auth/verify-email/${verificationToken}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        setVerificationStatus('success');
-        
-        // Store the token and user data
-        localStorage.setItem('auth-token', data.token);
-        
-        toast({
-          title: 'Email Verified!',
-          description: 'Your email has been verified successfully. You are now logged in.',
-        });
-
-        // Redirect to dashboard after a short delay
-        setTimeout(() => {
-          navigate('/events');
-        }, 2000);
-      } else {
-        setVerificationStatus('error');
-        toast({
-          title: 'Verification Failed',
-          description: data.error || 'Invalid or expired verification token.',
-          variant: 'destructive',
-        });
-      }
+      const response = await authAPI.verifyEmailCode({ email, code: value });
+      finishVerification(response.data);
     } catch (error) {
-      setVerificationStatus('error');
+      setCode('');
       toast({
         title: 'Verification Failed',
-        description: 'An error occurred while verifying your email.',
+        description: (error as ApiError).response?.data?.message || 'That code could not be verified.',
         variant: 'destructive',
       });
+    } finally {
+      setIsVerifying(false);
     }
   };
 
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    verifyCode();
+  };
+
   const resendVerificationEmail = async () => {
     if (!email) {
       toast({
@@ -82,34 +86,20 @@ const EmailVerification: FC = () => {
     }
 
     setIsResending(true);
-
     try {
-      const response = await fetch('/api/auth/resend-verification', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email }),
+      await authAPI.resendVerification(email);
+      setResendCooldown(60);
+      setVerificationStatus('code');
+      toast({
+        title: 'Verification Email Sent',
+        description: 'Check your inbox for a new link and code.',
       });
-
-      const data = await response.json();
-
-      if (data.success) {
-        toast({
-          title: 'Verification Email Sent',
-          description: 'Please check your email for the verification link.',
-        });
-      } else {
-        toast({
-          title: 'Failed to Send Email',
-          description: data.error || 'Failed to send verification email.',
-          variant: 'destructive',
-        });
-      }
     } catch (error) {
+      const data = (error as ApiError).response?.data;
+      if (data?.retryAfter) setResendCooldown(data.retryAfter);
       toast({
-        title: 'Error',
-        description: 'An error occurred while sending the verification email.',
+        title: 'Failed to Send Email',
+        description: data?.message || 'Failed to send verification email.',
         variant: 'destructive',
       });
     } finally {
@@ -117,6 +107,58 @@ const EmailVerification: FC = () => {
     }
   };
 
+  const codeForm = (
+    <form onSubmit={handleSubmit} className="space-y-4 text-left">
+      <div>
+        <Label htmlFor="email">Email Address</Label>
+        <Input
+          id="email"
+          type="email"
+          placeholder="Enter your email address"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="mt-1"
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Verification code</Label>
+        <EmailCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={(value) => verifyCode(value)}
+          disabled={isVerifying}
+        />
+      </div>
+      <Button
+        type="submit"
+        disabled={isVerifying || !email || code.length !== 6}
+        className="w-full bg-[#00593F] text-white"
+      >
+        {isVerifying ? 'Verifying...' : 'Verify Email'}
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        onClick={resendVerificationEmail}
+        disabled={isResending || resendCooldown > 0}
+        className="w-full"
+      >
+        {isResending ? (
+          <>
+            <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+            Sending...
+          </>
+        ) : (
+          <>
+            <Mail className="h-4 w-4 mr-2" />
+            {resendCooldown > 0 ? `Resend in ${resendCooldown}s` : 'Resend Verification Email'}
+          </>
+        )}
+      </Button>
+    </form>
+  );
+
   const renderContent = () => {
     switch (verificationStatus) {
       case 'loading':
@@ -148,79 +190,21 @@ const EmailVerification: FC = () => {
             <XCircle className="h-16 w-16 mx-auto mb-4 text-red-500" />
             <h2 className="text-2xl font-bold mb-2 text-red-600">Verification Failed</h2>
             <p className="text-muted-foreground mb-6">
-              The verification link is invalid or has expired. Please request a new verification email.
+              The verification link is invalid or has expired. Enter the code from the email, or request a new one.
             </p>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="email">Email Address</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="Enter your email address"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="mt-1"
-                />
-              </div>
-              <Button 
-                onClick={resendVerificationEmail}
-                disabled={isResending}
-                className="w-full"
-              >
-                {isResending ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Sending...
-                  </>
-                ) : (
-                  <>
-                    <Mail className="h-4 w-4 mr-2" />
-                    Resend Verification Email
-                  </>
-                )}
-              </Button>
-            </div>
+            {codeForm}
           </div>
         );
 
-      case 'resend':
+      case 'code':
         return (
           <div className="text-center">
             <Mail className="h-16 w-16 mx-auto mb-4 text-primary" />
             <h2 className="text-2xl font-bold mb-2">Verify Your Email</h2>
             <p className="text-muted-foreground mb-6">
-              Enter your email address to receive a verification link.
+              Enter the 6-digit code we emailed you, or follow the link in that email.
             </p>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="email">Email Address</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="Enter your email address"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="mt-1"
-                />
-              </div>
-              <Button 
-                onClick={resendVerificationEmail}
-                disabled={isResending}
-                className="w-full"
-              >
-                {isResending ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Sending...
-                  </>
-                ) : (
-                  <>
-                    <Mail className="h-4 w-4 mr-2" />
-                    Send Verification Email
-                  </>
-                )}
-              </Button>
-            </div>
+            {codeForm}
           </div>
         );
 
@@ -9,12 +9,16 @@ import { Badge } from '../components/ui/badge';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { useToast } from '../hooks/use-toast';
+import { useDisplayCurrency } from '../hooks/useDisplayCurrency';
+import { formatMoney } from '../lib/currency';
+import DisplayCurrencySelect from '../components/DisplayCurrencySelect';
 
 const EventDetails: FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { events, currentUser } = useEvents();
   const { toast } = useToast();
+  const { displayCurrency, setDisplayCurrency, formatConverted, ratesAsOf } = useDisplayCurrency();
   
   const [paymentReceipt, setPaymentReceipt] = useState<File | null>(null);
   const [paymentAmount, setPaymentAmount] = useState('');
@@ -140,6 +144,10 @@ const EventDetails: FC = () => {
   eventDate.setHours(23, 59, 59, 999);
   const isPastEvent = eventDate < now;
 
+  const eventCurrency = (event.currency || 'USD').toUpperCase();
+  const ticketTiers = Object.entries(event.ticketPricing || {})
+    .filter(([, tier]) => typeof tier?.price === 'number' && tier.slots > 0);
+
   return (
     <div className="min-h-screen pt-16 pb-8 font-poppins">
       <div className="container mx-auto px-4 max-w-4xl">
@@ -211,6 +219,36 @@ const EventDetails: FC = () => {
               </CardContent>
             </Card>
 
+            {/* Ticket prices, optionally converted to the viewer's display currency */}
+            {ticketTiers.length > 0 && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle>Tickets</CardTitle>
+                  <DisplayCurrencySelect value={displayCurrency} onChange={setDisplayCurrency} />
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {ticketTiers.map(([type, tier]) => (
+                    <div key={type} className="flex items-center justify-between">
+                      <span className="capitalize">{type.replace(/([A-Z])/g, ' $1').replace(/For/g, 'for')}</span>
+                      <span className="font-medium">
+                        {formatMoney(tier.price, eventCurrency)}
+                        {formatConverted(tier.price, eventCurrency) && (
+                          <span className="ml-2 text-sm text-muted-foreground">{formatConverted(tier.price, eventCurrency)}</span>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                  {displayCurrency && displayCurrency !== eventCurrency && (
+                    <p className="text-xs text-muted-foreground pt-2">
+                      {ratesAsOf
+                        ? `Converted prices are approximate (rates as of ${new Date(ratesAsOf).toLocaleDateString()}). You pay in ${eventCurrency}.`
+                        : `Exchange rates aren't available, so prices are shown in ${eventCurrency}.`}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Event Status Updates */}
             {eventStatus.status !== 'active' && (
               <Card className="border-destructive/50">
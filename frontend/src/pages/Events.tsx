@@ -1,78 +1,129 @@
-import { useState, useMemo, type FC } from 'react';
+import { useState, useEffect, useRef, type FC } from 'react';
 import { motion } from 'framer-motion';
-import { useEvents } from '../contexts/EventContext';
+import { eventsAPI } from '../lib/api';
+import type { Event } from '../contexts/EventContext';
 import EventCard from '../components/EventCard';
-import SearchFilter from '../components/SearchFilter';
+import SearchFilter, { type EventSearchFilters } from '../components/SearchFilter';
+import DisplayCurrencySelect from '../components/DisplayCurrencySelect';
+import { useDisplayCurrency } from '../hooks/useDisplayCurrency';
+import { Button } from '../components/ui/button';
+
+const PAGE_SIZE = 12;
+
+// Translate the date presets offered by SearchFilter into an explicit range
+const getDateRange = (dateFilter?: string): { startDate?: string; endDate?: string } => {
+  if (!dateFilter) return {};
+  const today = new Date();
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  const endOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 23, 59, 59, 999);
+
+  if (dateFilter === 'today') {
+    return { startDate: startOfDay(today).toISOString(), endDate: endOfDay(today).toISOString() };
+  }
+  if (dateFilter === 'tomorrow') {
+    const t = new Date(); t.setDate(t.getDate() + 1);
+    return { startDate: startOfDay(t).toISOString(), endDate: endOfDay(t).toISOString() };
+  }
+  if (dateFilter === 'week') {
+    const end = new Date(); end.setDate(end.getDate() + 7);
+    return { startDate: startOfDay(today).toISOString(), endDate: endOfDay(end).toISOString() };
+  }
+  if (dateFilter === 'month') {
+    const end = new Date(); end.setMonth(end.getMonth() + 1);
+    return { startDate: startOfDay(today).toISOString(), endDate: endOfDay(end).toISOString() };
+  }
+  if (dateFilter === 'upcoming') {
+    return { startDate: startOfDay(today).toISOString() };
+  }
+  return {};
+};
+
+const fetchEventsPage = async (filters: EventSearchFilters, page: number) => {
+  const response = await eventsAPI.getEvents({
+    page,
+    limit: PAGE_SIZE,
+    search: filters.query || undefined,
+    location: filters.location,
+    country: filters.country,
+    minPrice: filters.minPrice,
+    maxPrice: filters.maxPrice,
+    ...getDateRange(filters.dateFilter),
+  });
+
+  // Normalize to frontend shape: ensure id and creator fields exist
+  const events: Event[] = (response.data?.events || []).map((e: any) => ({
+    ...e,
+    id: e.id || e._id,
+    createdBy: e.createdBy || (e.owner?._id || e.owner),
+    createdByName: e.createdByName || e.owner?.name,
+    createdByAvatar: e.createdByAvatar || e.owner?.displayPicture || e.owner?.avatar || undefined,
+  }));
+
+  return { events, pagination: response.data?.pagination };
+};
 
 const Events: FC = () => {
-  const { events } = useEvents();
-  
-  const [searchQuery, setSearchQuery] = useState('');
-  const [locationFilter, setLocationFilter] = useState('');
-  const [countryFilter, setCountryFilter] = useState('');
-  const [dateFilter, setDateFilter] = useState('');
-
-  const filteredEvents = useMemo(() => {
-    if (!Array.isArray(events)) return [];
-    return events.filter((event: any) => {
-      const matchesQuery = !searchQuery || 
-        event.title?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        event.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        event.creator?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        event.country?.toLowerCase().includes(searchQuery.toLowerCase());
-      
-      const matchesLocation = !locationFilter || 
-        event.location?.toLowerCase().includes(locationFilter.toLowerCase());
-      
-      const matchesCountry = !countryFilter || 
-        event.country?.toLowerCase().includes(countryFilter.toLowerCase());
-
-      // Date filter handling (basic)
-      const matchesDate = (() => {
-        if (!dateFilter) return true;
-        try {
-          const evDate = new Date(event.date);
-          const today = new Date();
-          const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
-          const endOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 23, 59, 59, 999);
-
-          if (dateFilter === 'today') {
-            return evDate >= startOfDay(today) && evDate <= endOfDay(today);
-          }
-          if (dateFilter === 'tomorrow') {
-            const t = new Date(); t.setDate(t.getDate() + 1);
-            return evDate >= startOfDay(t) && evDate <= endOfDay(t);
-          }
-          if (dateFilter === 'week') {
-            const start = startOfDay(today);
-            const end = new Date(); end.setDate(end.getDate() + 7);
-            return evDate >= start && evDate <= endOfDay(end);
-          }
-          if (dateFilter === 'month') {
-            const start = startOfDay(today);
-            const end = new Date(); end.setMonth(end.getMonth() + 1);
-            return evDate >= start && evDate <= endOfDay(end);
-          }
-          if (dateFilter === 'upcoming') {
-            return evDate >= startOfDay(today);
-          }
-        } catch (e) {
-          return true;
-        }
-        return true;
-      })();
-      
-      return matchesQuery && matchesLocation && matchesCountry && matchesDate;
-    });
-  }, [events, searchQuery, locationFilter, countryFilter, dateFilter]);
-
-  const handleSearch = (query: string, location?: string, country?: string, date?: string) => {
-    setSearchQuery(query || '');
-    setLocationFilter(location || '');
-    setCountryFilter(country || '');
-    setDateFilter(date || '');
+  const [filters, setFilters] = useState<EventSearchFilters>({ query: '' });
+  const [events, setEvents] = useState<Event[]>([]);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const { displayCurrency, setDisplayCurrency, formatConverted } = useDisplayCurrency();
+  // Bumped on every filter change so pages requested for older filters are dropped
+  const filtersVersion = useRef(0);
+
+  // Reload the first page whenever the filters change
+  useEffect(() => {
+    let cancelled = false;
+    filtersVersion.current += 1;
+
+    fetchEventsPage(filters, 1)
+      .then(({ events: firstPage, pagination }) => {
+        if (cancelled) return;
+        setEvents(firstPage);
+        setPage(1);
+        setTotal(pagination?.total ?? firstPage.length);
+        setHasMore(!!pagination && pagination.page < pagination.pages);
+      })
+      .catch((err) => {
+        console.error('Failed to fetch events:', err);
+        if (!cancelled) setEvents([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  const handleSearch = (nextFilters: EventSearchFilters) => {
+    setLoading(true);
+    setFilters(nextFilters);
   };
 
+  const handleLoadMore = async () => {
+    const version = filtersVersion.current;
+    try {
+      setLoadingMore(true);
+      const { events: nextPage, pagination } = await fetchEventsPage(filters, page + 1);
+      if (version !== filtersVersion.current) return;
+      setEvents(prev => [...prev, ...nextPage]);
+      setPage(page + 1);
+      setHasMore(!!pagination && pagination.page < pagination.pages);
+    } catch (err) {
+      console.error('Failed to fetch more events:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const hasActiveFilters = !!(filters.query || filters.location || filters.country || filters.dateFilter ||
+    filters.minPrice !== undefined || filters.maxPrice !== undefined);
+
   return (
     <div className="min-h-screen md:pt-16 pt-4 pb-8  md:pb-30 font-poppins">
       <div className="container mx-auto px-4 py-8">
@@ -95,6 +146,9 @@ const Events: FC = () => {
               <SearchFilter onSearch={handleSearch} />
             </div>
           </div>
+          <div className="flex justify-center mt-4">
+            <DisplayCurrencySelect value={displayCurrency} onChange={setDisplayCurrency} />
+          </div>
         </motion.div>
 
         {/* Events Grid */}
@@ -103,21 +157,40 @@ const Events: FC = () => {
           animate={{ opacity: 1 }}
           transition={{ delay: 0.2 }}
         >
-          {filteredEvents.length > 0 ? (
-            <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 md:gap-8 md:max-w-[1500px] mx-auto">
-              {filteredEvents.map((event, index) => (
-                <motion.div
-                  key={event.id}
-                  initial={{ opacity: 0, y: 30 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.1 }}
-                >
-                  <EventCard
-                    event={event}
-                  />
-                </motion.div>
-              ))}
-            </div>
+          {loading ? (
+            <div className="text-center py-20 text-muted-foreground">Loading events...</div>
+          ) : events.length > 0 ? (
+            <>
+              <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 md:gap-8 md:max-w-[1500px] mx-auto">
+                {events.map((event, index) => (
+                  <motion.div
+                    key={event.id}
+                    initial={{ opacity: 0, y: 30 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: (index % PAGE_SIZE) * 0.1 }}
+                  >
+                    <EventCard
+                      event={event}
+                      formatConverted={formatConverted}
+                    />
+                  </motion.div>
+                ))}
+              </div>
+              <div className="text-center mt-10 space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Showing {events.length} of {total} events
+                </p>
+                {hasMore && (
+                  <Button
+                    onClick={handleLoadMore}
+                    disabled={loadingMore}
+                    className="bg-[#00593F] text-white border-0"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load more'}
+                  </Button>
+                )}
+              </div>
+            </>
           ) : (
             <motion.div
               initial={{ opacity: 0, scale: 0.9 }}
@@ -130,7 +203,7 @@ const Events: FC = () => {
                 </div>
                 <h3 className="text-xl font-semibold mb-2">No Events Found</h3>
                 <p className="text-muted-foreground mb-4">
-                  {searchQuery || locationFilter 
+                  {hasActiveFilters
                     ? 'Try adjusting your search criteria'
                     : 'No events available at the moment'
                   }
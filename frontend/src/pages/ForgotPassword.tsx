@@ -0,0 +1,102 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Mail, RefreshCw } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { useToast } from '../hooks/use-toast';
+import { authAPI } from '../lib/api';
+
+const ForgotPassword: FC = () => {
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!email) return;
+
+    setIsSending(true);
+    try {
+      await authAPI.forgotPassword(email);
+      setSent(true);
+    } catch (error) {
+      toast({
+        title: 'Could Not Send Reset Link',
+        description: (error as { response?: { data?: { message?: string } } }).response?.data?.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background/95 to-primary/5 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md"
+      >
+        <Card className="glass-card border-glass-border/30">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold">Forgot Password</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            {sent ? (
+              <div className="text-center">
+                <Mail className="h-16 w-16 mx-auto mb-4 text-primary" />
+                <h2 className="text-2xl font-bold mb-2">Check Your Email</h2>
+                <p className="text-muted-foreground mb-6">
+                  If an account exists for {email}, we sent it a link to reset your password. The link expires in 10 minutes.
+                </p>
+                <Button variant="outline" onClick={() => setSent(false)} className="w-full">
+                  Use a different email
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <p className="text-muted-foreground text-center">
+                  Enter the email you signed up with and we'll send you a link to choose a new password.
+                </p>
+                <div>
+                  <Label htmlFor="email">Email Address</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="Enter your email address"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="mt-1"
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={isSending} className="w-full bg-[#00593F] text-white">
+                  {isSending ? (
+                    <>
+                      <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                      Sending...
+                    </>
+                  ) : (
+                    'Send Reset Link'
+                  )}
+                </Button>
+              </form>
+            )}
+            <p className="text-center text-sm mt-6">
+              <Link to="/auth" className="text-muted-foreground hover:text-foreground">
+                Back to sign in
+              </Link>
+            </p>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -10,15 +10,20 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
-  RefreshCw
+  RefreshCw,
+  Pencil,
+  Save,
+  Wallet,
+  FileText
 } from 'lucide-react';
 import QRCode from 'qrcode';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Badge } from '../components/ui/badge';
+import { Input } from '../components/ui/input';
 import { useToast } from '../hooks/use-toast';
 import { useEvents } from '../contexts/EventContext';
-import { ticketsAPI } from '../lib/api';
+import { ticketsAPI, invoicesAPI } from '../lib/api';
 
 interface TicketData {
   id: string;
@@ -31,8 +36,19 @@ interface TicketData {
     location: string;
     status: string;
   };
+  booking?: {
+    _id: string;
+    seats?: number;
+    ticketBreakdown?: Array<{ type: string; quantity: number }>;
+    paymentStatus?: string;
+    createdAt?: string;
+  };
   ticketType: string;
   quantity: number;
+  seatIndex?: number;
+  qrToken?: string;
+  attendeeName?: string;
+  attendeeEmail?: string;
   status: string;
   validUntil: string;
   isValid: boolean;
@@ -47,6 +63,7 @@ const MyTickets: FC = () => {
   const [downloading, setDownloading] = useState<string | null>(null);
   const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
   const [showQrModal, setShowQrModal] = useState(false);
+  const [editingAttendee, setEditingAttendee] = useState<{ id: string; name: string } | null>(null);
   const { currentUser, isAuthenticated } = useEvents();
   const { toast } = useToast();
 
@@ -86,19 +103,10 @@ const MyTickets: FC = () => {
 
   const generateQRCode = async (ticket: TicketData) => {
     try {
-      // Create QR code data with ticket information
-      const qrData = {
-        ticketId: ticket.id,
-        ticketNumber: ticket.ticketId,
-        eventId: ticket.event._id,
-        userId: currentUser?.id ?? null,
-        eventTitle: ticket.event.title,
-        eventDate: ticket.event.date,
-        ticketType: ticket.ticketType,
-        isValid: ticket.isValid
-      };
+      // The signed code issued by the server is what scanners verify
+      if (!ticket.qrToken) throw new Error('Ticket has no QR code');
 
-      const qrCodeDataURL = await QRCode.toDataURL(JSON.stringify(qrData), {
+      const qrCodeDataURL = await QRCode.toDataURL(ticket.qrToken, {
         width: 300,
         margin: 2,
         color: {
@@ -119,22 +127,58 @@ const MyTickets: FC = () => {
     }
   };
 
+  const saveBlob = (blob: Blob, filename: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.style.display = 'none';
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  const downloadPass = async (ticketId: string, ticketNumber: string) => {
+    setDownloading(`${ticketId}-pass`);
+    try {
+      const response = await ticketsAPI.downloadPass(ticketId);
+      saveBlob(new Blob([response.data], { type: 'application/vnd.apple.pkpass' }), `ticket-${ticketNumber}.pkpass`);
+    } catch (error) {
+      console.error('Error downloading wallet pass:', error);
+      toast({
+        title: "Error",
+        description: "Wallet passes are not available right now. Please download the PDF instead.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const downloadInvoice = async (bookingId: string) => {
+    setDownloading(`${bookingId}-invoice`);
+    try {
+      const response = await invoicesAPI.downloadForBooking(bookingId);
+      const filename = response.headers['content-disposition']?.match(/filename="(.+)"/)?.[1] || 'invoice.pdf';
+      saveBlob(new Blob([response.data], { type: 'application/pdf' }), filename);
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      toast({
+        title: "Error",
+        description: "Failed to download invoice. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
   const downloadTicket = async (ticketId: string, ticketNumber: string) => {
     setDownloading(ticketId);
     try {
       const response = await ticketsAPI.downloadTicket(ticketId);
-
-      // Convert response to blob for download
-      const blob = new Blob([response.data], { type: 'text/html' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = `ticket-${ticketNumber}.html`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      saveBlob(new Blob([response.data], { type: 'application/pdf' }), `ticket-${ticketNumber}.pdf`);
 
       toast({
         title: "Success",
@@ -155,6 +199,36 @@ const MyTickets: FC = () => {
     }
   };
 
+  const saveAttendeeName = async () => {
+    if (!editingAttendee) return;
+    try {
+      await ticketsAPI.updateAttendee(editingAttendee.id, { name: editingAttendee.name.trim() });
+      setTickets(prev => prev.map(t =>
+        t.id === editingAttendee.id ? { ...t, attendeeName: editingAttendee.name.trim() || undefined } : t
+      ));
+      setEditingAttendee(null);
+    } catch (error) {
+      console.error('Error updating attendee:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the attendee name. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Each booking can hold several tickets (one per guest), shown together
+  const bookingGroups = tickets.reduce<Array<{ key: string; tickets: TicketData[] }>>((groups, ticket) => {
+    const key = ticket.booking?._id || ticket.id;
+    const group = groups.find(g => g.key === key);
+    if (group) {
+      group.tickets.push(ticket);
+    } else {
+      groups.push({ key, tickets: [ticket] });
+    }
+    return groups;
+  }, []);
+
   const getStatusIcon = (status: string, isValid: boolean) => {
     if (!isValid) return <XCircle className="h-4 w-4 text-red-500" />;
     
@@ -237,97 +311,167 @@ const MyTickets: FC = () => {
           </Card>
         ) : (
           <div className="grid gap-6">
-            {tickets.map((ticket) => (
-              <motion.div
-                key={ticket.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.3 }}
-              >
-                <Card className="overflow-hidden">
-                  <CardHeader className="bg-gradient-to-r from-primary/10 to-primary/5">
-                    <div className="flex items-start justify-between">
-                      <div className="space-y-2">
-                        <CardTitle className="text-xl">{ticket.event.title}</CardTitle>
-                        <div className="flex items-center space-x-4 text-sm text-muted-foreground">
-                          <div className="flex items-center space-x-1">
-                            <Calendar className="h-4 w-4" />
-                            <span>{new Date(ticket.event.date).toLocaleDateString()}</span>
-                          </div>
-                          <div className="flex items-center space-x-1">
-                            <Clock className="h-4 w-4" />
-                            <span>{ticket.event.time || 'Time TBA'}</span>
-                          </div>
-                          <div className="flex items-center space-x-1">
-                            <MapPin className="h-4 w-4" />
-                            <span>{ticket.event.location}</span>
+            {bookingGroups.map(({ key, tickets: groupTickets }) => {
+              const { event, booking } = groupTickets[0];
+              const activeCount = groupTickets.filter(t => t.status === 'active').length;
+
+              return (
+                <motion.div
+                  key={key}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3 }}
+                >
+                  <Card className="overflow-hidden">
+                    <CardHeader className="bg-gradient-to-r from-primary/10 to-primary/5">
+                      <div className="flex items-start justify-between">
+                        <div className="space-y-2">
+                          <CardTitle className="text-xl">{event.title}</CardTitle>
+                          <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                            <div className="flex items-center space-x-1">
+                              <Calendar className="h-4 w-4" />
+                              <span>{new Date(event.date).toLocaleDateString()}</span>
+                            </div>
+                            <div className="flex items-center space-x-1">
+                              <Clock className="h-4 w-4" />
+                              <span>{event.time || 'Time TBA'}</span>
+                            </div>
+                            <div className="flex items-center space-x-1">
+                              <MapPin className="h-4 w-4" />
+                              <span>{event.location}</span>
+                            </div>
                           </div>
                         </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        {getStatusIcon(ticket.status, ticket.isValid)}
-                        {getStatusBadge(ticket.status, ticket.isValid)}
-                      </div>
-                    </div>
-                  </CardHeader>
-                  
-                  <CardContent className="p-6">
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-                      <div>
-                        <p className="text-sm font-medium text-muted-foreground">Ticket ID</p>
-                        <p className="font-mono text-sm">{ticket.ticketId}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm font-medium text-muted-foreground">Type</p>
-                        <p className="font-semibold">{getTicketTypeName(ticket.ticketType)}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm font-medium text-muted-foreground">Quantity</p>
-                        <p className="font-semibold">{ticket.quantity} ticket{ticket.quantity > 1 ? 's' : ''}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm font-medium text-muted-foreground">Valid Until</p>
-                        <p className="text-sm">{new Date(ticket.validUntil).toLocaleDateString()}</p>
-                      </div>
-                    </div>
-
-                    <div className="flex items-center justify-between">
-                      <div className="text-sm text-muted-foreground">
-                        Downloaded {ticket.downloadCount} time{ticket.downloadCount !== 1 ? 's' : ''}
-                      </div>
-                      
-                      <div className="flex space-x-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => downloadTicket(ticket.id, ticket.ticketId)}
-                          disabled={!ticket.isValid || downloading === ticket.id}
-                          className="flex items-center space-x-2"
-                        >
-                          {downloading === ticket.id ? (
-                            <RefreshCw className="h-4 w-4 animate-spin" />
-                          ) : (
-                            <Download className="h-4 w-4" />
+                        <div className="flex flex-col items-end gap-2">
+                          <Badge variant="outline">
+                            {activeCount} of {groupTickets.length} ticket{groupTickets.length > 1 ? 's' : ''} active
+                          </Badge>
+                          {booking && ['confirmed', 'refunded'].includes(booking.paymentStatus || '') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => downloadInvoice(booking._id)}
+                              disabled={downloading === `${booking._id}-invoice`}
+                              className="flex items-center space-x-2"
+                            >
+                              {downloading === `${booking._id}-invoice` ? (
+                                <RefreshCw className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <FileText className="h-4 w-4" />
+                              )}
+                              <span>Invoice</span>
+                            </Button>
                           )}
-                          <span>Download</span>
-                        </Button>
-                        
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="flex items-center space-x-2"
-                          disabled={!ticket.isValid}
-                          onClick={() => generateQRCode(ticket)}
-                        >
-                          <QrCode className="h-4 w-4" />
-                          <span>QR Code</span>
-                        </Button>
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
+                    </CardHeader>
+
+                    <CardContent className="p-6 space-y-4">
+                      {groupTickets.map((ticket, index) => (
+                        <div key={ticket.id} className="border rounded-lg p-4">
+                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+                            <div>
+                              <p className="text-sm font-medium text-muted-foreground">Ticket ID</p>
+                              <p className="font-mono text-sm">{ticket.ticketId}</p>
+                            </div>
+                            <div>
+                              <p className="text-sm font-medium text-muted-foreground">Type</p>
+                              <p className="font-semibold">
+                                {getTicketTypeName(ticket.ticketType)}
+                                {ticket.quantity > 1 && ` × ${ticket.quantity}`}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-sm font-medium text-muted-foreground">Attendee</p>
+                              {editingAttendee?.id === ticket.id ? (
+                                <div className="flex items-center space-x-1">
+                                  <Input
+                                    value={editingAttendee.name}
+                                    onChange={(e) => setEditingAttendee({ id: ticket.id, name: e.target.value })}
+                                    placeholder="Guest name"
+                                    className="h-8"
+                                  />
+                                  <Button size="sm" variant="ghost" onClick={saveAttendeeName}>
+                                    <Save className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              ) : (
+                                <div className="flex items-center space-x-1">
+                                  <p className="text-sm">{ticket.attendeeName || `Guest ${index + 1}`}</p>
+                                  {ticket.status === 'active' && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className="h-6 w-6 p-0"
+                                      onClick={() => setEditingAttendee({ id: ticket.id, name: ticket.attendeeName || '' })}
+                                    >
+                                      <Pencil className="h-3 w-3" />
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              {getStatusIcon(ticket.status, ticket.isValid)}
+                              {getStatusBadge(ticket.status, ticket.isValid)}
+                            </div>
+                          </div>
+
+                          <div className="flex items-center justify-between">
+                            <div className="text-sm text-muted-foreground">
+                              Valid until {new Date(ticket.validUntil).toLocaleDateString()} · Downloaded {ticket.downloadCount} time{ticket.downloadCount !== 1 ? 's' : ''}
+                            </div>
+
+                            <div className="flex space-x-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => downloadTicket(ticket.id, ticket.ticketId)}
+                                disabled={!ticket.isValid || downloading === ticket.id}
+                                className="flex items-center space-x-2"
+                              >
+                                {downloading === ticket.id ? (
+                                  <RefreshCw className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Download className="h-4 w-4" />
+                                )}
+                                <span>PDF</span>
+                              </Button>
+
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => downloadPass(ticket.id, ticket.ticketId)}
+                                disabled={!ticket.isValid || downloading === `${ticket.id}-pass`}
+                                className="flex items-center space-x-2"
+                              >
+                                {downloading === `${ticket.id}-pass` ? (
+                                  <RefreshCw className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Wallet className="h-4 w-4" />
+                                )}
+                                <span>Wallet Pass</span>
+                              </Button>
+
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="flex items-center space-x-2"
+                                disabled={!ticket.isValid}
+                                onClick={() => generateQRCode(ticket)}
+                              >
+                                <QrCode className="h-4 w-4" />
+                                <span>QR Code</span>
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              );
+            })}
           </div>
         )}
       </motion.div>
@@ -9,6 +9,7 @@ import { Badge } from '../components/ui/badge';
 
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { paymentReceiptAPI, getAbsoluteImageUrl } from '../lib/api';
+import NotificationPreferences from '../components/NotificationPreferences';
 import { useNavigate, useLocation } from 'react-router-dom';
 
 const Notifications: FC = () => {
@@ -152,6 +153,7 @@ const Notifications: FC = () => {
             </div>
             
             <div className="flex space-x-2">
+              <NotificationPreferences />
               <Button
                 variant="outline"
                 onClick={markAllAsRead}
@@ -0,0 +1,160 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { CheckCircle, Lock, XCircle } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { useToast } from '../hooks/use-toast';
+import { authAPI } from '../lib/api';
+import { authService } from '../lib/auth';
+
+const ResetPassword: FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const token = searchParams.get('token');
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    if (password.length < 6) {
+      toast({
+        title: 'Weak Password',
+        description: 'Password must be at least 6 characters long.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (password !== confirmPassword) {
+      toast({
+        title: 'Password Mismatch',
+        description: 'Passwords do not match. Please try again.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await authAPI.resetPassword({ token, password });
+      // Every existing session was signed out, including this browser's
+      await authService.logout();
+      setDone(true);
+    } catch (error) {
+      toast({
+        title: 'Reset Failed',
+        description: (error as { response?: { data?: { message?: string } } }).response?.data?.message || 'Please request a new reset link.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (!token) {
+      return (
+        <div className="text-center">
+          <XCircle className="h-16 w-16 mx-auto mb-4 text-red-500" />
+          <h2 className="text-2xl font-bold mb-2 text-red-600">Invalid Reset Link</h2>
+          <p className="text-muted-foreground mb-6">
+            This link is missing its reset token. Request a new one and use the link from the email.
+          </p>
+          <Button onClick={() => navigate('/forgot-password')} className="w-full">
+            Request a New Link
+          </Button>
+        </div>
+      );
+    }
+
+    if (done) {
+      return (
+        <div className="text-center">
+          <CheckCircle className="h-16 w-16 mx-auto mb-4 text-green-500" />
+          <h2 className="text-2xl font-bold mb-2 text-green-600">Password Updated</h2>
+          <p className="text-muted-foreground mb-6">
+            You've been signed out on all devices. Sign in with your new password.
+          </p>
+          <Button onClick={() => navigate('/auth')} className="w-full bg-[#00593F] text-white">
+            Sign In
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="new-password">New Password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="new-password"
+              type="password"
+              placeholder="Choose a new password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="pl-10"
+              autoComplete="new-password"
+              required
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="confirm-new-password">Confirm Password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="confirm-new-password"
+              type="password"
+              placeholder="Confirm your new password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="pl-10"
+              autoComplete="new-password"
+              required
+            />
+          </div>
+        </div>
+        <Button type="submit" disabled={isSaving} className="w-full bg-[#00593F] text-white">
+          {isSaving ? 'Saving...' : 'Reset Password'}
+        </Button>
+        <p className="text-center text-sm">
+          <Link to="/forgot-password" className="text-muted-foreground hover:text-foreground">
+            Link expired? Request a new one
+          </Link>
+        </p>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background/95 to-primary/5 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md"
+      >
+        <Card className="glass-card border-glass-border/30">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold">Reset Password</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            {renderContent()}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ResetPassword;